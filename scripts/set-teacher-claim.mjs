@@ -1,9 +1,12 @@
 /**
- * One-time script to set `role: "teacher"` custom claim on a Firebase user.
+ * One-time script to set the `role` and `schoolId` custom claims on a Firebase user.
  *
  * Usage:
- *   node scripts/set-teacher-claim.mjs <USER_UID> <path/to/service-account.json>
+ *   node scripts/set-teacher-claim.mjs <USER_UID> <path/to/service-account.json> [SCHOOL_ID] [ROLE]
  *
+ * SCHOOL_ID defaults to "mvl", ROLE to "teacher" (or "school-admin").
+ * ROLE "admin" sets `{ admin: true, schoolId }` instead: use it once to create the
+ * first administrator, who then approves teachers through /api/admin/teachers.
  * Find the USER_UID in Firebase Console → Authentication → Users → copy UID column.
  * The service account JSON is the same file you used for `wrangler secret put FIREBASE_SERVICE_ACCOUNT`.
  */
@@ -11,13 +14,22 @@
 import { readFileSync } from 'node:fs';
 import { createSign } from 'node:crypto';
 
-const [uid, saPath] = process.argv.slice(2);
+const [uid, saPath, schoolId = 'mvl', role = 'teacher'] = process.argv.slice(2);
 
 if (!uid || !saPath) {
-  console.error('Usage: node scripts/set-teacher-claim.mjs <USER_UID> <path/to/service-account.json>');
+  console.error('Usage: node scripts/set-teacher-claim.mjs <USER_UID> <path/to/service-account.json> [SCHOOL_ID] [ROLE]');
+  process.exit(1);
+}
+if (!['teacher', 'school-admin', 'admin'].includes(role)) {
+  console.error('ROLE must be "teacher", "school-admin" or "admin"');
+  process.exit(1);
+}
+if (!/^[a-z0-9][a-z0-9-]{1,39}$/.test(schoolId)) {
+  console.error('SCHOOL_ID must be 2-40 lowercase letters, digits or hyphens');
   process.exit(1);
 }
 
+const claims = role === 'admin' ? { admin: true, schoolId } : { role, schoolId };
 const sa = JSON.parse(readFileSync(saPath, 'utf8'));
 
 // ── 1. Mint a signed JWT for the service account ──────────────────────────────
@@ -65,7 +77,7 @@ const claimRes = await fetch(
     },
     body: JSON.stringify({
       localId: uid,
-      customAttributes: JSON.stringify({ role: 'teacher' }),
+      customAttributes: JSON.stringify(claims),
     }),
   }
 );
@@ -75,5 +87,5 @@ if (!claimRes.ok) {
   process.exit(1);
 }
 
-console.log(`✓ User ${uid} now has { role: "teacher" } custom claim.`);
+console.log(`✓ User ${uid} now has ${JSON.stringify(claims)} custom claims.`);
 console.log('  The user must sign out and sign back in for the new token to take effect.');
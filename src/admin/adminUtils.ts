@@ -0,0 +1,28 @@
+// src/admin/adminUtils.ts
+import type { Context } from 'hono';
+import type { AdminEnv } from '../utils/verifyTeacherToken';
+import { recordAuditEvent, type AuditEvent } from '../utils/auditLog';
+import type { TeacherScope } from '../teacher/classUtils';
+
+/**
+ * Admins see every class of their school, like a school admin, so the
+ * teacher class helpers (getOwnedClass, findClassWithStudent) serve them too.
+ */
+export function adminScope(c: Context<AdminEnv>): TeacherScope {
+  return { uid: c.get('adminUid'), schoolId: c.get('schoolId'), role: 'school-admin' };
+}
+
+/** Record an admin's change in the audit log */
+export function recordAdminEvent(
+  c: Context<AdminEnv>,
+  event: Pick<AuditEvent, 'type' | 'targetUid' | 'targetEmail' | 'classId' | 'reason'>
+): Promise<void> {
+  return recordAuditEvent(c.env, {
+    ...event,
+    actorUid: c.get('adminUid'),
+    actorRole: 'admin',
+    method: c.req.method,
+    path: c.req.path,
+    ip: c.req.header('cf-connecting-ip') ?? c.req.header('x-forwarded-for') ?? 'unknown',
+  });
+}
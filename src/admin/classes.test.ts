@@ -0,0 +1,113 @@
+// src/admin/classes.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  ENVIRONMENT: 'test',
+} as Env
+
+async function makeApp() {
+  const { default: router } = await import('./classes')
+  const app = new Hono<{ Bindings: Env; Variables: { adminUid: string; schoolId: string } }>()
+  app.use('*', async (c, next) => {
+    c.set('adminUid', 'admin-uid-1')
+    c.set('schoolId', 'gym-nord')
+    await next()
+  })
+  app.route('/', router)
+  return app
+}
+
+const mockClassDoc = {
+  name: 'projects/test-proj/databases/(default)/documents/classes/cls-abc',
+  fields: {
+    name: { stringValue: '11a' },
+    teacherId: { stringValue: 'teacher-uid-1' },
+    schoolId: { stringValue: 'gym-nord' },
+    studentIds: { arrayValue: { values: [] } },
+  },
+}
+
+function teacherDoc(uid: string, schoolId: string, classIds: string[], status?: string) {
+  return {
+    name: `projects/test-proj/databases/(default)/documents/teachers/${uid}`,
+    fields: {
+      uid: { stringValue: uid },
+      email: { stringValue: `${uid}@gym-nord.de` },
+      schoolId: { stringValue: schoolId },
+      classIds: { arrayValue: { values: classIds.map((id) => ({ stringValue: id })) } },
+      ...(status && { status: { stringValue: status } }),
+    },
+  }
+}
+
+function transfer(teacherId: string) {
+  return new Request('http://localhost/cls-abc/transfer', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ teacherId }),
+  })
+}
+
+beforeEach(() => {
+  vi.resetModules()
+  vi.doMock('../utils/firebaseAuth', () => ({
+    getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+  }))
+  vi.doMock('../utils/auditLog', () => ({ recordAuditEvent: vi.fn() }))
+})
+afterEach(() => { vi.unstubAllGlobals() })
+
+describe('POST /api/admin/classes/:classId/transfer', () => {
+  it('moves the class and both teachers\' classIds in one commit', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-1', 'gym-nord', ['cls-abc', 'cls-x']))))
+      .mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-2', 'gym-nord', []))))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}, {}, {}] })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(transfer('teacher-uid-2'), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect((await res.json() as any).teacherId).toBe('teacher-uid-2')
+    const { writes } = JSON.parse(fetchMock.mock.calls[3][1].body)
+    expect(writes).toHaveLength(3)
+    expect(writes[0].update.fields.teacherId).toEqual({ stringValue: 'teacher-uid-2' })
+    // classIds change by array transforms, not by rewriting the lists read earlier
+    expect(writes[1].update.fields).toEqual({})
+    expect(writes[1].updateMask).toEqual({ fieldPaths: [] })
+    expect(writes[1].updateTransforms).toEqual([
+      { fieldPath: 'classIds', appendMissingElements: { values: [{ stringValue: 'cls-abc' }] } },
+    ])
+    expect(writes[2].updateTransforms).toEqual([
+      { fieldPath: 'classIds', removeAllFromArray: { values: [{ stringValue: 'cls-abc' }] } },
+    ])
+    expect(writes[2].currentDocument).toEqual({ exists: true })
+  })
+
+  it('returns 404 when the new owner teaches at another school', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-1', 'gym-nord', ['cls-abc']))))
+      .mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-2', 'mvl', [])))))
+
+    const app = await makeApp()
+    const res = await app.fetch(transfer('teacher-uid-2'), mockEnv)
+    expect(res.status).toBe(404)
+  })
+
+  it('returns 409 when the new owner has been revoked', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-1', 'gym-nord', ['cls-abc']))))
+      .mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-2', 'gym-nord', [], 'revoked')))))
+
+    const app = await makeApp()
+    const res = await app.fetch(transfer('teacher-uid-2'), mockEnv)
+    expect(res.status).toBe(409)
+  })
+})
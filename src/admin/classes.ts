@@ -0,0 +1,93 @@
+// src/admin/classes.ts
+import { Hono } from 'hono';
+import type { Env } from '../index';
+import type { AdminVariables } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { fsCommit, fsGet, fsQuery, type FsWrite } from '../utils/firestore';
+import { schoolFilter } from '../utils/schools';
+import { getOwnedClass } from '../teacher/classUtils';
+import type { ClassDoc, TeacherDoc } from '../teacher/types';
+import { adminScope, recordAdminEvent } from './adminUtils';
+
+type AppEnv = { Bindings: Env; Variables: AdminVariables };
+
+const router = new Hono<AppEnv>();
+
+// GET /api/admin/classes — all classes of the admin's school
+router.get('/', async (c) => {
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const classes = await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'classes' }],
+    where: schoolFilter(c.get('schoolId')),
+    orderBy: [{ field: { fieldPath: 'name' }, direction: 'ASCENDING' }],
+  });
+  return c.json(classes as unknown as ClassDoc[]);
+});
+
+// POST /api/admin/classes/:classId/transfer — hand a class to another teacher
+// Body: { teacherId }. The new owner must be an active teacher of the school.
+// The class, the old and the new owner's classIds change in one commit; the
+// classIds by array transforms, so a class either teacher gained meanwhile stays.
+router.post('/:classId/transfer', async (c) => {
+  const schoolId = c.get('schoolId');
+  const classId = c.req.param('classId');
+  const body = await c.req.json<{ teacherId?: string }>();
+  if (!body.teacherId) return c.json({ success: false, error: 'teacherId is required' }, 400);
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  let cls: ClassDoc;
+  try {
+    cls = await getOwnedClass(projectId, accessToken, classId, adminScope(c));
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+  if (cls.teacherId === body.teacherId) {
+    return c.json({ success: false, error: 'The class already belongs to this teacher' }, 400);
+  }
+
+  const [from, to] = (await Promise.all([
+    fsGet(projectId, accessToken, `teachers/${cls.teacherId}`),
+    fsGet(projectId, accessToken, `teachers/${body.teacherId}`),
+  ])) as Array<TeacherDoc | null>;
+  if (!to || to.schoolId !== schoolId) {
+    return c.json({ success: false, error: 'Teacher not found' }, 404);
+  }
+  if (to.status === 'revoked') {
+    return c.json({ success: false, error: 'Teacher has been revoked' }, 409);
+  }
+
+  const now = new Date().toISOString();
+  const writes: FsWrite[] = [
+    {
+      path: `classes/${classId}`,
+      data: { teacherId: to.uid, updatedAt: now },
+      updateMask: ['teacherId', 'updatedAt'],
+      exists: true,
+    },
+    {
+      path: `teachers/${to.uid}`,
+      appends: { classIds: [classId] },
+      exists: true,
+    },
+  ];
+  if (from) {
+    writes.push({
+      path: `teachers/${cls.teacherId}`,
+      removes: { classIds: [classId] },
+      exists: true,
+    });
+  }
+  await fsCommit(projectId, accessToken, writes);
+
+  await recordAdminEvent(c, {
+    type: 'class_transferred',
+    targetUid: to.uid,
+    targetEmail: to.email || null,
+    classId,
+    reason: `from=${cls.teacherId}`,
+  });
+
+  return c.json({ ...cls, teacherId: to.uid, updatedAt: now });
+});
+
+export default router;
@@ -0,0 +1,83 @@
+// src/admin/questionBank.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  ENVIRONMENT: 'test',
+} as Env
+
+const recordAuditEvent = vi.fn()
+
+async function makeApp() {
+  const { default: router } = await import('./questionBank')
+  const app = new Hono<{ Bindings: Env; Variables: { adminUid: string; schoolId: string } }>()
+  app.use('*', async (c, next) => {
+    c.set('adminUid', 'admin-uid-1')
+    c.set('schoolId', 'gym-nord')
+    await next()
+  })
+  app.route('/', router)
+  return app
+}
+
+function bankDoc(status: string) {
+  return {
+    name: 'projects/test-proj/databases/(default)/documents/questionBank/h1',
+    updateTime: '2026-03-01T10:00:00.000000Z',
+    fields: { contentHash: { stringValue: 'h1' }, status: { stringValue: status } },
+  }
+}
+
+const post = (path: string) => new Request(`http://localhost${path}`, { method: 'POST' })
+
+beforeEach(() => {
+  vi.resetModules()
+  recordAuditEvent.mockClear()
+  vi.doMock('../utils/firebaseAuth', () => ({
+    getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+  }))
+  vi.doMock('../utils/auditLog', () => ({ recordAuditEvent }))
+})
+afterEach(() => { vi.unstubAllGlobals() })
+
+describe('GET /api/admin/question-bank', () => {
+  it('lists pending entries, oldest first', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify([{ document: bankDoc('pending') }])))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/'), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual([{ id: 'h1', contentHash: 'h1', status: 'pending' }])
+    const query = JSON.parse(fetchMock.mock.calls[0][1].body).structuredQuery
+    expect(query.where.fieldFilter.value).toEqual({ stringValue: 'pending' })
+    expect(query.orderBy).toEqual([{ field: { fieldPath: 'createdAt' }, direction: 'ASCENDING' }])
+  })
+})
+
+describe('POST /api/admin/question-bank/:bankId/approve|reject', () => {
+  it('rejects a pending entry and records the review', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(bankDoc('pending'))))
+      .mockResolvedValueOnce(new Response('{}')))
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/h1/reject'), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ status: 'rejected', reviewedBy: 'admin-uid-1' })
+    expect(recordAuditEvent.mock.calls[0][1]).toMatchObject({ type: 'bank_question_rejected', reason: 'bankId=h1' })
+  })
+
+  it('returns 404 for an unknown entry', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response('', { status: 404 })))
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/nope/approve'), mockEnv)
+    expect(res.status).toBe(404)
+    expect(recordAuditEvent).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,45 @@
+// src/admin/questionBank.ts
+import { Hono, type Context } from 'hono';
+import type { Env } from '../index';
+import type { AdminVariables } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { listPendingQuestions, reviewQuestion } from '../utils/questionBank';
+import { recordAdminEvent } from './adminUtils';
+
+type AppEnv = { Bindings: Env; Variables: AdminVariables };
+
+const router = new Hono<AppEnv>();
+
+// GET /api/admin/question-bank — generated questions waiting for review
+// Bank entries are shared by all schools; other students are only served
+// them once an admin approved them.
+router.get('/', async (c) => {
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  return c.json(await listPendingQuestions({ projectId, accessToken }));
+});
+
+async function review(c: Context<AppEnv>, bankId: string, status: 'approved' | 'rejected') {
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  try {
+    const doc = await reviewQuestion({ projectId, accessToken }, bankId, status, c.get('adminUid'));
+    await recordAdminEvent(c, {
+      type: status === 'approved' ? 'bank_question_approved' : 'bank_question_rejected',
+      targetUid: null,
+      targetEmail: null,
+      classId: null,
+      reason: `bankId=${bankId}`,
+    });
+    return c.json(doc);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+}
+
+// POST /api/admin/question-bank/:bankId/approve — serve the entry to all students
+router.post('/:bankId/approve', (c) => review(c, c.req.param('bankId'), 'approved'));
+
+// POST /api/admin/question-bank/:bankId/reject — keep the entry out of sessions
+// Rejected entries stay in the bank so the same question is not inserted again.
+router.post('/:bankId/reject', (c) => review(c, c.req.param('bankId'), 'rejected'));
+
+export default router;
@@ -0,0 +1,141 @@
+// src/admin/teachers.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  ENVIRONMENT: 'test',
+} as Env
+
+async function makeApp() {
+  const { default: router } = await import('./teachers')
+  const app = new Hono<{ Bindings: Env; Variables: { adminUid: string; schoolId: string } }>()
+  app.use('*', async (c, next) => {
+    c.set('adminUid', 'admin-uid-1')
+    c.set('schoolId', 'gym-nord')
+    await next()
+  })
+  app.route('/', router)
+  return app
+}
+
+function teacherDoc(uid: string, schoolId: string) {
+  return {
+    name: `projects/test-proj/databases/(default)/documents/teachers/${uid}`,
+    fields: {
+      uid: { stringValue: uid },
+      displayName: { stringValue: 'Frau Müller' },
+      email: { stringValue: 'mueller@gym-nord.de' },
+      schoolId: { stringValue: schoolId },
+      classIds: { arrayValue: { values: [] } },
+    },
+  }
+}
+
+const updateCustomClaims = vi.fn()
+const recordAuditEvent = vi.fn()
+
+beforeEach(() => {
+  vi.resetModules()
+  updateCustomClaims.mockReset().mockResolvedValue({})
+  recordAuditEvent.mockReset()
+  vi.doMock('../utils/firebaseAuth', () => ({
+    getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+  }))
+  vi.doMock('../utils/firebaseAdmin', () => ({
+    getUserByEmail: vi.fn().mockResolvedValue('teacher-uid-2'),
+    getUserRecord: vi.fn().mockResolvedValue({
+      uid: 'teacher-uid-2',
+      email: 'mueller@gym-nord.de',
+      displayName: 'Frau Müller',
+      customClaims: {},
+    }),
+    updateCustomClaims,
+  }))
+  vi.doMock('../utils/auditLog', () => ({ recordAuditEvent }))
+})
+afterEach(() => { vi.unstubAllGlobals() })
+
+describe('POST /api/admin/teachers (approve)', () => {
+  it('sets the claims, creates the profile and audits the approval', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 404 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}] })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'Mueller@gym-nord.de' }),
+    }), mockEnv)
+
+    expect(res.status).toBe(201)
+    expect(updateCustomClaims).toHaveBeenCalledWith(mockEnv, 'teacher-uid-2', { role: 'teacher', schoolId: 'gym-nord' })
+    const commit = JSON.parse(fetchMock.mock.calls[1][1].body)
+    expect(commit.writes[0].update.fields.status).toEqual({ stringValue: 'active' })
+    expect(commit.writes[0].update.fields.createdAt).toBeDefined()
+    expect(recordAuditEvent).toHaveBeenCalledWith(mockEnv, expect.objectContaining({
+      type: 'teacher_approved',
+      actorUid: 'admin-uid-1',
+      targetUid: 'teacher-uid-2',
+    }))
+  })
+
+  it('returns 409 for a teacher of another school', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-2', 'mvl')))))
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'mueller@gym-nord.de' }),
+    }), mockEnv)
+
+    expect(res.status).toBe(409)
+    expect(updateCustomClaims).not.toHaveBeenCalled()
+  })
+})
+
+describe('DELETE /api/admin/teachers/:uid (revoke)', () => {
+  it('refuses while the teacher still owns classes', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-2', 'gym-nord'))))
+      .mockResolvedValueOnce(new Response(JSON.stringify([
+        { document: { name: 'projects/test-proj/databases/(default)/documents/classes/cls-abc', fields: {} } },
+      ]))))
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/teacher-uid-2', { method: 'DELETE' }), mockEnv)
+
+    expect(res.status).toBe(409)
+    expect((await res.json() as any).classIds).toEqual(['cls-abc'])
+    expect(updateCustomClaims).not.toHaveBeenCalled()
+  })
+
+  it('removes the role claim and marks the profile revoked', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-2', 'gym-nord'))))
+      .mockResolvedValueOnce(new Response(JSON.stringify([{}])))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}] })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/teacher-uid-2', { method: 'DELETE' }), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect(updateCustomClaims).toHaveBeenCalledWith(mockEnv, 'teacher-uid-2', { role: null })
+    const commit = JSON.parse(fetchMock.mock.calls[2][1].body)
+    expect(commit.writes[0].updateMask.fieldPaths).toEqual(['status', 'revokedAt'])
+  })
+
+  it('returns 404 for a teacher of another school', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(JSON.stringify(teacherDoc('teacher-uid-2', 'mvl')))))
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/teacher-uid-2', { method: 'DELETE' }), mockEnv)
+
+    expect(res.status).toBe(404)
+  })
+})
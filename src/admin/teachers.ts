@@ -0,0 +1,169 @@
+// src/admin/teachers.ts
+import { Hono } from 'hono';
+import type { Env } from '../index';
+import type { AdminVariables, TeacherRole } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { fsCommit, fsGet, fsQuery } from '../utils/firestore';
+import { getUserByEmail, getUserRecord, updateCustomClaims } from '../utils/firebaseAdmin';
+import { LEGACY_SCHOOL_ID, schoolFilter } from '../utils/schools';
+import type { TeacherDoc } from '../teacher/types';
+import { recordAdminEvent } from './adminUtils';
+
+type AppEnv = { Bindings: Env; Variables: AdminVariables };
+
+const router = new Hono<AppEnv>();
+
+const STATUSES = ['active', 'revoked'] as const;
+
+// GET /api/admin/teachers?status=active|revoked — teachers of the admin's school
+router.get('/', async (c) => {
+  const schoolId = c.get('schoolId');
+  const status = c.req.query('status');
+  if (status !== undefined && !STATUSES.includes(status as TeacherDoc['status'] & string)) {
+    return c.json({ success: false, error: 'status must be "active" or "revoked"' }, 400);
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const teachers = (await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'teachers' }],
+    where: schoolFilter(schoolId),
+    orderBy: [{ field: { fieldPath: 'displayName' }, direction: 'ASCENDING' }],
+  })) as unknown as TeacherDoc[];
+
+  return c.json(status ? teachers.filter((t) => (t.status ?? 'active') === status) : teachers);
+});
+
+// POST /api/admin/teachers — approve a teacher
+// Body: { email, role?: 'teacher' | 'school-admin' }. The account must exist
+// (the teacher signs up first). Sets the role and schoolId claims, which take
+// effect at the teacher's next sign-in, and creates or reactivates the profile.
+router.post('/', async (c) => {
+  const schoolId = c.get('schoolId');
+  const body = await c.req.json<{ email?: string; role?: string }>();
+  const email = body.email?.trim().toLowerCase();
+  if (!email) return c.json({ success: false, error: 'email is required' }, 400);
+  const role = (body.role ?? 'teacher') as TeacherRole;
+  if (role !== 'teacher' && role !== 'school-admin') {
+    return c.json({ success: false, error: 'role must be "teacher" or "school-admin"' }, 400);
+  }
+
+  let uid: string;
+  try {
+    uid = await getUserByEmail(c.env, email);
+  } catch (e: any) {
+    if (e.message?.startsWith('User not found')) {
+      return c.json({ success: false, error: 'No account for this email; the teacher must sign up first' }, 404);
+    }
+    throw e;
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const [existing, user] = await Promise.all([
+    fsGet(projectId, accessToken, `teachers/${uid}`) as Promise<TeacherDoc | null>,
+    getUserRecord(c.env, uid),
+  ]);
+
+  // Teachers approved before tenancy have a role claim but no schoolId claim
+  const claims = user?.customClaims ?? {};
+  const currentSchool =
+    existing?.schoolId ?? (claims.role ? ((claims.schoolId as string | undefined) ?? LEGACY_SCHOOL_ID) : null);
+  if (currentSchool && currentSchool !== schoolId) {
+    return c.json({ success: false, error: 'Teacher belongs to another school' }, 409);
+  }
+
+  await updateCustomClaims(c.env, uid, { role, schoolId });
+
+  const now = new Date().toISOString();
+  const profile: Record<string, unknown> = {
+    uid,
+    email,
+    displayName: existing?.displayName || user?.displayName || email,
+    schoolId,
+    status: 'active',
+    approvedBy: c.get('adminUid'),
+    ...(!existing && { classIds: [], theme: 'dark', createdAt: now }),
+  };
+  await fsCommit(projectId, accessToken, [
+    { path: `teachers/${uid}`, data: profile, updateMask: [...Object.keys(profile), 'revokedAt'] },
+  ]);
+
+  await recordAdminEvent(c, {
+    type: 'teacher_approved',
+    targetUid: uid,
+    targetEmail: email,
+    classId: null,
+    reason: `role=${role}`,
+  });
+
+  const { revokedAt: _revokedAt, ...rest } = existing ?? ({} as Partial<TeacherDoc>);
+  return c.json({ ...rest, ...profile, role }, existing ? 200 : 201);
+});
+
+// DELETE /api/admin/teachers/:uid — revoke a teacher
+// Removes the role claim and marks the profile revoked; the profile and the
+// teacher's data stay. Refused while the teacher still owns classes: transfer
+// them first (POST /api/admin/classes/:classId/transfer). Tokens issued
+// before the revocation stay valid until they expire (at most an hour).
+router.delete('/:uid', async (c) => {
+  const schoolId = c.get('schoolId');
+  const uid = c.req.param('uid');
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+
+  const teacher = (await fsGet(projectId, accessToken, `teachers/${uid}`)) as TeacherDoc | null;
+  if (!teacher || teacher.schoolId !== schoolId) {
+    return c.json({ success: false, error: 'Teacher not found' }, 404);
+  }
+
+  const owned = await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'classes' }],
+    where: {
+      compositeFilter: {
+        op: 'AND',
+        filters: [
+          schoolFilter(schoolId),
+          { fieldFilter: { field: { fieldPath: 'teacherId' }, op: 'EQUAL', value: { stringValue: uid } } },
+        ],
+      },
+    },
+    select: { fields: [{ fieldPath: 'id' }] },
+  });
+  if (owned.length > 0) {
+    return c.json(
+      {
+        success: false,
+        error: "Transfer the teacher's classes first",
+        classIds: owned.map((cls) => cls.id as string),
+      },
+      409
+    );
+  }
+
+  try {
+    await updateCustomClaims(c.env, uid, { role: null });
+  } catch (e: any) {
+    // A deleted account has no claims left to remove
+    if (!e.message?.startsWith('User not found')) throw e;
+  }
+
+  const revokedAt = new Date().toISOString();
+  await fsCommit(projectId, accessToken, [
+    {
+      path: `teachers/${uid}`,
+      data: { status: 'revoked', revokedAt },
+      updateMask: ['status', 'revokedAt'],
+      exists: true,
+    },
+  ]);
+
+  await recordAdminEvent(c, {
+    type: 'teacher_revoked',
+    targetUid: uid,
+    targetEmail: teacher.email || null,
+    classId: null,
+    reason: 'revoked',
+  });
+
+  return c.json({ success: true, uid, status: 'revoked', revokedAt });
+});
+
+export default router;
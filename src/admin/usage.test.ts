@@ -0,0 +1,93 @@
+// src/admin/usage.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  ENVIRONMENT: 'test',
+} as Env
+
+async function makeApp() {
+  const { default: router } = await import('./usage')
+  const app = new Hono<{ Bindings: Env; Variables: { adminUid: string; schoolId: string } }>()
+  app.use('*', async (c, next) => {
+    c.set('adminUid', 'admin-uid-1')
+    c.set('schoolId', 'gym-nord')
+    await next()
+  })
+  app.route('/', router)
+  return app
+}
+
+const counters = (requests: number, cost: number) => ({
+  requests: { integerValue: String(requests) },
+  inputTokens: { integerValue: String(requests * 100) },
+  outputTokens: { integerValue: String(requests * 200) },
+  costUsd: { doubleValue: cost },
+})
+
+function classRow(id: string, teacherId: string, studentIds: string[]) {
+  return {
+    document: {
+      name: `projects/test-proj/databases/(default)/documents/classes/${id}`,
+      fields: {
+        name: { stringValue: id },
+        teacherId: { stringValue: teacherId },
+        studentIds: { arrayValue: { values: studentIds.map((s) => ({ stringValue: s })) } },
+      },
+    },
+  }
+}
+
+describe('GET /api/admin/usage', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.doMock('../utils/firebaseAuth', () => ({
+      getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+    }))
+  })
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('counts students in several classes once and reports each class', async () => {
+    const usage: Record<string, object> = {
+      'classes/cls-a': counters(3, 0.3),
+      'classes/cls-b': counters(2, 0.2),
+      'users/s1': counters(1, 0.1),
+      'users/s2': counters(2, 0.2),
+    }
+    const fetchMock = vi.fn((url: string, init?: RequestInit) => {
+      if (url.endsWith(':runQuery')) {
+        return Promise.resolve(new Response(JSON.stringify([
+          classRow('cls-a', 'teacher-1', ['s1', 's2']),
+          classRow('cls-b', 'teacher-2', ['s2']),
+        ])))
+      }
+      const { documents } = JSON.parse(init!.body as string) as { documents: string[] }
+      return Promise.resolve(new Response(JSON.stringify(documents.map((name) => {
+        const parent = name.split('/documents/')[1].replace('/aiUsage/2026-10', '')
+        return usage[parent] ? { found: { name, fields: usage[parent] } } : { missing: name }
+      }))))
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/?month=2026-10'), mockEnv)
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body.students).toBe(2)
+    expect(body.totals.requests).toBe(3)
+    expect(body.byClass.map((c: any) => c.classId)).toEqual(['cls-a', 'cls-b'])
+    expect(body.byTeacher['teacher-2'].requests).toBe(2)
+    // The class query and one batchGet for all counter docs
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock.mock.calls[1][0]).toMatch(/:batchGet$/)
+  })
+
+  it('returns 400 for a malformed month', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/?month=10-2026'), mockEnv)
+    expect(res.status).toBe(400)
+  })
+})
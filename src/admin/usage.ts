@@ -0,0 +1,87 @@
+// src/admin/usage.ts
+import { Hono } from 'hono';
+import type { Env } from '../index';
+import type { AdminVariables } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { fsBatchGet, fsQuery } from '../utils/firestore';
+import {
+  addCounters,
+  addGroups,
+  emptyCounters,
+  usagePeriodKeys,
+  withShares,
+  USAGE_MONTH_PATTERN,
+  type AIUsageDoc,
+  type UsageCounters,
+} from '../utils/aiUsage';
+import { schoolFilter } from '../utils/schools';
+import type { ClassDoc } from '../teacher/types';
+
+type AppEnv = { Bindings: Env; Variables: AdminVariables };
+
+const router = new Hono<AppEnv>();
+
+// GET /api/admin/usage?month=YYYY-MM
+// AI usage and estimated cost of the school for one month. Totals, byTask and
+// byProvider count every student of the school's classes once. byClass and
+// byTeacher use the class counters; a call is billed to every class of the
+// student, so these can add up to more than the totals.
+router.get('/', async (c) => {
+  const schoolId = c.get('schoolId');
+  const month = c.req.query('month') ?? usagePeriodKeys().month;
+  if (!USAGE_MONTH_PATTERN.test(month)) {
+    return c.json({ success: false, error: 'month must be YYYY-MM' }, 400);
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const classes = (await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'classes' }],
+    where: schoolFilter(schoolId),
+    select: { fields: [{ fieldPath: 'name' }, { fieldPath: 'teacherId' }, { fieldPath: 'studentIds' }] },
+  })) as unknown as Array<Pick<ClassDoc, 'id' | 'name' | 'teacherId' | 'studentIds'>>;
+  const studentIds = [...new Set(classes.flatMap((cls) => cls.studentIds ?? []))];
+
+  // One batchGet per 100 counter docs instead of one read each
+  const usageDocs = (await fsBatchGet(projectId, accessToken, [
+    ...classes.map((cls) => `classes/${cls.id}/aiUsage/${month}`),
+    ...studentIds.map((uid) => `users/${uid}/aiUsage/${month}`),
+  ])) as Array<AIUsageDoc | null>;
+  const classDocs = usageDocs.slice(0, classes.length);
+  const studentDocs = usageDocs.slice(classes.length);
+
+  const totals = emptyCounters();
+  const byTask = new Map<string, UsageCounters>();
+  const byProvider = new Map<string, UsageCounters>();
+  let activeStudents = 0;
+  for (const doc of studentDocs) {
+    if (!doc) continue;
+    activeStudents++;
+    addCounters(totals, doc);
+    addGroups(byTask, doc.tasks);
+    addGroups(byProvider, doc.providers);
+  }
+
+  const byTeacher = new Map<string, UsageCounters>();
+  const byClass = classes.map((cls, i) => {
+    const counters = emptyCounters();
+    addCounters(counters, classDocs[i] ?? undefined);
+    if (!byTeacher.has(cls.teacherId)) byTeacher.set(cls.teacherId, emptyCounters());
+    addCounters(byTeacher.get(cls.teacherId)!, counters);
+    return { classId: cls.id, name: cls.name, teacherId: cls.teacherId, ...counters };
+  });
+  byClass.sort((a, b) => b.costUsd - a.costUsd || b.outputTokens - a.outputTokens);
+
+  return c.json({
+    schoolId,
+    month,
+    students: studentIds.length,
+    activeStudents,
+    totals,
+    byTask: withShares(byTask, totals),
+    byProvider: withShares(byProvider, totals),
+    byClass,
+    byTeacher: Object.fromEntries(byTeacher),
+  });
+});
+
+export default router;
@@ -10,9 +10,10 @@
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import { APIError } from '../types';
-import { callVisionAI, getTaskModelConfig } from '../utils/callAI';
+import { callVisionAIForTask } from '../utils/callAI';
+import { aiUsageScope } from '../utils/aiQuota';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -168,7 +169,7 @@ function validateAndNormalizeTopics(data: any): AnalysisResult {
 /**
  * Parse request body - supports both JSON and multipart/form-data
  */
-async function parseImageRequest(c: Context<{ Bindings: Env }>): Promise<AnalyzeImageRequest> {
+async function parseImageRequest(c: Context<StudentEnv>): Promise<AnalyzeImageRequest> {
   const contentType = c.req.header('content-type') || '';
 
   if (contentType.includes('multipart/form-data')) {
@@ -208,7 +209,7 @@ async function parseImageRequest(c: Context<{ Bindings: Env }>): Promise<Analyze
   };
 }
 
-export async function handleAnalyzeImage(c: Context<{ Bindings: Env }>) {
+export async function handleAnalyzeImage(c: Context<StudentEnv>) {
   try {
     const { imageBase64, analysisType, gradeLevel } = await parseImageRequest(c);
 
@@ -235,27 +236,23 @@ export async function handleAnalyzeImage(c: Context<{ Bindings: Env }>) {
     });
 
     // =======================================================================
-    // PHASE 1: Get task configuration from models.json
+    // PHASE 1: Build prompt
     // =======================================================================
 
-    const taskConfig = await getTaskModelConfig('analyzeImage');
-    console.log(`[Model Router] Using ${taskConfig.model} for analyzeImage task`);
+    const prompt = buildPrompt(analysisType || 'topic-extraction', gradeLevel);
 
     // =======================================================================
-    // PHASE 2: Build prompt and call AI
+    // PHASE 2: Call AI (model, retries and fallbacks from models.json)
     // =======================================================================
 
-    const prompt = buildPrompt(analysisType || 'topic-extraction', gradeLevel);
-
-    const responseText = await callVisionAI({
-      provider: taskConfig.provider,
-      model: taskConfig.model,
-      imageBase64,
-      prompt,
-      temperature: taskConfig.temperature,
-      maxTokens: taskConfig.maxTokens,
-      env: c.env,
-    });
+    const ai = await callVisionAIForTask(
+      'analyzeImage',
+      { imageBase64, prompt },
+      c.env,
+      aiUsageScope(c)
+    );
+    const responseText = ai.response;
+    console.log(`[Model Router] ${ai.model} (${ai.provider}) served analyzeImage task`);
 
     // =======================================================================
     // PHASE 3: Parse and validate response
@@ -294,15 +291,18 @@ export async function handleAnalyzeImage(c: Context<{ Bindings: Env }>) {
       summary: result.summary,
       suggestedQuestions: result.suggestedQuestions,
       difficulty: result.difficulty,
-      modelUsed: taskConfig.model,
-      providerUsed: taskConfig.provider,
+      modelUsed: ai.model,
+      providerUsed: ai.provider,
     });
 
   } catch (error) {
     console.error('[analyze-image] Error:', error);
 
     if (error instanceof APIError) {
-      return c.json({ success: false, error: error.message }, error.statusCode as any);
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
     }
 
     return c.json(
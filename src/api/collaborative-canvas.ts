@@ -10,9 +10,10 @@
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import { APIError } from '../types';
-import { callVisionAI, getTaskModelConfig } from '../utils/callAI';
+import { callVisionAIForTask } from '../utils/callAI';
+import { aiUsageScope } from '../utils/aiQuota';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -122,7 +123,7 @@ function validateResponse(data: any): CanvasResponse {
 /**
  * Parse request body - supports both JSON and multipart/form-data
  */
-async function parseCanvasRequest(c: Context<{ Bindings: Env }>): Promise<CollaborativeCanvasRequest> {
+async function parseCanvasRequest(c: Context<StudentEnv>): Promise<CollaborativeCanvasRequest> {
   const contentType = c.req.header('content-type') || '';
 
   if (contentType.includes('multipart/form-data')) {
@@ -161,7 +162,7 @@ async function parseCanvasRequest(c: Context<{ Bindings: Env }>): Promise<Collab
   };
 }
 
-export async function handleCollaborativeCanvas(c: Context<{ Bindings: Env }>) {
+export async function handleCollaborativeCanvas(c: Context<StudentEnv>) {
   try {
     const { imageBase64, question, gradeLevel, courseType } = await parseCanvasRequest(c);
 
@@ -191,27 +192,23 @@ export async function handleCollaborativeCanvas(c: Context<{ Bindings: Env }>) {
     });
 
     // =======================================================================
-    // PHASE 1: Get task configuration from models.json
+    // PHASE 1: Build prompt
     // =======================================================================
 
-    const taskConfig = await getTaskModelConfig('collaborativeCanvas');
-    console.log(`[Model Router] Using ${taskConfig.model} for collaborativeCanvas task`);
+    const prompt = buildPrompt(question, gradeLevel, courseType);
 
     // =======================================================================
-    // PHASE 2: Build prompt and call AI
+    // PHASE 2: Call AI (model, retries and fallbacks from models.json)
     // =======================================================================
 
-    const prompt = buildPrompt(question, gradeLevel, courseType);
-
-    const responseText = await callVisionAI({
-      provider: taskConfig.provider,
-      model: taskConfig.model,
-      imageBase64,
-      prompt,
-      temperature: taskConfig.temperature,
-      maxTokens: taskConfig.maxTokens,
-      env: c.env,
-    });
+    const ai = await callVisionAIForTask(
+      'collaborativeCanvas',
+      { imageBase64, prompt },
+      c.env,
+      aiUsageScope(c)
+    );
+    const responseText = ai.response;
+    console.log(`[Model Router] ${ai.model} (${ai.provider}) served collaborativeCanvas task`);
 
     // =======================================================================
     // PHASE 3: Parse and validate response
@@ -229,8 +226,8 @@ export async function handleCollaborativeCanvas(c: Context<{ Bindings: Env }>) {
         success: true,
         text: responseText,
         answer: responseText,
-        modelUsed: taskConfig.model,
-        providerUsed: taskConfig.provider,
+        modelUsed: ai.model,
+        providerUsed: ai.provider,
       });
     }
 
@@ -249,15 +246,18 @@ export async function handleCollaborativeCanvas(c: Context<{ Bindings: Env }>) {
       success: true,
       text: result.answer,
       ...result,
-      modelUsed: taskConfig.model,
-      providerUsed: taskConfig.provider,
+      modelUsed: ai.model,
+      providerUsed: ai.provider,
     });
 
   } catch (error) {
     console.error('[collaborative-canvas] Error:', error);
 
     if (error instanceof APIError) {
-      return c.json({ success: false, error: error.message }, error.statusCode as any);
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
     }
 
     return c.json(
@@ -4,14 +4,27 @@
  *
  * Supports multi-turn chat mode via the optional `chatHistory` field,
  * enabling follow-up questions in the "Wo hängts?" chat popover.
+ *
+ * POST /api/custom-hint/stream returns the same hint as Server-Sent Events:
+ *   event: token  data: {"text": "..."}     (one per model delta)
+ *   event: done   data: {"success": true, "hint": "..."}
+ *   event: error  data: {"success": false, "error": "...", "code"?: "AI_TIMEOUT"}
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import { streamSSE } from 'hono/streaming';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import { APIError } from '../types';
 import { parseJsonWithRepair } from '../utils/repairJson';
-import { callAI, getTaskModelConfig } from '../utils/callAI';
+import { callAIForTask, streamAIForTask } from '../utils/callAI';
+import { aiUsageScope } from '../utils/aiQuota';
 import { sanitizePII } from '../utils/sanitizePII';
+import { createUserRepository } from '../utils/userRepository';
+import {
+  loadTopMisconceptions,
+  misconceptionPromptSection,
+  type StudentMisconception,
+} from '../utils/misconceptionTracker';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -45,6 +58,8 @@ function buildHintPrompt(
   topic?: string,
   difficulty?: number,
   chatHistory?: ChatMessage[],
+  responseFormat: 'json' | 'text' = 'json',
+  misconceptions: StudentMisconception[] = [],
 ): string {
   const hintLevel = hintsUsed || 0;
 
@@ -66,6 +81,11 @@ function buildHintPrompt(
   const topicContext = topic ? `\nThemengebiet: ${topic}` : '';
   const difficultyContext = difficulty ? `\nSchwierigkeitsgrad: ${difficulty}/10` : '';
 
+  const misconceptionSection = misconceptionPromptSection(misconceptions);
+  const misconceptionContext = misconceptionSection
+    ? `\n\n${misconceptionSection}\nWenn einer dieser Fehler zur Aufgabe passt, weise gezielt darauf hin.`
+    : '';
+
   // Build conversation history section for multi-turn chat
   let conversationContext = '';
   if (chatHistory && chatHistory.length > 0) {
@@ -78,7 +98,7 @@ function buildHintPrompt(
   return `Du bist ein erfahrener und einfühlsamer Mathematik-Tutor. Ein Schüler braucht Hilfe bei folgender Aufgabe.
 
 AUFGABE: ${question}
-${topicContext}${difficultyContext}${solutionContext}${userAnswerContext}
+${topicContext}${difficultyContext}${solutionContext}${userAnswerContext}${misconceptionContext}
 
 HINWEIS-LEVEL:
 ${hintLevelDescription}
@@ -94,59 +114,79 @@ REGELN:
 - Wenn der Schüler eine Folgefrage stellt, beantworte sie gezielt
 - Halte die Antwort kurz und prägnant (2-5 Sätze)
 
-WICHTIG: Antworte NUR mit einem JSON-Objekt (kein zusätzlicher Text, kein Markdown-Code-Block).
+${
+  responseFormat === 'text'
+    ? 'WICHTIG: Antworte NUR mit dem Hinweistext selbst (kein JSON, kein Markdown-Code-Block).'
+    : `WICHTIG: Antworte NUR mit einem JSON-Objekt (kein zusätzlicher Text, kein Markdown-Code-Block).
 
 {
   "hint": "Deine Antwort hier..."
+}`
 }`;
 }
 
+/**
+ * The student's most frequent misconceptions, so the hint can address them.
+ * A missing history never blocks the hint.
+ */
+async function loadKnownMisconceptions(c: Context<StudentEnv>): Promise<StudentMisconception[]> {
+  try {
+    const repo = await createUserRepository(c.env, c.get('studentUid'));
+    return await loadTopMisconceptions(repo);
+  } catch (err) {
+    console.warn('[custom-hint] Misconception history unavailable:', err);
+    return [];
+  }
+}
+
+/**
+ * Validate the request and build the prompt shared by the JSON and SSE handlers.
+ */
+function prepareHintPrompt(
+  body: CustomHintRequest,
+  responseFormat: 'json' | 'text',
+  misconceptions: StudentMisconception[] = [],
+): string {
+  const { question, userAnswer, hintsUsed, solution, topic, difficulty, chatHistory } = body;
+  if (!question) {
+    throw new APIError('Missing required field: question', 400);
+  }
+
+  // Sanitize user-supplied text before embedding in AI prompts
+  const safeUserAnswer = sanitizePII(userAnswer);
+  const safeChatHistory = chatHistory?.map((m) => ({
+    ...m,
+    content: sanitizePII(m.content),
+  }));
+
+  const isChatMode = safeChatHistory && safeChatHistory.length > 0;
+  console.log(
+    `[custom-hint] Request: hintsUsed=${hintsUsed || 0}, hasUserAnswer=${!!safeUserAnswer}, chatMode=${isChatMode}, turns=${safeChatHistory?.length ?? 0}, format=${responseFormat}`,
+  );
+
+  return buildHintPrompt(
+    question,
+    safeUserAnswer,
+    hintsUsed,
+    solution,
+    topic,
+    difficulty,
+    safeChatHistory,
+    responseFormat,
+    misconceptions,
+  );
+}
+
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
 
-export async function handleCustomHint(c: Context<{ Bindings: Env }>) {
+export async function handleCustomHint(c: Context<StudentEnv>) {
   try {
     const body = await c.req.json<CustomHintRequest>();
+    const prompt = prepareHintPrompt(body, 'json', await loadKnownMisconceptions(c));
 
-    const { question, userAnswer, hintsUsed, solution, topic, difficulty, chatHistory } = body;
-    if (!question) {
-      throw new APIError('Missing required field: question', 400);
-    }
-
-    // Sanitize user-supplied text before embedding in AI prompts
-    const safeUserAnswer = sanitizePII(userAnswer);
-    const safeChatHistory = chatHistory?.map((m) => ({
-      ...m,
-      content: sanitizePII(m.content),
-    }));
-
-    const isChatMode = safeChatHistory && safeChatHistory.length > 0;
-    console.log(
-      `[custom-hint] Request: hintsUsed=${hintsUsed || 0}, hasUserAnswer=${!!safeUserAnswer}, chatMode=${isChatMode}, turns=${safeChatHistory?.length ?? 0}`,
-    );
-
-    const taskConfig = await getTaskModelConfig('customHint');
-
-    const prompt = buildHintPrompt(
-      question,
-      safeUserAnswer,
-      hintsUsed,
-      solution,
-      topic,
-      difficulty,
-      safeChatHistory,
-    );
-
-    const responseText = await callAI({
-      provider: taskConfig.provider,
-      model: taskConfig.model,
-      prompt,
-      temperature: taskConfig.temperature,
-      maxTokens: taskConfig.maxTokens,
-      systemPrompt: taskConfig.systemPrompt,
-      env: c.env,
-    });
+    const { response: responseText } = await callAIForTask('customHint', prompt, c.env, aiUsageScope(c));
 
     let hint = '';
 
@@ -180,7 +220,10 @@ export async function handleCustomHint(c: Context<{ Bindings: Env }>) {
     console.error('[custom-hint] Error:', error);
 
     if (error instanceof APIError) {
-      return c.json({ success: false, error: error.message }, error.statusCode as any);
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
     }
 
     return c.json(
@@ -193,3 +236,55 @@ export async function handleCustomHint(c: Context<{ Bindings: Env }>) {
     );
   }
 }
+
+// ============================================================================
+// STREAMING HANDLER
+// ============================================================================
+
+export async function handleCustomHintStream(c: Context<StudentEnv>) {
+  let prompt: string;
+  try {
+    const body = await c.req.json<CustomHintRequest>();
+    prompt = prepareHintPrompt(body, 'text', await loadKnownMisconceptions(c));
+  } catch (error) {
+    if (error instanceof APIError) {
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
+    }
+    return c.json({ success: false, error: 'Invalid request body' }, 400);
+  }
+
+  return streamSSE(c, async (stream) => {
+    try {
+      let hint = '';
+
+      const { events } = await streamAIForTask('customHint', prompt, c.env, aiUsageScope(c));
+      for await (const event of events) {
+        if (event.type === 'token') {
+          await stream.writeSSE({ event: 'token', data: JSON.stringify({ text: event.text }) });
+        } else {
+          hint = event.text.trim();
+        }
+      }
+
+      if (!hint) {
+        throw new APIError('AI response did not contain a valid hint', 500);
+      }
+
+      console.log(`[custom-hint] Stream success: hint length=${hint.length} chars`);
+      await stream.writeSSE({ event: 'done', data: JSON.stringify({ success: true, hint }) });
+    } catch (error) {
+      console.error('[custom-hint] Stream error:', error);
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: error instanceof APIError ? error.code : undefined,
+        }),
+      });
+    }
+  });
+}
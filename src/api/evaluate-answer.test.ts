@@ -0,0 +1,124 @@
+// src/api/evaluate-answer.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+import type { StudentEnv } from '../utils/verifyStudentToken'
+
+const mockEnv = { ENVIRONMENT: 'test' } as Env
+
+// Multiple choice question as stored by generate-questions: option b is correct
+const storedSession = {
+  sessionId: 'sess-1',
+  userId: 'student-uid-0123456789',
+  learningPlanItemId: null,
+  topics: [],
+  createdAt: '2026-03-10T12:00:00.000Z',
+  questions: [
+    {
+      id: 'q-1',
+      type: 'multiple-choice',
+      difficulty: 4,
+      topic: 'Ableitungen',
+      subtopic: 'Potenzregel',
+      question: 'Was ist die Ableitung von x²?',
+      solution: '2x',
+      explanation: '',
+      correctFeedback: '',
+      incorrectFeedback: '',
+      hints: [],
+      options: [
+        { id: 'a', text: 'x', isCorrect: false },
+        { id: 'b', text: '2x', isCorrect: true },
+      ],
+    },
+  ],
+}
+
+function fakeRepo(previousAnswer: Record<string, unknown> | null = null) {
+  const docs: Record<string, unknown> = {
+    '': { stats: { correctStreak: 0, lastAnsweredAt: '2026-03-10T08:00:00.000Z' }, streak: 0 },
+    'questionSessions/sess-1': storedSession,
+    'questionSessions/sess-1/answers/q-1': previousAnswer,
+  }
+  return {
+    uid: 'student-uid-0123456789',
+    get: vi.fn(async (path: string) => (docs[path] as Record<string, unknown> | undefined) ?? null),
+    commit: vi.fn().mockResolvedValue(undefined),
+  }
+}
+
+let repo: ReturnType<typeof fakeRepo>
+
+async function makeApp() {
+  vi.doMock('../utils/userRepository', () => ({ createUserRepository: vi.fn(async () => repo) }))
+  const { handleEvaluateAnswer } = await import('./evaluate-answer')
+  const app = new Hono<StudentEnv>()
+  app.use('*', async (c, next) => { c.set('studentUid', 'student-uid-0123456789'); await next() })
+  app.post('/', handleEvaluateAnswer)
+  return app
+}
+
+const answer = (body: Record<string, unknown>) => new Request('http://localhost/', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({ sessionId: 'sess-1', questionId: 'q-1', ...body }),
+})
+
+beforeEach(() => {
+  vi.resetModules()
+  repo = fakeRepo()
+})
+
+describe('POST /api/evaluate-answer', () => {
+  it('grades against the stored question and ignores client questionData', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(answer({
+      userAnswer: 'a',
+      questionData: {
+        type: 'multiple-choice',
+        difficulty: 10,
+        options: [{ id: 'a', text: 'x', isCorrect: true }],
+      },
+    }), mockEnv)
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body).toMatchObject({ isCorrect: false, correctAnswer: 'b', xpEarned: 0, coinsEarned: 0 })
+  })
+
+  it('writes XP and coins as increments next to the answer doc', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(answer({ userAnswer: 'b', hintsUsed: 0, timeSpent: 200 }), mockEnv)
+
+    const body = await res.json() as any
+    expect(body.isCorrect).toBe(true)
+    expect(body.xpEarned).toBe(30)
+    // First answer of the day doubles the coins
+    expect(body.coinsEarned).toBe(4)
+
+    const [writes] = repo.commit.mock.calls[0]
+    expect(writes[0]).toMatchObject({ path: 'questionSessions/sess-1/answers/q-1', exists: false })
+    expect(writes[1]).toMatchObject({
+      path: '',
+      increments: { 'stats.totalXp': 30, 'stats.coins': 4 },
+    })
+    expect(writes[1].data).not.toHaveProperty('stats.totalXp')
+  })
+
+  it('refuses a replayed answer with 409 and awards nothing', async () => {
+    repo = fakeRepo({ questionId: 'q-1', isCorrect: true, xpEarned: 30 })
+    const app = await makeApp()
+    const res = await app.fetch(answer({ userAnswer: 'b' }), mockEnv)
+
+    expect(res.status).toBe(409)
+    expect(repo.commit).not.toHaveBeenCalled()
+  })
+
+  it('maps a lost exists:false race to 409', async () => {
+    repo.commit.mockRejectedValueOnce(Object.assign(new Error('Firestore commit failed: 409'), { status: 409 }))
+    const app = await makeApp()
+    const res = await app.fetch(answer({ userAnswer: 'b' }), mockEnv)
+
+    expect(res.status).toBe(409)
+  })
+})
@@ -3,44 +3,101 @@
  * Migrated from functions/api/evaluate-answer.js
  *
  * Features:
- * - Semantic math equivalence checking (x+1 = 1+x)
+ * - Symbolic equivalence via src/math: (x+1)^2 = x^2+2x+1, \frac{1}{2}x = x/2
  * - Numeric equivalence (1/2 = 0.5)
- * - Algebraic expression parsing
- * - Misconception detection (7 types)
+ * - Randomized identity testing as a backstop (sin(x)^2+cos(x)^2 = 1)
+ * - LaTeX and German notation (0,5 / 6:3 / 2 1/2); ambiguous answers such
+ *   as 1/2x are rejected with 422 AMBIGUOUS_ANSWER and not graded
+ * - Structured free-form answers: equations, inequalities, intervals,
+ *   solution sets, points and vectors (src/math/answers.ts)
+ * - Quantities with units (12,5 km/h, 3 m²): equivalent units are accepted,
+ *   a missing or wrong unit costs the notation points and names the exact error
+ * - Hybrid grading of open proofs (answerType 'proof', AFB III): when the
+ *   deterministic checks cannot decide, the evaluateAnswer AI task grades
+ *   the rubric (utils/aiGrading.ts); uncertain verdicts award no XP and are
+ *   flagged for teacher review (answer doc `review.status: 'pending'`), which
+ *   awards the XP on approval (teacher/reviews.ts). A question answered
+ *   before is refused with 409 before any grading, so replays cost no AI call
+ * - Rubric scoring (approach, calculation, result, notation; see
+ *   utils/scoring.ts): XP and coins scale by the fractional score, so 4 of 5
+ *   correct steps still earn XP
+ * - Misconception detection from the catalogue in src/math/misconceptions.ts,
+ *   scoped to the question's Leitidee/Thema; every detection is counted in
+ *   users/{uid}/misconceptions (utils/misconceptionTracker.ts)
  * - XP calculation with bonuses/penalties
  * - Coin calculation with multipliers
  * - Streak freeze support
+ * - Spaced repetition: the memory item of a review question (`memoryId` in
+ *   the request or on the session question) is reviewed with an FSRS rating
+ *   derived from the result (utils/fsrs.ts); a wrong, skipped or heavily
+ *   hinted answer creates or refreshes a memory item for the question.
+ *   Both are written in the answer's commit
+ * - Server-side answer key: questions are loaded from the stored session,
+ *   XP/coins are persisted atomically to users/{uid}.stats
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
+import type { Question, RubricBreakdown, StoredQuestionSession, Topic } from '../types';
 import { APIError } from '../types';
+import { createUserRepository, type UserRepository } from '../utils/userRepository';
+import { checkEquivalence, type EquivalenceResult } from '../math/equivalence';
+import { checkAnswer, type AnswerResult, type AnswerType } from '../math/answers';
+import { AmbiguousInputError, type Ambiguity } from '../math/parse';
+import { choiceRubric, freeFormRubric, scoreRubric, stepRubric } from '../utils/scoring';
+import { gradeWithAI, type AIGradingResult, type AnswerReview } from '../utils/aiGrading';
+import { aiUsageScope } from '../utils/aiQuota';
+import {
+  detectMisconceptions,
+  type Misconception,
+  type TopicContext,
+} from '../math/misconceptions';
+import { misconceptionWrites } from '../utils/misconceptionTracker';
+import { isValidTimeZone, ratingFromOutcome, type Rating } from '../utils/fsrs';
+import {
+  autoMemoryId,
+  documentToMemory,
+  memoryQuestion,
+  memoryToDocument,
+  newMemory,
+  reviewMemory,
+  shouldRemember,
+  type MemoryItem,
+} from '../utils/memories';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
 interface EvaluateAnswerRequest {
-  apiKey: string;
-  userId: string;
+  sessionId: string;
   questionId: string;
-  questionData: QuestionData;
   userAnswer: string | string[] | { [key: number]: string };
   hintsUsed?: number;
   timeSpent?: number;
   skipped?: boolean;
-  correctStreak?: number;
-  streakFreezeAvailable?: boolean;
-  isFirstQuestionToday?: boolean;
-  dailyStreak?: number;
+  /** Memory item this question reviews (spaced repetition) */
+  memoryId?: string;
+  /** IANA time zone for the memory's next due date */
+  timeZone?: string;
+}
+
+/** Streak and bonus inputs read from users/{uid} — never from the request */
+interface ServerStats {
+  correctStreak: number;
+  streakFreezes: number;
+  dailyStreak: number;
+  lastAnsweredAt: string | null;
 }
 
 interface QuestionData {
   type: 'multiple-choice' | 'step-by-step' | 'free-form' | 'numeric';
   difficulty: number;
+  question?: string;
   explanation?: string;
   correctAnswer?: string;
   expectedAnswer?: string;
+  answerType?: AnswerType;
   tolerance?: number;
   options?: Array<{
     id: string;
@@ -51,26 +108,13 @@ interface QuestionData {
     stepNumber: number;
     expectedAnswer: string;
     tolerance?: number;
+    weight?: number;
   }>;
-}
-
-interface EquivalenceResult {
-  isEquivalent: boolean;
-  method: 'exact' | 'numeric' | 'algebraic' | 'none';
-  userValue?: number;
-  expectedValue?: number;
-  isClose?: boolean;
-}
-
-interface Misconception {
-  id: string;
-  name: string;
-  description: string;
-  hint: string;
-}
-
-interface MisconceptionPattern extends Misconception {
-  check: (userAnswer: string, expectedAnswer: string) => boolean;
+  /** Session topic of the question, for misconception scoping and tracking */
+  topic?: Topic;
+  context?: TopicContext;
+  /** The stored question, snapshotted into automatically created memories */
+  source?: Question;
 }
 
 interface StepResult {
@@ -90,6 +134,8 @@ interface XPBreakdown {
   timeBonus?: number;
   streakBonus?: number;
   equivalenceBonus?: number;
+  /** Share of the base XP awarded for a partly correct answer */
+  partialCredit?: number;
   total: number;
 }
 
@@ -101,433 +147,228 @@ interface CoinBreakdown {
 }
 
 // ============================================================================
-// SEMANTIC MATH EVALUATION ENGINE
+// SERVER-SIDE QUESTION & STATS LOADING
 // ============================================================================
 
 /**
- * Normalize a mathematical expression for comparison
- * Handles fractions, decimals, and basic algebraic expressions
+ * Convert a generated Question into the evaluator's QuestionData shape.
+ * next-action steps are graded like multiple choice, sort-steps step by step.
  */
-function normalizeExpression(expr: string | number | null | undefined): string {
-  if (expr === null || expr === undefined) return '';
-
-  let normalized = String(expr).trim().toLowerCase();
-
-  // Remove unnecessary spaces
-  normalized = normalized.replace(/\s+/g, '');
-
-  // Normalize common symbols
-  normalized = normalized
-    .replace(/×/g, '*')
-    .replace(/÷/g, '/')
-    .replace(/−/g, '-')
-    .replace(/·/g, '*')
-    .replace(/²/g, '^2')
-    .replace(/³/g, '^3')
-    .replace(/√/g, 'sqrt')
-    .replace(/π/g, 'pi');
-
-  // Remove leading '+' signs
-  normalized = normalized.replace(/^\+/, '');
-
-  // Normalize implicit multiplication (2x -> 2*x)
-  normalized = normalized.replace(/(\d)([a-z])/gi, '$1*$2');
-
-  return normalized;
-}
-
-/**
- * Safe recursive descent math expression parser.
- * Supports: +, -, *, /, ** (power), parentheses, sqrt(), numeric literals, pi, e.
- * Does NOT use Function() or eval().
- */
-function safeEvaluate(expression: string): number {
-  let pos = 0;
-  const expr = expression.replace(/\s+/g, '');
-
-  function parseExpression(): number {
-    let result = parseTerm();
-    while (pos < expr.length) {
-      if (expr[pos] === '+') { pos++; result += parseTerm(); }
-      else if (expr[pos] === '-') { pos++; result -= parseTerm(); }
-      else break;
-    }
-    return result;
-  }
-
-  function parseTerm(): number {
-    let result = parsePower();
-    while (pos < expr.length) {
-      if (expr[pos] === '*' && expr[pos + 1] !== '*') { pos++; result *= parsePower(); }
-      else if (expr[pos] === '/') { pos++; result /= parsePower(); }
-      else break;
-    }
-    return result;
-  }
+function toQuestionData(question: Question): QuestionData {
+  const base = { difficulty: question.difficulty, explanation: question.explanation };
 
-  function parsePower(): number {
-    let result = parseUnary();
-    if (pos < expr.length - 1 && expr[pos] === '*' && expr[pos + 1] === '*') {
-      pos += 2;
-      result = Math.pow(result, parsePower()); // right-associative
+  if (question.type === 'step-by-step' && question.stepByStepData) {
+    const { type, steps, correctOrder } = question.stepByStepData;
+    if (type === 'next-action') {
+      return {
+        ...base,
+        type: 'multiple-choice',
+        options: steps.map((s) => ({ id: s.id, text: s.text, isCorrect: s.id === correctOrder[0] })),
+      };
     }
-    return result;
-  }
-
-  function parseUnary(): number {
-    if (expr[pos] === '-') { pos++; return -parseAtom(); }
-    if (expr[pos] === '+') { pos++; return parseAtom(); }
-    return parseAtom();
+    return {
+      ...base,
+      type: 'step-by-step',
+      steps: correctOrder.map((id, index) => ({
+        stepNumber: index + 1,
+        expectedAnswer: id,
+        weight: steps.find((s) => s.id === id)?.weight,
+      })),
+    };
   }
 
-  function parseAtom(): number {
-    // Parenthesized expression
-    if (expr[pos] === '(') {
-      pos++; // skip '('
-      const result = parseExpression();
-      if (expr[pos] === ')') pos++; // skip ')'
-      return result;
-    }
-
-    // sqrt(...)
-    if (expr.startsWith('sqrt(', pos)) {
-      pos += 5; // skip 'sqrt('
-      const result = parseExpression();
-      if (expr[pos] === ')') pos++; // skip ')'
-      return Math.sqrt(result);
-    }
-
-    // Number literal (including decimals and scientific notation)
-    const numMatch = expr.slice(pos).match(/^(\d+\.?\d*(?:e[+-]?\d+)?)/i);
-    if (numMatch) {
-      pos += numMatch[0].length;
-      return parseFloat(numMatch[0]);
-    }
-
-    throw new Error('Unexpected character in expression');
+  if (question.type === 'free-form') {
+    return {
+      ...base,
+      type: 'free-form',
+      question: question.question,
+      expectedAnswer: question.expectedAnswer,
+      answerType: question.answerType ?? 'expression',
+      tolerance: question.tolerance,
+    };
   }
 
-  const result = parseExpression();
-  if (pos < expr.length) throw new Error('Unexpected trailing characters');
-  return result;
+  return { ...base, type: 'multiple-choice', options: question.options ?? [] };
 }
 
-/**
- * Evaluate a mathematical expression to a numeric value
- * Returns null if expression cannot be evaluated numerically
- */
-function evaluateToNumber(expr: string | number | null | undefined): number | null {
-  try {
-    const normalized = normalizeExpression(expr);
-
-    // Handle common mathematical constants
-    let evalExpr = normalized
-      .replace(/pi/g, String(Math.PI))
-      .replace(/e(?![a-z0-9])/g, String(Math.E))
-      .replace(/\^/g, '**');
-
-    // Handle fractions like "1/2"
-    if (/^-?\d+\/\d+$/.test(evalExpr)) {
-      const [num, denom] = evalExpr.split('/');
-      return parseFloat(num) / parseFloat(denom);
-    }
-
-    // Try safe evaluation for numeric expressions
-    try {
-      const result = safeEvaluate(evalExpr);
-      if (typeof result === 'number' && !isNaN(result) && isFinite(result)) {
-        return result;
-      }
-    } catch {
-      // Fall through to direct parsing
-    }
-
-    // Try direct parsing
-    const direct = parseFloat(normalized);
-    if (!isNaN(direct)) return direct;
-
-    return null;
-  } catch {
-    return null;
+async function loadQuestionData(
+  repo: UserRepository,
+  sessionId: string,
+  questionId: string
+): Promise<QuestionData> {
+  const session = (await repo.get(`questionSessions/${sessionId}`)) as unknown as
+    | StoredQuestionSession
+    | null;
+
+  if (!session) {
+    throw new APIError('Question session not found', 404);
   }
-}
 
-/**
- * Parse algebraic expression into coefficient-variable terms
- * Returns a map of {variable: coefficient}
- */
-function parseAlgebraic(expr: string): Record<string, number> {
-  const normalized = normalizeExpression(expr);
-  const terms: Record<string, number> = {};
-
-  // Split by + and - while keeping the signs
-  const parts = normalized.split(/(?=[+-])/);
-
-  for (const part of parts) {
-    if (!part) continue;
-
-    // Match coefficient and variable(s)
-    const match = part.match(/^([+-]?\d*\.?\d*)\*?([a-z]*)(\^?\d*)?$/i);
-    if (match) {
-      let [, coefStr, variable, power] = match;
-      const coef =
-        coefStr === '' || coefStr === '+' ? 1 : coefStr === '-' ? -1 : parseFloat(coefStr);
-      variable = variable || 'const';
-      power = power ? power.replace('^', '') : '1';
-
-      const key = variable === 'const' ? 'const' : `${variable}^${power}`;
-      terms[key] = (terms[key] || 0) + coef;
-    }
+  const question = session.questions?.find((q) => q.id === questionId);
+  if (!question) {
+    throw new APIError('Question not found in session', 404);
   }
 
-  return terms;
+  const topic =
+    session.topics?.find((t) => t.unterthema === question.subtopic) ??
+    session.topics?.find((t) => t.thema === question.topic) ??
+    (session.topics?.length === 1 ? session.topics[0] : undefined);
+
+  return {
+    ...toQuestionData(question),
+    source: question,
+    topic,
+    context: {
+      leitidee: topic?.leitidee,
+      themen: [topic?.thema, topic?.unterthema, question.topic, question.subtopic].filter(
+        (t): t is string => !!t
+      ),
+    },
+  };
 }
 
-/**
- * Check if two algebraic expressions are equivalent
- */
-function checkAlgebraicEquivalence(expr1: string, expr2: string): boolean {
-  const terms1 = parseAlgebraic(expr1);
-  const terms2 = parseAlgebraic(expr2);
-
-  // Get all unique keys
-  const allKeys = new Set([...Object.keys(terms1), ...Object.keys(terms2)]);
-
-  // Compare each term
-  for (const key of allKeys) {
-    const val1 = terms1[key] || 0;
-    const val2 = terms2[key] || 0;
-    if (Math.abs(val1 - val2) > 0.0001) {
-      return false;
-    }
-  }
-
-  return true;
+function readServerStats(userDoc: Record<string, unknown>): ServerStats {
+  const stats = (userDoc.stats ?? {}) as Record<string, unknown>;
+  return {
+    correctStreak: Number(stats.correctStreak) || 0,
+    streakFreezes: Number(stats.streakFreezes) || 0,
+    dailyStreak: Number(userDoc.streak) || 0,
+    lastAnsweredAt: (stats.lastAnsweredAt as string | undefined) ?? null,
+  };
 }
 
 /**
- * Main equivalence checker combining numeric and algebraic methods
+ * Record the answer and apply the XP/coin delta in one atomic commit.
+ * The answer document is created with an exists:false precondition, so a
+ * replayed request cannot award the same question twice.
  */
-function checkEquivalence(
-  userAnswer: string,
-  expectedAnswer: string,
-  options: { tolerance?: number; type?: string } = {}
-): EquivalenceResult {
-  const { tolerance = 0.0001, type = 'auto' } = options;
-
-  // Normalize both answers
-  const userNorm = normalizeExpression(userAnswer);
-  const expectedNorm = normalizeExpression(expectedAnswer);
-
-  // Direct string match after normalization
-  if (userNorm === expectedNorm) {
-    return { isEquivalent: true, method: 'exact' };
+async function persistEvaluation(
+  repo: UserRepository,
+  sessionId: string,
+  questionId: string,
+  result: {
+    userAnswer: EvaluateAnswerRequest['userAnswer'] | undefined;
+    isCorrect: boolean;
+    skipped: boolean;
+    score: number;
+    rubric: RubricBreakdown | null;
+    /** AI verdict awaiting a teacher's decision */
+    review?: AnswerReview;
+    /** Detected misconceptions, counted per student */
+    misconceptions?: Misconception[];
+    topic?: Topic;
+    /** Reviewed memory item */
+    memory?: MemoryItem | null;
+    xpEarned: number;
+    coinsEarned: number;
+    correctStreak: number;
+    consumedStreakFreeze: boolean;
   }
-
-  // Try numeric evaluation
-  const userNum = evaluateToNumber(userAnswer);
-  const expectedNum = evaluateToNumber(expectedAnswer);
-
-  if (userNum !== null && expectedNum !== null) {
-    if (Math.abs(userNum - expectedNum) <= tolerance) {
-      return {
-        isEquivalent: true,
-        method: 'numeric',
-        userValue: userNum,
-        expectedValue: expectedNum,
-      };
-    }
-    // Close but not within tolerance
-    if (Math.abs(userNum - expectedNum) <= tolerance * 100) {
-      return {
-        isEquivalent: false,
-        method: 'numeric',
-        isClose: true,
-        userValue: userNum,
-        expectedValue: expectedNum,
-      };
-    }
+): Promise<void> {
+  const answeredAt = new Date().toISOString();
+  const increments: Record<string, number> = {
+    'stats.totalXp': result.xpEarned,
+    'stats.coins': result.coinsEarned,
+  };
+  if (result.consumedStreakFreeze) {
+    increments['stats.streakFreezes'] = -1;
   }
 
-  // Try algebraic equivalence for expressions with variables
-  if (/[a-z]/i.test(userNorm) && /[a-z]/i.test(expectedNorm)) {
-    if (checkAlgebraicEquivalence(userNorm, expectedNorm)) {
-      return { isEquivalent: true, method: 'algebraic' };
+  try {
+    await repo.commit([
+      {
+        path: `questionSessions/${sessionId}/answers/${questionId}`,
+        data: {
+          questionId,
+          sessionId,
+          userAnswer:
+            typeof result.userAnswer === 'string'
+              ? result.userAnswer
+              : JSON.stringify(result.userAnswer ?? null),
+          isCorrect: result.isCorrect,
+          skipped: result.skipped,
+          score: result.score,
+          ...(result.rubric && { rubric: result.rubric }),
+          ...(result.review && { review: result.review }),
+          xpEarned: result.xpEarned,
+          coinsEarned: result.coinsEarned,
+          answeredAt,
+        },
+        exists: false,
+      },
+      {
+        path: '',
+        data: { stats: { correctStreak: result.correctStreak, lastAnsweredAt: answeredAt } },
+        updateMask: ['stats.correctStreak', 'stats.lastAnsweredAt'],
+        increments,
+      },
+      ...misconceptionWrites(result.misconceptions ?? [], result.topic ?? null, answeredAt),
+      ...(result.memory
+        ? [{ path: `memories/${result.memory.id}`, data: memoryToDocument(result.memory) }]
+        : []),
+    ]);
+  } catch (err: any) {
+    if (err?.status === 409) {
+      throw new APIError('Question already answered', 409);
     }
+    throw err;
   }
-
-  return { isEquivalent: false, method: 'none' };
 }
 
 // ============================================================================
-// MISCONCEPTION DETECTOR
+// MAIN EVALUATION HANDLER
 // ============================================================================
 
-/**
- * Common mathematical misconceptions and their detection patterns
- */
-const MISCONCEPTIONS: MisconceptionPattern[] = [
-  {
-    id: 'sign_error',
-    name: 'Vorzeichenfehler',
-    description: 'Das Vorzeichen wurde verwechselt',
-    check: (user, expected) => {
-      const userNum = evaluateToNumber(user);
-      const expectedNum = evaluateToNumber(expected);
-      if (userNum !== null && expectedNum !== null) {
-        return Math.abs(userNum + expectedNum) < 0.0001;
-      }
-      return false;
-    },
-    hint: 'Überprüfe die Vorzeichen in deiner Rechnung.',
-  },
-  {
-    id: 'factor_error',
-    name: 'Faktor vergessen',
-    description: 'Ein Faktor wurde vergessen oder hinzugefügt',
-    check: (user, expected) => {
-      const userNum = evaluateToNumber(user);
-      const expectedNum = evaluateToNumber(expected);
-      if (userNum !== null && expectedNum !== null && expectedNum !== 0) {
-        const ratio = userNum / expectedNum;
-        return [2, 0.5, 10, 0.1, Math.PI, 1 / Math.PI].some(
-          (factor) => Math.abs(ratio - factor) < 0.001
-        );
-      }
-      return false;
-    },
-    hint: 'Überprüfe, ob du alle Faktoren berücksichtigt hast.',
-  },
-  {
-    id: 'fraction_flip',
-    name: 'Bruch umgekehrt',
-    description: 'Zähler und Nenner wurden vertauscht',
-    check: (user, expected) => {
-      const userNum = evaluateToNumber(user);
-      const expectedNum = evaluateToNumber(expected);
-      if (userNum !== null && expectedNum !== null && userNum !== 0) {
-        return Math.abs(userNum * expectedNum - 1) < 0.0001;
-      }
-      return false;
-    },
-    hint: 'Überprüfe, ob Zähler und Nenner in der richtigen Position sind.',
-  },
-  {
-    id: 'order_of_operations',
-    name: 'Rechenreihenfolge',
-    description: 'Punkt vor Strich nicht beachtet',
-    check: (user, expected) => {
-      // This is hard to detect generically, check for common patterns
-      return false;
-    },
-    hint: 'Denke an die Rechenreihenfolge: Klammern, Potenzen, Punkt vor Strich.',
-  },
-  {
-    id: 'power_error',
-    name: 'Potenzfehler',
-    description: 'Fehler beim Potenzieren',
-    check: (user, expected) => {
-      const userNum = evaluateToNumber(user);
-      const expectedNum = evaluateToNumber(expected);
-      if (userNum !== null && expectedNum !== null && expectedNum > 0) {
-        // Check if user squared instead of not, or vice versa
-        return (
-          Math.abs(userNum - Math.sqrt(expectedNum)) < 0.001 ||
-          Math.abs(userNum - expectedNum * expectedNum) < 0.001
-        );
-      }
-      return false;
-    },
-    hint: 'Überprüfe die Potenz- und Wurzeloperationen.',
-  },
-  {
-    id: 'decimal_error',
-    name: 'Kommafehler',
-    description: 'Das Dezimalkomma wurde falsch gesetzt',
-    check: (user, expected) => {
-      const userNum = evaluateToNumber(user);
-      const expectedNum = evaluateToNumber(expected);
-      if (userNum !== null && expectedNum !== null && expectedNum !== 0) {
-        const ratio = userNum / expectedNum;
-        return [10, 100, 1000, 0.1, 0.01, 0.001].some(
-          (factor) => Math.abs(ratio - factor) < 0.0001
-        );
-      }
-      return false;
-    },
-    hint: 'Überprüfe die Position des Dezimalkommas.',
-  },
-  {
-    id: 'unit_conversion',
-    name: 'Einheitenfehler',
-    description: 'Einheiten wurden nicht korrekt umgerechnet',
-    check: (user, expected) => {
-      const userNum = evaluateToNumber(user);
-      const expectedNum = evaluateToNumber(expected);
-      if (userNum !== null && expectedNum !== null && expectedNum !== 0) {
-        const ratio = userNum / expectedNum;
-        // Common unit conversion factors
-        return [60, 1 / 60, 3600, 1 / 3600, 1000, 0.001, 100, 0.01].some(
-          (factor) => Math.abs(ratio - factor) < 0.0001
-        );
-      }
-      return false;
-    },
-    hint: 'Überprüfe, ob du alle Einheiten korrekt umgerechnet hast.',
-  },
-];
+export async function handleEvaluateAnswer(c: Context<StudentEnv>) {
+  try {
+    const body = await c.req.json<EvaluateAnswerRequest>();
+    const { sessionId, questionId, userAnswer, hintsUsed, timeSpent } = body;
+    const userId = c.get('studentUid');
+    const skipped = body.skipped === true;
 
-/**
- * Detect misconceptions in the user's answer
- */
-function detectMisconceptions(userAnswer: string, expectedAnswer: string): Misconception[] {
-  const detected: Misconception[] = [];
-
-  for (const misconception of MISCONCEPTIONS) {
-    try {
-      if (misconception.check(userAnswer, expectedAnswer)) {
-        detected.push({
-          id: misconception.id,
-          name: misconception.name,
-          description: misconception.description,
-          hint: misconception.hint,
-        });
-      }
-    } catch {
-      // Ignore check errors
+    // Validate required fields
+    if (!sessionId || !questionId || (userAnswer === undefined && !skipped)) {
+      throw new APIError('Missing required fields: sessionId, questionId, userAnswer', 400);
     }
-  }
 
-  return detected;
-}
+    const repo = await createUserRepository(c.env, userId);
 
-// ============================================================================
-// MAIN EVALUATION HANDLER
-// ============================================================================
+    if (body.timeZone !== undefined && !isValidTimeZone(body.timeZone)) {
+      throw new APIError(`Invalid timeZone: ${body.timeZone}`, 400);
+    }
 
-export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
-  try {
-    const body = await c.req.json<EvaluateAnswerRequest>();
-    const {
-      questionData,
-      userAnswer,
-      hintsUsed,
-      timeSpent,
-      skipped,
-      correctStreak,
-      streakFreezeAvailable,
-    } = body;
+    const [questionData, userDoc, previousAnswer] = await Promise.all([
+      loadQuestionData(repo, sessionId, questionId),
+      repo.get(''),
+      repo.get(`questionSessions/${sessionId}/answers/${questionId}`),
+    ]);
 
-    // Validate required fields
-    if (!questionData || userAnswer === undefined) {
-      throw new APIError('Missing required fields: questionData, userAnswer', 400);
+    if (!userDoc) {
+      throw new APIError('User not found', 404);
+    }
+    // Checked before grading so a replay cannot trigger (and bill) an AI
+    // call; the exists:false precondition in persistEvaluation covers races
+    if (previousAnswer) {
+      throw new APIError('Question already answered', 409);
+    }
+
+    // Review questions from build-session name their memory item
+    const memoryId = body.memoryId ?? questionData.source?.memoryId;
+    const memoryDoc = memoryId ? await repo.get(`memories/${memoryId}`) : null;
+    if (body.memoryId && !memoryDoc) {
+      throw new APIError('Memory item not found', 404);
     }
 
+    const stats = readServerStats(userDoc);
+    const correctStreak = stats.correctStreak;
+
     let isCorrect = false;
     let correctAnswer: string | string[] | null = null;
     let feedback = '';
-    let equivalenceResult: EquivalenceResult | StepResult[] | null = null;
+    let equivalenceResult: EquivalenceResult | AnswerResult | StepResult[] | null = null;
     let misconceptions: Misconception[] = [];
+    let rubric: RubricBreakdown = choiceRubric(false);
+    let aiGrading: AIGradingResult | null = null;
 
     // ========================================================================
     // PHASE 1: Evaluate based on question type
@@ -537,6 +378,7 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
       // Multiple Choice Evaluation
       correctAnswer = questionData.options?.find((opt) => opt.isCorrect)?.id || null;
       isCorrect = userAnswer === correctAnswer;
+      rubric = choiceRubric(isCorrect);
 
       if (isCorrect) {
         feedback = `Richtig! ${questionData.explanation || ''}`;
@@ -548,23 +390,35 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
       }
     } else if (questionData.type === 'step-by-step') {
       // Step-by-Step Evaluation
+      const ambiguities: Array<Ambiguity & { stepNumber: number }> = [];
       const stepResults: StepResult[] =
         questionData.steps?.map((step, index) => {
           const userStepAnswer = Array.isArray(userAnswer)
             ? userAnswer[index]
-            : typeof userAnswer === 'object'
+            : userAnswer && typeof userAnswer === 'object'
             ? (userAnswer as any)[index]
             : '';
           const expected = step.expectedAnswer;
           const tolerance = step.tolerance || 0.01;
 
           // Use semantic equivalence check
-          const result = checkEquivalence(String(userStepAnswer), expected, { tolerance });
+          let result: EquivalenceResult;
+          try {
+            result = checkEquivalence(String(userStepAnswer), expected, { tolerance });
+          } catch (err) {
+            if (!(err instanceof AmbiguousInputError)) throw err;
+            ambiguities.push(...err.ambiguities.map((a) => ({ ...a, stepNumber: step.stepNumber })));
+            result = { isEquivalent: false, method: 'none' };
+          }
 
           // Detect misconceptions for wrong answers
           let stepMisconceptions: Misconception[] = [];
           if (!result.isEquivalent) {
-            stepMisconceptions = detectMisconceptions(String(userStepAnswer), expected);
+            stepMisconceptions = detectMisconceptions(
+              String(userStepAnswer),
+              expected,
+              questionData.context
+            );
           }
 
           return {
@@ -578,7 +432,17 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
           };
         }) || [];
 
-      isCorrect = stepResults.every((r) => r.correct);
+      // Nothing is graded until every step can be read unambiguously
+      if (ambiguities.length > 0) throw new AmbiguousInputError(ambiguities);
+
+      isCorrect = stepResults.length > 0 && stepResults.every((r) => r.correct);
+      rubric = stepRubric(
+        stepResults.map((r, index) => ({
+          stepNumber: r.stepNumber,
+          correct: r.correct,
+          weight: questionData.steps?.[index]?.weight,
+        }))
+      );
       correctAnswer = questionData.steps?.map((s) => s.expectedAnswer) || [];
 
       // Collect all misconceptions
@@ -614,6 +478,10 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
             .join(', ')} warst du nahe dran!`;
         }
 
+        if (rubric.score > 0) {
+          detailedFeedback += `\nTeilpunkte: ${Math.round(rubric.score * 100)} %`;
+        }
+
         detailedFeedback += `\n\n${questionData.explanation || ''}`;
         feedback = detailedFeedback;
       }
@@ -624,22 +492,33 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
       const expected = questionData.correctAnswer || questionData.expectedAnswer || '';
       const tolerance = questionData.tolerance || 0.01;
 
-      const result = checkEquivalence(String(userAnswer), expected, { tolerance });
+      const answerType = questionData.answerType ?? 'expression';
+
+      const result = checkAnswer(String(userAnswer), expected, answerType, { tolerance });
       isCorrect = result.isEquivalent;
       correctAnswer = expected;
       equivalenceResult = result;
+      rubric = freeFormRubric(result, answerType);
 
-      if (!isCorrect) {
-        misconceptions = detectMisconceptions(String(userAnswer), expected);
+      if (result.misconception) {
+        misconceptions = [result.misconception];
+      } else if (!isCorrect && answerType === 'expression') {
+        misconceptions = detectMisconceptions(String(userAnswer), expected, questionData.context);
       }
 
       if (isCorrect) {
         feedback = `Richtig! ${questionData.explanation || ''}`;
-        if (result.method === 'algebraic') {
+        if (result.method === 'algebraic' || result.method === 'identity') {
           feedback = `Richtig! Deine Antwort ist algebraisch äquivalent. ${
             questionData.explanation || ''
           }`;
         }
+      } else if (rubric.score > 0) {
+        feedback = `Teilweise richtig. Die richtige Antwort ist ${expected}. `;
+        if (result.detail) {
+          feedback += `${result.detail} `;
+        }
+        feedback += `\n${questionData.explanation || ''}`;
       } else {
         feedback = `Leider falsch. Die richtige Antwort ist ${expected}. `;
 
@@ -647,6 +526,10 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
           feedback += `Du warst sehr nahe dran! `;
         }
 
+        if (result.detail) {
+          feedback += `${result.detail} `;
+        }
+
         if (misconceptions.length > 0) {
           feedback += '\n\nMögliche Fehlerquellen:\n';
           misconceptions.forEach((m) => {
@@ -656,7 +539,78 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
 
         feedback += `\n${questionData.explanation || ''}`;
       }
+
+      // Open proofs the deterministic checks cannot decide go to the AI grader
+      if (answerType === 'proof' && result.method === 'none' && !skipped) {
+        aiGrading = await gradeWithAI(
+          {
+            question: questionData.question ?? '',
+            expectedAnswer: expected,
+            userAnswer: String(userAnswer),
+            explanation: questionData.explanation,
+          },
+          c.env,
+          aiUsageScope(c)
+        );
+
+        if (aiGrading.needsReview) {
+          feedback =
+            'Deine Antwort konnte nicht sicher automatisch bewertet werden und wird von deiner Lehrkraft geprüft.';
+        } else {
+          isCorrect = aiGrading.verdict.isCorrect;
+          rubric = aiGrading.rubric;
+          feedback = `${
+            isCorrect ? 'Richtig!' : rubric.score > 0 ? 'Teilweise richtig.' : 'Leider nicht richtig.'
+          } ${aiGrading.verdict.feedback}\n${questionData.explanation || ''}`;
+        }
+      }
+    }
+
+    // The memory item is reviewed with a rating derived from the result; a
+    // question worth repeating gets one. An answer awaiting teacher review
+    // leaves the schedule unchanged
+    let memoryRating: Rating | null = null;
+    let reviewedMemory: MemoryItem | null = null;
+    let memoryCreated = false;
+    if (!aiGrading?.needsReview) {
+      const outcome = {
+        isCorrect,
+        score: rubric.score,
+        skipped,
+        hintsUsed,
+        timeSpent,
+        expectedTime: (questionData.difficulty || 5) * 60,
+      };
+
+      let memory = memoryDoc ? documentToMemory(memoryDoc) : null;
+      if (!memory && questionData.source && shouldRemember(outcome)) {
+        const { source } = questionData;
+        const autoId = autoMemoryId(sessionId, questionId, source.bankId);
+        const existing = await repo.get(`memories/${autoId}`);
+        memoryCreated = !existing;
+        memory = existing
+          ? documentToMemory(existing)
+          : newMemory(autoId, userId, {
+              questionId,
+              questionText: source.question,
+              topic: source.topic,
+              subtopic: source.subtopic,
+              difficulty: source.difficulty,
+              question: memoryQuestion(source),
+            });
+      }
+
+      if (memory) {
+        memoryRating = ratingFromOutcome(outcome);
+        reviewedMemory = reviewMemory(memory, memoryRating, { timeZone: body.timeZone });
+      }
     }
+    const memoryReview = reviewedMemory && {
+      memoryId: reviewedMemory.id,
+      created: memoryCreated,
+      rating: memoryRating,
+      nextReview: reviewedMemory.nextReview,
+    };
 
     // ========================================================================
     // PHASE 2: Calculate XP and Coins
@@ -693,9 +647,24 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
 
     // If skipped
     if (skipped) {
+      await persistEvaluation(repo, sessionId, questionId, {
+        userAnswer,
+        isCorrect: false,
+        skipped: true,
+        score: 0,
+        rubric: null,
+        memory: reviewedMemory,
+        xpEarned: 0,
+        coinsEarned: 0,
+        correctStreak: 0,
+        consumedStreakFreeze: false,
+      });
+
       return c.json({
         success: true,
         isCorrect: false,
+        score: 0,
+        rubric: scoreRubric([]),
         feedback: 'Frage übersprungen',
         correctAnswer,
         xpEarned: 0,
@@ -714,21 +683,104 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
         },
         misconceptions: [],
         equivalenceResult: null,
+        ...(memoryReview && { memoryReview }),
+      });
+    }
+
+    // An uncertain AI verdict awards nothing until a teacher has reviewed it
+    if (aiGrading?.needsReview) {
+      const { reason, verdict, model } = aiGrading;
+      await persistEvaluation(repo, sessionId, questionId, {
+        userAnswer,
+        isCorrect: false,
+        skipped: false,
+        score: 0,
+        rubric: null,
+        review: {
+          status: 'pending',
+          reason,
+          model,
+          confidence: verdict?.confidence ?? null,
+          suggestedIsCorrect: verdict?.isCorrect ?? null,
+          suggestedScore: verdict ? scoreRubric(verdict.criteria).score : null,
+          suggestedRubric: verdict ? scoreRubric(verdict.criteria) : null,
+          evidence: verdict?.evidence ?? [],
+          question: questionData.question ?? '',
+          expectedAnswer: typeof correctAnswer === 'string' ? correctAnswer : '',
+          baseXp,
+          baseCoins,
+        },
+        xpEarned: 0,
+        coinsEarned: 0,
+        correctStreak,
+        consumedStreakFreeze: false,
+      });
+
+      return c.json({
+        success: true,
+        isCorrect: false,
+        pendingReview: true,
+        score: 0,
+        rubric: scoreRubric([]),
+        feedback,
+        correctAnswer,
+        xpEarned: 0,
+        coinsEarned: 0,
+        xpBreakdown: {
+          base: baseXp,
+          hintPenalty: 0,
+          timePenalty: 0,
+          bonuses: 0,
+          total: 0,
+        },
+        coinBreakdown: {
+          base: baseCoins,
+          multiplier: 0,
+          total: 0,
+        },
+        misconceptions: [],
+        equivalenceResult,
       });
     }
 
+    const aiSummary =
+      aiGrading && !aiGrading.needsReview
+        ? {
+            confidence: aiGrading.verdict.confidence,
+            evidence: aiGrading.verdict.evidence,
+            model: aiGrading.model,
+          }
+        : undefined;
+
+    // A streak freeze (bought in the shop) protects a streak of 5+ and is consumed
+    const streakFrozen = !isCorrect && stats.streakFreezes > 0 && correctStreak >= 5;
+    if (streakFrozen) {
+      feedback += '\n\n❄️ Dein Streak wurde durch ein Streak-Freeze geschützt!';
+    }
+    const nextStreak = isCorrect ? correctStreak + 1 : streakFrozen ? correctStreak : 0;
+
     // If wrong, no XP but provide misconception feedback
-    if (!isCorrect) {
-      // Check for streak freeze
-      let streakFrozen = false;
-      if (streakFreezeAvailable && correctStreak && correctStreak >= 5) {
-        streakFrozen = true;
-        feedback += '\n\n❄️ Dein Streak wurde durch ein Streak-Freeze geschützt!';
-      }
+    if (rubric.score === 0) {
+      await persistEvaluation(repo, sessionId, questionId, {
+        userAnswer,
+        isCorrect: false,
+        skipped: false,
+        score: 0,
+        rubric,
+        misconceptions,
+        topic: questionData.topic,
+        memory: reviewedMemory,
+        xpEarned: 0,
+        coinsEarned: 0,
+        correctStreak: nextStreak,
+        consumedStreakFreeze: streakFrozen,
+      });
 
       return c.json({
         success: true,
         isCorrect: false,
+        score: 0,
+        rubric,
         feedback,
         correctAnswer,
         xpEarned: 0,
@@ -747,12 +799,14 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
         },
         misconceptions,
         equivalenceResult,
+        ...(aiSummary && { aiGrading: aiSummary }),
+        ...(memoryReview && { memoryReview }),
         streakFrozen,
       });
     }
 
     // ========================================================================
-    // PHASE 3: Calculate XP for correct answer
+    // PHASE 3: Calculate XP, scaled by the rubric score
     // ========================================================================
 
     const HINT_PENALTY_MULTIPLIER: Record<number, number> = {
@@ -762,32 +816,35 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
       3: 0.4, // 40%
     };
 
-    let xp = baseXp;
-    const hintMultiplier = HINT_PENALTY_MULTIPLIER[Math.min(hintsUsed || 0, 3)];
-    const hintPenalty = baseXp * (1 - hintMultiplier);
+    // Partly correct answers earn their share of the base XP; bonuses are
+    // reserved for fully correct ones
+    let xp = baseXp * rubric.score;
+    const hintMultiplier = HINT_PENALTY_MULTIPLIER[Math.min(Math.max(hintsUsed || 0, 0), 3)];
+    const hintPenalty = xp * (1 - hintMultiplier);
     xp *= hintMultiplier;
 
     // Time bonus (if very fast - expected time ~60s per difficulty level)
     let timeBonus = 0;
     const expectedTime = (questionData.difficulty || 5) * 60;
-    if (timeSpent && timeSpent < expectedTime * 0.5) {
+    if (isCorrect && timeSpent && timeSpent < expectedTime * 0.5) {
       timeBonus = baseXp * 0.2; // +20% bonus
       xp += timeBonus;
     }
 
     // Streak bonus (5+ correct answers in a row)
     let streakBonus = 0;
-    if (correctStreak && correctStreak >= 5) {
+    if (isCorrect && correctStreak >= 5) {
       streakBonus = xp * 0.5; // +50% bonus
       xp += streakBonus;
-    } else if (correctStreak && correctStreak >= 3) {
+    } else if (isCorrect && correctStreak >= 3) {
       streakBonus = xp * 0.25; // +25% bonus for 3+ streak
       xp += streakBonus;
     }
 
     // Bonus for using semantic equivalence (shows mathematical understanding)
     let equivalenceBonus = 0;
-    if (equivalenceResult && (equivalenceResult as EquivalenceResult).method === 'algebraic') {
+    const equivalenceMethod = (equivalenceResult as AnswerResult | null)?.method;
+    if (isCorrect && (equivalenceMethod === 'algebraic' || equivalenceMethod === 'identity')) {
       equivalenceBonus = baseXp * 0.1; // +10% for algebraic answer
       xp += equivalenceBonus;
     }
@@ -795,42 +852,60 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
     const totalXp = Math.round(xp);
 
     // ========================================================================
-    // PHASE 4: Calculate coins for correct answer
+    // PHASE 4: Calculate coins, scaled by the rubric score
     // ========================================================================
 
     let coinMultiplier = 1.0;
     const coinBonuses: Array<{ type: string; bonus: string }> = [];
 
     // First question of the day bonus (2x multiplier)
-    const isFirstQuestion = (body as any).isFirstQuestionToday || false;
+    const today = new Date().toISOString().slice(0, 10);
+    const isFirstQuestion = !stats.lastAnsweredAt || stats.lastAnsweredAt.slice(0, 10) !== today;
     if (isFirstQuestion) {
       coinMultiplier *= 2.0;
       coinBonuses.push({ type: 'firstQuestion', bonus: 'x2' });
     }
 
     // Streak bonus for coins (5+ days: +50%)
-    if ((body as any).dailyStreak && (body as any).dailyStreak >= 5) {
+    if (stats.dailyStreak >= 5) {
       coinMultiplier *= 1.5;
       coinBonuses.push({ type: 'streakBonus', bonus: '+50%' });
     }
 
     // Perfect answer bonus (no hints, fast time: +25%)
     const isPerfect =
-      (hintsUsed || 0) === 0 && timeSpent && timeSpent < expectedTime * 0.5;
+      isCorrect && (hintsUsed || 0) === 0 && timeSpent && timeSpent < expectedTime * 0.5;
     if (isPerfect) {
       coinMultiplier *= 1.25;
       coinBonuses.push({ type: 'perfect', bonus: '+25%' });
     }
 
-    const totalCoins = Math.round(baseCoins * coinMultiplier);
+    const totalCoins = Math.round(baseCoins * rubric.score * coinMultiplier);
 
     // ========================================================================
-    // PHASE 5: Return response
+    // PHASE 5: Persist and return response
     // ========================================================================
 
+    await persistEvaluation(repo, sessionId, questionId, {
+      userAnswer,
+      isCorrect,
+      skipped: false,
+      score: rubric.score,
+      rubric,
+      misconceptions: isCorrect ? [] : misconceptions,
+      topic: questionData.topic,
+      memory: reviewedMemory,
+      xpEarned: totalXp,
+      coinsEarned: totalCoins,
+      correctStreak: nextStreak,
+      consumedStreakFreeze: streakFrozen,
+    });
+
     return c.json({
       success: true,
-      isCorrect: true,
+      isCorrect,
+      score: rubric.score,
+      rubric,
       feedback,
       correctAnswer,
       xpEarned: totalXp,
@@ -842,6 +917,7 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
         timeBonus: Math.round(timeBonus),
         streakBonus: Math.round(streakBonus),
         equivalenceBonus: Math.round(equivalenceBonus),
+        ...(!isCorrect && { partialCredit: rubric.score }),
         total: totalXp,
       },
       coinBreakdown: {
@@ -850,10 +926,25 @@ export async function handleEvaluateAnswer(c: Context<{ Bindings: Env }>) {
         bonuses: coinBonuses,
         total: totalCoins,
       },
-      misconceptions: [],
+      misconceptions: isCorrect ? [] : misconceptions,
       equivalenceResult,
+      ...(aiSummary && { aiGrading: aiSummary }),
+      ...(memoryReview && { memoryReview }),
+      ...(!isCorrect && { streakFrozen }),
     });
   } catch (error) {
+    if (error instanceof AmbiguousInputError) {
+      return c.json(
+        {
+          success: false,
+          error: 'Die Antwort ist mehrdeutig',
+          code: 'AMBIGUOUS_ANSWER',
+          ambiguities: error.ambiguities,
+        },
+        422
+      );
+    }
+
     console.error('[evaluate-answer] Error:', error);
 
     if (error instanceof APIError) {
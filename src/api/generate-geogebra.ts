@@ -10,10 +10,11 @@
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import { APIError } from '../types';
 import { parseJsonWithRepair } from '../utils/repairJson';
-import { callAI, getTaskModelConfig } from '../utils/callAI';
+import { callAIForTask } from '../utils/callAI';
+import { aiUsageScope } from '../utils/aiQuota';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -145,7 +146,7 @@ function validateAndNormalizeCommands(data: any): GeoGebraResult {
 // MAIN HANDLER
 // ============================================================================
 
-export async function handleGenerateGeogebra(c: Context<{ Bindings: Env }>) {
+export async function handleGenerateGeogebra(c: Context<StudentEnv>) {
   try {
     const body = await c.req.json<Partial<GenerateGeogebraRequest>>();
 
@@ -166,14 +167,7 @@ export async function handleGenerateGeogebra(c: Context<{ Bindings: Env }>) {
     });
 
     // =======================================================================
-    // PHASE 1: Get task configuration from models.json
-    // =======================================================================
-
-    const taskConfig = await getTaskModelConfig('generateGeogebra');
-    console.log(`[Model Router] Using ${taskConfig.model} for generateGeogebra task`);
-
-    // =======================================================================
-    // PHASE 2: Build prompt and call AI
+    // PHASE 1: Build prompt
     // =======================================================================
 
     const prompt = buildPrompt({
@@ -183,15 +177,13 @@ export async function handleGenerateGeogebra(c: Context<{ Bindings: Env }>) {
       gradeLevel,
     });
 
-    const responseText = await callAI({
-      provider: taskConfig.provider,
-      model: taskConfig.model,
-      prompt,
-      temperature: taskConfig.temperature,
-      maxTokens: taskConfig.maxTokens,
-      systemPrompt: taskConfig.systemPrompt,
-      env: c.env,
-    });
+    // =======================================================================
+    // PHASE 2: Call AI (model, retries and fallbacks from models.json)
+    // =======================================================================
+
+    const ai = await callAIForTask('generateGeogebra', prompt, c.env, aiUsageScope(c));
+    const responseText = ai.response;
+    console.log(`[Model Router] ${ai.model} (${ai.provider}) served generateGeogebra task`);
 
     // =======================================================================
     // PHASE 3: Parse and validate response
@@ -220,15 +212,18 @@ export async function handleGenerateGeogebra(c: Context<{ Bindings: Env }>) {
     return c.json({
       success: true,
       ...result,
-      modelUsed: taskConfig.model,
-      providerUsed: taskConfig.provider,
+      modelUsed: ai.model,
+      providerUsed: ai.provider,
     });
 
   } catch (error) {
     console.error('[generate-geogebra] Error:', error);
 
     if (error instanceof APIError) {
-      return c.json({ success: false, error: error.message }, error.statusCode as any);
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
     }
 
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
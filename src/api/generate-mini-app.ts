@@ -7,10 +7,11 @@
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import { APIError } from '../types';
 import { parseJsonWithRepair } from '../utils/repairJson';
-import { callAI, getTaskModelConfig } from '../utils/callAI';
+import { callAIForTask } from '../utils/callAI';
+import { aiUsageScope } from '../utils/aiQuota';
 import { sanitizePII } from '../utils/sanitizePII';
 
 // ============================================================================
@@ -243,7 +244,7 @@ export function validateAndSanitizeApp(appData: any): GeneratedApp {
 // MAIN HANDLER
 // ============================================================================
 
-export async function handleGenerateMiniApp(c: Context<{ Bindings: Env }>) {
+export async function handleGenerateMiniApp(c: Context<StudentEnv>) {
   try {
     const body = await c.req.json<Partial<GenerateMiniAppRequest>>();
 
@@ -263,21 +264,13 @@ export async function handleGenerateMiniApp(c: Context<{ Bindings: Env }>) {
     });
 
     const taskName = isFastMode ? 'generateMiniAppFast' : 'generateMiniApp';
-    const taskConfig = await getTaskModelConfig(taskName as any);
-    console.log(`[Model Router] Using model ${taskConfig.model} from task config`);
 
     const safeDescription = sanitizePII(description);
     const prompt = buildPrompt(safeDescription, complexity, themeColors);
 
-    const responseText = await callAI({
-      provider: taskConfig.provider,
-      model: taskConfig.model,
-      prompt,
-      temperature: taskConfig.temperature,
-      maxTokens: taskConfig.maxTokens,
-      systemPrompt: taskConfig.systemPrompt,
-      env: c.env,
-    });
+    const ai = await callAIForTask(taskName, prompt, c.env, aiUsageScope(c));
+    const responseText = ai.response;
+    console.log(`[Model Router] ${ai.model} (${ai.provider}) served ${taskName} task`);
 
     let appData: any;
     try {
@@ -300,14 +293,17 @@ export async function handleGenerateMiniApp(c: Context<{ Bindings: Env }>) {
     return c.json({
       success: true,
       ...generatedApp,
-      modelUsed: taskConfig.model,
-      providerUsed: taskConfig.provider,
+      modelUsed: ai.model,
+      providerUsed: ai.provider,
     });
   } catch (error) {
     console.error('[generate-mini-app] Error:', error);
 
     if (error instanceof APIError) {
-      return c.json({ success: false, error: error.message }, error.statusCode as any);
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
     }
 
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
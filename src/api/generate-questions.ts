@@ -3,128 +3,98 @@
  * Migrated from functions/api/generate-questions.js
  *
  * Features:
- * - Firestore question caching (7-day cache)
+ * - Sessions drawn from the persistent question bank (unseen questions
+ *   first), with AI generation only topping up the gap
  * - Backend-managed AI model configuration via models.json
  * - AFB-level aware generation
+ * - Free-form questions with structured answer types on request
+ *   (equation, interval, solution-set, …; graded by src/math/answers.ts)
+ * - SSE variant that emits each question as soon as it parses
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
-import type { Topic, UserContext, QuestionSession, Question, QuestionOption, QuestionHint, StepByStepData } from '../types';
+import { streamSSE } from 'hono/streaming';
+import type { StudentEnv } from '../utils/verifyStudentToken';
+import type { Topic, UserContext, QuestionSession, Question, QuestionOption, QuestionHint, StepByStepData, StoredQuestionSession } from '../types';
 import { APIError } from '../types';
-import { extractAndParseJson } from '../utils/repairJson';
-import { callAI, getTaskModelConfig } from '../utils/callAI';
+import { createQuestionStreamParser, extractAndParseJson } from '../utils/repairJson';
+import { callAIForTask, streamAIForTask } from '../utils/callAI';
+import { aiUsageScope } from '../utils/aiQuota';
 import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { createUserRepository, type UserRepository } from '../utils/userRepository';
+import {
+  loadTopMisconceptions,
+  misconceptionPromptSection,
+  type StudentMisconception,
+} from '../utils/misconceptionTracker';
+import { ANSWER_TYPES, parseAnswer, type AnswerType } from '../math/answers';
+import { MathParseError } from '../math/parse';
+import {
+  insertQuestions,
+  markQuestionsSeen,
+  sampleUnseenQuestions,
+  type BankEntry,
+} from '../utils/questionBank';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
 interface GenerateQuestionsRequest {
-  userId: string;
   learningPlanItemId: number;
   topics: Topic[];
   userContext: UserContext;
   afbLevel?: 'I' | 'II' | 'III';
   questionCount?: number;
+  /** Draw from the question bank (default true) */
   useCache?: boolean;
+  /** Generate every question fresh; results are still added to the bank */
   forceRegenerate?: boolean;
-  firebaseConfig?: {
-    projectId: string;
-    accessToken: string;
-  };
+  /** Ask for free-form questions with these answer types only */
+  answerTypes?: AnswerType[];
 }
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-function generateCacheKey(topics: Topic[], afbLevel: string, difficulty: number): string {
-  const topicHash = topics
-    .map((t) => `${t.leitidee}_${t.thema}_${t.unterthema}`)
-    .sort()
-    .join('|')
-    .replace(/[^a-zA-Z0-9|_]/g, '_');
-
-  return `cache_${topicHash}_AFB${afbLevel}_D${difficulty}`.substring(0, 128);
+/**
+ * Persist the session server-side so evaluate-answer can grade against the
+ * stored answer key instead of trusting client-supplied question data.
+ */
+async function storeQuestionSession(
+  repo: UserRepository | null,
+  session: StoredQuestionSession
+): Promise<void> {
+  if (!repo) {
+    console.warn('[generate-questions] Firebase config not available, session will not be gradable');
+    return;
+  }
+  try {
+    await repo.set(
+      `questionSessions/${session.sessionId}`,
+      session as unknown as Record<string, unknown>
+    );
+  } catch (err) {
+    console.warn('[generate-questions] Failed to store question session:', err);
+  }
 }
 
 
+/** Prompt sections for the requested question types */
+interface QuestionTypeInstructions {
+  description: string;
+  formats: string;
+  rules: string;
+}
 
-function buildPrompt(
-  topics: Topic[],
-  userContext: UserContext,
-  afbLevel: string,
-  questionCount: number
-): string {
-  const topicsList = topics.map((t) => `- ${t.leitidee} > ${t.thema} > ${t.unterthema}`).join('\n');
-
-  const strugglingTopicsText =
-    (userContext.recentPerformance?.strugglingTopics?.length ?? 0) > 0
-      ? `Der Schüler hat Schwierigkeiten mit: ${userContext.recentPerformance!.strugglingTopics!.join(', ')}`
-      : 'Keine bekannten Schwierigkeiten';
-
-  const autoModeText = userContext.autoModeAssessment
-    ? `AUTO-Modus Einschätzung:
-- Detailgrad: ${userContext.autoModeAssessment.currentAssessment.detailLevel}%
-- Temperatur: ${userContext.autoModeAssessment.currentAssessment.temperature}
-- Hilfestellung: ${userContext.autoModeAssessment.currentAssessment.helpfulness}%
-
-Interne Begründung: "${userContext.autoModeAssessment.currentAssessment.reasoning}"`
-    : 'AUTO-Modus nicht aktiv - nutze ausgewogene Einstellungen';
-
-  const complexityInstructions = `
-ANFORDERUNGSBEREICH: ${afbLevel}
-${afbLevel === 'I' ? '- Fokus auf Reproduktion und einfache Anwendung\n- Keine komplexen Transferaufgaben' : ''}
-${afbLevel === 'II' ? '- Ausgewogene Mischung aus Anwendung und Reorganisation\n- Moderate Komplexität' : ''}
-${afbLevel === 'III' ? '- Fokus auf Transfer und komplexe Problemlösung\n- Beweise und Begründungen einbeziehen' : ''}
-
-ANZAHL FRAGEN: ${questionCount}
-`;
-
-  return `Du bist ein erfahrener Mathematiklehrer für die ${userContext.gradeLevel}. Klasse (${userContext.courseType}).
-
-THEMEN:
-${topicsList}
-
-SCHÜLER-KONTEXT:
-- Klassenstufe: ${userContext.gradeLevel}
-- Kurs: ${userContext.courseType}
-${strugglingTopicsText}
-
-${autoModeText}
-
-${complexityInstructions}
-
-Generiere ${questionCount} mathematische Fragen zu den angegebenen Themen.
-
-ERLAUBTE FRAGETYPEN (NUR diese beiden):
+const CHOICE_QUESTIONS: QuestionTypeInstructions = {
+  description: `ERLAUBTE FRAGETYPEN (NUR diese beiden):
 1. "multiple-choice" - Genau 4 Antwortmöglichkeiten (A, B, C, D), genau eine davon korrekt
 2. "step-by-step" - Zwei Varianten:
    a) "next-action": Präsentiere ein mathematisches Szenario und frage nach dem nächsten Schritt (Multiple Choice für jeden Schritt)
-   b) "sort-steps": Gib durchmischte Lösungsschritte, die der Schüler in die richtige Reihenfolge bringen muss
-
-PFLICHTFELDER FÜR JEDE FRAGE:
-- "correctFeedback": Lobende, ermutigende Nachricht bei korrekter Antwort (auf Deutsch)
-- "incorrectFeedback": Erklärende Nachricht bei falscher Antwort mit Hinweis auf den Fehler (auf Deutsch)
-- "hints": GENAU 3 Hinweise, progressiv hilfreicher:
-  - Hinweis 1 (id: "h1"): Sanfter Anstoß in die richtige Richtung
-  - Hinweis 2 (id: "h2"): Spezifischere Anleitung
-  - Hinweis 3 (id: "h3"): Fast vollständiger Lösungsweg
-
-Nutze LaTeX für mathematische Formeln: $...$
-WICHTIG FÜR LATEX IN JSON: Verwende IMMER doppelte Backslashes für LaTeX-Befehle in JSON-Strings!
-Beispiele: $\\\\frac{1}{2}$ statt $\\frac{1}{2}$, $\\\\sqrt{x}$ statt $\\sqrt{x}$, $\\\\int_0^1$ statt $\\int_0^1$.
-
-WICHTIG ZUR JSON-SYNTAX:
-1. Verwende NIEMALS unmaskierte doppelte Anführungszeichen innerhalb von JSON-Strings!
-2. Schreibe stattdessen einfache Anführungszeichen (z.B. 'die Nullstelle') oder nutze gar keine Anführungszeichen für Zitate.
-3. Brich Strings nicht durch Zeilenumbrüche um.
-Unmaskierte Anführungszeichen zerstören das JSON-Format unwiderruflich!
-
-WICHTIG: Antworte NUR mit einem JSON-Objekt (kein zusätzlicher Text, kein Markdown-Code-Block).
-
-FORMAT FÜR "multiple-choice" Fragen:
+   b) "sort-steps": Gib durchmischte Lösungsschritte, die der Schüler in die richtige Reihenfolge bringen muss`,
+  formats: `FORMAT FÜR "multiple-choice" Fragen:
 {
   "id": "q1",
   "type": "multiple-choice",
@@ -205,16 +175,149 @@ FORMAT FÜR "step-by-step" Fragen (next-action):
     ],
     "correctOrder": ["s2"]
   }
-}
-
-REGELN:
-- Generiere eine gute Mischung aus "multiple-choice" und "step-by-step" Fragen
+}`,
+  rules: `- Generiere eine gute Mischung aus "multiple-choice" und "step-by-step" Fragen
 - Bei step-by-step: Verwende abwechselnd "sort-steps" und "next-action"
 - KEINE anderen Fragetypen als "multiple-choice" und "step-by-step"
-- IDs müssen eindeutig sein (q1, q2, q3, ...)
 - Bei multiple-choice: IMMER genau 4 Optionen mit genau einer korrekten
 - Bei sort-steps: Die steps-Liste soll BEREITS GEMISCHT sein, correctOrder gibt die richtige Reihenfolge an
-- Bei next-action: steps enthält die Wahlmöglichkeiten, correctOrder enthält die ID der korrekten Aktion
+- Bei next-action: steps enthält die Wahlmöglichkeiten, correctOrder enthält die ID der korrekten Aktion`,
+};
+
+/** How expectedAnswer must be written, per answer type (example JSON-escaped) */
+const ANSWER_NOTATION: Record<AnswerType, { notation: string; example: string }> = {
+  expression: { notation: 'Term oder Zahl', example: '2x + \\\\frac{3}{4}' },
+  equation: { notation: 'Gleichung', example: 'y = 2x - 1' },
+  inequality: { notation: 'nach der Variablen aufgelöste Ungleichung', example: '1 < x \\\\le 3' },
+  interval: { notation: 'Intervall mit ; als Trenner', example: ']1; \\\\infty[' },
+  'solution-set': { notation: 'Lösungsmenge mit ; als Trenner', example: '{-2; 3}' },
+  point: { notation: 'Punkt', example: '(1|2)' },
+  vector: { notation: 'Vektor mit ; als Trenner', example: '(1; -2; 3)' },
+  quantity: { notation: 'Größe mit Zahl und Einheit (SI-Symbol)', example: '12.5 km/h' },
+  proof: {
+    notation: 'Beweis oder Begründung (AFB III); expectedAnswer ist die Musterlösung in ganzen Sätzen',
+    example: 'Da f\'(x) = 3x^2 + 1 > 0 für alle x gilt, ist f streng monoton steigend.',
+  },
+};
+
+function freeFormQuestions(answerTypes: AnswerType[]): QuestionTypeInstructions {
+  const notation = answerTypes
+    .map((t) => `- "${t}": ${ANSWER_NOTATION[t].notation}, z.B. ${ANSWER_NOTATION[t].example}`)
+    .join('\n');
+  return {
+    description: `ERLAUBTER FRAGETYP (NUR dieser): "free-form" - Der Schüler tippt die Antwort selbst ein.
+Jede Frage hat ein Feld "answerType" (einer von: ${answerTypes.join(', ')}) und ein Feld "expectedAnswer" in genau dieser Schreibweise:
+${notation}
+In "expectedAnswer" keine $-Zeichen und keinen Text (außer bei "proof"); Dezimalzahlen mit Punkt.`,
+    formats: `FORMAT FÜR "free-form" Fragen:
+{
+  "id": "q1",
+  "type": "free-form",
+  "difficulty": 1-10,
+  "topic": "Hauptthema",
+  "subtopic": "Unterthema",
+  "question": "Die Fragestellung mit der erwarteten Antwortform",
+  "solution": "Die vollständige Lösung",
+  "explanation": "Ausführliche Erklärung des Lösungswegs",
+  "correctFeedback": "Sehr gut! Genau das ist die Lösung.",
+  "incorrectFeedback": "Nicht ganz. Prüfe dein Ergebnis durch Einsetzen...",
+  "hints": [
+    {"id": "h1", "text": "Sanfter Hinweis..."},
+    {"id": "h2", "text": "Spezifischer Hinweis..."},
+    {"id": "h3", "text": "Fast die Lösung..."}
+  ],
+  "answerType": "${answerTypes[0]}",
+  "expectedAnswer": "${ANSWER_NOTATION[answerTypes[0]].example}"
+}`,
+    rules: `- KEINE anderen Fragetypen als "free-form"
+- Verteile die Fragen möglichst gleichmäßig auf die answerTypes ${answerTypes.join(', ')}
+- Die Frage muss klar sagen, in welcher Form die Antwort erwartet wird (z.B. 'Gib die Lösungsmenge an', 'Gib das Intervall an')`,
+  };
+}
+
+function buildPrompt(
+  topics: Topic[],
+  userContext: UserContext,
+  afbLevel: string,
+  questionCount: number,
+  answerTypes: AnswerType[] = [],
+  misconceptions: StudentMisconception[] = []
+): string {
+  const questionTypes = answerTypes.length > 0 ? freeFormQuestions(answerTypes) : CHOICE_QUESTIONS;
+  const topicsList = topics.map((t) => `- ${t.leitidee} > ${t.thema} > ${t.unterthema}`).join('\n');
+
+  const strugglingTopicsText =
+    (userContext.recentPerformance?.strugglingTopics?.length ?? 0) > 0
+      ? `Der Schüler hat Schwierigkeiten mit: ${userContext.recentPerformance!.strugglingTopics!.join(', ')}`
+      : 'Keine bekannten Schwierigkeiten';
+
+  const autoModeText = userContext.autoModeAssessment
+    ? `AUTO-Modus Einschätzung:
+- Detailgrad: ${userContext.autoModeAssessment.currentAssessment.detailLevel}%
+- Temperatur: ${userContext.autoModeAssessment.currentAssessment.temperature}
+- Hilfestellung: ${userContext.autoModeAssessment.currentAssessment.helpfulness}%
+
+Interne Begründung: "${userContext.autoModeAssessment.currentAssessment.reasoning}"`
+    : 'AUTO-Modus nicht aktiv - nutze ausgewogene Einstellungen';
+
+  const misconceptionSection = misconceptionPromptSection(misconceptions);
+  const misconceptionText = misconceptionSection
+    ? `\n${misconceptionSection}\nBaue einige Fragen so, dass diese Fehlvorstellungen gezielt geübt werden (z.B. als Distraktoren oder Aufgaben, bei denen der Fehler typischerweise auftritt).\n`
+    : '';
+
+  const complexityInstructions = `
+ANFORDERUNGSBEREICH: ${afbLevel}
+${afbLevel === 'I' ? '- Fokus auf Reproduktion und einfache Anwendung\n- Keine komplexen Transferaufgaben' : ''}
+${afbLevel === 'II' ? '- Ausgewogene Mischung aus Anwendung und Reorganisation\n- Moderate Komplexität' : ''}
+${afbLevel === 'III' ? '- Fokus auf Transfer und komplexe Problemlösung\n- Beweise und Begründungen einbeziehen' : ''}
+
+ANZAHL FRAGEN: ${questionCount}
+`;
+
+  return `Du bist ein erfahrener Mathematiklehrer für die ${userContext.gradeLevel}. Klasse (${userContext.courseType}).
+
+THEMEN:
+${topicsList}
+
+SCHÜLER-KONTEXT:
+- Klassenstufe: ${userContext.gradeLevel}
+- Kurs: ${userContext.courseType}
+${strugglingTopicsText}
+${misconceptionText}
+${autoModeText}
+
+${complexityInstructions}
+
+Generiere ${questionCount} mathematische Fragen zu den angegebenen Themen.
+
+${questionTypes.description}
+
+PFLICHTFELDER FÜR JEDE FRAGE:
+- "correctFeedback": Lobende, ermutigende Nachricht bei korrekter Antwort (auf Deutsch)
+- "incorrectFeedback": Erklärende Nachricht bei falscher Antwort mit Hinweis auf den Fehler (auf Deutsch)
+- "hints": GENAU 3 Hinweise, progressiv hilfreicher:
+  - Hinweis 1 (id: "h1"): Sanfter Anstoß in die richtige Richtung
+  - Hinweis 2 (id: "h2"): Spezifischere Anleitung
+  - Hinweis 3 (id: "h3"): Fast vollständiger Lösungsweg
+
+Nutze LaTeX für mathematische Formeln: $...$
+WICHTIG FÜR LATEX IN JSON: Verwende IMMER doppelte Backslashes für LaTeX-Befehle in JSON-Strings!
+Beispiele: $\\\\frac{1}{2}$ statt $\\frac{1}{2}$, $\\\\sqrt{x}$ statt $\\sqrt{x}$, $\\\\int_0^1$ statt $\\int_0^1$.
+
+WICHTIG ZUR JSON-SYNTAX:
+1. Verwende NIEMALS unmaskierte doppelte Anführungszeichen innerhalb von JSON-Strings!
+2. Schreibe stattdessen einfache Anführungszeichen (z.B. 'die Nullstelle') oder nutze gar keine Anführungszeichen für Zitate.
+3. Brich Strings nicht durch Zeilenumbrüche um.
+Unmaskierte Anführungszeichen zerstören das JSON-Format unwiderruflich!
+
+WICHTIG: Antworte NUR mit einem JSON-Objekt (kein zusätzlicher Text, kein Markdown-Code-Block).
+
+${questionTypes.formats}
+
+REGELN:
+${questionTypes.rules}
+- IDs müssen eindeutig sein (q1, q2, q3, ...)
+- "subtopic" muss exakt einem der angegebenen Unterthemen entsprechen
 - Alle Texte auf Deutsch
 - Schwierigkeitsgrad an AFB-Level ${afbLevel} anpassen
 
@@ -233,8 +336,7 @@ function validateAndNormalizeQuestion(q: any, index: number): Question | null {
     const id = q.id || `q${index + 1}`;
     const type = q.type;
 
-    // Only allow multiple-choice and step-by-step
-    if (type !== 'multiple-choice' && type !== 'step-by-step') {
+    if (type !== 'multiple-choice' && type !== 'step-by-step' && type !== 'free-form') {
       console.warn(`[Validation] Skipping question ${id}: invalid type "${type}"`);
       return null;
     }
@@ -282,6 +384,13 @@ function validateAndNormalizeQuestion(q: any, index: number): Question | null {
         return null;
       }
       baseQuestion.stepByStepData = stepByStepData;
+    } else if (type === 'free-form') {
+      const answer = normalizeFreeFormAnswer(q);
+      if (!answer) {
+        console.warn(`[Validation] Skipping question ${id}: invalid free-form answer`);
+        return null;
+      }
+      Object.assign(baseQuestion, answer);
     }
 
     return baseQuestion;
@@ -365,6 +474,31 @@ function normalizeMultipleChoiceOptions(options: any): QuestionOption[] | null {
   return normalized;
 }
 
+/** answerType and expectedAnswer, if the expected answer parses as its type */
+function normalizeFreeFormAnswer(
+  q: any
+): Pick<Question, 'answerType' | 'expectedAnswer' | 'tolerance'> | null {
+  const answerType: AnswerType = q.answerType ?? 'expression';
+  if (!ANSWER_TYPES.includes(answerType) || typeof q.expectedAnswer !== 'string') {
+    return null;
+  }
+
+  const expectedAnswer = q.expectedAnswer.replace(/\$/g, '').trim();
+  try {
+    parseAnswer(expectedAnswer, answerType);
+  } catch (err) {
+    if (err instanceof MathParseError) return null;
+    throw err;
+  }
+
+  const tolerance = Number(q.tolerance);
+  return {
+    answerType,
+    expectedAnswer,
+    ...(Number.isFinite(tolerance) && tolerance > 0 && { tolerance }),
+  };
+}
+
 function normalizeStepByStepData(data: any): StepByStepData | null {
   if (!data || typeof data !== 'object') {
     return null;
@@ -398,218 +532,275 @@ function normalizeStepByStepData(data: any): StepByStepData | null {
 }
 
 // ============================================================================
-// MAIN HANDLER
+// SHARED REQUEST HANDLING
 // ============================================================================
 
-export async function handleGenerateQuestions(c: Context<{ Bindings: Env }>) {
-  try {
-    const body = await c.req.json<GenerateQuestionsRequest>();
+export interface GenerateParams {
+  userId: string;
+  topics: Topic[];
+  userContext: UserContext;
+  afbLevel: 'I' | 'II' | 'III';
+  questionCount: number;
+  useCache: boolean;
+  forceRegenerate: boolean;
+  learningPlanItemId: number;
+  answerTypes: AnswerType[];
+}
 
-    // Validate required fields
-    const { userId, topics, userContext } = body;
-    if (!userId || !topics || topics.length === 0 || !userContext) {
-      throw new APIError('Missing required fields: userId, topics (non-empty), userContext', 400);
-    }
+type FirebaseAccess = { projectId: string; accessToken: string };
 
-    // Extract parameters with defaults
-    const afbLevel = body.afbLevel || 'II';
-    const questionCount = body.questionCount || 20;
-    const useCache = body.useCache !== false;
-    const forceRegenerate = body.forceRegenerate || false;
-    const learningPlanItemId = body.learningPlanItemId;
-    console.log('[generate-questions] Request:', {
-      userId,
-      afbLevel,
-      questionCount,
-      topicCount: topics.length,
-    });
+async function parseGenerateRequest(c: Context<StudentEnv>): Promise<GenerateParams> {
+  const body = await c.req.json<GenerateQuestionsRequest>();
 
-    // Get Firebase config from request or server-side credentials (for caching)
-    let fbConfig: { projectId: string; accessToken: string } | null = null;
-    try {
-      fbConfig = await getFirebaseConfig(c.env, body.firebaseConfig);
-    } catch {
-      console.warn('[generate-questions] Firebase config not available, caching disabled');
-    }
+  // Validate required fields
+  const { topics, userContext } = body;
+  if (!topics || topics.length === 0 || !userContext) {
+    throw new APIError('Missing required fields: topics (non-empty), userContext', 400);
+  }
 
-    // ========================================================================
-    // PHASE 1: Firestore Cache Lookup
-    // ========================================================================
+  const answerTypes = body.answerTypes ?? [];
+  if (!Array.isArray(answerTypes) || answerTypes.some((t) => !ANSWER_TYPES.includes(t))) {
+    throw new APIError(`answerTypes must be a list of: ${ANSWER_TYPES.join(', ')}`, 400);
+  }
 
-    const cacheKey = generateCacheKey(topics, afbLevel, 5);
+  // Extract parameters with defaults
+  return {
+    userId: c.get('studentUid'),
+    topics,
+    userContext,
+    afbLevel: body.afbLevel || 'II',
+    questionCount: body.questionCount || 20,
+    useCache: body.useCache !== false,
+    forceRegenerate: body.forceRegenerate || false,
+    learningPlanItemId: body.learningPlanItemId,
+    answerTypes: [...new Set(answerTypes)],
+  };
+}
 
-    if (useCache && !forceRegenerate && fbConfig) {
-      try {
-        const firebaseUrl = `https://firestore.googleapis.com/v1/projects/${fbConfig.projectId}/databases/(default)/documents/question_cache/${cacheKey}`;
+/**
+ * Service-account access: the shared question bank plus the user's own sessions.
+ * Both are null when Firebase is not configured (question bank and grading disabled).
+ */
+async function openStores(
+  c: Context<StudentEnv>,
+  userId: string
+): Promise<{ fbConfig: FirebaseAccess | null; repo: UserRepository | null }> {
+  try {
+    return {
+      fbConfig: await getFirebaseConfig(c.env),
+      repo: await createUserRepository(c.env, userId),
+    };
+  } catch {
+    console.warn('[generate-questions] Firebase config not available, caching disabled');
+    return { fbConfig: null, repo: null };
+  }
+}
 
-        const cacheResponse = await fetch(firebaseUrl, {
-          headers: {
-            Authorization: `Bearer ${fbConfig.accessToken}`,
-          },
-        });
+/** The student's most frequent misconceptions; none when the history is unavailable */
+async function knownMisconceptions(repo: UserRepository | null): Promise<StudentMisconception[]> {
+  if (!repo) return [];
+  try {
+    return await loadTopMisconceptions(repo);
+  } catch (err) {
+    console.warn('[generate-questions] Misconception history unavailable:', err);
+    return [];
+  }
+}
 
-        if (cacheResponse.ok) {
-          const cacheData: any = await cacheResponse.json();
-          if (cacheData.fields?.questions?.arrayValue?.values) {
-            const cachedQuestions = cacheData.fields.questions.arrayValue.values.map(
-              (v: any) => JSON.parse(v.stringValue || '{}')
-            );
-
-            // Check if cache is still valid (< 7 days old)
-            const cachedAt = cacheData.fields?.cachedAt?.timestampValue;
-            if (cachedAt) {
-              const cacheAge = Date.now() - new Date(cachedAt).getTime();
-              const sevenDays = 7 * 24 * 60 * 60 * 1000;
-              if (cacheAge < sevenDays) {
-                const validatedCached = cachedQuestions
-                  .map((q: any, index: number) => validateAndNormalizeQuestion(q, index))
-                  .filter((q: any) => q !== null);
-
-                console.log(
-                  `[Cache Hit] Returning ${validatedCached.length} cached questions for key: ${cacheKey}`
-                );
-
-                if (validatedCached.length === 0) {
-                  console.warn('[Cache] All cached questions failed validation, regenerating');
-                } else {
-                  const sessionId = `session_${Date.now()}_${userId.substring(0, 8)}`;
-                  return c.json({
-                    success: true,
-                    sessionId,
-                    learningPlanItemId,
-                    topics,
-                    userContext,
-                    questions: validatedCached,
-                    totalQuestions: validatedCached.length,
-                    fromCache: true,
-                    cacheKey,
-                  });
-                }
-              }
-            }
-          }
-        }
-      } catch (cacheError) {
-        console.warn('[Cache] Error fetching from cache:', cacheError);
-      }
-    }
+/** A question served in a session; bankId is missing if the bank was unavailable */
+type ServedQuestion = Omit<BankEntry, 'bankId' | 'topicKey'> & Partial<Pick<BankEntry, 'bankId' | 'topicKey'>>;
+
+/** Unseen bank questions for the request, or none when the bank is skipped or unavailable. */
+async function sampleFromBank(
+  params: GenerateParams,
+  fbConfig: FirebaseAccess | null,
+  repo: UserRepository | null
+): Promise<BankEntry[]> {
+  if (!params.useCache || params.forceRegenerate || !fbConfig || !repo || params.questionCount <= 0) {
+    return [];
+  }
+  try {
+    const entries = await sampleUnseenQuestions(
+      fbConfig,
+      repo,
+      params.topics,
+      params.afbLevel,
+      params.questionCount,
+      (question) =>
+        params.answerTypes.length === 0 ||
+        (question.type === 'free-form' && params.answerTypes.includes(question.answerType ?? 'expression'))
+    );
+    console.log(`[Question Bank] ${entries.length}/${params.questionCount} unseen questions available`);
+    return entries;
+  } catch (err) {
+    console.warn('[Question Bank] Sampling failed, generating all questions:', err);
+    return [];
+  }
+}
 
-    // ========================================================================
-    // PHASE 2: Get AI configuration from models.json
-    // ========================================================================
+/** Add generated questions to the bank; unbanked if the bank is unavailable. */
+async function addToBank(
+  params: GenerateParams,
+  fbConfig: FirebaseAccess | null,
+  questions: Question[],
+  modelInfo: { model: string; provider: string }
+): Promise<ServedQuestion[]> {
+  if (!fbConfig) return questions.map((question) => ({ question }));
+  try {
+    return await insertQuestions(fbConfig, params.topics, params.afbLevel, questions, modelInfo);
+  } catch (err) {
+    console.warn('[Question Bank] Insert failed:', err);
+    return questions.map((question) => ({ question }));
+  }
+}
 
-    const taskConfig = await getTaskModelConfig('generateQuestions');
+/** Session copies with ids unique within the session (q1, q2, …) */
+function toSessionQuestions(served: ServedQuestion[]): Question[] {
+  return served.map(({ question, bankId }, i) => ({ ...question, id: `q${i + 1}`, bankId }));
+}
 
-    console.log(
-      `[Task Config] Using ${taskConfig.model} (${taskConfig.provider}) for generateQuestions task`
-    );
+async function recordSeen(
+  repo: UserRepository | null,
+  served: ServedQuestion[],
+  sessionId: string
+): Promise<void> {
+  if (!repo) return;
+  const banked = served.filter((s): s is BankEntry => Boolean(s.bankId && s.topicKey));
+  try {
+    await markQuestionsSeen(repo, banked, sessionId);
+  } catch (err) {
+    console.warn('[Question Bank] Failed to record seen questions:', err);
+  }
+}
 
-    // ========================================================================
-    // PHASE 3: Build prompt and call AI
-    // ========================================================================
-
-    const prompt = buildPrompt(topics, userContext, afbLevel, questionCount);
-
-    // Use shared callAI with task configuration from models.json
-    const responseText = await callAI({
-      provider: taskConfig.provider,
-      model: taskConfig.model,
-      prompt,
-      temperature: taskConfig.temperature,
-      maxTokens: taskConfig.maxTokens,
-      systemPrompt: taskConfig.systemPrompt,
-      env: c.env,
-    });
+function newSessionId(userId: string): string {
+  return `session_${Date.now()}_${userId.substring(0, 8)}`;
+}
 
-    // Parse JSON response (with repair for invalid LaTeX escape sequences from Gemini)
-    let questionsData: any;
-    try {
-      questionsData = extractAndParseJson(responseText);
-    } catch (parseError) {
-      console.error('[generate-questions] Raw response (first 500 chars):', responseText.substring(0, 500));
-      throw new APIError(
-        `Failed to parse AI response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`,
-        500
-      );
-    }
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
 
-    // Validate and normalize questions to the new format
-    if (questionsData.questions && Array.isArray(questionsData.questions)) {
-      questionsData.questions = questionsData.questions
-        .map((q: any, index: number) => validateAndNormalizeQuestion(q, index))
-        .filter((q: any) => q !== null);
-    }
+/** Alternate review and fresh questions, the rest of the longer list at the end */
+function interleave<T>(reviews: T[], fresh: T[]): T[] {
+  const mixed: T[] = [];
+  for (let i = 0; i < Math.max(reviews.length, fresh.length); i++) {
+    if (i < reviews.length) mixed.push(reviews[i]);
+    if (i < fresh.length) mixed.push(fresh[i]);
+  }
+  return mixed;
+}
 
-    if (!questionsData.questions || questionsData.questions.length === 0) {
-      throw new APIError('AI response contained no valid questions after validation', 500);
-    }
+/**
+ * Draw `questionCount` questions from the bank, generate the missing ones
+ * and store the gradable session. `reviews` (spaced-repetition questions from
+ * manage-memories build-session) are mixed in on top of the fresh questions.
+ */
+export async function buildQuestionSession(
+  c: Context<StudentEnv>,
+  params: GenerateParams,
+  reviews: Question[] = []
+): Promise<QuestionSession> {
+  const { userId, topics, userContext, afbLevel, questionCount, learningPlanItemId } = params;
+  const { fbConfig, repo } = await openStores(c, userId);
+
+  // ========================================================================
+  // PHASE 1: Sample unseen questions from the bank
+  // ========================================================================
+
+  const fresh: ServedQuestion[] = await sampleFromBank(params, fbConfig, repo);
+  const fromBank = fresh.length;
+  const missing = questionCount - fromBank;
+  let ai: { model: string; provider: string } | null = null;
+
+  if (missing > 0) {
+    // ======================================================================
+    // PHASE 2: Build prompt for the missing questions
+    // ======================================================================
+
+    const prompt = buildPrompt(
+      topics,
+      userContext,
+      afbLevel,
+      missing,
+      params.answerTypes,
+      await knownMisconceptions(repo)
+    );
 
-    // ========================================================================
-    // PHASE 4: Store in Firestore Cache
-    // ========================================================================
-
-    if (useCache && fbConfig && questionsData.questions?.length > 0) {
-      try {
-        const firebaseUrl = `https://firestore.googleapis.com/v1/projects/${fbConfig.projectId}/databases/(default)/documents/question_cache/${cacheKey}`;
-
-        const cacheDocument = {
-          fields: {
-            cacheKey: { stringValue: cacheKey },
-            topics: { stringValue: JSON.stringify(topics) },
-            afbLevel: { stringValue: afbLevel },
-            questionCount: { integerValue: questionsData.questions.length },
-            questions: {
-              arrayValue: {
-                values: questionsData.questions.map((q: any) => ({
-                  stringValue: JSON.stringify(q),
-                })),
-              },
-            },
-            cachedAt: { timestampValue: new Date().toISOString() },
-            model: { stringValue: taskConfig.model },
-            provider: { stringValue: taskConfig.provider },
-          },
-        };
-
-        await fetch(firebaseUrl, {
-          method: 'PATCH',
-          headers: {
-            Authorization: `Bearer ${fbConfig.accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(cacheDocument),
-        });
+    // ======================================================================
+    // PHASE 3: Call AI (model, retries and fallbacks from models.json)
+    // ======================================================================
 
-        console.log(`[Cache Store] Stored ${questionsData.questions.length} questions with key: ${cacheKey}`);
-      } catch (cacheStoreError) {
-        console.warn('[Cache] Error storing to cache:', cacheStoreError);
-      }
-    }
+    const result = await callAIForTask('generateQuestions', prompt, c.env, aiUsageScope(c));
+    ai = result;
 
-    // ========================================================================
-    // PHASE 5: Return response
-    // ========================================================================
+    console.log(`[Task Config] ${result.model} (${result.provider}) served generateQuestions task`);
 
-    const sessionId = `session_${Date.now()}_${userId.substring(0, 8)}`;
+    const questions = parseQuestionsResponse(result.response);
 
-    return c.json({
-      success: true,
-      sessionId,
-      learningPlanItemId,
-      topics,
-      userContext,
-      questions: questionsData.questions,
-      totalQuestions: questionsData.questions.length,
-      fromCache: false,
-      cacheKey,
-      modelUsed: taskConfig.model,
-      providerUsed: taskConfig.provider,
+    // ======================================================================
+    // PHASE 4: Add to the question bank
+    // ======================================================================
+
+    fresh.push(...(await addToBank(params, fbConfig, questions, result)));
+  }
+
+  // ========================================================================
+  // PHASE 5: Store the session
+  // ========================================================================
+
+  const served = interleave(
+    reviews.map((question): ServedQuestion => ({ question })),
+    fresh
+  );
+  const questions = toSessionQuestions(served);
+  const sessionId = newSessionId(userId);
+  await storeQuestionSession(repo, {
+    sessionId,
+    userId,
+    learningPlanItemId: learningPlanItemId ?? null,
+    topics,
+    questions,
+    createdAt: new Date().toISOString(),
+  });
+  await recordSeen(repo, fresh, sessionId);
+
+  return {
+    sessionId,
+    learningPlanItemId,
+    topics,
+    userContext,
+    questions,
+    totalQuestions: questions.length,
+    fromCache: !ai,
+    fromBank,
+    generated: fresh.length - fromBank,
+    ...(reviews.length > 0 && { reviews: reviews.length }),
+    ...(ai && { modelUsed: ai.model, providerUsed: ai.provider }),
+  };
+}
+
+export async function handleGenerateQuestions(c: Context<StudentEnv>) {
+  try {
+    const params = await parseGenerateRequest(c);
+    console.log('[generate-questions] Request:', {
+      userId: params.userId,
+      afbLevel: params.afbLevel,
+      questionCount: params.questionCount,
+      topicCount: params.topics.length,
     });
+
+    const session = await buildQuestionSession(c, params);
+
+    return c.json({ success: true, ...session });
   } catch (error) {
     console.error('[generate-questions] Error:', error);
 
     if (error instanceof APIError) {
-      return c.json({ success: false, error: error.message }, error.statusCode as any);
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
     }
 
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
@@ -617,3 +808,180 @@ export async function handleGenerateQuestions(c: Context<{ Bindings: Env }>) {
     return c.json({ success: false, error: errMsg }, status as any);
   }
 }
+
+/**
+ * Parse a complete AI response into validated questions
+ * (with repair for invalid LaTeX escape sequences from Gemini).
+ */
+function parseQuestionsResponse(responseText: string): Question[] {
+  let questionsData: any;
+  try {
+    questionsData = extractAndParseJson(responseText);
+  } catch (parseError) {
+    console.error('[generate-questions] Raw response (first 500 chars):', responseText.substring(0, 500));
+    throw new APIError(
+      `Failed to parse AI response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`,
+      500
+    );
+  }
+
+  // Validate and normalize questions to the new format
+  const questions: Question[] = Array.isArray(questionsData.questions)
+    ? questionsData.questions
+        .map((q: any, index: number) => validateAndNormalizeQuestion(q, index))
+        .filter((q: any) => q !== null)
+    : [];
+
+  if (questions.length === 0) {
+    throw new APIError('AI response contained no valid questions after validation', 500);
+  }
+
+  return questions;
+}
+
+// ============================================================================
+// STREAMING HANDLER
+// ============================================================================
+
+/**
+ * POST /api/generate-questions/stream — same request body, Server-Sent Events response:
+ *   event: question  data: {"index": 0, "question": {...}}   (as soon as each one parses)
+ *   event: done      data: {"success": true, "sessionId": "...", "totalQuestions": n, ...}
+ *   event: error     data: {"success": false, "error": "...", "code"?: "AI_TIMEOUT"}
+ * The session is stored before `done`, so answers can be evaluated after it arrives.
+ */
+export async function handleGenerateQuestionsStream(c: Context<StudentEnv>) {
+  let params: GenerateParams;
+  try {
+    params = await parseGenerateRequest(c);
+  } catch (error) {
+    if (error instanceof APIError) {
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
+    }
+    return c.json({ success: false, error: 'Invalid request body' }, 400);
+  }
+
+  const { userId, topics, userContext, afbLevel, questionCount, learningPlanItemId } = params;
+  console.log('[generate-questions] Stream request:', {
+    userId,
+    afbLevel,
+    questionCount,
+    topicCount: topics.length,
+  });
+
+  return streamSSE(c, async (stream) => {
+    const served: ServedQuestion[] = [];
+    // Session ids are assigned in send order, so they match what the client saw
+    const send = async (entry: ServedQuestion) => {
+      served.push(entry);
+      const index = served.length - 1;
+      const question = { ...entry.question, id: `q${index + 1}` };
+      await stream.writeSSE({ event: 'question', data: JSON.stringify({ index, question }) });
+    };
+
+    try {
+      const { fbConfig, repo } = await openStores(c, userId);
+      const sessionId = newSessionId(userId);
+
+      const finish = async (extra: Record<string, unknown>) => {
+        const questions = toSessionQuestions(served);
+        await storeQuestionSession(repo, {
+          sessionId,
+          userId,
+          learningPlanItemId: learningPlanItemId ?? null,
+          topics,
+          questions,
+          createdAt: new Date().toISOString(),
+        });
+        await recordSeen(repo, served, sessionId);
+        await stream.writeSSE({
+          event: 'done',
+          data: JSON.stringify({
+            success: true,
+            sessionId,
+            learningPlanItemId,
+            topics,
+            userContext,
+            totalQuestions: questions.length,
+            ...extra,
+          }),
+        });
+      };
+
+      // Bank questions go out immediately
+      for (const entry of await sampleFromBank(params, fbConfig, repo)) {
+        await send(entry);
+      }
+      const fromBank = served.length;
+      const missing = questionCount - fromBank;
+      if (missing <= 0) {
+        await finish({ fromCache: true, fromBank, generated: 0 });
+        return;
+      }
+
+      const prompt = buildPrompt(
+        topics,
+        userContext,
+        afbLevel,
+        missing,
+        params.answerTypes,
+        await knownMisconceptions(repo)
+      );
+
+      const parser = createQuestionStreamParser();
+      const generated: Question[] = [];
+      let rawIndex = 0;
+      let fullText = '';
+
+      const ai = await streamAIForTask('generateQuestions', prompt, c.env, aiUsageScope(c));
+      for await (const event of ai.events) {
+        if (event.type === 'done') {
+          fullText = event.text;
+          continue;
+        }
+        for (const raw of parser.push(event.text)) {
+          const question = validateAndNormalizeQuestion(raw, rawIndex++);
+          if (question) {
+            generated.push(question);
+            await send({ question });
+          }
+        }
+      }
+
+      // Nothing parsed incrementally (unexpected wrapper shape) — parse the whole text once
+      if (generated.length === 0) {
+        for (const question of parseQuestionsResponse(fullText)) {
+          generated.push(question);
+          await send({ question });
+        }
+      }
+
+      // Attach bank ids to the generated questions already sent
+      const banked = await addToBank(params, fbConfig, generated, ai);
+      banked.forEach((entry, i) => {
+        served[fromBank + i] = entry;
+      });
+
+      await finish({
+        fromCache: false,
+        fromBank,
+        generated: generated.length,
+        modelUsed: ai.model,
+        providerUsed: ai.provider,
+      });
+    } catch (error) {
+      console.error('[generate-questions] Stream error:', error);
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          code: error instanceof APIError ? error.code : undefined,
+        }),
+      });
+    }
+  });
+}
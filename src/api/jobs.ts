@@ -5,17 +5,20 @@
  *   GET  /api/jobs/:jobId          — poll job status
  *   POST /api/generate-mini-app/async — submit async generation, returns 202
  *
- * Jobs are stored in Firestore under asyncJobs/{jobId}.
+ * Jobs are stored in Firestore under asyncJobs/{jobId} together with the
+ * submitting uid; only that user can poll them.
  * The Flutter client polls GET /api/jobs/:jobId until status === 'done'.
  */
 
 import type { Context } from 'hono';
 import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import { APIError } from '../types';
 import { getFirebaseConfig } from '../utils/firebaseAuth';
 import { fsGet, fsPatch } from '../utils/firestore';
 import { buildPrompt, validateAndSanitizeApp, ThemeColors } from './generate-mini-app';
-import { callAI, getTaskModelConfig } from '../utils/callAI';
+import { callAIForTask } from '../utils/callAI';
+import { aiUsageScope } from '../utils/aiQuota';
 import { parseJsonWithRepair } from '../utils/repairJson';
 import { sanitizePII } from '../utils/sanitizePII';
 
@@ -23,6 +26,7 @@ import { sanitizePII } from '../utils/sanitizePII';
 export interface AsyncJob {
   status: 'pending' | 'running' | 'done' | 'error';
   type: string;
+  ownerUid: string;
   createdAt: string;
   updatedAt: string;
   result?: Record<string, unknown>;
@@ -36,7 +40,7 @@ function generateJobId(): string {
 }
 
 /** GET /api/jobs/:jobId — return current job status and result */
-export async function handleGetJob(c: Context<{ Bindings: Env }>) {
+export async function handleGetJob(c: Context<StudentEnv>) {
   const jobId = c.req.param('jobId');
   if (!jobId || !/^job_[a-z0-9_]+$/.test(jobId)) {
     return c.json({ success: false, error: 'Invalid job ID' }, 400);
@@ -46,11 +50,13 @@ export async function handleGetJob(c: Context<{ Bindings: Env }>) {
     const { projectId, accessToken } = await getFirebaseConfig(c.env);
     const doc = await fsGet(projectId, accessToken, `asyncJobs/${jobId}`);
 
-    if (!doc) {
+    // Someone else's job is reported as missing rather than forbidden
+    if (!doc || doc.ownerUid !== c.get('studentUid')) {
       return c.json({ success: false, error: 'Job not found' }, 404);
     }
 
-    return c.json({ success: true, ...doc });
+    const { ownerUid: _ownerUid, ...job } = doc;
+    return c.json({ success: true, ...job });
   } catch (err) {
     console.error('[jobs] GET error:', err);
     return c.json({ success: false, error: 'Failed to retrieve job' }, 500);
@@ -58,7 +64,7 @@ export async function handleGetJob(c: Context<{ Bindings: Env }>) {
 }
 
 /** POST /api/generate-mini-app/async — submit generation, return 202 */
-export async function handleGenerateMiniAppAsync(c: Context<{ Bindings: Env }>) {
+export async function handleGenerateMiniAppAsync(c: Context<StudentEnv>) {
   const body = await c.req.json<{
     description?: string;
     themeColors?: ThemeColors;
@@ -79,13 +85,21 @@ export async function handleGenerateMiniAppAsync(c: Context<{ Bindings: Env }>)
     await fsPatch(projectId, accessToken, `asyncJobs/${jobId}`, {
       status: 'pending',
       type: 'generate-mini-app',
+      ownerUid: c.get('studentUid'),
       createdAt: now,
       updatedAt: now,
     } satisfies AsyncJob);
 
     // Run AI generation in the background (Cloudflare waitUntil)
     // The response (202) is returned immediately below.
-    const bgWork = runMiniAppGeneration(c.env, jobId, body.description, body.themeColors, body.isFastMode);
+    const bgWork = runMiniAppGeneration(
+      c.env,
+      jobId,
+      aiUsageScope(c),
+      body.description,
+      body.themeColors,
+      body.isFastMode
+    );
     c.executionCtx.waitUntil(bgWork);
 
     return c.json({ success: true, jobId, status: 'pending' }, 202);
@@ -98,6 +112,7 @@ export async function handleGenerateMiniAppAsync(c: Context<{ Bindings: Env }>)
 async function runMiniAppGeneration(
   env: Env,
   jobId: string,
+  usageScope: ReturnType<typeof aiUsageScope>,
   description: string,
   themeColors?: ThemeColors,
   isFastMode?: boolean,
@@ -117,16 +132,8 @@ async function runMiniAppGeneration(
     const prompt = buildPrompt(safeDescription, complexity, themeColors);
 
     const taskName = isFastMode ? 'generateMiniAppFast' : 'generateMiniApp';
-    const taskConfig = await getTaskModelConfig(taskName as any);
-    const responseText = await callAI({
-      provider: taskConfig.provider,
-      model: taskConfig.model,
-      prompt,
-      temperature: taskConfig.temperature,
-      maxTokens: taskConfig.maxTokens,
-      systemPrompt: taskConfig.systemPrompt,
-      env,
-    });
+    const ai = await callAIForTask(taskName, prompt, env, usageScope);
+    const responseText = ai.response;
 
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     const candidate = jsonMatch ? jsonMatch[0] : responseText;
@@ -142,7 +149,7 @@ async function runMiniAppGeneration(
         javascript: generatedApp.javascript,
         title: generatedApp.title,
         description: generatedApp.description,
-        modelUsed: taskConfig.model,
+        modelUsed: ai.model,
       },
     });
   } catch (err) {
@@ -0,0 +1,50 @@
+/**
+ * Join Class Endpoint
+ * Students redeem a class join code (typed in or scanned from the QR code)
+ *
+ * Responses:
+ * - joined: the student is now in the class
+ * - pending: the code requires approval; the teacher sees a join request
+ * - already-member: nothing changed
+ */
+
+import type { Context } from 'hono';
+import type { StudentEnv } from '../utils/verifyStudentToken';
+import { APIError } from '../types';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { redeemJoinCode } from '../utils/joinCodes';
+
+export async function handleJoinClass(c: Context<StudentEnv>) {
+  try {
+    const body = await c.req.json<{ code?: unknown }>();
+    if (typeof body.code !== 'string' || !body.code.trim()) {
+      throw new APIError('Missing required field: code', 400);
+    }
+
+    const uid = c.get('studentUid');
+    const { projectId, accessToken } = await getFirebaseConfig(c.env);
+    const result = await redeemJoinCode(projectId, accessToken, uid, body.code);
+
+    console.log('[join-class]', { uid, classId: result.classId, status: result.status });
+
+    return c.json({ success: true, ...result }, result.status === 'pending' ? 202 : 200);
+  } catch (error) {
+    console.error('[join-class] Error:', error);
+
+    if (error instanceof APIError) {
+      return c.json(
+        { success: false, error: error.message, ...(error.code && { code: error.code }) },
+        error.statusCode as any
+      );
+    }
+
+    return c.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      500
+    );
+  }
+}
@@ -10,10 +10,10 @@
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import type { Topic } from '../types';
 import { APIError } from '../types';
-import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { createUserRepository, type UserRepository } from '../utils/userRepository';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -23,17 +23,12 @@ type LearningPlanAction = 'create' | 'get' | 'update' | 'delete' | 'add-topic' |
 
 interface ManageLearningPlanRequest {
   action: LearningPlanAction;
-  userId: string;
   planId?: string;
   planData?: Partial<LearningPlan>;
   topic?: Topic;
-  firebaseConfig?: {
-    projectId: string;
-    accessToken: string;
-  };
 }
 
-interface LearningPlan {
+export interface LearningPlan {
   id: string;
   userId: string;
   name: string;
@@ -51,7 +46,7 @@ interface LearningPlan {
   };
 }
 
-interface LearningPlanTopic extends Topic {
+export interface LearningPlanTopic extends Topic {
   order: number;
   status: 'pending' | 'in-progress' | 'completed';
   priority: 'low' | 'medium' | 'high';
@@ -63,48 +58,16 @@ interface LearningPlanTopic extends Topic {
 // FIRESTORE OPERATIONS
 // ============================================================================
 
-async function getLearningPlan(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  planId: string
-): Promise<LearningPlan | null> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/learningPlans/${planId}`;
-
-  const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (!response.ok) {
-    if (response.status === 404) return null;
-    throw new APIError(`Failed to fetch learning plan: ${response.statusText}`, 500);
-  }
-
-  const data: any = await response.json();
-  return documentToLearningPlan(data);
+async function getLearningPlan(repo: UserRepository, planId: string): Promise<LearningPlan | null> {
+  const doc = await repo.get(`learningPlans/${planId}`);
+  return doc ? documentToLearningPlan(doc) : null;
 }
 
-async function getActiveLearningPlan(
-  projectId: string,
-  accessToken: string,
-  userId: string
-): Promise<LearningPlan | null> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/learningPlans`;
-
-  const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (!response.ok) {
-    if (response.status === 404) return null;
-    throw new APIError(`Failed to fetch learning plans: ${response.statusText}`, 500);
-  }
-
-  const data: any = await response.json();
-  const documents = data.documents || [];
+export async function getActiveLearningPlan(repo: UserRepository): Promise<LearningPlan | null> {
+  const docs = await repo.query('learningPlans');
 
   // Find active plan
-  const activePlan = documents
+  const activePlan = docs
     .map(documentToLearningPlan)
     .find((plan: LearningPlan) => plan.status === 'active');
 
@@ -112,9 +75,7 @@ async function getActiveLearningPlan(
 }
 
 async function createLearningPlan(
-  projectId: string,
-  accessToken: string,
-  userId: string,
+  repo: UserRepository,
   planData: Partial<LearningPlan>
 ): Promise<LearningPlan> {
   const planId = `plan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -122,7 +83,7 @@ async function createLearningPlan(
 
   const plan: LearningPlan = {
     id: planId,
-    userId,
+    userId: repo.uid,
     name: planData.name || 'Mein Lernplan',
     topics: planData.topics || [],
     status: 'active',
@@ -138,185 +99,85 @@ async function createLearningPlan(
     },
   };
 
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/learningPlans/${planId}`;
-
-  const response = await fetch(url, {
-    method: 'PATCH',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(learningPlanToDocument(plan)),
-  });
-
-  if (!response.ok) {
-    throw new APIError(`Failed to create learning plan: ${response.statusText}`, 500);
-  }
-
+  await repo.set(`learningPlans/${planId}`, learningPlanToDocument(plan));
   return plan;
 }
 
-async function updateLearningPlan(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  plan: LearningPlan
-): Promise<void> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/learningPlans/${plan.id}`;
-
+async function updateLearningPlan(repo: UserRepository, plan: LearningPlan): Promise<void> {
   const updatedPlan = {
     ...plan,
     updatedAt: new Date().toISOString(),
   };
 
-  const response = await fetch(url, {
-    method: 'PATCH',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(learningPlanToDocument(updatedPlan)),
-  });
-
-  if (!response.ok) {
-    throw new APIError(`Failed to update learning plan: ${response.statusText}`, 500);
-  }
+  await repo.set(`learningPlans/${plan.id}`, learningPlanToDocument(updatedPlan));
 }
 
-async function deleteLearningPlan(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  planId: string
-): Promise<void> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/learningPlans/${planId}`;
-
-  const response = await fetch(url, {
-    method: 'DELETE',
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (!response.ok && response.status !== 404) {
-    throw new APIError(`Failed to delete learning plan: ${response.statusText}`, 500);
-  }
+async function deleteLearningPlan(repo: UserRepository, planId: string): Promise<void> {
+  await repo.delete(`learningPlans/${planId}`);
 }
 
 // ============================================================================
 // DATA CONVERSION
 // ============================================================================
 
-function documentToLearningPlan(doc: any): LearningPlan {
-  const fields = doc.fields || {};
-  
-  const topics = fields.topics?.arrayValue?.values?.map((v: any) => ({
-    leitidee: v.mapValue?.fields?.leitidee?.stringValue || '',
-    thema: v.mapValue?.fields?.thema?.stringValue || '',
-    unterthema: v.mapValue?.fields?.unterthema?.stringValue || '',
-    order: v.mapValue?.fields?.order?.integerValue || 0,
-    status: v.mapValue?.fields?.status?.stringValue || 'pending',
-    priority: v.mapValue?.fields?.priority?.stringValue || 'medium',
-    addedAt: v.mapValue?.fields?.addedAt?.timestampValue || '',
-    completedAt: v.mapValue?.fields?.completedAt?.timestampValue,
-  })) || [];
-
-  const progressFields = fields.progress?.mapValue?.fields || {};
+function documentToLearningPlan(doc: Record<string, unknown>): LearningPlan {
+  const rawTopics = (doc.topics as Array<Record<string, unknown>> | undefined) ?? [];
+
+  const topics: LearningPlanTopic[] = rawTopics.map((t) => ({
+    leitidee: (t.leitidee as string) || '',
+    thema: (t.thema as string) || '',
+    unterthema: (t.unterthema as string) || '',
+    order: (t.order as number) || 0,
+    status: (t.status as LearningPlanTopic['status']) || 'pending',
+    priority: (t.priority as LearningPlanTopic['priority']) || 'medium',
+    addedAt: (t.addedAt as string) || '',
+    completedAt: t.completedAt as string | undefined,
+  }));
+
+  const progress = (doc.progress ?? {}) as Record<string, number | undefined>;
 
   return {
-    id: fields.id?.stringValue || '',
-    userId: fields.userId?.stringValue || '',
-    name: fields.name?.stringValue || '',
+    id: (doc.id as string) || '',
+    userId: (doc.userId as string) || '',
+    name: (doc.name as string) || '',
     topics,
-    status: fields.status?.stringValue || 'active',
-    createdAt: fields.createdAt?.timestampValue || '',
-    updatedAt: fields.updatedAt?.timestampValue || '',
-    targetCompletionDate: fields.targetCompletionDate?.timestampValue,
+    status: (doc.status as LearningPlan['status']) || 'active',
+    createdAt: (doc.createdAt as string) || '',
+    updatedAt: (doc.updatedAt as string) || '',
+    targetCompletionDate: doc.targetCompletionDate as string | undefined,
     progress: {
-      totalTopics: progressFields.totalTopics?.integerValue || topics.length,
-      completedTopics: progressFields.completedTopics?.integerValue || 0,
-      totalQuestions: progressFields.totalQuestions?.integerValue || 0,
-      completedQuestions: progressFields.completedQuestions?.integerValue || 0,
-      accuracy: progressFields.accuracy?.doubleValue || progressFields.accuracy?.integerValue || 0,
+      totalTopics: progress.totalTopics || topics.length,
+      completedTopics: progress.completedTopics || 0,
+      totalQuestions: progress.totalQuestions || 0,
+      completedQuestions: progress.completedQuestions || 0,
+      accuracy: progress.accuracy || 0,
     },
   };
 }
 
-interface FirestoreTopicFields {
-  leitidee: { stringValue: string };
-  thema: { stringValue: string };
-  unterthema: { stringValue: string };
-  order: { integerValue: number };
-  status: { stringValue: string };
-  priority: { stringValue: string };
-  addedAt: { timestampValue: string };
-  completedAt?: { timestampValue: string };
-}
-
-interface LearningPlanDocument {
-  fields: {
-    id: { stringValue: string };
-    userId: { stringValue: string };
-    name: { stringValue: string };
-    topics: { arrayValue: { values: Array<{ mapValue: { fields: FirestoreTopicFields } }> } };
-    status: { stringValue: string };
-    createdAt: { timestampValue: string };
-    updatedAt: { timestampValue: string };
-    targetCompletionDate?: { timestampValue: string };
-    progress: {
-      mapValue: {
-        fields: {
-          totalTopics: { integerValue: number };
-          completedTopics: { integerValue: number };
-          totalQuestions: { integerValue: number };
-          completedQuestions: { integerValue: number };
-          accuracy: { doubleValue: number };
-        };
-      };
-    };
-  };
-}
-
-function learningPlanToDocument(plan: LearningPlan): LearningPlanDocument {
+/** Date fields are written as Firestore timestamps */
+function learningPlanToDocument(plan: LearningPlan): Record<string, unknown> {
   return {
-    fields: {
-      id: { stringValue: plan.id },
-      userId: { stringValue: plan.userId },
-      name: { stringValue: plan.name },
-      topics: {
-        arrayValue: {
-          values: plan.topics.map((t) => ({
-            mapValue: {
-              fields: {
-                leitidee: { stringValue: t.leitidee },
-                thema: { stringValue: t.thema },
-                unterthema: { stringValue: t.unterthema },
-                order: { integerValue: t.order },
-                status: { stringValue: t.status },
-                priority: { stringValue: t.priority },
-                addedAt: { timestampValue: t.addedAt },
-                ...(t.completedAt && { completedAt: { timestampValue: t.completedAt } }),
-              },
-            },
-          })),
-        },
-      },
-      status: { stringValue: plan.status },
-      createdAt: { timestampValue: plan.createdAt },
-      updatedAt: { timestampValue: plan.updatedAt },
-      ...(plan.targetCompletionDate && {
-        targetCompletionDate: { timestampValue: plan.targetCompletionDate },
-      }),
-      progress: {
-        mapValue: {
-          fields: {
-            totalTopics: { integerValue: plan.progress.totalTopics },
-            completedTopics: { integerValue: plan.progress.completedTopics },
-            totalQuestions: { integerValue: plan.progress.totalQuestions },
-            completedQuestions: { integerValue: plan.progress.completedQuestions },
-            accuracy: { doubleValue: plan.progress.accuracy },
-          },
-        },
-      },
-    },
+    id: plan.id,
+    userId: plan.userId,
+    name: plan.name,
+    topics: plan.topics.map((t) => ({
+      leitidee: t.leitidee,
+      thema: t.thema,
+      unterthema: t.unterthema,
+      order: t.order,
+      status: t.status,
+      priority: t.priority,
+      addedAt: new Date(t.addedAt || plan.createdAt), // client-supplied topics may lack addedAt
+      ...(t.completedAt && { completedAt: new Date(t.completedAt) }),
+    })),
+    status: plan.status,
+    createdAt: new Date(plan.createdAt),
+    updatedAt: new Date(plan.updatedAt),
+    ...(plan.targetCompletionDate && {
+      targetCompletionDate: new Date(plan.targetCompletionDate),
+    }),
+    progress: plan.progress,
   };
 }
 
@@ -419,14 +280,15 @@ function prioritizeTopics(plan: LearningPlan): LearningPlan {
 // MAIN HANDLER
 // ============================================================================
 
-export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
+export async function handleManageLearningPlan(c: Context<StudentEnv>) {
   try {
     const body = await c.req.json<Partial<ManageLearningPlanRequest>>();
 
     // Validate required fields
-    const { action, userId } = body;
-    if (!action || !userId) {
-      throw new APIError('Missing required fields: action, userId', 400);
+    const { action } = body;
+    const userId = c.get('studentUid');
+    if (!action) {
+      throw new APIError('Missing required field: action', 400);
     }
 
     const validActions: LearningPlanAction[] = [
@@ -436,8 +298,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
       throw new APIError(`Invalid action: must be one of ${validActions.join(', ')}`, 400);
     }
 
-    // Get Firebase config from request or server-side credentials
-    const firebaseConfig = await getFirebaseConfig(c.env, body.firebaseConfig);
+    const repo = await createUserRepository(c.env, userId);
 
     console.log('[manage-learning-plan] Action:', { action, userId });
 
@@ -447,12 +308,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
 
     switch (action) {
       case 'create': {
-        const plan = await createLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          body.planData || {}
-        );
+        const plan = await createLearningPlan(repo, body.planData || {});
 
         return c.json({
           success: true,
@@ -465,19 +321,10 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
         let plan: LearningPlan | null;
 
         if (body.planId) {
-          plan = await getLearningPlan(
-            firebaseConfig.projectId,
-            firebaseConfig.accessToken,
-            userId,
-            body.planId
-          );
+          plan = await getLearningPlan(repo, body.planId);
         } else {
           // Get active plan
-          plan = await getActiveLearningPlan(
-            firebaseConfig.projectId,
-            firebaseConfig.accessToken,
-            userId
-          );
+          plan = await getActiveLearningPlan(repo);
         }
 
         if (!plan) {
@@ -501,12 +348,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
           throw new APIError('Missing planId or planData for update action', 400);
         }
 
-        const existingPlan = await getLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          body.planId
-        );
+        const existingPlan = await getLearningPlan(repo, body.planId);
 
         if (!existingPlan) {
           throw new APIError('Learning plan not found', 404);
@@ -519,12 +361,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
           userId: existingPlan.userId, // Prevent userId change
         };
 
-        await updateLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          updatedPlan
-        );
+        await updateLearningPlan(repo, updatedPlan);
 
         return c.json({
           success: true,
@@ -538,12 +375,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
           throw new APIError('Missing planId for delete action', 400);
         }
 
-        await deleteLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          body.planId
-        );
+        await deleteLearningPlan(repo, body.planId);
 
         return c.json({
           success: true,
@@ -558,29 +390,15 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
         }
 
         // Get or create active plan
-        let plan = await getActiveLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId
-        );
+        let plan = await getActiveLearningPlan(repo);
 
         if (!plan) {
-          plan = await createLearningPlan(
-            firebaseConfig.projectId,
-            firebaseConfig.accessToken,
-            userId,
-            { name: 'Mein Lernplan' }
-          );
+          plan = await createLearningPlan(repo, { name: 'Mein Lernplan' });
         }
 
         const updatedPlan = addTopicToPlan(plan, body.topic);
 
-        await updateLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          updatedPlan
-        );
+        await updateLearningPlan(repo, updatedPlan);
 
         return c.json({
           success: true,
@@ -594,11 +412,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
           throw new APIError('Missing topic for remove-topic action', 400);
         }
 
-        const plan = await getActiveLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId
-        );
+        const plan = await getActiveLearningPlan(repo);
 
         if (!plan) {
           throw new APIError('No active learning plan found', 404);
@@ -606,12 +420,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
 
         const updatedPlan = removeTopicFromPlan(plan, body.topic);
 
-        await updateLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          updatedPlan
-        );
+        await updateLearningPlan(repo, updatedPlan);
 
         return c.json({
           success: true,
@@ -621,11 +430,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
       }
 
       case 'prioritize': {
-        const plan = await getActiveLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId
-        );
+        const plan = await getActiveLearningPlan(repo);
 
         if (!plan) {
           throw new APIError('No active learning plan found', 404);
@@ -633,12 +438,7 @@ export async function handleManageLearningPlan(c: Context<{ Bindings: Env }>) {
 
         const updatedPlan = prioritizeTopics(plan);
 
-        await updateLearningPlan(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          updatedPlan
-        );
+        await updateLearningPlan(repo, updatedPlan);
 
         return c.json({
           success: true,
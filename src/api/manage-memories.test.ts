@@ -0,0 +1,114 @@
+// src/api/manage-memories.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+import type { StudentEnv } from '../utils/verifyStudentToken'
+import { SCHEDULER } from '../utils/memories'
+
+const mockEnv = { ENVIRONMENT: 'test' } as Env
+
+const question = (id: string) => ({
+  id,
+  type: 'multiple-choice',
+  difficulty: 2,
+  topic: 'Ableitungen',
+  subtopic: 'Potenzregel',
+  question: 'Was ist die Ableitung von x²?',
+  solution: '2x',
+  options: [{ id: 'a', text: '2x', isCorrect: true }],
+})
+
+const dueItem = (id: string) => ({
+  id,
+  scheduler: SCHEDULER,
+  suspended: false,
+  nextReview: '2026-03-01T00:00:00.000Z',
+  question: question(`q-${id}`),
+})
+
+function fakeRepo() {
+  return {
+    uid: 'student-uid-0123456789',
+    reference: (path: string) => `projects/p/databases/(default)/documents/users/student-uid-0123456789/${path}`,
+    get: vi.fn(async (path: string) => (path === '' ? { memoryScheduler: SCHEDULER } : null)),
+    set: vi.fn().mockResolvedValue(undefined),
+    query: vi.fn(async () => [dueItem('auto_sess-1_q-1'), dueItem('mem_1_forged')]),
+    commit: vi.fn().mockResolvedValue(undefined),
+  }
+}
+
+let repo: ReturnType<typeof fakeRepo>
+const buildQuestionSession = vi.fn(async (_c: unknown, _params: unknown, reviews: Array<{ id: string }>) => ({
+  sessionId: 'sess-2',
+  questions: reviews,
+}))
+
+async function makeApp() {
+  vi.doMock('../utils/userRepository', () => ({ createUserRepository: vi.fn(async () => repo) }))
+  vi.doMock('./generate-questions', () => ({ buildQuestionSession }))
+  vi.doMock('./manage-learning-plan', () => ({ getActiveLearningPlan: vi.fn().mockResolvedValue(null) }))
+  const { handleManageMemories, handleBuildSession } = await import('./manage-memories')
+  const app = new Hono<StudentEnv>()
+  app.use('*', async (c, next) => { c.set('studentUid', 'student-uid-0123456789'); await next() })
+  app.post('/', handleManageMemories)
+  app.post('/build-session', handleBuildSession)
+  return app
+}
+
+const post = (path: string, body: unknown) => new Request(`http://localhost${path}`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+})
+
+beforeEach(() => {
+  vi.resetModules()
+  repo = fakeRepo()
+  buildQuestionSession.mockClear()
+})
+
+describe('POST /api/manage-memories create', () => {
+  it('drops a question snapshot sent by the client', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(post('/', {
+      action: 'create',
+      memoryData: { questionId: 'q-9', topic: 'Ableitungen', question: question('q-9') },
+    }), mockEnv)
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body.memory.topic).toBe('Ableitungen')
+    expect(body.memory).not.toHaveProperty('question')
+    expect(repo.set.mock.calls[0][1]).not.toHaveProperty('question')
+    // No filtered query, so the migration flag is not read
+    expect(repo.get).not.toHaveBeenCalled()
+  })
+})
+
+describe('POST /api/manage-memories list', () => {
+  it('checks the migration flag before a filtered query', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(post('/', { action: 'list', filters: { subtopic: 'Potenzregel' } }), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect(repo.get).toHaveBeenCalledWith('')
+    expect(repo.get).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('POST /api/manage-memories/build-session', () => {
+  it('serves only the snapshots of items evaluate-answer created', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(post('/build-session', { userContext: { grade: 11 } }), mockEnv)
+
+    expect(res.status).toBe(200)
+    const reviews = buildQuestionSession.mock.calls[0][2]
+    expect(reviews.map((q) => q.id)).toEqual(['q-auto_sess-1_q-1'])
+  })
+
+  it('is no longer an action of the main route', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(post('/', { action: 'build-session', userContext: { grade: 11 } }), mockEnv)
+    expect(res.status).toBe(400)
+  })
+})
@@ -3,409 +3,557 @@
  * Spaced repetition system for long-term retention
  *
  * Features:
- * - SM-2 algorithm implementation
+ * - FSRS scheduling (utils/fsrs.ts): per-item stability and difficulty,
+ *   configurable desired retention
+ * - Review ratings from evaluation outcomes (correctness, hints, time);
+ *   the SM-2 `quality` (0-5) is still accepted
+ * - Due dates at local midnight in the student's time zone
  * - Create, review, and manage memory items
- * - Due date calculations
- * - Statistics tracking
+ * - `migrate` rewrites SM-2 items as FSRS items, keeping their due dates
+ * - `handleBuildSession` (POST /api/manage-memories/build-session, behind the
+ *   AI rate limit and the generateQuestions quota) mixes due reviews with
+ *   fresh questions from the active learning plan within a daily time budget,
+ *   as a QuestionSession
+ * - `create` stores only descriptive fields; question snapshots, which
+ *   build-session serves and evaluate-answer grades, come from evaluate-answer
+ * - `list` and `get-due` return pages with a cursor, filtered by topic,
+ *   subtopic, difficulty and due window (utils/memories.ts builds the queries,
+ *   firestore.indexes.json holds the composite indexes they need)
+ * - Bulk actions: `bulk-delete`, `bulk-reset` by ids or filters, and
+ *   `suspend-topic`/`unsuspend-topic` to set a topic aside before an exam
+ * - Statistics from aggregation queries, without reading every item
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
+import type { Question, QuestionSession, UserContext } from '../types';
 import { APIError } from '../types';
-import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { buildQuestionSession } from './generate-questions';
+import { getActiveLearningPlan, type LearningPlan, type LearningPlanTopic } from './manage-learning-plan';
+import { createUserRepository, type UserRepository } from '../utils/userRepository';
+import type { FsWrite } from '../utils/firestore';
+import {
+  DEFAULT_TIME_ZONE,
+  FSRS_DEFAULTS,
+  RETENTION_RANGE,
+  isValidTimeZone,
+  localDay,
+  ratingFromOutcome,
+  ratingFromQuality,
+  type FsrsOptions,
+  type Rating,
+  type ReviewOutcome,
+} from '../utils/fsrs';
+import {
+  PAGE_SIZE,
+  SCHEDULER,
+  decodeCursor,
+  documentToMemory,
+  encodeCursor,
+  isAutoMemory,
+  memoryPageQuery,
+  memoryToDocument,
+  memoryWhere,
+  needsMigration,
+  newMemory,
+  parseMemoryFilters,
+  resetFields,
+  reviewMemory,
+  type MemoryFilters,
+  type MemoryInput,
+  type MemoryItem,
+} from '../utils/memories';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
-type MemoryAction = 'create' | 'review' | 'get-due' | 'get-stats' | 'delete';
+type MemoryAction =
+  | 'create'
+  | 'review'
+  | 'get-due'
+  | 'get-stats'
+  | 'delete'
+  | 'migrate'
+  | 'list'
+  | 'bulk-delete'
+  | 'bulk-reset'
+  | 'suspend-topic'
+  | 'unsuspend-topic';
 
 interface ManageMemoriesRequest {
   action: MemoryAction;
-  userId: string;
   memoryId?: string;
-  memoryData?: Partial<MemoryItem>;
-  quality?: number; // 0-5 for SM-2 algorithm
-  firebaseConfig?: {
-    projectId: string;
-    accessToken: string;
-  };
+  memoryData?: MemoryInput;
+  /** FSRS rating: 1 again, 2 hard, 3 good, 4 easy */
+  rating?: number;
+  /** Evaluation result the rating is derived from */
+  outcome?: ReviewOutcome;
+  /** Legacy SM-2 quality 0-5 */
+  quality?: number;
+  /** IANA time zone for due dates, default Europe/Berlin */
+  timeZone?: string;
+  /** Recall probability at which items become due, default 0.9 */
+  desiredRetention?: number;
+  /** list/get-due: filters and paging */
+  filters?: MemoryFilters;
+  pageSize?: number;
+  cursor?: string;
+  /** bulk-delete/bulk-reset: explicit ids, otherwise `filters` select the items */
+  memoryIds?: string[];
+  /** suspend-topic/unsuspend-topic */
+  topic?: string;
+  subtopic?: string;
 }
 
-interface MemoryItem {
-  id: string;
-  userId: string;
-  questionId: string;
-  questionText: string;
-  topic: string;
-  subtopic: string;
-  difficulty: number;
-  createdAt: string;
-  lastReviewed: string;
-  nextReview: string;
-  repetitions: number;
-  easeFactor: number;
-  interval: number; // in days
+interface BuildSessionRequest {
+  /** IANA time zone of the daily budget, default Europe/Berlin */
+  timeZone?: string;
+  /** Minutes of practice per day, default 30 */
+  timeBudgetMinutes?: number;
+  /** Context for generating fresh questions */
+  userContext?: UserContext;
+  afbLevel?: 'I' | 'II' | 'III';
+  learningPlanItemId?: number;
 }
 
-// ============================================================================
-// SM-2 ALGORITHM CONSTANTS
-// ============================================================================
-
-const SM2_DEFAULTS = {
-  INITIAL_EASE_FACTOR: 2.5,
-  MIN_EASE_FACTOR: 1.3,
-  INITIAL_INTERVAL: 1, // 1 day
+const SESSION_DEFAULTS = {
+  TIME_BUDGET_MINUTES: 30,
+  MAX_TIME_BUDGET_MINUTES: 240,
+  /** Share of the budget due reviews may fill while the plan has open topics */
+  REVIEW_SHARE: 0.7,
+  /** Open plan topics fresh questions are drawn from */
+  PLAN_TOPICS: 2,
+  /** Difficulty assumed for questions not generated yet */
+  FRESH_DIFFICULTY: 5,
 };
 
+// Firestore commits are limited to 500 writes
+const BATCH_SIZE = 500;
+
+/** Due reviews build-session considers, oldest due first */
+const SESSION_REVIEW_LIMIT = 100;
+
 // ============================================================================
 // FIRESTORE OPERATIONS
 // ============================================================================
 
-async function getMemoryItem(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  memoryId: string
-): Promise<MemoryItem | null> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/memories/${memoryId}`;
-
-  const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+async function getMemoryItem(repo: UserRepository, memoryId: string): Promise<MemoryItem | null> {
+  const doc = await repo.get(`memories/${memoryId}`);
+  return doc ? documentToMemory(doc) : null;
+}
 
-  if (!response.ok) {
-    if (response.status === 404) return null;
-    throw new APIError(`Failed to fetch memory: ${response.statusText}`, 500);
-  }
+interface MemoryPage {
+  memories: MemoryItem[];
+  nextCursor: string | null;
+}
 
-  const data: any = await response.json();
-  return documentToMemory(data);
+/** One page of items matching the filters, ordered by nextReview */
+async function listMemories(
+  repo: UserRepository,
+  filters: MemoryFilters,
+  pageSize: number,
+  cursor?: string
+): Promise<MemoryPage> {
+  const after = cursor ? decodeCursor(cursor) : null;
+  const docs = await repo.query('memories', memoryPageQuery(filters, pageSize, after, repo.reference));
+  const memories = docs.slice(0, pageSize).map(documentToMemory);
+  const last = memories[memories.length - 1];
+  return { memories, nextCursor: docs.length > pageSize && last ? encodeCursor(last) : null };
 }
 
+/** Items due now, excluding suspended ones */
 async function getDueMemories(
-  projectId: string,
-  accessToken: string,
-  userId: string
-): Promise<MemoryItem[]> {
-  const now = new Date().toISOString();
-
-  // Use Firestore structured query to filter server-side
-  const queryUrl = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents:runQuery`;
-
-  const query = {
-    structuredQuery: {
-      from: [{ collectionId: 'memories' }],
-      where: {
-        fieldFilter: {
-          field: { fieldPath: 'nextReview' },
-          op: 'LESS_THAN_OR_EQUAL',
-          value: { timestampValue: now },
-        },
-      },
-      orderBy: [{ field: { fieldPath: 'nextReview' }, direction: 'ASCENDING' }],
-    },
-    parent: `projects/${projectId}/databases/(default)/documents/users/${userId}`,
-  };
-
-  const response = await fetch(queryUrl, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(query),
-  });
+  repo: UserRepository,
+  pageSize: number,
+  cursor?: string,
+  filters: MemoryFilters = {}
+): Promise<MemoryPage> {
+  return listMemories(
+    repo,
+    { ...filters, suspended: false, dueTo: new Date().toISOString() },
+    pageSize,
+    cursor
+  );
+}
 
-  if (!response.ok) {
-    if (response.status === 404) return [];
-    // Fall back to fetching all memories if structured query fails
-    console.warn('[manage-memories] Structured query failed, falling back to full fetch');
-    return getDueMemoriesFallback(projectId, accessToken, userId, now);
+/** Ids of all items matching the filters, read page by page without their fields */
+async function matchingMemoryIds(repo: UserRepository, filters: MemoryFilters): Promise<string[]> {
+  const ids: string[] = [];
+  let after: { nextReview: string; id: string } | null = null;
+  for (;;) {
+    const docs = await repo.query('memories', {
+      ...memoryPageQuery(filters, BATCH_SIZE, after, repo.reference),
+      select: { fields: [{ fieldPath: 'nextReview' }] },
+    });
+    const page = docs.slice(0, BATCH_SIZE);
+    ids.push(...page.map((doc) => String(doc.id)));
+    if (docs.length <= BATCH_SIZE) return ids;
+    const last = page[page.length - 1];
+    after = { nextReview: String(last.nextReview), id: String(last.id) };
   }
+}
 
-  const results: any[] = await response.json();
+async function createMemory(
+  repo: UserRepository,
+  memoryData: MemoryInput
+): Promise<MemoryItem> {
+  const memoryId = `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const { questionId, questionText, topic, subtopic, difficulty } = memoryData;
+  const memory = newMemory(memoryId, repo.uid, { questionId, questionText, topic, subtopic, difficulty });
 
-  // Filter out empty results (Firestore returns [{readTime: ...}] when no matches)
-  return results
-    .filter((r: any) => r.document)
-    .map((r: any) => documentToMemory(r.document));
+  await repo.set(`memories/${memoryId}`, memoryToDocument(memory));
+  return memory;
 }
 
-async function getDueMemoriesFallback(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  now: string
-): Promise<MemoryItem[]> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/memories`;
+async function updateMemory(repo: UserRepository, memory: MemoryItem): Promise<void> {
+  await repo.set(`memories/${memory.id}`, memoryToDocument(memory));
+}
 
-  const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+async function deleteMemory(repo: UserRepository, memoryId: string): Promise<void> {
+  await repo.delete(`memories/${memoryId}`);
+}
 
-  if (!response.ok) {
-    if (response.status === 404) return [];
-    throw new APIError(`Failed to fetch memories: ${response.statusText}`, 500);
+/**
+ * Rewrite SM-2 items in the FSRS format and add fields the indexed queries
+ * filter on. Due dates are kept; running it again finds nothing to convert.
+ */
+async function migrateMemories(repo: UserRepository): Promise<{ migrated: number; total: number }> {
+  const docs = await repo.query('memories');
+  const outdated = docs.filter(needsMigration).map(documentToMemory);
+
+  for (let i = 0; i < outdated.length; i += BATCH_SIZE) {
+    await repo.commit(
+      outdated.slice(i, i + BATCH_SIZE).map((memory) => ({
+        path: `memories/${memory.id}`,
+        data: memoryToDocument(memory),
+      }))
+    );
   }
+  await repo.update('', { memoryScheduler: SCHEDULER }, ['memoryScheduler']);
 
-  const data: any = await response.json();
-  const documents = data.documents || [];
-
-  return documents
-    .map(documentToMemory)
-    .filter((m: MemoryItem) => m.nextReview <= now)
-    .sort((a: MemoryItem, b: MemoryItem) =>
-      new Date(a.nextReview).getTime() - new Date(b.nextReview).getTime()
-    );
+  return { migrated: outdated.length, total: docs.length };
 }
 
-async function getAllMemories(
-  projectId: string,
-  accessToken: string,
-  userId: string
-): Promise<MemoryItem[]> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/memories`;
-
-  const response = await fetch(url, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-
-  if (!response.ok) {
-    if (response.status === 404) return [];
-    throw new APIError(`Failed to fetch memories: ${response.statusText}`, 500);
+/** Actions that run filtered queries; bulk actions only when selecting by filters */
+function queriesByFilter(action: MemoryAction, body: Partial<ManageMemoriesRequest>): boolean {
+  switch (action) {
+    case 'get-due':
+    case 'list':
+    case 'get-stats':
+    case 'suspend-topic':
+    case 'unsuspend-topic':
+      return true;
+    case 'bulk-delete':
+    case 'bulk-reset':
+      return body.memoryIds === undefined;
+    default:
+      return false;
   }
-
-  const data: any = await response.json();
-  const documents = data.documents || [];
-
-  return documents.map(documentToMemory);
 }
 
-async function createMemory(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  memoryData: Partial<MemoryItem>
-): Promise<MemoryItem> {
-  const memoryId = `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const now = new Date().toISOString();
+/**
+ * Items written before the current format are invisible to filtered queries,
+ * so they are migrated once per student before the first one runs. Only
+ * request paths that run such a query check the flag on the user doc.
+ */
+async function ensureMigrated(repo: UserRepository): Promise<void> {
+  const user = await repo.get('');
+  if (user?.memoryScheduler === SCHEDULER) return;
+  const { migrated } = await migrateMemories(repo);
+  if (migrated > 0) console.log('[manage-memories] Migrated memories:', { userId: repo.uid, migrated });
+}
 
-  const memory: MemoryItem = {
-    id: memoryId,
-    userId,
-    questionId: memoryData.questionId || '',
-    questionText: memoryData.questionText || '',
-    topic: memoryData.topic || 'Allgemein',
-    subtopic: memoryData.subtopic || 'Allgemein',
-    difficulty: memoryData.difficulty || 5,
-    createdAt: now,
-    lastReviewed: now,
-    nextReview: now, // Due immediately
-    repetitions: 0,
-    easeFactor: SM2_DEFAULTS.INITIAL_EASE_FACTOR,
-    interval: SM2_DEFAULTS.INITIAL_INTERVAL,
-  };
+// ============================================================================
+// BULK OPERATIONS
+// ============================================================================
 
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/memories/${memoryId}`;
+/** Items a bulk action applies to: the given ids, or everything matching the filters */
+async function bulkTargets(repo: UserRepository, body: Partial<ManageMemoriesRequest>): Promise<string[]> {
+  if (body.memoryIds !== undefined) {
+    if (!Array.isArray(body.memoryIds) || body.memoryIds.some((id) => typeof id !== 'string' || !id)) {
+      throw new APIError('Invalid memoryIds: must be an array of ids', 400);
+    }
+    if (body.memoryIds.length > BATCH_SIZE) {
+      throw new APIError(`Too many memoryIds: at most ${BATCH_SIZE} per request, use filters instead`, 400);
+    }
+    return [...new Set(body.memoryIds)];
+  }
+  if (!body.filters) {
+    throw new APIError('Missing memoryIds or filters for bulk action', 400);
+  }
+  return matchingMemoryIds(repo, parseMemoryFilters(body.filters));
+}
 
-  const response = await fetch(url, {
-    method: 'PATCH',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(memoryToDocument(memory)),
-  });
+/**
+ * Apply one write per item in batches. Items deleted in the meantime fail
+ * the exists precondition; an explicit id list must therefore only name
+ * existing items.
+ */
+async function bulkWrite(
+  repo: UserRepository,
+  ids: string[],
+  write: (id: string) => Omit<FsWrite, 'path'>
+): Promise<number> {
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+    await repo.commit(
+      ids.slice(i, i + BATCH_SIZE).map((id) => ({ path: `memories/${id}`, exists: true, ...write(id) }))
+    );
+  }
+  return ids.length;
+}
 
-  if (!response.ok) {
-    throw new APIError(`Failed to create memory: ${response.statusText}`, 500);
+async function setTopicSuspended(
+  repo: UserRepository,
+  body: Partial<ManageMemoriesRequest>,
+  suspended: boolean
+): Promise<number> {
+  if (!body.topic) {
+    throw new APIError('Missing topic for suspend action', 400);
   }
+  const filters = parseMemoryFilters({ topic: body.topic, subtopic: body.subtopic, suspended: !suspended });
+  const ids = await matchingMemoryIds(repo, filters);
+  return bulkWrite(repo, ids, () => ({ data: { suspended }, updateMask: ['suspended'] }));
+}
 
-  return memory;
+function pageSizeOf(body: Partial<ManageMemoriesRequest>): number {
+  const pageSize = body.pageSize ?? PAGE_SIZE.default;
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > PAGE_SIZE.max) {
+    throw new APIError(`Invalid pageSize: must be between 1 and ${PAGE_SIZE.max}`, 400);
+  }
+  return pageSize;
 }
 
-async function updateMemory(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  memory: MemoryItem
-): Promise<void> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/memories/${memory.id}`;
-
-  const response = await fetch(url, {
-    method: 'PATCH',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(memoryToDocument(memory)),
-  });
+// ============================================================================
+// REVIEW PARAMETERS
+// ============================================================================
 
-  if (!response.ok) {
-    throw new APIError(`Failed to update memory: ${response.statusText}`, 500);
+function reviewRating(body: Partial<ManageMemoriesRequest>): Rating {
+  if (body.rating !== undefined) {
+    if (![1, 2, 3, 4].includes(body.rating)) {
+      throw new APIError('Invalid rating: must be 1 (again), 2 (hard), 3 (good) or 4 (easy)', 400);
+    }
+    return body.rating as Rating;
   }
+  if (body.outcome) {
+    if (typeof body.outcome.isCorrect !== 'boolean') {
+      throw new APIError('Invalid outcome: isCorrect must be a boolean', 400);
+    }
+    return ratingFromOutcome(body.outcome);
+  }
+  if (typeof body.quality === 'number' && body.quality >= 0 && body.quality <= 5) {
+    return ratingFromQuality(body.quality);
+  }
+  throw new APIError('Missing review result: provide rating (1-4), outcome or quality (0-5)', 400);
 }
 
-async function deleteMemory(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  memoryId: string
-): Promise<void> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}/memories/${memoryId}`;
-
-  const response = await fetch(url, {
-    method: 'DELETE',
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+function scheduleOptions(body: { timeZone?: string; desiredRetention?: number }): { timeZone: string; fsrs: FsrsOptions } {
+  const timeZone = body.timeZone ?? DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    throw new APIError(`Invalid timeZone: ${timeZone}`, 400);
+  }
 
-  if (!response.ok && response.status !== 404) {
-    throw new APIError(`Failed to delete memory: ${response.statusText}`, 500);
+  const desiredRetention = body.desiredRetention ?? FSRS_DEFAULTS.desiredRetention;
+  if (
+    typeof desiredRetention !== 'number' ||
+    desiredRetention < RETENTION_RANGE.min ||
+    desiredRetention > RETENTION_RANGE.max
+  ) {
+    throw new APIError(
+      `Invalid desiredRetention: must be between ${RETENTION_RANGE.min} and ${RETENTION_RANGE.max}`,
+      400
+    );
   }
+
+  return { timeZone, fsrs: { ...FSRS_DEFAULTS, desiredRetention } };
 }
 
 // ============================================================================
-// DATA CONVERSION
+// DAILY SESSION BUILDER
 // ============================================================================
 
-function documentToMemory(doc: any): MemoryItem {
-  const fields = doc.fields || {};
-  return {
-    id: fields.id?.stringValue || '',
-    userId: fields.userId?.stringValue || '',
-    questionId: fields.questionId?.stringValue || '',
-    questionText: fields.questionText?.stringValue || '',
-    topic: fields.topic?.stringValue || '',
-    subtopic: fields.subtopic?.stringValue || '',
-    difficulty: fields.difficulty?.integerValue || 5,
-    createdAt: fields.createdAt?.timestampValue || '',
-    lastReviewed: fields.lastReviewed?.timestampValue || '',
-    nextReview: fields.nextReview?.timestampValue || '',
-    repetitions: fields.repetitions?.integerValue || 0,
-    easeFactor: fields.easeFactor?.doubleValue || fields.easeFactor?.integerValue || 2.5,
-    interval: fields.interval?.integerValue || 1,
-  };
+/** Expected answer time, as evaluate-answer estimates it (60 s per difficulty level) */
+function estimatedSeconds(difficulty: number | undefined): number {
+  return (difficulty || SESSION_DEFAULTS.FRESH_DIFFICULTY) * 60;
 }
 
-interface MemoryDocument {
-  fields: {
-    id: { stringValue: string };
-    userId: { stringValue: string };
-    questionId: { stringValue: string };
-    questionText: { stringValue: string };
-    topic: { stringValue: string };
-    subtopic: { stringValue: string };
-    difficulty: { integerValue: number };
-    createdAt: { timestampValue: string };
-    lastReviewed: { timestampValue: string };
-    nextReview: { timestampValue: string };
-    repetitions: { integerValue: number };
-    easeFactor: { doubleValue: number };
-    interval: { integerValue: number };
-  };
+const PRIORITY_ORDER: Record<LearningPlanTopic['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+/** Open topics of the plan: in progress first, then by priority and order */
+function nextPlanTopics(plan: LearningPlan | null): LearningPlanTopic[] {
+  if (!plan) return [];
+  return plan.topics
+    .filter((t) => t.status !== 'completed')
+    .sort(
+      (a, b) =>
+        Number(b.status === 'in-progress') - Number(a.status === 'in-progress') ||
+        PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+        a.order - b.order
+    )
+    .slice(0, SESSION_DEFAULTS.PLAN_TOPICS);
 }
 
-function memoryToDocument(memory: MemoryItem): MemoryDocument {
-  return {
-    fields: {
-      id: { stringValue: memory.id },
-      userId: { stringValue: memory.userId },
-      questionId: { stringValue: memory.questionId },
-      questionText: { stringValue: memory.questionText },
-      topic: { stringValue: memory.topic },
-      subtopic: { stringValue: memory.subtopic },
-      difficulty: { integerValue: memory.difficulty },
-      createdAt: { timestampValue: memory.createdAt },
-      lastReviewed: { timestampValue: memory.lastReviewed },
-      nextReview: { timestampValue: memory.nextReview },
-      repetitions: { integerValue: memory.repetitions },
-      easeFactor: { doubleValue: memory.easeFactor },
-      interval: { integerValue: memory.interval },
-    },
-  };
+/**
+ * Due review questions, oldest due first, as many as fit into `budgetSeconds`.
+ * Only snapshots evaluate-answer took are served: the session is graded
+ * against them.
+ */
+function pickReviews(due: MemoryItem[], budgetSeconds: number): Question[] {
+  const reviews: Question[] = [];
+  let used = 0;
+  for (const memory of due) {
+    if (!memory.question || !isAutoMemory(memory)) continue;
+    const seconds = estimatedSeconds(memory.question.difficulty);
+    if (used + seconds > budgetSeconds) continue;
+    used += seconds;
+    reviews.push({ ...memory.question, memoryId: memory.id });
+  }
+  return reviews;
 }
 
-// ============================================================================
-// SM-2 ALGORITHM
-// ============================================================================
+/**
+ * Today's practice session: due reviews first, the rest of the daily budget
+ * with fresh questions for the active learning plan. The budget is kept per
+ * local day in dailySessions/{YYYY-MM-DD}, so later sessions get what is left.
+ */
+async function buildDailySession(
+  c: Context<StudentEnv>,
+  repo: UserRepository,
+  body: BuildSessionRequest,
+  timeZone: string
+): Promise<QuestionSession & { budget: Record<string, unknown> }> {
+  if (!body.userContext) {
+    throw new APIError('Missing userContext for build-session', 400);
+  }
+  const budgetMinutes = body.timeBudgetMinutes ?? SESSION_DEFAULTS.TIME_BUDGET_MINUTES;
+  if (
+    typeof budgetMinutes !== 'number' ||
+    budgetMinutes <= 0 ||
+    budgetMinutes > SESSION_DEFAULTS.MAX_TIME_BUDGET_MINUTES
+  ) {
+    throw new APIError(
+      `Invalid timeBudgetMinutes: must be between 1 and ${SESSION_DEFAULTS.MAX_TIME_BUDGET_MINUTES}`,
+      400
+    );
+  }
 
-function calculateSM2(
-  currentInterval: number,
-  currentRepetitions: number,
-  currentEaseFactor: number,
-  quality: number
-): { interval: number; repetitions: number; easeFactor: number } {
-  // Quality: 0-5 (0 = complete blackout, 5 = perfect response)
-  
-  let newInterval: number;
-  let newRepetitions: number;
-  let newEaseFactor: number;
-
-  if (quality < 3) {
-    // Failed recall - start over
-    newRepetitions = 0;
-    newInterval = 1;
-    newEaseFactor = currentEaseFactor;
-  } else {
-    // Successful recall
-    newRepetitions = currentRepetitions + 1;
-
-    if (newRepetitions === 1) {
-      newInterval = 1;
-    } else if (newRepetitions === 2) {
-      newInterval = 6;
-    } else {
-      newInterval = Math.round(currentInterval * currentEaseFactor);
-    }
+  const day = localDay(new Date(), timeZone);
+  const [dailyDoc, due, plan] = await Promise.all([
+    repo.get(`dailySessions/${day}`),
+    getDueMemories(repo, SESSION_REVIEW_LIMIT),
+    getActiveLearningPlan(repo),
+  ]);
+
+  const budgetSeconds = budgetMinutes * 60;
+  const remaining = budgetSeconds - (Number(dailyDoc?.plannedSeconds) || 0);
+  if (remaining < estimatedSeconds(1)) {
+    throw new APIError('Daily time budget used up', 409, 'DAILY_BUDGET_EXHAUSTED');
+  }
 
-    // Update ease factor
-    newEaseFactor = currentEaseFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-    newEaseFactor = Math.max(SM2_DEFAULTS.MIN_EASE_FACTOR, newEaseFactor);
+  const topics = nextPlanTopics(plan);
+  const reviews = pickReviews(
+    due.memories,
+    topics.length > 0 ? remaining * SESSION_DEFAULTS.REVIEW_SHARE : remaining
+  );
+  const reviewSeconds = reviews.reduce((sum, q) => sum + estimatedSeconds(q.difficulty), 0);
+  const questionCount =
+    topics.length > 0
+      ? Math.floor((remaining - reviewSeconds) / estimatedSeconds(SESSION_DEFAULTS.FRESH_DIFFICULTY))
+      : 0;
+
+  if (reviews.length === 0 && questionCount === 0) {
+    throw new APIError(
+      'Nothing to practise: no due reviews and no open topics in the active learning plan',
+      404,
+      'NOTHING_DUE'
+    );
   }
 
+  const session = await buildQuestionSession(
+    c,
+    {
+      userId: repo.uid,
+      topics: topics.map(({ leitidee, thema, unterthema }) => ({ leitidee, thema, unterthema })),
+      userContext: body.userContext,
+      afbLevel: body.afbLevel || 'II',
+      questionCount,
+      useCache: true,
+      forceRegenerate: false,
+      learningPlanItemId: body.learningPlanItemId as number,
+      answerTypes: [],
+    },
+    reviews
+  );
+
+  const plannedSeconds = session.questions.reduce((sum, q) => sum + estimatedSeconds(q.difficulty), 0);
+  await repo.commit([
+    {
+      path: `dailySessions/${day}`,
+      data: { day, timeZone, budgetSeconds, lastSessionId: session.sessionId },
+      updateMask: ['day', 'timeZone', 'budgetSeconds', 'lastSessionId'],
+      increments: { plannedSeconds, sessions: 1 },
+    },
+  ]);
+
+  const usedSeconds = budgetSeconds - remaining + plannedSeconds;
   return {
-    interval: newInterval,
-    repetitions: newRepetitions,
-    easeFactor: newEaseFactor,
+    ...session,
+    budget: {
+      day,
+      budgetMinutes,
+      usedMinutes: Math.round(usedSeconds / 60),
+      remainingMinutes: Math.max(Math.round((budgetSeconds - usedSeconds) / 60), 0),
+    },
   };
 }
 
-function calculateNextReviewDate(intervalDays: number): string {
-  const date = new Date();
-  date.setDate(date.getDate() + intervalDays);
-  return date.toISOString();
-}
-
 // ============================================================================
 // STATS CALCULATION
 // ============================================================================
 
-function calculateStats(memories: MemoryItem[]) {
+const round2 = (value: number | null) => (value === null ? 0 : Math.round(value * 100) / 100);
+
+/**
+ * Totals via aggregation queries; only the topic field of each item and the
+ * next due item are read. Suspended items count as items, never as due.
+ */
+async function calculateStats(repo: UserRepository) {
   const now = new Date().toISOString();
-  const dueCount = memories.filter((m) => m.nextReview <= now).length;
-  
-  const totalReviews = memories.reduce((sum, m) => sum + m.repetitions, 0);
-  const avgEaseFactor = memories.length > 0
-    ? memories.reduce((sum, m) => sum + m.easeFactor, 0) / memories.length
-    : 0;
+  const where = (filters: MemoryFilters) => {
+    const clause = memoryWhere(filters);
+    return clause ? { where: clause } : {};
+  };
+
+  const [totals, due, suspended, next, topics] = await Promise.all([
+    repo.aggregate('memories', {}, [
+      { alias: 'total', count: {} },
+      { alias: 'reviews', sum: { field: { fieldPath: 'repetitions' } } },
+      { alias: 'lapses', sum: { field: { fieldPath: 'lapses' } } },
+      { alias: 'stability', avg: { field: { fieldPath: 'fsrs.stability' } } },
+      { alias: 'difficulty', avg: { field: { fieldPath: 'fsrs.difficulty' } } },
+    ]),
+    repo.aggregate('memories', where({ suspended: false, dueTo: now }), [{ alias: 'count', count: {} }]),
+    repo.aggregate('memories', where({ suspended: true }), [{ alias: 'count', count: {} }]),
+    listMemories(repo, { suspended: false }, 1),
+    repo.query('memories', { select: { fields: [{ fieldPath: 'topic' }] } }),
+  ]);
 
   const byTopic: Record<string, number> = {};
-  memories.forEach((m) => {
-    byTopic[m.topic] = (byTopic[m.topic] || 0) + 1;
+  topics.forEach((doc) => {
+    const topic = String(doc.topic ?? '');
+    byTopic[topic] = (byTopic[topic] || 0) + 1;
   });
 
   return {
-    totalMemories: memories.length,
-    dueForReview: dueCount,
-    totalReviews,
-    averageEaseFactor: Math.round(avgEaseFactor * 100) / 100,
+    totalMemories: totals.total ?? 0,
+    dueForReview: due.count ?? 0,
+    suspended: suspended.count ?? 0,
+    totalReviews: totals.reviews ?? 0,
+    totalLapses: totals.lapses ?? 0,
+    averageStability: round2(totals.stability),
+    averageDifficulty: round2(totals.difficulty),
     byTopic,
-    nextReviewDue: memories.length > 0
-      ? memories.sort((a, b) => 
-          new Date(a.nextReview).getTime() - new Date(b.nextReview).getTime()
-        )[0].nextReview
-      : null,
+    nextReviewDue: next.memories[0]?.nextReview ?? null,
   };
 }
 
@@ -413,26 +561,42 @@ function calculateStats(memories: MemoryItem[]) {
 // MAIN HANDLER
 // ============================================================================
 
-export async function handleManageMemories(c: Context<{ Bindings: Env }>) {
+export async function handleManageMemories(c: Context<StudentEnv>) {
   try {
     const body = await c.req.json<Partial<ManageMemoriesRequest>>();
 
     // Validate required fields
-    const { action, userId } = body;
-    if (!action || !userId) {
-      throw new APIError('Missing required fields: action, userId', 400);
+    const { action } = body;
+    const userId = c.get('studentUid');
+    if (!action) {
+      throw new APIError('Missing required field: action', 400);
     }
 
-    const validActions: MemoryAction[] = ['create', 'review', 'get-due', 'get-stats', 'delete'];
+    const validActions: MemoryAction[] = [
+      'create',
+      'review',
+      'get-due',
+      'get-stats',
+      'delete',
+      'migrate',
+      'list',
+      'bulk-delete',
+      'bulk-reset',
+      'suspend-topic',
+      'unsuspend-topic',
+    ];
     if (!validActions.includes(action)) {
       throw new APIError(`Invalid action: must be one of ${validActions.join(', ')}`, 400);
     }
 
-    // Get Firebase config from request or server-side credentials
-    const firebaseConfig = await getFirebaseConfig(c.env, body.firebaseConfig);
+    const repo = await createUserRepository(c.env, userId);
 
     console.log('[manage-memories] Action:', { action, userId });
 
+    if (queriesByFilter(action, body)) {
+      await ensureMigrated(repo);
+    }
+
     // =======================================================================
     // HANDLE ACTIONS
     // =======================================================================
@@ -443,12 +607,7 @@ export async function handleManageMemories(c: Context<{ Bindings: Env }>) {
           throw new APIError('Missing memoryData for create action', 400);
         }
 
-        const memory = await createMemory(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          body.memoryData
-        );
+        const memory = await createMemory(repo, body.memoryData);
 
         return c.json({
           success: true,
@@ -461,77 +620,53 @@ export async function handleManageMemories(c: Context<{ Bindings: Env }>) {
         if (!body.memoryId) {
           throw new APIError('Missing memoryId for review action', 400);
         }
-        if (typeof body.quality !== 'number' || body.quality < 0 || body.quality > 5) {
-          throw new APIError('Invalid quality: must be 0-5', 400);
-        }
+        const rating = reviewRating(body);
+        const options = scheduleOptions(body);
 
-        const memory = await getMemoryItem(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          body.memoryId
-        );
+        const memory = await getMemoryItem(repo, body.memoryId);
 
         if (!memory) {
           throw new APIError('Memory item not found', 404);
         }
 
-        // Apply SM-2 algorithm
-        const sm2Result = calculateSM2(
-          memory.interval,
-          memory.repetitions,
-          memory.easeFactor,
-          body.quality
-        );
-
-        // Update memory
-        const updatedMemory: MemoryItem = {
-          ...memory,
-          repetitions: sm2Result.repetitions,
-          easeFactor: sm2Result.easeFactor,
-          interval: sm2Result.interval,
-          lastReviewed: new Date().toISOString(),
-          nextReview: calculateNextReviewDate(sm2Result.interval),
-        };
-
-        await updateMemory(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          updatedMemory
-        );
+        const updatedMemory = reviewMemory(memory, rating, options);
+
+        await updateMemory(repo, updatedMemory);
 
         return c.json({
           success: true,
           action: 'review',
           memory: updatedMemory,
-          sm2Result,
+          rating,
         });
       }
 
       case 'get-due': {
-        const dueMemories = await getDueMemories(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId
-        );
+        const filters = parseMemoryFilters(body.filters);
+        const page = await getDueMemories(repo, pageSizeOf(body), body.cursor, filters);
 
         return c.json({
           success: true,
           action: 'get-due',
-          memories: dueMemories,
-          count: dueMemories.length,
+          ...page,
+          count: page.memories.length,
         });
       }
 
-      case 'get-stats': {
-        const allMemories = await getAllMemories(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId
-        );
+      case 'list': {
+        const filters = parseMemoryFilters(body.filters);
+        const page = await listMemories(repo, filters, pageSizeOf(body), body.cursor);
 
-        const stats = calculateStats(allMemories);
+        return c.json({
+          success: true,
+          action: 'list',
+          ...page,
+          count: page.memories.length,
+        });
+      }
+
+      case 'get-stats': {
+        const stats = await calculateStats(repo);
 
         return c.json({
           success: true,
@@ -545,12 +680,7 @@ export async function handleManageMemories(c: Context<{ Bindings: Env }>) {
           throw new APIError('Missing memoryId for delete action', 400);
         }
 
-        await deleteMemory(
-          firebaseConfig.projectId,
-          firebaseConfig.accessToken,
-          userId,
-          body.memoryId
-        );
+        await deleteMemory(repo, body.memoryId);
 
         return c.json({
           success: true,
@@ -559,24 +689,108 @@ export async function handleManageMemories(c: Context<{ Bindings: Env }>) {
         });
       }
 
+      case 'migrate': {
+        const result = await migrateMemories(repo);
+
+        return c.json({
+          success: true,
+          action: 'migrate',
+          ...result,
+        });
+      }
+
+      case 'bulk-delete': {
+        const ids = await bulkTargets(repo, body);
+        const deleted = await bulkWrite(repo, ids, () => ({ delete: true }));
+
+        return c.json({
+          success: true,
+          action: 'bulk-delete',
+          deleted,
+        });
+      }
+
+      case 'bulk-reset': {
+        const ids = await bulkTargets(repo, body);
+        const fields = resetFields();
+        const reset = await bulkWrite(repo, ids, () => ({
+          data: fields,
+          updateMask: Object.keys(fields),
+        }));
+
+        return c.json({
+          success: true,
+          action: 'bulk-reset',
+          reset,
+        });
+      }
+
+      case 'suspend-topic':
+      case 'unsuspend-topic': {
+        const suspended = action === 'suspend-topic';
+        const updated = await setTopicSuspended(repo, body, suspended);
+
+        return c.json({
+          success: true,
+          action,
+          topic: body.topic,
+          subtopic: body.subtopic ?? null,
+          suspended,
+          updated,
+        });
+      }
+
       default:
         throw new APIError(`Unhandled action: ${action}`, 500);
     }
 
   } catch (error) {
-    console.error('[manage-memories] Error:', error);
+    return errorResponse(c, error);
+  }
+}
 
-    if (error instanceof APIError) {
-      return c.json({ success: false, error: error.message }, error.statusCode as any);
-    }
+/**
+ * POST /api/manage-memories/build-session — today's practice session. A route
+ * of its own so the AI rate limit and the generateQuestions quota apply.
+ */
+export async function handleBuildSession(c: Context<StudentEnv>) {
+  try {
+    const body = await c.req.json<BuildSessionRequest>();
+    const userId = c.get('studentUid');
+    const { timeZone } = scheduleOptions(body);
 
+    const repo = await createUserRepository(c.env, userId);
+    console.log('[manage-memories] Action:', { action: 'build-session', userId });
+    await ensureMigrated(repo);
+
+    const session = await buildDailySession(c, repo, body, timeZone);
+
+    return c.json({
+      success: true,
+      action: 'build-session',
+      ...session,
+    });
+  } catch (error) {
+    return errorResponse(c, error);
+  }
+}
+
+function errorResponse(c: Context<StudentEnv>, error: unknown) {
+  console.error('[manage-memories] Error:', error);
+
+  if (error instanceof APIError) {
     return c.json(
-      {
-        success: false,
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      },
-      500
+      { success: false, error: error.message, code: error.code },
+      error.statusCode as any
     );
   }
+
+  return c.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    500
+  );
 }
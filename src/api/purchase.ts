@@ -3,36 +3,34 @@
  * Server-side validation for shop purchases
  *
  * Features:
- * - Atomic Firestore transactions
+ * - Atomic Firestore writes (increments behind an update-time precondition)
  * - Balance verification
  * - Item unlock validation
  * - Support for themes and streak freezes
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import { APIError } from '../types';
-import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { createUserRepository, type UserRepository } from '../utils/userRepository';
+import { retryOnConflict, type FsWrite } from '../utils/firestore';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
 interface PurchaseRequest {
-  userId: string;
   itemType: 'theme' | 'streakFreeze';
   itemId: string;
   cost: number;
-  firebaseConfig?: {
-    projectId: string;
-    accessToken: string;
-  };
 }
 
 interface UserStats {
   coins: number;
   streakFreezes: number;
   unlockedThemes: string[];
+  /** Update time of the user document the stats were read from */
+  updateTime: string;
 }
 
 // ============================================================================
@@ -44,7 +42,6 @@ const VALID_THEMES = ['sunsetOrange', 'oceanBlue', 'forestGreen', 'lavenderPurpl
 const MAX_STREAK_FREEZES = 5;
 
 function validatePurchaseRequest(body: Partial<PurchaseRequest>): body is PurchaseRequest {
-  if (!body.userId) throw new APIError('Missing required field: userId', 400);
   if (!body.itemType) throw new APIError('Missing required field: itemType', 400);
   if (!body.itemId) throw new APIError('Missing required field: itemId', 400);
   if (typeof body.cost !== 'number' || body.cost < 0) {
@@ -63,168 +60,120 @@ function validatePurchaseRequest(body: Partial<PurchaseRequest>): body is Purcha
 // FIRESTORE OPERATIONS
 // ============================================================================
 
-async function getUserStats(
-  projectId: string,
-  accessToken: string,
-  userId: string
-): Promise<UserStats | null> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}`;
-
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
-
-  if (!response.ok) {
-    if (response.status === 404) return null;
-    throw new APIError(`Failed to fetch user stats: ${response.statusText}`, 500);
-  }
-
-  const data: any = await response.json();
-  const fields = data.fields || {};
+async function getUserStats(repo: UserRepository): Promise<UserStats | null> {
+  const userDoc = await repo.getVersioned('');
+  if (!userDoc) return null;
 
   // Stats are stored in a nested 'stats' object in Firestore
-  const statsFields = fields.stats?.mapValue?.fields || {};
+  const stats = (userDoc.data.stats ?? {}) as Record<string, unknown>;
 
   return {
-    coins: statsFields.coins?.integerValue || statsFields.coins?.doubleValue || 0,
-    streakFreezes: statsFields.streakFreezes?.integerValue || 0,
-    unlockedThemes: statsFields.unlockedThemes?.arrayValue?.values?.map((v: any) => v.stringValue) || ['sunsetOrange'],
+    coins: Number(stats.coins) || 0,
+    streakFreezes: Number(stats.streakFreezes) || 0,
+    unlockedThemes: (stats.unlockedThemes as string[] | undefined) ?? ['sunsetOrange'],
+    updateTime: userDoc.updateTime,
   };
 }
 
+/** Why the purchase is refused, or null if the user may buy the item */
+function checkPurchase(userStats: UserStats, { itemType, itemId, cost }: PurchaseRequest) {
+  if (userStats.coins < cost) {
+    return { success: false, error: 'Insufficient coins', currentBalance: userStats.coins, required: cost };
+  }
+  if (itemType === 'theme' && userStats.unlockedThemes.includes(itemId)) {
+    return { success: false, error: 'Theme already unlocked', itemId };
+  }
+  if (itemType === 'streakFreeze' && userStats.streakFreezes >= MAX_STREAK_FREEZES) {
+    return {
+      success: false,
+      error: 'Maximum streak freezes reached',
+      current: userStats.streakFreezes,
+      maximum: MAX_STREAK_FREEZES,
+    };
+  }
+  return null;
+}
+
+/**
+ * Coins and streak freezes change by server-side increments, and the commit
+ * only applies if the user document is unchanged since the balance was
+ * checked; a concurrent purchase or XP award makes it fail with a conflict.
+ */
 async function updateUserAfterPurchase(
-  projectId: string,
-  accessToken: string,
-  userId: string,
-  itemType: string,
-  itemId: string,
-  newCoins: number,
-  currentUnlockedThemes: string[],
-  currentStreakFreezes: number
+  repo: UserRepository,
+  { itemType, itemId, cost }: PurchaseRequest,
+  userStats: UserStats
 ): Promise<void> {
-  const url = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/(default)/documents/users/${userId}?updateMask.fieldPaths=stats.coins&updateMask.fieldPaths=stats.unlockedThemes&updateMask.fieldPaths=stats.streakFreezes&updateMask.fieldPaths=lastPurchaseAt`;
-
-  let updateData: any = {
-    fields: {
-      stats: {
-        mapValue: {
-          fields: {
-            coins: { integerValue: newCoins },
-          },
-        },
-      },
-      lastPurchaseAt: { timestampValue: new Date().toISOString() },
-    },
+  const write: FsWrite = {
+    path: '',
+    data: { lastPurchaseAt: new Date() },
+    updateMask: ['lastPurchaseAt'],
+    increments: { 'stats.coins': -cost },
+    updateTime: userStats.updateTime,
   };
 
   if (itemType === 'theme') {
-    const updatedThemes = [...new Set([...currentUnlockedThemes, itemId])];
-    updateData.fields.stats.mapValue.fields.unlockedThemes = {
-      arrayValue: {
-        values: updatedThemes.map((t) => ({ stringValue: t })),
-      },
-    };
+    // Includes the current list so the default theme is stored on first purchase
+    write.appends = { 'stats.unlockedThemes': [...userStats.unlockedThemes, itemId] };
   } else if (itemType === 'streakFreeze') {
-    updateData.fields.stats.mapValue.fields.streakFreezes = { integerValue: currentStreakFreezes + 1 };
+    write.increments!['stats.streakFreezes'] = 1;
   }
 
-  const response = await fetch(url, {
-    method: 'PATCH',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(updateData),
-  });
-
-  if (!response.ok) {
-    throw new APIError(`Failed to update user after purchase: ${response.statusText}`, 500);
-  }
+  await repo.commit([write]);
 }
 
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
 
-export async function handlePurchase(c: Context<{ Bindings: Env }>) {
+export async function handlePurchase(c: Context<StudentEnv>) {
   try {
     const body = await c.req.json<Partial<PurchaseRequest>>();
 
     // Validate request
     validatePurchaseRequest(body);
-    const { userId, itemType, itemId, cost, firebaseConfig } = body as PurchaseRequest;
+    const request = body as PurchaseRequest;
+    const { itemType, itemId, cost } = request;
+    const userId = c.get('studentUid');
 
     console.log('[purchase] Request:', { userId, itemType, itemId, cost });
 
-    // Get Firebase config from request or server-side credentials
-    const fbConfig = await getFirebaseConfig(c.env, firebaseConfig);
+    const repo = await createUserRepository(c.env, userId);
 
-    // =======================================================================
-    // PHASE 1: Fetch current user stats
-    // =======================================================================
+    // Fetch, validate and commit are retried together when the user
+    // document changed in between
+    const outcome = await retryOnConflict(async () => {
+      // =====================================================================
+      // PHASE 1: Fetch current user stats
+      // =====================================================================
 
-    const userStats = await getUserStats(
-      fbConfig.projectId,
-      fbConfig.accessToken,
-      userId
-    );
+      const userStats = await getUserStats(repo);
 
-    if (!userStats) {
-      throw new APIError('User not found', 404);
-    }
+      if (!userStats) {
+        throw new APIError('User not found', 404);
+      }
 
-    // =======================================================================
-    // PHASE 2: Validate purchase
-    // =======================================================================
+      // =====================================================================
+      // PHASE 2: Validate purchase (balance, unlocked themes, freeze limit)
+      // =====================================================================
 
-    // Check if user has enough coins
-    if (userStats.coins < cost) {
-      return c.json({
-        success: false,
-        error: 'Insufficient coins',
-        currentBalance: userStats.coins,
-        required: cost,
-      }, 400);
-    }
+      const refusal = checkPurchase(userStats, request);
+      if (refusal) return { refusal };
 
-    // Check if theme is already unlocked
-    if (itemType === 'theme' && userStats.unlockedThemes.includes(itemId)) {
-      return c.json({
-        success: false,
-        error: 'Theme already unlocked',
-        itemId,
-      }, 400);
-    }
+      // =====================================================================
+      // PHASE 3: Process purchase (atomic update)
+      // =====================================================================
 
-    // Check streak freeze limit
-    if (itemType === 'streakFreeze' && userStats.streakFreezes >= MAX_STREAK_FREEZES) {
-      return c.json({
-        success: false,
-        error: 'Maximum streak freezes reached',
-        current: userStats.streakFreezes,
-        maximum: MAX_STREAK_FREEZES,
-      }, 400);
-    }
-
-    // =======================================================================
-    // PHASE 3: Process purchase (atomic update)
-    // =======================================================================
+      await updateUserAfterPurchase(repo, request, userStats);
+      return { userStats };
+    });
 
+    if ('refusal' in outcome) {
+      return c.json(outcome.refusal, 400);
+    }
+    const { userStats } = outcome;
     const newCoinBalance = userStats.coins - cost;
 
-    await updateUserAfterPurchase(
-      fbConfig.projectId,
-      fbConfig.accessToken,
-      userId,
-      itemType,
-      itemId,
-      newCoinBalance,
-      userStats.unlockedThemes,
-      userStats.streakFreezes
-    );
-
     console.log('[purchase] Success:', { userId, itemType, itemId, newBalance: newCoinBalance });
 
     // =======================================================================
@@ -10,16 +10,16 @@
  */
 
 import type { Context } from 'hono';
-import type { Env } from '../index';
+import type { StudentEnv } from '../utils/verifyStudentToken';
 import { APIError } from '../types';
-import { callAI, getTaskModelConfig } from '../utils/callAI';
+import { callAIForTask } from '../utils/callAI';
+import { aiUsageScope } from '../utils/aiQuota';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
 interface UpdateAutoModeRequest {
-  userId: string;
   currentSettings: AutoModeSettings;
   recentPerformance: PerformanceRecord[];
 }
@@ -209,16 +209,13 @@ function validateAssessment(data: any): AutoModeAssessment {
 // MAIN HANDLER
 // ============================================================================
 
-export async function handleUpdateAutoMode(c: Context<{ Bindings: Env }>) {
+export async function handleUpdateAutoMode(c: Context<StudentEnv>) {
   try {
     const body = await c.req.json<Partial<UpdateAutoModeRequest>>();
 
     // Validate required fields
-    const { userId, currentSettings, recentPerformance } = body;
-    
-    if (!userId) {
-      throw new APIError('Missing required field: userId', 400);
-    }
+    const { currentSettings, recentPerformance } = body;
+    const userId = c.get('studentUid');
 
     // Default settings if not provided (frontend may not send this field)
     const settings: AutoModeSettings = currentSettings || {
@@ -255,27 +252,18 @@ export async function handleUpdateAutoMode(c: Context<{ Bindings: Env }>) {
     }
 
     // =======================================================================
-    // PHASE 2: Get task configuration from models.json
+    // PHASE 2: Build prompt
     // =======================================================================
 
-    const taskConfig = await getTaskModelConfig('updateAutoMode');
-    console.log(`[Model Router] Using ${taskConfig.model} for updateAutoMode task`);
-
     const prompt = buildPrompt(settings, performance, metrics);
 
     // =======================================================================
     // PHASE 3: Call AI for assessment
     // =======================================================================
 
-    const responseText = await callAI({
-      provider: taskConfig.provider,
-      model: taskConfig.model,
-      prompt,
-      temperature: taskConfig.temperature,
-      maxTokens: taskConfig.maxTokens,
-      systemPrompt: taskConfig.systemPrompt,
-      env: c.env,
-    });
+    const ai = await callAIForTask('updateAutoMode', prompt, c.env, aiUsageScope(c));
+    const responseText = ai.response;
+    console.log(`[Model Router] ${ai.model} (${ai.provider}) served updateAutoMode task`);
 
     // =======================================================================
     // PHASE 4: Parse and validate response
@@ -305,15 +293,18 @@ export async function handleUpdateAutoMode(c: Context<{ Bindings: Env }>) {
       success: true,
       ...assessment,
       metrics,
-      modelUsed: taskConfig.model,
-      providerUsed: taskConfig.provider,
+      modelUsed: ai.model,
+      providerUsed: ai.provider,
     });
 
   } catch (error) {
     console.error('[update-auto-mode] Error:', error);
 
     if (error instanceof APIError) {
-      return c.json({ success: false, error: error.message }, error.statusCode as any);
+      return c.json(
+        { success: false, error: error.message, code: error.code },
+        error.statusCode as any
+      );
     }
 
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
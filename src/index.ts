@@ -3,28 +3,53 @@
  * Main router with CORS middleware and API endpoints
  */
 
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { cors } from "hono/cors";
 import { handleAnalyzeImage } from "./api/analyze-image";
 import { handleCollaborativeCanvas } from "./api/collaborative-canvas";
-import { handleCustomHint } from "./api/custom-hint";
+import { handleCustomHint, handleCustomHintStream } from "./api/custom-hint";
+import { handleEvaluateAnswer } from "./api/evaluate-answer";
 import { handleGenerateGeogebra } from "./api/generate-geogebra";
 import { handleGenerateMiniApp } from "./api/generate-mini-app";
 import { handleGetJob, handleGenerateMiniAppAsync } from "./api/jobs";
-import { handleGenerateQuestions } from "./api/generate-questions";
+import {
+	handleGenerateQuestions,
+	handleGenerateQuestionsStream,
+} from "./api/generate-questions";
 import { handleGetModels } from "./api/get-models";
+import { handleJoinClass } from "./api/join-class";
 import { handleManageLearningPlan } from "./api/manage-learning-plan";
-import { handleManageMemories } from "./api/manage-memories";
+import {
+	handleBuildSession,
+	handleManageMemories,
+} from "./api/manage-memories";
 import { handlePurchase } from "./api/purchase";
 import { handleUpdateAutoMode } from "./api/update-auto-mode";
+import adminClassesRouter from "./admin/classes";
+import adminQuestionBankRouter from "./admin/questionBank";
+import adminTeachersRouter from "./admin/teachers";
+import adminUsageRouter from "./admin/usage";
 import analyticsRouter from "./teacher/analytics";
 import classesRouter from "./teacher/classes";
 import goalsRouter from "./teacher/goals";
+import joinCodesRouter from "./teacher/joinCodes";
 import meRouter from "./teacher/me";
+import reviewsRouter from "./teacher/reviews";
+import rosterRouter from "./teacher/roster";
+import schoolRouter from "./teacher/school";
 import studentsRouter from "./teacher/students";
+import usageRouter from "./teacher/usage";
 // Teacher dashboard routes
-import { requireTeacher } from "./utils/verifyTeacherToken";
-import { rateLimit } from "./utils/rateLimit";
+import {
+	requireAdmin,
+	requireTeacher,
+	type AdminVariables,
+	type TeacherVariables,
+} from "./utils/verifyTeacherToken";
+import { requireStudent, type StudentEnv } from "./utils/verifyStudentToken";
+import { rateLimit, RateLimitPresets } from "./utils/rateLimit";
+import { aiQuota, aiScope } from "./utils/aiQuota";
+import { APIError } from "./types";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -41,13 +66,20 @@ export interface Env {
 	// Firebase Service Account (set via wrangler secret)
 	FIREBASE_SERVICE_ACCOUNT: string;
 	FIREBASE_API_KEY: string;
+	// Rate limit stores (optional; falls back to a per-isolate memory store)
+	RATE_LIMITER?: DurableObjectNamespace;
+	RATE_LIMIT_KV?: KVNamespace;
 }
 
 // ============================================================================
 // MAIN HONO APP
 // ============================================================================
 
-const app = new Hono<{ Bindings: Env; Variables: { teacherUid: string } }>();
+const app = new Hono<{
+	Bindings: Env;
+	Variables: TeacherVariables &
+		AdminVariables & { studentUid: string; aiClassIds?: string[] };
+}>();
 
 // ============================================================================
 // CORS MIDDLEWARE
@@ -84,16 +116,39 @@ app.use(
 );
 
 // ============================================================================
-// TEACHER DASHBOARD ROUTES (all require role: "teacher" Firebase claim)
+// TEACHER DASHBOARD ROUTES (all require role: "teacher" or "school-admin"
+// Firebase claim; the schoolId claim scopes them to one school)
 // ============================================================================
 // Rate limit: 120 req/min per IP (generous for dashboard use but prevents abuse)
-app.use("/api/teacher/*", rateLimit({ windowMs: 60_000, maxRequests: 120 }));
+app.use(
+	"/api/teacher/*",
+	rateLimit({ windowMs: 60_000, maxRequests: 120, name: "teacher" }),
+);
 app.use("/api/teacher/*", requireTeacher);
 app.route("/api/teacher/me", meRouter);
+app.route("/api/teacher/school", schoolRouter);
 app.route("/api/teacher/class", classesRouter);
 app.route("/api/teacher/class", analyticsRouter);
 app.route("/api/teacher/class", goalsRouter);
+app.route("/api/teacher/class", usageRouter);
+app.route("/api/teacher/class", joinCodesRouter);
+app.route("/api/teacher/class", reviewsRouter);
 app.route("/api/teacher/student", studentsRouter);
+app.route("/api/teacher/roster", rosterRouter);
+
+// ============================================================================
+// ADMIN ROUTES (require the admin: true Firebase claim; the schoolId claim
+// scopes them to one school)
+// ============================================================================
+app.use(
+	"/api/admin/*",
+	rateLimit({ windowMs: 60_000, maxRequests: 60, name: "admin" }),
+);
+app.use("/api/admin/*", requireAdmin);
+app.route("/api/admin/teachers", adminTeachersRouter);
+app.route("/api/admin/classes", adminClassesRouter);
+app.route("/api/admin/usage", adminUsageRouter);
+app.route("/api/admin/question-bank", adminQuestionBankRouter);
 
 // ============================================================================
 // ROUTES
@@ -111,60 +166,188 @@ app.get("/", (c) => {
 		endpoints: [
 			"GET /api/get-models",
 			"POST /api/generate-questions",
-
+			"POST /api/generate-questions/stream",
+			"POST /api/evaluate-answer",
 			"POST /api/update-auto-mode",
 			"POST /api/custom-hint",
+			"POST /api/custom-hint/stream",
 			"POST /api/generate-geogebra",
 			"POST /api/generate-mini-app",
-				"POST /api/generate-mini-app/async",
-				"GET  /api/jobs/:jobId",
+			"POST /api/generate-mini-app/async",
+			"GET  /api/jobs/:jobId",
 			"POST /api/manage-learning-plan",
 			"POST /api/manage-memories",
+			"POST /api/manage-memories/build-session",
 			"POST /api/analyze-image",
 			"POST /api/collaborative-canvas",
 			"POST /api/purchase",
 
 			"GET  /api/teacher/me",
 			"PUT  /api/teacher/me",
+			"GET  /api/teacher/school",
+			"PUT  /api/teacher/school",
+			"GET  /api/teacher/school/teachers",
+			"PUT  /api/teacher/school/teachers/:uid/role",
+			"GET  /api/teacher/school/classes",
 			"GET  /api/teacher/class/:classId/students",
 			"GET  /api/teacher/class/:classId/analytics",
 			"GET  /api/teacher/class/:classId/feed",
 			"POST /api/teacher/class/:classId/goal",
+			"GET  /api/teacher/class/:classId/ai-usage",
+			"GET  /api/teacher/class/:classId/ai-quota",
+			"PUT  /api/teacher/class/:classId/ai-quota",
 			"PATCH /api/teacher/class/:classId",
 			"POST /api/teacher/class",
 			"DELETE /api/teacher/class/:classId",
 			"POST /api/teacher/class/:classId/students",
 			"DELETE /api/teacher/class/:classId/students/:userId",
+			"POST /api/teacher/class/:classId/join-codes",
+			"GET  /api/teacher/class/:classId/join-codes",
+			"DELETE /api/teacher/class/:classId/join-codes/:code",
+			"GET  /api/teacher/class/:classId/join-requests",
+			"POST /api/teacher/class/:classId/join-requests/:userId/approve",
+			"DELETE /api/teacher/class/:classId/join-requests/:userId",
+			"GET  /api/teacher/class/:classId/reviews",
+			"POST /api/teacher/class/:classId/reviews/:userId/:sessionId/:questionId/approve",
+			"POST /api/teacher/class/:classId/reviews/:userId/:sessionId/:questionId/reject",
 			"POST /api/teacher/student/:userId/ai-assessment",
 			"POST /api/teacher/student/invite",
 			"POST /api/teacher/student/reset-password",
+			"POST /api/teacher/roster",
+			"GET  /api/admin/teachers",
+			"POST /api/admin/teachers",
+			"DELETE /api/admin/teachers/:uid",
+			"GET  /api/admin/classes",
+			"POST /api/admin/classes/:classId/transfer",
+			"GET  /api/admin/usage",
+			"GET  /api/admin/question-bank",
+			"POST /api/admin/question-bank/:bankId/approve",
+			"POST /api/admin/question-bank/:bankId/reject",
 		],
 	});
 });
 
 // API Endpoints
+// All learner routes require a Firebase ID token; handlers read the uid from
+// c.get("studentUid") and never from the request body.
+// AI routes share one per-student rate limit (20 req/min); routes behind
+// aiQuota are also subject to the per-user and per-class AI quotas configured
+// in models.json. The others resolve the student's classes and school through
+// aiScope, so school provider restrictions apply to every AI call.
+const aiRateLimit = RateLimitPresets.ai();
+const miniAppTask = async (c: Context<StudentEnv>) => {
+	const body = await c.req.json<{ isFastMode?: boolean }>().catch(() => null);
+	return body?.isFastMode ? "generateMiniAppFast" : "generateMiniApp";
+};
+
 // Core
-app.post("/api/generate-questions", handleGenerateQuestions);
+app.post(
+	"/api/generate-questions",
+	requireStudent,
+	aiRateLimit,
+	aiQuota("generateQuestions"),
+	handleGenerateQuestions,
+);
+app.post(
+	"/api/generate-questions/stream",
+	requireStudent,
+	aiRateLimit,
+	aiQuota("generateQuestions"),
+	handleGenerateQuestionsStream,
+);
+// Open proofs are graded by the evaluateAnswer AI task
+app.post(
+	"/api/evaluate-answer",
+	requireStudent,
+	aiRateLimit,
+	aiQuota("evaluateAnswer"),
+	handleEvaluateAnswer,
+);
 app.get("/api/get-models", handleGetModels);
-app.post("/api/custom-hint", handleCustomHint);
+app.post(
+	"/api/custom-hint",
+	requireStudent,
+	aiRateLimit,
+	aiScope(),
+	handleCustomHint,
+);
+app.post(
+	"/api/custom-hint/stream",
+	requireStudent,
+	aiRateLimit,
+	aiScope(),
+	handleCustomHintStream,
+);
 
 // Generative Apps
-app.post("/api/generate-mini-app", handleGenerateMiniApp);
-app.post("/api/generate-mini-app/async", handleGenerateMiniAppAsync);
-app.get("/api/jobs/:jobId", handleGetJob);
-app.post("/api/generate-geogebra", handleGenerateGeogebra);
+app.post(
+	"/api/generate-mini-app",
+	requireStudent,
+	aiRateLimit,
+	aiQuota(miniAppTask),
+	handleGenerateMiniApp,
+);
+app.post(
+	"/api/generate-mini-app/async",
+	requireStudent,
+	aiRateLimit,
+	aiQuota(miniAppTask),
+	handleGenerateMiniAppAsync,
+);
+app.get("/api/jobs/:jobId", requireStudent, handleGetJob);
+app.post(
+	"/api/generate-geogebra",
+	requireStudent,
+	aiRateLimit,
+	aiScope(),
+	handleGenerateGeogebra,
+);
 
 // Learning & Memory
-app.post("/api/update-auto-mode", handleUpdateAutoMode);
-app.post("/api/manage-learning-plan", handleManageLearningPlan);
-app.post("/api/manage-memories", handleManageMemories);
+app.post(
+	"/api/update-auto-mode",
+	requireStudent,
+	aiRateLimit,
+	aiScope(),
+	handleUpdateAutoMode,
+);
+app.post("/api/manage-learning-plan", requireStudent, handleManageLearningPlan);
+app.post("/api/manage-memories", requireStudent, handleManageMemories);
+// Tops the session up with generated questions
+app.post(
+	"/api/manage-memories/build-session",
+	requireStudent,
+	aiRateLimit,
+	aiQuota("generateQuestions"),
+	handleBuildSession,
+);
+
+// Classes (strict limit: join codes must not be guessable by trial)
+app.post(
+	"/api/join-class",
+	requireStudent,
+	RateLimitPresets.strict({ name: "join-class" }),
+	handleJoinClass,
+);
 
 // Image & Canvas
-app.post("/api/analyze-image", handleAnalyzeImage);
-app.post("/api/collaborative-canvas", handleCollaborativeCanvas);
+app.post(
+	"/api/analyze-image",
+	requireStudent,
+	aiRateLimit,
+	aiQuota("analyzeImage"),
+	handleAnalyzeImage,
+);
+app.post(
+	"/api/collaborative-canvas",
+	requireStudent,
+	aiRateLimit,
+	aiQuota("collaborativeCanvas"),
+	handleCollaborativeCanvas,
+);
 
 // Purchase
-app.post("/api/purchase", handlePurchase);
+app.post("/api/purchase", requireStudent, handlePurchase);
 
 // 404 Handler
 app.notFound((c) => {
@@ -181,6 +364,13 @@ app.notFound((c) => {
 // Error Handler
 app.onError((err, c) => {
 	console.error("Unhandled error:", err);
+	// Coded errors (e.g. AI_TIMEOUT from the AI task router) keep their status
+	if (err instanceof APIError && err.code) {
+		return c.json(
+			{ success: false, error: err.message, code: err.code },
+			err.statusCode as any,
+		);
+	}
 	return c.json(
 		{
 			success: false,
@@ -196,3 +386,6 @@ app.onError((err, c) => {
 // ============================================================================
 
 export default app;
+
+// Durable Object class backing the RATE_LIMITER binding
+export { RateLimiter } from "./utils/rateLimit";
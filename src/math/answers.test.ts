@@ -0,0 +1,92 @@
+// src/math/answers.test.ts
+import { describe, it, expect } from 'vitest'
+import { checkAnswer, parseAnswer } from './answers'
+import { AmbiguousInputError, MathParseError } from './parse'
+
+describe('checkAnswer', () => {
+  it('compares solution sets regardless of order and repetition', () => {
+    expect(checkAnswer('{3; -2}', 'x ∈ {-2; 3}', 'solution-set').isEquivalent).toBe(true)
+    expect(checkAnswer('x = -2 oder x = 3', '\\{-2; 3\\}', 'solution-set').isEquivalent).toBe(true)
+    expect(checkAnswer('x_1 = 3; x_2 = -2; x_3 = 3', '{-2; 3}', 'solution-set').isEquivalent).toBe(true)
+    expect(checkAnswer('x = ±\\sqrt{2}', '{-\\sqrt{2}; \\sqrt{2}}', 'solution-set').isEquivalent).toBe(true)
+    expect(checkAnswer('{ }', '\\emptyset', 'solution-set').isEquivalent).toBe(true)
+  })
+
+  it('reports missing and extra solutions', () => {
+    expect(checkAnswer('{3}', '{-2; 3}', 'solution-set')).toMatchObject({
+      isEquivalent: false,
+      isClose: true,
+      missing: ['-2'],
+      extra: [],
+      detail: 'Es fehlt eine Lösung.',
+    })
+    expect(checkAnswer('{-2; 3; 4}', '{-2; 3}', 'solution-set').extra).toEqual(['4'])
+  })
+
+  it('treats a comma between digits in a list as ambiguous', () => {
+    expect(checkAnswer('{-2, 3}', '{-2; 3}', 'solution-set').isEquivalent).toBe(true)
+    expect(checkAnswer('{1,5; 3}', '{1.5; 3}', 'solution-set').isEquivalent).toBe(true)
+    expect(() => checkAnswer('{1,5}', '{1; 5}', 'solution-set')).toThrow(AmbiguousInputError)
+  })
+
+  it('compares intervals by bounds and openness', () => {
+    expect(checkAnswer(']1; \\infty[', '(1, ∞)', 'interval').isEquivalent).toBe(true)
+    expect(checkAnswer('x > 1', ']1; ∞[', 'interval').isEquivalent).toBe(true)
+    expect(checkAnswer('\\left[0; 2\\right]', '[0; 1] ∪ ]1; 2]', 'interval').isEquivalent).toBe(true)
+    expect(checkAnswer('[1; ∞[', ']1; ∞[', 'interval')).toMatchObject({
+      isEquivalent: false,
+      isClose: true,
+    })
+    expect(checkAnswer(']2; ∞[', ']1; ∞[', 'interval').isEquivalent).toBe(false)
+  })
+
+  it('compares inequalities as solution sets or by proportional sides', () => {
+    expect(checkAnswer('3 ≥ x > 1', '1 < x \\le 3', 'inequality').isEquivalent).toBe(true)
+    expect(checkAnswer('x < -1 oder x > 1', 'x ∈ ]-∞; -1[ ∪ ]1; ∞[', 'inequality').isEquivalent).toBe(true)
+    expect(checkAnswer('4 - 2y < 0', 'y > 2', 'inequality').detail).toBe(
+      'Löse die Ungleichung nach der Variablen auf.'
+    )
+    expect(checkAnswer('-2y + 4 < 0', '2y - 4 > 0', 'inequality').isEquivalent).toBe(true)
+    expect(checkAnswer('t > 2', 'x > 2', 'inequality').detail).toBe('Die gesuchte Variable ist x.')
+  })
+
+  it('accepts equivalent forms of an equation', () => {
+    expect(checkAnswer('2x - y = 1', 'y = 2x - 1', 'equation').isEquivalent).toBe(true)
+    expect(checkAnswer('-4x + 2y + 2 = 0', 'y = 2x - 1', 'equation').isEquivalent).toBe(true)
+    expect(checkAnswer('y = 2x + 1', 'y = 2x - 1', 'equation').isEquivalent).toBe(false)
+    expect(checkAnswer('2x - 1', 'y = 2x - 1', 'equation').detail).toBe(
+      'Gib die Antwort in der Form y = 2x - 1 an.'
+    )
+  })
+
+  it('compares points and vectors component-wise', () => {
+    expect(checkAnswer('(0,5|2)', 'P(1/2|2)', 'point').isEquivalent).toBe(true)
+    expect(checkAnswer('S(1; 3)', '(1|2)', 'point')).toMatchObject({
+      isEquivalent: false,
+      isClose: true,
+      detail: 'Koordinate 2 stimmt nicht.',
+    })
+    expect(checkAnswer('\\begin{pmatrix} 1 \\\\ -2 \\\\ 3 \\end{pmatrix}', '\\vec{v} = (1; -2; 3)', 'vector').isEquivalent).toBe(true)
+    expect(checkAnswer('(1; -2)', '(1; -2; 3)', 'vector').detail).toBe('Erwartet werden 3 Komponenten.')
+  })
+
+  it('falls back to expression equivalence', () => {
+    expect(checkAnswer('2(x+3)', '2x+6').isEquivalent).toBe(true)
+  })
+
+  it('leaves free-text proofs other than an exact match undecided', () => {
+    expect(checkAnswer('f ist monoton', 'f ist monoton', 'proof').isEquivalent).toBe(true)
+    expect(checkAnswer("Da f'(x) > 0 ist, steigt f", "f'(x) = 3x^2 + 1 > 0", 'proof')).toEqual({
+      isEquivalent: false,
+      method: 'none',
+    })
+  })
+})
+
+describe('parseAnswer', () => {
+  it('rejects answers without the form of their type', () => {
+    expect(() => parseAnswer('x + 1', 'equation')).toThrow(MathParseError)
+    expect(() => parseAnswer('[3; 1]', 'interval')).toThrow(MathParseError)
+    expect(() => parseAnswer('(1)', 'point')).toThrow(MathParseError)
+  })
+})
@@ -0,0 +1,775 @@
+/**
+ * Structured answers: equations, inequalities, intervals, solution sets,
+ * points and vectors. Answers are split into expressions, compared with
+ * compareExpressions and then judged with the semantics of their kind:
+ *   solution-set  — order and repetition do not matter
+ *   interval      — bounds and whether they belong to the set; unions are
+ *                   merged first, so ]-∞; 1[ ∪ [1; 2] = ]-∞; 2]
+ *   inequality    — compared as a set when solved for a variable
+ *                   (1 < x ≤ 3 = ]1; 3]), otherwise by proportional sides
+ *   equation      — equivalent when lhs − rhs differ by a constant factor
+ *                   (y = 2x − 1 and 2x − y = 1)
+ *   point, vector — component-wise; P(1|2), (1; 2) and pmatrix all parse
+ *   quantity      — value with a unit, compared across units of the same
+ *                   dimension (see units.ts); unit errors earn partial credit
+ *   proof         — free-text proof or justification; only an exact match
+ *                   is decided here, anything else is left to the AI grader
+ *
+ * German conventions apply: ";" or "|" separate values. A comma separates
+ * values only when neither is used, and a comma between two digits is then
+ * ambiguous ({1,5}) and rejected for student answers.
+ */
+
+import { freeVariables, subtract, type Expr } from './ast';
+import {
+  checkEquivalence,
+  compareExpressions,
+  proportionalityFactor,
+  type EquivalenceResult,
+} from './equivalence';
+import { evaluate } from './evaluate';
+import {
+  AmbiguousInputError,
+  MathParseError,
+  describeAmbiguity,
+  parseExpression,
+  type Ambiguity,
+  type ParseOptions,
+} from './parse';
+import { compareQuantities, parseQuantity, type Quantity, type QuantityMisconception } from './units';
+
+export type AnswerType =
+  | 'expression'
+  | 'equation'
+  | 'inequality'
+  | 'interval'
+  | 'solution-set'
+  | 'point'
+  | 'vector'
+  | 'quantity'
+  | 'proof';
+
+export const ANSWER_TYPES: readonly AnswerType[] = [
+  'expression',
+  'equation',
+  'inequality',
+  'interval',
+  'solution-set',
+  'point',
+  'vector',
+  'quantity',
+  'proof',
+];
+
+export interface AnswerResult {
+  isEquivalent: boolean;
+  method: EquivalenceResult['method'] | 'set' | 'relation' | 'tuple' | 'quantity';
+  isClose?: boolean;
+  userValue?: number;
+  expectedValue?: number;
+  /** What is wrong, for the student */
+  detail?: string;
+  /** Expected solutions missing from the answer */
+  missing?: string[];
+  /** Solutions in the answer that are not expected */
+  extra?: string[];
+  /** Share of the points for a partly correct answer, 0…1 */
+  credit?: number;
+  /** Specific error found while grading (unit errors) */
+  misconception?: QuantityMisconception;
+}
+
+/** Shown when a student answer cannot be read as its type */
+const FORMAT_EXAMPLES: Record<AnswerType, string> = {
+  expression: '2x + 1',
+  equation: 'y = 2x - 1',
+  inequality: '1 < x ≤ 3',
+  interval: ']1; ∞[',
+  'solution-set': '{-2; 3}',
+  point: 'P(1|2)',
+  vector: '(1; 2; 3)',
+  quantity: '12,5 km/h',
+  proof: 'eine Begründung in ganzen Sätzen',
+};
+
+// ============================================================================
+// PARSED FORMS
+// ============================================================================
+
+interface Interval {
+  lo: number;
+  hi: number;
+  loClosed: boolean;
+  hiClosed: boolean;
+}
+
+/** Union of disjoint intervals, sorted */
+interface RealSet {
+  variable: string | null;
+  intervals: Interval[];
+}
+
+interface Element {
+  text: string;
+  expr: Expr;
+}
+
+export type ParsedAnswer =
+  | { kind: 'expression'; expr: Expr }
+  | { kind: 'equation'; difference: Expr }
+  /** difference > 0, or ≥ 0 when not strict */
+  | { kind: 'relation'; difference: Expr; strict: boolean }
+  | { kind: 'set'; set: RealSet }
+  | { kind: 'elements'; elements: Element[] }
+  | { kind: 'tuple'; components: Element[] }
+  | { kind: 'quantity'; quantity: Quantity }
+  | { kind: 'text'; text: string };
+
+type RelOp = '=' | '<' | '>' | '≤' | '≥';
+
+/** Spellings of relations, longest first; LaTeX commands match whole */
+const RELATIONS: Array<[string, RelOp]> = [
+  ['\\leqslant', '≤'],
+  ['\\geqslant', '≥'],
+  ['\\leqq', '≤'],
+  ['\\geqq', '≥'],
+  ['\\leq', '≤'],
+  ['\\geq', '≥'],
+  ['\\le', '≤'],
+  ['\\ge', '≥'],
+  ['\\lt', '<'],
+  ['\\gt', '>'],
+  ['<=', '≤'],
+  ['>=', '≥'],
+  ['≤', '≤'],
+  ['≥', '≥'],
+  ['<', '<'],
+  ['>', '>'],
+  ['=', '='],
+];
+
+const FLIPPED: Record<RelOp, RelOp> = { '=': '=', '<': '>', '>': '<', '≤': '≥', '≥': '≤' };
+
+const INFINITY = /^([+\-−]?)\s*(?:∞|\\infty|inf(?:inity)?|unendlich)$/i;
+const EMPTY_SET = /^(?:\{\s*\}|\\\{\s*\\\}|∅|\\emptyset|\\varnothing|leere menge|keine lösungen?)$/i;
+const ALL_REALS = /^(?:\\mathbb\s*\{?R\}?|ℝ|\\R)$/;
+/** x ∈ …, L = …, \mathbb{L} = … */
+const MEMBERSHIP = /^(?:([a-z])\s*(?:∈|\\in(?![a-z]))|(?:\\mathbb\s*\{?L\}?|𝕃|L)\s*=)\s*/i;
+/** x = 2, x_1 = 2, x_{1} = 2 inside a solution list */
+const ASSIGNMENT = /^[a-z](?:_\{?\w+\}?)?\s*=(?!=)\s*/i;
+/** P(1|2), A = (1; 2), \vec{v} = (…), \overrightarrow{AB} = (…) */
+const TUPLE_NAME =
+  /^(?:(?:\\vec|\\overrightarrow)\s*\{[^{}]*\}|\\vec\s*[a-z]|[a-z][a-z0-9_]*'*)\s*=?\s*(?=[(\[\\])/i;
+const MATRIX = /^\\begin\{([pbvB]?matrix)\}([\s\S]*)\\end\{\1\}$/;
+
+// ============================================================================
+// READER
+// ============================================================================
+
+interface Piece {
+  text: string;
+  /** Offset of text in the whole answer */
+  offset: number;
+}
+
+function piece(text: string, offset: number): Piece {
+  const lead = text.length - text.trimStart().length;
+  return { text: text.trim(), offset: offset + lead };
+}
+
+function skip(p: Piece, count: number): Piece {
+  return piece(p.text.slice(count), p.offset + count);
+}
+
+function isWord(text: string): boolean {
+  return /^[a-z]+$/i.test(text);
+}
+
+/**
+ * Split at separators outside (), [] and {}. Words and LaTeX commands only
+ * match whole, so "oder" does not split "Koordinate" and \le not \left.
+ * Interval brackets are unbalanced; pass nested = false to ignore nesting.
+ */
+function splitTopLevel(
+  p: Piece,
+  separators: string[],
+  nested = true
+): { parts: Piece[]; found: string[] } {
+  const { text } = p;
+  const parts: Piece[] = [];
+  const found: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (nested && '([{'.includes(ch)) depth++;
+    else if (nested && ')]}'.includes(ch)) depth--;
+    if (depth !== 0) continue;
+
+    const separator = separators.find((s) => {
+      if (!text.startsWith(s, i)) return false;
+      const before = text[i - 1] ?? '';
+      const after = text[i + s.length] ?? '';
+      if (s.startsWith('\\')) return !/[a-z]/i.test(after);
+      if (isWord(s)) return !/[a-zäöüß]/i.test(before) && !/[a-zäöüß]/i.test(after);
+      return true;
+    });
+    if (!separator) continue;
+
+    parts.push(piece(text.slice(start, i), p.offset + start));
+    found.push(separator);
+    i += separator.length - 1;
+    start = i + 1;
+  }
+  parts.push(piece(text.slice(start), p.offset + start));
+  return { parts, found };
+}
+
+class AnswerReader {
+  private ambiguities: Ambiguity[] = [];
+
+  constructor(private options: ParseOptions) {}
+
+  finish<T>(value: T): T {
+    if (this.ambiguities.length === 0) return value;
+    // A piece may be read twice when a set reading falls back to a relation
+    const unique = new Map(this.ambiguities.map((a) => [`${a.code}@${a.position}`, a]));
+    throw new AmbiguousInputError([...unique.values()]);
+  }
+
+  /** Ambiguities are collected across pieces and reported together */
+  expr(p: Piece): Expr {
+    try {
+      return parseExpression(p.text, this.options);
+    } catch (err) {
+      if (err instanceof MathParseError) {
+        throw new MathParseError(err.message, err.position + p.offset);
+      }
+      if (!(err instanceof AmbiguousInputError)) throw err;
+      this.ambiguities.push(
+        ...err.ambiguities.map((a) => ({ ...a, position: a.position + p.offset }))
+      );
+      return parseExpression(p.text);
+    }
+  }
+
+  quantity(p: Piece): Quantity {
+    try {
+      return parseQuantity(p.text, this.options);
+    } catch (err) {
+      if (!(err instanceof AmbiguousInputError)) throw err;
+      this.ambiguities.push(
+        ...err.ambiguities.map((a) => ({ ...a, position: a.position + p.offset }))
+      );
+      return parseQuantity(p.text);
+    }
+  }
+
+  element(p: Piece): Element {
+    if (!p.text) throw new MathParseError('Missing value', p.offset);
+    return { text: p.text, expr: this.expr(p) };
+  }
+
+  /** Value of a constant or ±∞; null if the piece contains variables */
+  constant(p: Piece): number | null {
+    const infinity = INFINITY.exec(p.text);
+    if (infinity) return infinity[1] === '' || infinity[1] === '+' ? Infinity : -Infinity;
+    const expr = this.expr(p);
+    if (freeVariables(expr).size > 0) return null;
+    const value = evaluate(expr);
+    if (Number.isNaN(value)) throw new MathParseError('Expected a number', p.offset);
+    return value;
+  }
+
+  number(p: Piece): number {
+    const value = this.constant(p);
+    if (value === null) throw new MathParseError('Expected a number', p.offset);
+    return value;
+  }
+
+  /** Values separated by ";" or "|", else by "," */
+  list(p: Piece): Piece[] {
+    if (!p.text) return [];
+    const explicit = splitTopLevel(p, [';', '|']);
+    if (explicit.parts.length > 1) return explicit.parts;
+
+    const { parts } = splitTopLevel(p, [',']);
+    if (parts.length > 1 && /\d,\d/.test(p.text) && this.options.strict) {
+      this.ambiguities.push(
+        describeAmbiguity('LIST_SEPARATOR', p.offset, p.text, [
+          parts.map((part) => part.text).join('; '),
+          p.text.replace(/(\d),(\d)/g, '$1.$2'),
+        ])
+      );
+    }
+    return parts;
+  }
+
+  relations(p: Piece): { sides: Piece[]; ops: RelOp[] } {
+    const { parts, found } = splitTopLevel(
+      p,
+      RELATIONS.map(([spelling]) => spelling)
+    );
+    const ops = found.map((spelling) => RELATIONS.find(([s]) => s === spelling)![1]);
+    return { sides: parts, ops };
+  }
+
+  // ── Sets of real numbers ────────────────────────────────────────────────
+
+  /** Interval, union of intervals, solved inequality, ℝ, ∅ or finite set */
+  realSet(p: Piece): RealSet | null {
+    const membership = MEMBERSHIP.exec(p.text);
+    const variable = membership?.[1] ?? null;
+    const rest = membership ? skip(p, membership[0].length) : p;
+
+    if (EMPTY_SET.test(rest.text)) return { variable, intervals: [] };
+    if (ALL_REALS.test(rest.text)) {
+      return { variable, intervals: [{ lo: -Infinity, hi: Infinity, loClosed: false, hiClosed: false }] };
+    }
+
+    const braces = /^(\\?\{)([\s\S]*?)\\?\}$/.exec(rest.text);
+    if (braces) {
+      const inner = piece(braces[2], rest.offset + braces[1].length);
+      const builder = splitTopLevel(inner, ['\\mid', '|', ':']);
+      if (builder.parts.length === 2) {
+        const bound = /^([a-z])/i.exec(builder.parts[0].text)?.[1] ?? variable;
+        const set = this.inequalitySet(builder.parts[1]);
+        return set && { variable: set.variable ?? bound, intervals: set.intervals };
+      }
+      const intervals = this.list(inner).map((element) => {
+        const value = this.number(element);
+        return { lo: value, hi: value, loClosed: true, hiClosed: true };
+      });
+      return { variable, intervals: normalizeIntervals(intervals) };
+    }
+
+    const relation = splitTopLevel(rest, RELATIONS.map(([spelling]) => spelling), false);
+    if (relation.found.length === 0 && /^(?:\\left\s*)?[[\]()]/.test(rest.text)) {
+      const { parts } = splitTopLevel(rest, ['∪', '\\cup'], false);
+      return { variable, intervals: normalizeIntervals(parts.map((part) => this.interval(part))) };
+    }
+
+    const set = this.inequalitySet(rest);
+    return set && { variable: set.variable ?? variable, intervals: set.intervals };
+  }
+
+  /** ]a; b[, [a; b], (a, b], \left[a; b\right) */
+  private interval(p: Piece): Interval {
+    const match = /^(\\left\s*)?([[\]()])([\s\S]*?)(?:\\right\s*)?([[\]()])$/.exec(p.text);
+    if (!match) throw new MathParseError('Expected an interval', p.offset);
+    const inner = piece(match[3], p.offset + (match[1]?.length ?? 0) + 1);
+
+    let bounds = splitTopLevel(inner, [';']).parts;
+    if (bounds.length === 1) bounds = splitTopLevel(inner, [',']).parts;
+    if (bounds.length !== 2) bounds = splitTopLevel(inner, [', ']).parts;
+    if (bounds.length !== 2) throw new MathParseError('An interval has two bounds', inner.offset);
+
+    const lo = this.number(bounds[0]);
+    const hi = this.number(bounds[1]);
+    if (lo > hi) throw new MathParseError('Lower bound exceeds upper bound', p.offset);
+    return {
+      lo,
+      hi,
+      loClosed: match[2] === '[' && Number.isFinite(lo),
+      hiClosed: match[4] === ']' && Number.isFinite(hi),
+    };
+  }
+
+  /** x > 2, 1 < x ≤ 3, x < 1 oder x > 3; null if not solved for a variable */
+  private inequalitySet(p: Piece): RealSet | null {
+    let variable: string | null = null;
+    const intervals: Interval[] = [];
+
+    for (const alternative of splitTopLevel(p, ['oder', '\\lor', '∨']).parts) {
+      const { sides, ops } = this.relations(alternative);
+      if (ops.length === 0) return null;
+
+      let current: Interval = { lo: -Infinity, hi: Infinity, loClosed: false, hiClosed: false };
+      for (let i = 0; i < ops.length; i++) {
+        let op = ops[i];
+        let [name, bound] = [sides[i], sides[i + 1]];
+        if (!/^[a-z]$/i.test(name.text)) {
+          [name, bound] = [bound, name];
+          op = FLIPPED[op];
+        }
+        if (!/^[a-z]$/i.test(name.text)) return null;
+        if (variable !== null && variable !== name.text) return null;
+        variable = name.text;
+        const value = this.constant(bound);
+        if (value === null) return null;
+        current = intersect(current, halfLine(op, value));
+      }
+      intervals.push(current);
+    }
+    return { variable, intervals: normalizeIntervals(intervals) };
+  }
+}
+
+function halfLine(op: RelOp, c: number): Interval {
+  switch (op) {
+    case '=':
+      return { lo: c, hi: c, loClosed: true, hiClosed: true };
+    case '<':
+      return { lo: -Infinity, hi: c, loClosed: false, hiClosed: false };
+    case '≤':
+      return { lo: -Infinity, hi: c, loClosed: false, hiClosed: true };
+    case '>':
+      return { lo: c, hi: Infinity, loClosed: false, hiClosed: false };
+    case '≥':
+      return { lo: c, hi: Infinity, loClosed: true, hiClosed: false };
+  }
+}
+
+function intersect(a: Interval, b: Interval): Interval {
+  const lo = Math.max(a.lo, b.lo);
+  const hi = Math.min(a.hi, b.hi);
+  return {
+    lo,
+    hi,
+    loClosed: (a.lo !== lo || a.loClosed) && (b.lo !== lo || b.loClosed),
+    hiClosed: (a.hi !== hi || a.hiClosed) && (b.hi !== hi || b.hiClosed),
+  };
+}
+
+/** Drop empty intervals, sort, and merge overlapping or touching ones */
+function normalizeIntervals(intervals: Interval[]): Interval[] {
+  const nonEmpty = intervals
+    .filter((i) => i.lo < i.hi || (i.lo === i.hi && i.loClosed && i.hiClosed))
+    .sort((a, b) => a.lo - b.lo || Number(b.loClosed) - Number(a.loClosed));
+
+  const merged: Interval[] = [];
+  for (const next of nonEmpty) {
+    const last = merged[merged.length - 1];
+    if (last && (next.lo < last.hi || (next.lo === last.hi && (last.hiClosed || next.loClosed)))) {
+      if (next.hi > last.hi || (next.hi === last.hi && next.hiClosed)) {
+        last.hi = next.hi;
+        last.hiClosed = next.hiClosed;
+      }
+    } else {
+      merged.push({ ...next });
+    }
+  }
+  return merged;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function readAnswer(reader: AnswerReader, p: Piece, type: AnswerType): ParsedAnswer {
+  switch (type) {
+    case 'expression':
+      return { kind: 'expression', expr: reader.expr(p) };
+
+    case 'equation': {
+      const { sides, ops } = reader.relations(p);
+      if (ops.length !== 1 || ops[0] !== '=') throw new MathParseError('Expected an equation', p.offset);
+      return { kind: 'equation', difference: subtract(reader.expr(sides[0]), reader.expr(sides[1])) };
+    }
+
+    case 'inequality':
+    case 'interval': {
+      const set = reader.realSet(p);
+      if (set) return { kind: 'set', set };
+
+      // Not solved for a variable: keep the relation, 2x + 1 > 5
+      const { sides, ops } = reader.relations(p);
+      if (ops.length !== 1 || ops[0] === '=') throw new MathParseError('Expected an inequality', p.offset);
+      const [lhs, rhs] = sides.map((side) => reader.expr(side));
+      const greater = ops[0] === '>' || ops[0] === '≥';
+      return {
+        kind: 'relation',
+        difference: greater ? subtract(lhs, rhs) : subtract(rhs, lhs),
+        strict: ops[0] === '>' || ops[0] === '<',
+      };
+    }
+
+    case 'solution-set': {
+      const membership = MEMBERSHIP.exec(p.text);
+      const rest = membership ? skip(p, membership[0].length) : p;
+      if (EMPTY_SET.test(rest.text)) return { kind: 'elements', elements: [] };
+
+      const braces = /^(\\?\{)([\s\S]*?)\\?\}$/.exec(rest.text);
+      const values = braces
+        ? reader.list(piece(braces[2], rest.offset + braces[1].length))
+        : splitTopLevel(rest, ['oder', '\\lor', '∨']).parts.flatMap((part) => reader.list(part));
+
+      const elements = values.flatMap((value) => {
+        const assignment = ASSIGNMENT.exec(value.text);
+        const element = assignment ? skip(value, assignment[0].length) : value;
+        // x = ±√2 names two solutions
+        const pm = /±|\\pm(?![a-z])/.exec(element.text);
+        if (!pm) return [reader.element(element)];
+        return ['+', '-'].map((sign) =>
+          reader.element({
+            text: element.text.slice(0, pm.index) + sign + element.text.slice(pm.index + pm[0].length),
+            offset: element.offset,
+          })
+        );
+      });
+      return { kind: 'elements', elements };
+    }
+
+    case 'point':
+    case 'vector': {
+      const name = TUPLE_NAME.exec(p.text);
+      const rest = name ? skip(p, name[0].length) : p;
+
+      let components: Piece[];
+      const matrix = MATRIX.exec(rest.text);
+      if (matrix) {
+        const start = rest.text.indexOf('}') + 1;
+        const inner = piece(matrix[2], rest.offset + start);
+        components = splitTopLevel(inner, ['\\\\', '&']).parts.filter((c) => c.text);
+      } else {
+        const brackets = /^(\\left\s*)?[([]([\s\S]*?)(?:\\right\s*)?[)\]]$/.exec(rest.text);
+        if (!brackets) throw new MathParseError('Expected coordinates in parentheses', rest.offset);
+        components = reader.list(piece(brackets[2], rest.offset + (brackets[1]?.length ?? 0) + 1));
+      }
+      if (components.length < 2) throw new MathParseError('Expected at least two coordinates', rest.offset);
+      return { kind: 'tuple', components: components.map((c) => reader.element(c)) };
+    }
+
+    case 'quantity': {
+      // v = 12 km/h
+      const name = ASSIGNMENT.exec(p.text);
+      return { kind: 'quantity', quantity: reader.quantity(name ? skip(p, name[0].length) : p) };
+    }
+
+    case 'proof':
+      if (!p.text.trim()) throw new MathParseError('Missing text', p.offset);
+      return { kind: 'text', text: p.text.trim() };
+  }
+}
+
+/**
+ * Parse an answer as the given type. Throws MathParseError when it does
+ * not have the type's form and, with `strict`, AmbiguousInputError.
+ */
+export function parseAnswer(input: string, type: AnswerType, options: ParseOptions = {}): ParsedAnswer {
+  const reader = new AnswerReader(options);
+  const source = input.replace(/\$/g, ' ');
+  return reader.finish(readAnswer(reader, piece(source, 0), type));
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+function sameBound(a: number, b: number, tolerance: number): boolean {
+  return a === b || Math.abs(a - b) <= tolerance;
+}
+
+function compareSets(user: RealSet, expected: RealSet, tolerance: number): AnswerResult {
+  if (user.variable && expected.variable && user.variable !== expected.variable) {
+    return {
+      isEquivalent: false,
+      method: 'set',
+      detail: `Die gesuchte Variable ist ${expected.variable}.`,
+    };
+  }
+
+  const wrong: AnswerResult = {
+    isEquivalent: false,
+    method: 'set',
+    detail: 'Die Lösungsmenge stimmt nicht.',
+  };
+  if (user.intervals.length !== expected.intervals.length) return wrong;
+
+  let boundsOnly = false;
+  for (let i = 0; i < expected.intervals.length; i++) {
+    const u = user.intervals[i];
+    const e = expected.intervals[i];
+    if (!sameBound(u.lo, e.lo, tolerance) || !sameBound(u.hi, e.hi, tolerance)) return wrong;
+    if (u.loClosed !== e.loClosed || u.hiClosed !== e.hiClosed) boundsOnly = true;
+  }
+
+  if (boundsOnly) {
+    return {
+      isEquivalent: false,
+      method: 'set',
+      isClose: true,
+      detail: 'Prüfe, ob die Grenzen dazugehören (offene und geschlossene Intervallgrenzen).',
+    };
+  }
+  return { isEquivalent: true, method: 'set' };
+}
+
+function withoutRepeats(elements: Element[], tolerance: number): Element[] {
+  const unique: Element[] = [];
+  for (const element of elements) {
+    if (!unique.some((u) => compareExpressions(element.expr, u.expr, { tolerance }).isEquivalent)) {
+      unique.push(element);
+    }
+  }
+  return unique;
+}
+
+function compareElements(user: Element[], expected: Element[], tolerance: number): AnswerResult {
+  const given = withoutRepeats(user, tolerance);
+  const wanted = withoutRepeats(expected, tolerance);
+  const used = new Set<number>();
+  const missing: string[] = [];
+
+  for (const e of wanted) {
+    const match = given.findIndex(
+      (u, i) => !used.has(i) && compareExpressions(u.expr, e.expr, { tolerance }).isEquivalent
+    );
+    if (match === -1) missing.push(e.text);
+    else used.add(match);
+  }
+  const extra = given.filter((_, i) => !used.has(i)).map((u) => u.text);
+
+  if (missing.length === 0 && extra.length === 0) return { isEquivalent: true, method: 'set' };
+
+  let detail = 'Nicht alle Lösungen stimmen.';
+  if (extra.length === 0) {
+    detail = missing.length === 1 ? 'Es fehlt eine Lösung.' : `Es fehlen ${missing.length} Lösungen.`;
+  } else if (missing.length === 0) {
+    detail = 'Deine Lösungsmenge enthält Werte, die keine Lösungen sind.';
+  }
+  return {
+    isEquivalent: false,
+    method: 'set',
+    isClose: missing.length + extra.length === 1 && given.length > 0,
+    detail,
+    missing,
+    extra,
+  };
+}
+
+function compareTuples(user: Element[], expected: Element[], label: string, tolerance: number): AnswerResult {
+  if (user.length !== expected.length) {
+    return {
+      isEquivalent: false,
+      method: 'tuple',
+      detail: `Erwartet werden ${expected.length} ${label}n.`,
+    };
+  }
+
+  const wrong = expected
+    .map((e, i) => (compareExpressions(user[i].expr, e.expr, { tolerance }).isEquivalent ? 0 : i + 1))
+    .filter(Boolean);
+  if (wrong.length === 0) return { isEquivalent: true, method: 'tuple' };
+
+  return {
+    isEquivalent: false,
+    method: 'tuple',
+    isClose: wrong.length === 1 && expected.length > 1,
+    detail: `${label} ${wrong.join(', ')} ${wrong.length === 1 ? 'stimmt' : 'stimmen'} nicht.`,
+  };
+}
+
+function compareParsed(
+  user: ParsedAnswer,
+  expected: ParsedAnswer,
+  type: AnswerType,
+  tolerance: number
+): AnswerResult {
+  if (expected.kind === 'expression' && user.kind === 'expression') {
+    return compareExpressions(user.expr, expected.expr, { tolerance });
+  }
+
+  if (expected.kind === 'equation' && user.kind === 'equation') {
+    const factor = proportionalityFactor(user.difference, expected.difference);
+    return factor !== null
+      ? { isEquivalent: true, method: 'relation' }
+      : { isEquivalent: false, method: 'relation', detail: 'Die Gleichung ist nicht äquivalent.' };
+  }
+
+  if (expected.kind === 'relation' && user.kind === 'relation') {
+    const factor = proportionalityFactor(user.difference, expected.difference);
+    if (factor !== null && factor > 0 && user.strict === expected.strict) {
+      return { isEquivalent: true, method: 'relation' };
+    }
+    return {
+      isEquivalent: false,
+      method: 'relation',
+      isClose: factor !== null && factor > 0,
+      detail: 'Die Ungleichung ist nicht äquivalent.',
+    };
+  }
+
+  if (expected.kind === 'set' && user.kind === 'set') {
+    return compareSets(user.set, expected.set, tolerance);
+  }
+
+  if (expected.kind === 'elements' && user.kind === 'elements') {
+    return compareElements(user.elements, expected.elements, tolerance);
+  }
+
+  if (expected.kind === 'quantity' && user.kind === 'quantity') {
+    const { isEquivalent, credit, detail, misconception } = compareQuantities(
+      user.quantity,
+      expected.quantity,
+      tolerance
+    );
+    return {
+      isEquivalent,
+      method: 'quantity',
+      ...(credit > 0 && credit < 1 && { credit, isClose: true }),
+      ...(detail && { detail }),
+      ...(misconception && { misconception }),
+    };
+  }
+
+  // Free text other than an exact match cannot be judged here
+  if (expected.kind === 'text') return { isEquivalent: false, method: 'none' };
+
+  if (expected.kind === 'tuple' && user.kind === 'tuple') {
+    const label = type === 'point' ? 'Koordinate' : 'Komponente';
+    return compareTuples(user.components, expected.components, label, tolerance);
+  }
+
+  return {
+    isEquivalent: false,
+    method: 'none',
+    detail:
+      expected.kind === 'set' && user.kind === 'relation'
+        ? 'Löse die Ungleichung nach der Variablen auf.'
+        : `Gib die Antwort in der Form ${FORMAT_EXAMPLES[type]} an.`,
+  };
+}
+
+function normalize(answer: string): string {
+  return answer.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * Compare a student answer with the expected answer of the given type.
+ * The student's answer is parsed strictly (AmbiguousInputError); one that
+ * does not have the type's form is wrong, with the expected format as
+ * detail. An expected answer that does not parse only matches exactly.
+ */
+export function checkAnswer(
+  userAnswer: string,
+  expectedAnswer: string,
+  type: AnswerType = 'expression',
+  options: { tolerance?: number } = {}
+): AnswerResult {
+  if (type === 'expression') return checkEquivalence(userAnswer, expectedAnswer, options);
+  if (normalize(userAnswer) === normalize(expectedAnswer)) return { isEquivalent: true, method: 'exact' };
+
+  let expected: ParsedAnswer;
+  try {
+    expected = parseAnswer(expectedAnswer, type);
+  } catch (err) {
+    if (err instanceof MathParseError) return { isEquivalent: false, method: 'none' };
+    throw err;
+  }
+
+  let user: ParsedAnswer;
+  try {
+    user = parseAnswer(userAnswer, type, { strict: true });
+  } catch (err) {
+    if (!(err instanceof MathParseError)) throw err;
+    return {
+      isEquivalent: false,
+      method: 'none',
+      detail: `Gib die Antwort in der Form ${FORMAT_EXAMPLES[type]} an.`,
+    };
+  }
+
+  return compareParsed(user, expected, type, options.tolerance ?? 0.0001);
+}
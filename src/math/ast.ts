@@ -0,0 +1,74 @@
+/**
+ * Expression AST shared by the parser, the polynomial normalizer and the
+ * numeric evaluator. Subtraction and division are desugared on
+ * construction: a - b = a + (-1)·b, a / b = a · b^(-1).
+ */
+
+import { fromDecimal, rational, toString as rationalToString, type Rational } from './rational';
+
+export type Expr =
+  | { type: 'num'; value: Rational }
+  | { type: 'sym'; name: string }
+  | { type: 'add'; terms: Expr[] }
+  | { type: 'mul'; factors: Expr[] }
+  | { type: 'pow'; base: Expr; exp: Expr }
+  | { type: 'call'; fn: string; arg: Expr };
+
+/** Symbols with a fixed numeric value */
+export const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export const num = (value: Rational | number): Expr => ({
+  type: 'num',
+  value: typeof value === 'number' ? rational(value) : value,
+});
+export const decimal = (literal: string): Expr => num(fromDecimal(literal));
+export const sym = (name: string): Expr => ({ type: 'sym', name });
+export const add = (...terms: Expr[]): Expr => ({ type: 'add', terms });
+export const mul = (...factors: Expr[]): Expr => ({ type: 'mul', factors });
+export const pow = (base: Expr, exp: Expr): Expr => ({ type: 'pow', base, exp });
+export const call = (fn: string, arg: Expr): Expr => ({ type: 'call', fn, arg });
+
+export const negate = (e: Expr): Expr => mul(num(-1), e);
+export const subtract = (a: Expr, b: Expr): Expr => add(a, negate(b));
+export const divide = (a: Expr, b: Expr): Expr => mul(a, pow(b, num(-1)));
+
+/** Free variables, i.e. symbols that are not constants */
+export function freeVariables(e: Expr, into = new Set<string>()): Set<string> {
+  switch (e.type) {
+    case 'sym':
+      if (!(e.name in CONSTANTS)) into.add(e.name);
+      break;
+    case 'add':
+      e.terms.forEach((t) => freeVariables(t, into));
+      break;
+    case 'mul':
+      e.factors.forEach((f) => freeVariables(f, into));
+      break;
+    case 'pow':
+      freeVariables(e.base, into);
+      freeVariables(e.exp, into);
+      break;
+    case 'call':
+      freeVariables(e.arg, into);
+      break;
+  }
+  return into;
+}
+
+/** Debug rendering, fully parenthesized */
+export function format(e: Expr): string {
+  switch (e.type) {
+    case 'num':
+      return rationalToString(e.value);
+    case 'sym':
+      return e.name;
+    case 'add':
+      return `(${e.terms.map(format).join(' + ')})`;
+    case 'mul':
+      return `(${e.factors.map(format).join(' * ')})`;
+    case 'pow':
+      return `${format(e.base)}^${format(e.exp)}`;
+    case 'call':
+      return `${e.fn}(${format(e.arg)})`;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Symbolic differentiation. The result is not simplified; it is meant for
+ * numeric comparison (evaluate, numericallyIdentical), not for display.
+ */
+
+import { add, call, divide, freeVariables, mul, negate, num, pow, subtract, type Expr } from './ast';
+import { rational } from './rational';
+
+const dependsOn = (e: Expr, v: string) => freeVariables(e).has(v);
+
+/** d/du of fn(u), as an expression in u */
+function outerDerivative(fn: string, u: Expr): Expr {
+  switch (fn) {
+    case 'sin':
+      return call('cos', u);
+    case 'cos':
+      return negate(call('sin', u));
+    case 'tan':
+      return pow(call('cos', u), num(-2));
+    case 'cot':
+      return negate(pow(call('sin', u), num(-2)));
+    case 'arcsin':
+      return pow(subtract(num(1), pow(u, num(2))), num(rational(-1, 2)));
+    case 'arccos':
+      return negate(pow(subtract(num(1), pow(u, num(2))), num(rational(-1, 2))));
+    case 'arctan':
+      return divide(num(1), add(num(1), pow(u, num(2))));
+    case 'sinh':
+      return call('cosh', u);
+    case 'cosh':
+      return call('sinh', u);
+    case 'tanh':
+      return pow(call('cosh', u), num(-2));
+    case 'ln':
+      return divide(num(1), u);
+    case 'log':
+      return divide(num(1), mul(u, call('ln', num(10))));
+    case 'abs':
+      return divide(u, call('abs', u));
+    default:
+      throw new RangeError(`Cannot differentiate ${fn}`);
+  }
+}
+
+export function differentiate(e: Expr, v: string): Expr {
+  switch (e.type) {
+    case 'num':
+      return num(0);
+    case 'sym':
+      return num(e.name === v ? 1 : 0);
+    case 'add':
+      return add(...e.terms.map((t) => differentiate(t, v)));
+    case 'mul':
+      return add(
+        ...e.factors.map((f, i) =>
+          mul(differentiate(f, v), ...e.factors.filter((_, j) => j !== i))
+        )
+      );
+    case 'pow': {
+      if (!dependsOn(e.exp, v)) {
+        return mul(e.exp, pow(e.base, add(e.exp, num(-1))), differentiate(e.base, v));
+      }
+      // b^g = exp(g · ln b)
+      return mul(
+        e,
+        add(
+          mul(differentiate(e.exp, v), call('ln', e.base)),
+          mul(e.exp, differentiate(e.base, v), pow(e.base, num(-1)))
+        )
+      );
+    }
+    case 'call':
+      return mul(outerDerivative(e.fn, e.arg), differentiate(e.arg, v));
+  }
+}
@@ -0,0 +1,50 @@
+// src/math/equivalence.test.ts
+import { describe, it, expect } from 'vitest'
+import { checkEquivalence, evaluateToNumber } from './equivalence'
+import { AmbiguousInputError } from './parse'
+
+describe('checkEquivalence', () => {
+  it('accepts algebraically equivalent answers', () => {
+    expect(checkEquivalence('x^2+2x+1', '(x+1)^2')).toMatchObject({ isEquivalent: true, method: 'algebraic' })
+    expect(checkEquivalence('2x+6', '2(x+3)')).toMatchObject({ isEquivalent: true, method: 'algebraic' })
+    expect(checkEquivalence('x/2', '\\frac{1}{2}x')).toMatchObject({ isEquivalent: true, method: 'algebraic' })
+  })
+
+  it('falls back to randomized identity testing', () => {
+    expect(checkEquivalence('1', 'sin(x)^2+cos(x)^2')).toMatchObject({ isEquivalent: true, method: 'identity' })
+    expect(checkEquivalence('ln(x^2)', '2ln(x)')).toMatchObject({ isEquivalent: true, method: 'identity' })
+    expect(checkEquivalence('sin(2x)', '2sin(x)cos(x)').isEquivalent).toBe(true)
+  })
+
+  it('rejects different expressions', () => {
+    expect(checkEquivalence('x^2+1', '(x+1)^2')).toEqual({ isEquivalent: false, method: 'none' })
+    expect(checkEquivalence('sin(x)', 'cos(x)').isEquivalent).toBe(false)
+  })
+
+  it('compares constants numerically with the tolerance', () => {
+    expect(checkEquivalence('0.5', '1/2')).toMatchObject({ isEquivalent: true, method: 'numeric' })
+    expect(checkEquivalence('3.14', 'pi', { tolerance: 0.01 }).isEquivalent).toBe(true)
+    expect(checkEquivalence('3.14', 'pi', { tolerance: 0.0001 })).toMatchObject({ isEquivalent: false, isClose: true })
+  })
+
+  it('accepts German notation and rejects ambiguous student answers', () => {
+    expect(checkEquivalence('2 1/2', '5/2').isEquivalent).toBe(true)
+    expect(checkEquivalence('0,5x', 'x:2').isEquivalent).toBe(true)
+    expect(() => checkEquivalence('1/2x', 'x/2')).toThrow(AmbiguousInputError)
+    expect(checkEquivalence('x/2', '1/2x').isEquivalent).toBe(true)
+  })
+
+  it('treats unparseable input as not equivalent', () => {
+    expect(checkEquivalence('x +* 2', 'x+2')).toEqual({ isEquivalent: false, method: 'none' })
+    expect(checkEquivalence('s1', 's1')).toMatchObject({ isEquivalent: true, method: 'exact' })
+  })
+})
+
+describe('evaluateToNumber', () => {
+  it('evaluates constant expressions only', () => {
+    expect(evaluateToNumber('2^10')).toBe(1024)
+    expect(evaluateToNumber('\\sqrt{2}^2')).toBeCloseTo(2)
+    expect(evaluateToNumber('2x')).toBeNull()
+    expect(evaluateToNumber(null)).toBeNull()
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * Answer equivalence for the evaluator.
+ *   exact      — identical after whitespace/case normalization
+ *   numeric    — both sides are constants within the tolerance
+ *   algebraic  — proven equal by expansion to a canonical rational function
+ *   identity   — agree at many random points (catches trig/log/root
+ *                identities the canonical form cannot prove)
+ */
+
+import { freeVariables, type Expr } from './ast';
+import { evaluate } from './evaluate';
+import { AmbiguousInputError, parseExpression, type ParseOptions } from './parse';
+import { symbolicallyEqual } from './polynomial';
+
+export interface EquivalenceResult {
+  isEquivalent: boolean;
+  method: 'exact' | 'numeric' | 'algebraic' | 'identity' | 'none';
+  userValue?: number;
+  expectedValue?: number;
+  isClose?: boolean;
+}
+
+const IDENTITY_TRIALS = 16;
+const IDENTITY_MIN_POINTS = 6;
+
+function normalize(answer: string): string {
+  return answer.replace(/\s+/g, '').toLowerCase();
+}
+
+function tryParse(answer: string, options: ParseOptions = {}): Expr | null {
+  try {
+    return parseExpression(answer, options);
+  } catch (err) {
+    if (err instanceof AmbiguousInputError) throw err;
+    return null;
+  }
+}
+
+/** Deterministic PRNG so a grading decision is reproducible */
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function closeEnough(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/** Random points for the variables, first on [-4, 4], then on [0.1, 4] */
+function* samplePoints(variables: string[]): Generator<Record<string, number>[]> {
+  const random = mulberry32(0x5eed);
+  for (const [low, high] of [[-4, 4], [0.1, 4]]) {
+    const points: Record<string, number>[] = [];
+    for (let trial = 0; trial < IDENTITY_TRIALS; trial++) {
+      const point: Record<string, number> = {};
+      for (const v of variables) {
+        let value = low + random() * (high - low);
+        if (Math.abs(value) < 0.1) value += 0.5; // stay clear of poles at 0
+        point[v] = value;
+      }
+      points.push(point);
+    }
+    yield points;
+  }
+}
+
+/**
+ * Randomized identity test of a − b = 0. Points where only one side is
+ * defined are skipped (domain differences such as ln(x²) vs 2·ln(x)); if
+ * too few points are defined on [-4, 4] the positive half-line is tried.
+ * Returns null when the test is inconclusive.
+ */
+export function numericallyIdentical(a: Expr, b: Expr, variables: string[]): boolean | null {
+  for (const points of samplePoints(variables)) {
+    let agreeing = 0;
+    for (const point of points) {
+      const va = evaluate(a, point);
+      const vb = evaluate(b, point);
+      if (!Number.isFinite(va) || !Number.isFinite(vb)) continue;
+      if (!closeEnough(va, vb)) return false;
+      agreeing++;
+    }
+    if (agreeing >= IDENTITY_MIN_POINTS) return true;
+  }
+  return null;
+}
+
+/**
+ * Constant c ≠ 0 with a = c·b at every sampled point, or null. Used to
+ * compare equations and inequalities in the form lhs − rhs: 2x − 6 = 0 and
+ * x = 3 are equivalent because their differences are proportional.
+ */
+export function proportionalityFactor(a: Expr, b: Expr): number | null {
+  const variables = [...new Set([...freeVariables(a), ...freeVariables(b)])];
+
+  for (const points of samplePoints(variables)) {
+    let factor: number | null = null;
+    let agreeing = 0;
+    for (const point of points) {
+      const va = evaluate(a, point);
+      const vb = evaluate(b, point);
+      if (!Number.isFinite(va) || !Number.isFinite(vb)) continue;
+      if (closeEnough(va, 0) && closeEnough(vb, 0)) continue;
+      if (closeEnough(va, 0) || closeEnough(vb, 0)) return null;
+      const ratio = va / vb;
+      if (factor === null) factor = ratio;
+      else if (!closeEnough(ratio, factor)) return null;
+      agreeing++;
+    }
+    if (factor !== null && agreeing >= IDENTITY_MIN_POINTS) return factor;
+  }
+  return null;
+}
+
+/** Numeric value of a constant expression, or null */
+export function evaluateToNumber(answer: string | number | null | undefined): number | null {
+  if (answer === null || answer === undefined) return null;
+  const expr = tryParse(String(answer));
+  if (!expr || freeVariables(expr).size > 0) return null;
+  const value = evaluate(expr);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * The student's answer is parsed strictly: notation with several plausible
+ * readings (1/2x, 2\frac{1}{2}) throws AmbiguousInputError instead of being
+ * graded. The expected answer takes the conventional reading.
+ */
+export function checkEquivalence(
+  userAnswer: string,
+  expectedAnswer: string,
+  options: { tolerance?: number } = {}
+): EquivalenceResult {
+  if (normalize(userAnswer) === normalize(expectedAnswer)) {
+    return { isEquivalent: true, method: 'exact' };
+  }
+
+  const user = tryParse(userAnswer, { strict: true });
+  const expected = tryParse(expectedAnswer);
+  if (!user || !expected) return { isEquivalent: false, method: 'none' };
+  return compareExpressions(user, expected, options);
+}
+
+/** Equivalence of two parsed expressions (numeric, algebraic, identity) */
+export function compareExpressions(
+  user: Expr,
+  expected: Expr,
+  options: { tolerance?: number } = {}
+): EquivalenceResult {
+  const { tolerance = 0.0001 } = options;
+  const variables = [...freeVariables(user), ...freeVariables(expected)];
+
+  if (variables.length === 0) {
+    const userValue = evaluate(user);
+    const expectedValue = evaluate(expected);
+    if (!Number.isFinite(userValue) || !Number.isFinite(expectedValue)) {
+      return { isEquivalent: false, method: 'none' };
+    }
+    const distance = Math.abs(userValue - expectedValue);
+    if (distance <= tolerance) {
+      return { isEquivalent: true, method: 'numeric', userValue, expectedValue };
+    }
+    return {
+      isEquivalent: false,
+      method: 'numeric',
+      isClose: distance <= tolerance * 100,
+      userValue,
+      expectedValue,
+    };
+  }
+
+  if (symbolicallyEqual(user, expected)) {
+    return { isEquivalent: true, method: 'algebraic' };
+  }
+
+  if (numericallyIdentical(user, expected, [...new Set(variables)])) {
+    return { isEquivalent: true, method: 'identity' };
+  }
+
+  return { isEquivalent: false, method: 'none' };
+}
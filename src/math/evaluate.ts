@@ -0,0 +1,61 @@
+/**
+ * Floating-point evaluation of an expression AST.
+ * Out-of-domain operations yield NaN or ±Infinity rather than throwing;
+ * callers decide how to treat non-finite results.
+ */
+
+import { CONSTANTS, type Expr } from './ast';
+import { toNumber } from './rational';
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  cot: (x) => 1 / Math.tan(x),
+  arcsin: Math.asin,
+  arccos: Math.acos,
+  arctan: Math.atan,
+  sinh: Math.sinh,
+  cosh: Math.cosh,
+  tanh: Math.tanh,
+  ln: Math.log,
+  log: Math.log10,
+  abs: Math.abs,
+};
+
+/** Real power: odd roots of negative numbers stay real, (-8)^(1/3) = -2 */
+function realPow(base: number, exp: number): number {
+  if (base < 0 && !Number.isInteger(exp)) {
+    for (const q of [3, 5, 7, 9]) {
+      const p = Math.round(exp * q);
+      if (Math.abs(exp * q - p) < 1e-9) {
+        const magnitude = Math.pow(-base, exp);
+        return p % 2 === 0 ? magnitude : -magnitude;
+      }
+    }
+  }
+  return Math.pow(base, exp);
+}
+
+export function evaluate(e: Expr, vars: Record<string, number> = {}): number {
+  switch (e.type) {
+    case 'num':
+      return toNumber(e.value);
+    case 'sym': {
+      const value = vars[e.name] ?? CONSTANTS[e.name];
+      if (value === undefined) throw new ReferenceError(`Unbound variable: ${e.name}`);
+      return value;
+    }
+    case 'add':
+      return e.terms.reduce((sum, t) => sum + evaluate(t, vars), 0);
+    case 'mul':
+      return e.factors.reduce((product, f) => product * evaluate(f, vars), 1);
+    case 'pow':
+      return realPow(evaluate(e.base, vars), evaluate(e.exp, vars));
+    case 'call': {
+      const fn = FUNCTIONS[e.fn];
+      if (!fn) throw new ReferenceError(`Unknown function: ${e.fn}`);
+      return fn(evaluate(e.arg, vars));
+    }
+  }
+}
@@ -0,0 +1,42 @@
+// src/math/misconceptions.test.ts
+import { describe, it, expect } from 'vitest'
+import { MISCONCEPTION_CATALOGUE, appliesTo, detectMisconceptions } from './misconceptions'
+
+const ids = (user: string, expected: string, context = {}) =>
+  detectMisconceptions(user, expected, context).map((m) => m.id)
+
+const ANALYSIS = { leitidee: 'Analysis', themen: ['Ableitungsregeln', 'Kettenregel'] }
+const ALGEBRA = { leitidee: 'Algebra', themen: ['Terme', 'Binomische Formeln'] }
+
+describe('detectMisconceptions', () => {
+  it('keeps the numeric patterns for constant answers', () => {
+    expect(ids('-5', '5')).toEqual(['sign_error'])
+    expect(ids('4/3', '3/4')).toEqual(['fraction_flip'])
+    expect(ids('0,25', '2,5')).toEqual(['factor_error', 'decimal_error'])
+    expect(ids('250', '2,5')).toEqual(['decimal_error', 'unit_conversion'])
+    expect(ids('7', '5')).toEqual([])
+  })
+
+  it('detects distributive-law and binomial errors', () => {
+    expect(ids('-2x + 3', '-2x - 3', ALGEBRA)).toContain('distributive_sign')
+    expect(ids('2x + 3', '2x + 6', ALGEBRA)).toContain('distributive_factor')
+    expect(ids('x^2 + 9', 'x^2 + 6x + 9', ALGEBRA)).toContain('binomial_middle_term')
+    expect(ids('x^2 + 5x', 'x^2 + 6x + 9', ALGEBRA)).toEqual([])
+  })
+
+  it('detects differentiation errors in Analysis', () => {
+    expect(ids('6x + 4', '6x', ANALYSIS)).toContain('derivative_of_constant')
+    expect(ids('3x^3', '3x^2', ANALYSIS)).toContain('power_rule')
+    expect(ids('cos(3x)', '3cos(3x)', ANALYSIS)).toContain('chain_rule_omitted')
+    expect(ids('4(2x+1)^3', '8(2x+1)^3', ANALYSIS)).toContain('chain_rule_omitted')
+    expect(ids('e^(x^2)', '2x e^(x^2)', ANALYSIS)).toContain('chain_rule_omitted')
+  })
+
+  it('applies scoped entries only to their topics', () => {
+    expect(ids('cos(3x)', '3cos(3x)', ALGEBRA)).not.toContain('chain_rule_omitted')
+    expect(ids('0,3', '0,7', { leitidee: 'Stochastik' })).toContain('complement_probability')
+    expect(ids('0,3', '0,7')).not.toContain('complement_probability')
+    const chainRule = MISCONCEPTION_CATALOGUE.find((m) => m.id === 'chain_rule_omitted')!
+    expect(appliesTo(chainRule, { leitidee: 'Analysis', themen: ['Integralrechnung'] })).toBe(false)
+  })
+})
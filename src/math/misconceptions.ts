@@ -0,0 +1,319 @@
+/**
+ * Misconception catalogue for wrong answers.
+ * Each entry is data: a name, a hint, an optional topic scope and a
+ * detector that names how the wrong answer relates to the expected one.
+ * The detectors are implemented once below; adding a misconception usually
+ * means adding a catalogue entry, not code.
+ *
+ *   scaled             user = k · expected for one of the factors
+ *   reciprocal         user = 1 / expected
+ *   power              user = expected^k
+ *   complement         user = 1 − expected (probabilities)
+ *   offset             user = expected + c with c ≠ 0 (a constant kept)
+ *   variable-factor    user = expected · x (power rule exponent not lowered)
+ *   term-sign          one summand of expected with the wrong sign
+ *   term-factor        one summand of expected not multiplied by k
+ *   binomial-middle    expected is a² + 2ab + b², user a² + b²
+ *   inner-derivative   user · u' = expected for an inner function u of user
+ *
+ * Scoped entries only apply when the question's Leitidee or Thema matches;
+ * Themen match by keyword (case-insensitive substring).
+ */
+
+import { add, divide, freeVariables, mul, num, pow, subtract, sym, type Expr } from './ast';
+import { differentiate } from './derivative';
+import { numericallyIdentical, proportionalityFactor } from './equivalence';
+import { AmbiguousInputError, parseExpression } from './parse';
+import { fromDecimal } from './rational';
+
+export interface Misconception {
+  id: string;
+  name: string;
+  description: string;
+  hint: string;
+}
+
+export type Detector =
+  | { type: 'scaled'; factors: number[] }
+  | { type: 'reciprocal' }
+  | { type: 'power'; exponents: number[] }
+  | { type: 'complement' }
+  | { type: 'offset' }
+  | { type: 'variable-factor' }
+  | { type: 'term-sign' }
+  | { type: 'term-factor'; factors: number[] }
+  | { type: 'binomial-middle' }
+  | { type: 'inner-derivative' };
+
+export interface MisconceptionEntry extends Misconception {
+  scope?: { leitidee?: string[]; thema?: string[] };
+  detector: Detector;
+}
+
+/** Where the question comes from; Themen include the Unterthema */
+export interface TopicContext {
+  leitidee?: string;
+  themen?: string[];
+}
+
+const SMALL_INTEGERS = [2, 3, 4, 5, 6, 7, 8, 9, 10, 12, -2, -3, -4, -5];
+const DIFFERENTIATION = ['Ableitung', 'Differential', 'Kettenregel', 'Potenzregel', 'Tangente', 'Extrem'];
+
+export const MISCONCEPTION_CATALOGUE: MisconceptionEntry[] = [
+  {
+    id: 'sign_error',
+    name: 'Vorzeichenfehler',
+    description: 'Das Vorzeichen wurde verwechselt',
+    hint: 'Überprüfe die Vorzeichen in deiner Rechnung.',
+    detector: { type: 'scaled', factors: [-1] },
+  },
+  {
+    id: 'factor_error',
+    name: 'Faktor vergessen',
+    description: 'Ein Faktor wurde vergessen oder hinzugefügt',
+    hint: 'Überprüfe, ob du alle Faktoren berücksichtigt hast.',
+    detector: { type: 'scaled', factors: [2, 0.5, 10, 0.1, Math.PI, 1 / Math.PI] },
+  },
+  {
+    id: 'fraction_flip',
+    name: 'Bruch umgekehrt',
+    description: 'Zähler und Nenner wurden vertauscht',
+    hint: 'Überprüfe, ob Zähler und Nenner in der richtigen Position sind.',
+    detector: { type: 'reciprocal' },
+  },
+  {
+    id: 'power_error',
+    name: 'Potenzfehler',
+    description: 'Fehler beim Potenzieren',
+    hint: 'Überprüfe die Potenz- und Wurzeloperationen.',
+    detector: { type: 'power', exponents: [0.5, 2] },
+  },
+  {
+    id: 'decimal_error',
+    name: 'Kommafehler',
+    description: 'Das Dezimalkomma wurde falsch gesetzt',
+    hint: 'Überprüfe die Position des Dezimalkommas.',
+    detector: { type: 'scaled', factors: [10, 100, 1000, 0.1, 0.01, 0.001] },
+  },
+  {
+    id: 'unit_conversion',
+    name: 'Einheitenfehler',
+    description: 'Einheiten wurden nicht korrekt umgerechnet',
+    hint: 'Überprüfe, ob du alle Einheiten korrekt umgerechnet hast.',
+    detector: { type: 'scaled', factors: [60, 1 / 60, 3600, 1 / 3600, 1000, 0.001, 100, 0.01] },
+  },
+  {
+    id: 'distributive_sign',
+    name: 'Minusklammer falsch aufgelöst',
+    description: 'Beim Auflösen einer Klammer mit Minus davor wurde ein Vorzeichen nicht umgedreht',
+    hint: 'Steht ein Minus vor der Klammer, ändern sich die Vorzeichen aller Summanden in der Klammer.',
+    scope: { leitidee: ['Algebra', 'Analysis'] },
+    detector: { type: 'term-sign' },
+  },
+  {
+    id: 'distributive_factor',
+    name: 'Distributivgesetz',
+    description: 'Beim Ausmultiplizieren wurde nicht jeder Summand mit dem Faktor multipliziert',
+    hint: 'Multipliziere den Faktor vor der Klammer mit jedem Summanden in der Klammer: a(b + c) = ab + ac.',
+    scope: { leitidee: ['Algebra', 'Analysis'] },
+    detector: { type: 'term-factor', factors: SMALL_INTEGERS },
+  },
+  {
+    id: 'binomial_middle_term',
+    name: 'Binomische Formel',
+    description: 'Das gemischte Glied 2ab der binomischen Formel fehlt',
+    hint: 'Denke an die binomischen Formeln: (a + b)² = a² + 2ab + b².',
+    scope: { thema: ['Binom', 'Term', 'Ausmultiplizieren', 'Quadrat'] },
+    detector: { type: 'binomial-middle' },
+  },
+  {
+    id: 'derivative_of_constant',
+    name: 'Ableitung einer Konstanten',
+    description: 'Ein konstanter Summand wurde beim Ableiten nicht zu 0',
+    hint: 'Die Ableitung einer Konstanten ist 0: (f(x) + c)\' = f\'(x).',
+    scope: { leitidee: ['Analysis'], thema: DIFFERENTIATION },
+    detector: { type: 'offset' },
+  },
+  {
+    id: 'power_rule',
+    name: 'Potenzregel',
+    description: 'Beim Ableiten wurde der Exponent nicht um 1 verringert',
+    hint: 'Potenzregel: (xⁿ)\' = n · xⁿ⁻¹ — der Exponent wird um 1 kleiner.',
+    scope: { leitidee: ['Analysis'], thema: DIFFERENTIATION },
+    detector: { type: 'variable-factor' },
+  },
+  {
+    id: 'chain_rule_omitted',
+    name: 'Kettenregel vergessen',
+    description: 'Die innere Ableitung wurde nicht nachdifferenziert',
+    hint: 'Kettenregel: (f(g(x)))\' = f\'(g(x)) · g\'(x) — vergiss die innere Ableitung nicht.',
+    scope: { leitidee: ['Analysis'], thema: DIFFERENTIATION },
+    detector: { type: 'inner-derivative' },
+  },
+  {
+    id: 'complement_probability',
+    name: 'Gegenwahrscheinlichkeit',
+    description: 'Die Wahrscheinlichkeit des Gegenereignisses wurde berechnet',
+    hint: 'Prüfe, ob nach dem Ereignis oder seinem Gegenereignis gefragt ist: P(Ā) = 1 − P(A).',
+    scope: { leitidee: ['Stochastik'] },
+    detector: { type: 'complement' },
+  },
+  {
+    id: 'degree_radian',
+    name: 'Grad- und Bogenmaß',
+    description: 'Grad- und Bogenmaß wurden verwechselt',
+    hint: 'Achte darauf, ob im Grad- oder Bogenmaß gerechnet wird: 180° = π.',
+    scope: { thema: ['Trigonometrie', 'Winkel', 'Sinus', 'Kosinus', 'Dreieck'] },
+    detector: { type: 'scaled', factors: [180 / Math.PI, Math.PI / 180] },
+  },
+];
+
+// ============================================================================
+// SCOPE
+// ============================================================================
+
+export function appliesTo(entry: MisconceptionEntry, context: TopicContext): boolean {
+  const { scope } = entry;
+  if (!scope) return true;
+  if (scope.leitidee && !(context.leitidee && scope.leitidee.includes(context.leitidee))) {
+    return false;
+  }
+  if (!scope.thema) return true;
+  const themen = (context.themen ?? []).map((t) => t.toLowerCase());
+  return scope.thema.some((k) => themen.some((t) => t.includes(k.toLowerCase())));
+}
+
+// ============================================================================
+// DETECTORS
+// ============================================================================
+
+const close = (a: number, b: number, tolerance: number) => Math.abs(a - b) <= tolerance;
+
+/** Summands, with nested sums (the parser builds a + b + c as (a + b) + c) flattened */
+const termsOf = (e: Expr): Expr[] => (e.type === 'add' ? e.terms.flatMap(termsOf) : [e]);
+
+/** Composite subexpressions u of e, i.e. arguments of functions and powers */
+function innerFunctions(e: Expr, v: string, into: Expr[] = []): Expr[] {
+  switch (e.type) {
+    case 'add':
+    case 'mul':
+      (e.type === 'add' ? e.terms : e.factors).forEach((t) => innerFunctions(t, v, into));
+      break;
+    case 'pow':
+      for (const part of [e.base, e.exp]) {
+        if (part.type !== 'sym' && freeVariables(part).has(v)) into.push(part);
+        innerFunctions(part, v, into);
+      }
+      break;
+    case 'call':
+      if (e.arg.type !== 'sym' && freeVariables(e.arg).has(v)) into.push(e.arg);
+      innerFunctions(e.arg, v, into);
+      break;
+  }
+  return into;
+}
+
+const identical = (a: Expr, b: Expr, variables: string[]) =>
+  numericallyIdentical(a, b, variables) === true;
+
+function detect(detector: Detector, user: Expr, expected: Expr): boolean {
+  const variables = [...new Set([...freeVariables(user), ...freeVariables(expected)])];
+
+  switch (detector.type) {
+    case 'scaled': {
+      const factor = proportionalityFactor(user, expected);
+      return factor !== null && detector.factors.some((k) => close(factor, k, 1e-4 * Math.abs(k)));
+    }
+    case 'reciprocal':
+      return identical(user, divide(num(1), expected), variables);
+    case 'power':
+      return detector.exponents.some((k) =>
+        identical(user, pow(expected, num(fromDecimal(String(k)))), variables)
+      );
+    case 'complement':
+      return variables.length === 0 && identical(user, subtract(num(1), expected), variables);
+    case 'offset': {
+      if (variables.length === 0) return false;
+      const difference = subtract(user, expected);
+      if (identical(difference, num(0), variables)) return false;
+      // Constant: the difference does not change between sample points
+      return variables.every((v) => identical(differentiate(difference, v), num(0), variables));
+    }
+    case 'variable-factor':
+      return variables.length === 1 && identical(user, mul(expected, sym(variables[0])), variables);
+    case 'term-sign': {
+      const terms = termsOf(expected);
+      return (
+        terms.length > 1 &&
+        terms.some((t) => identical(user, subtract(expected, mul(num(2), t)), variables))
+      );
+    }
+    case 'term-factor': {
+      const terms = termsOf(expected);
+      if (terms.length < 2) return false;
+      return terms.some((t) =>
+        detector.factors.some((k) =>
+          identical(user, add(subtract(expected, t), divide(t, num(k))), variables)
+        )
+      );
+    }
+    case 'binomial-middle': {
+      const terms = termsOf(expected);
+      if (terms.length !== 3) return false;
+      return terms.some((t, i) => {
+        const [p, q] = terms.filter((_, j) => j !== i);
+        return (
+          identical(pow(t, num(2)), mul(num(4), p, q), variables) &&
+          identical(user, add(p, q), variables)
+        );
+      });
+    }
+    case 'inner-derivative': {
+      if (variables.length !== 1) return false;
+      const [v] = variables;
+      return innerFunctions(user, v).some((u) => {
+        const inner = differentiate(u, v);
+        return !identical(inner, num(1), variables) && identical(mul(user, inner), expected, variables);
+      });
+    }
+  }
+}
+
+/**
+ * Misconceptions that explain how the wrong answer differs from the
+ * expected one. Answers that do not parse match nothing.
+ */
+export function detectMisconceptions(
+  userAnswer: string,
+  expectedAnswer: string,
+  context: TopicContext = {}
+): Misconception[] {
+  let user: Expr;
+  let expected: Expr;
+  try {
+    user = parseExpression(userAnswer);
+    expected = parseExpression(expectedAnswer);
+  } catch (err) {
+    if (err instanceof AmbiguousInputError) throw err;
+    return [];
+  }
+
+  const detected: Misconception[] = [];
+  for (const entry of MISCONCEPTION_CATALOGUE) {
+    if (!appliesTo(entry, context)) continue;
+    try {
+      if (detect(entry.detector, user, expected)) {
+        const { id, name, description, hint } = entry;
+        detected.push({ id, name, description, hint });
+      }
+    } catch {
+      // A detector that cannot evaluate the answers does not match
+    }
+  }
+  return detected;
+}
+
+/** Catalogue entry by id, for names and hints of stored misconceptions */
+export function misconceptionById(id: string): MisconceptionEntry | undefined {
+  return MISCONCEPTION_CATALOGUE.find((m) => m.id === id);
+}
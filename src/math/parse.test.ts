@@ -0,0 +1,98 @@
+// src/math/parse.test.ts
+import { describe, it, expect } from 'vitest'
+import { parseExpression, MathParseError, AmbiguousInputError } from './parse'
+import { evaluate } from './evaluate'
+
+const value = (input: string, vars: Record<string, number> = {}) => evaluate(parseExpression(input), vars)
+
+describe('parseExpression', () => {
+  it('respects precedence, unary minus and right-associative powers', () => {
+    expect(value('2+3*4')).toBe(14)
+    expect(value('-2^2')).toBe(-4)
+    expect(value('2^3^2')).toBe(512)
+    expect(value('2**-1')).toBe(0.5)
+  })
+
+  it('handles implicit multiplication and letter runs', () => {
+    expect(value('2x', { x: 3 })).toBe(6)
+    expect(value('2(x+1)(x-1)', { x: 3 })).toBe(16)
+    expect(value('xy^2', { x: 2, y: 3 })).toBe(18)
+    expect(value('x^2y', { x: 2, y: 3 })).toBe(12)
+  })
+
+  it('applies functions with and without parentheses', () => {
+    expect(value('sin(pi/2)')).toBeCloseTo(1)
+    expect(value('sin^2(x)+cos^2(x)', { x: 0.7 })).toBeCloseTo(1)
+    expect(value('ln e^2')).toBeCloseTo(2)
+    expect(value('sqrt(16)')).toBe(4)
+    expect(value('|3-5|')).toBe(2)
+  })
+
+  it('reads the LaTeX subset and Unicode operators', () => {
+    expect(value('\\frac{1}{2}x', { x: 4 })).toBe(2)
+    expect(value('\\left(x+1\\right)^{2}', { x: 2 })).toBe(9)
+    expect(value('3 \\cdot \\sqrt[3]{-8}')).toBeCloseTo(-6)
+    expect(value('e^{2x}', { x: 0.5 })).toBeCloseTo(Math.E)
+    expect(value('2π·x²', { x: 1 })).toBeCloseTo(2 * Math.PI)
+  })
+
+  it('reads more of the math keyboard LaTeX', () => {
+    expect(value('\\frac12')).toBe(0.5)
+    expect(value('\\log_{2}(8)')).toBeCloseTo(3)
+    expect(value('\\mathrm{e}^{\\ln 3}')).toBeCloseTo(3)
+    expect(value('\\left\\lvert -2 \\right\\rvert')).toBe(2)
+  })
+
+  it('reads German notation', () => {
+    expect(value('0,5x', { x: 4 })).toBe(2)
+    expect(value('12:4')).toBe(3)
+    expect(value('12:4*3')).toBe(9)
+    expect(value('2 1/2')).toBe(2.5)
+    expect(value('-2 1/2')).toBe(-2.5)
+    expect(value('2 1/2 x', { x: 2 })).toBe(5)
+  })
+
+  it('takes the conventional reading of ambiguous input by default', () => {
+    expect(value('1/2x', { x: 4 })).toBe(2)
+    expect(value('2\\frac{1}{2}')).toBe(2.5)
+    expect(value('1.234,5')).toBe(1234.5)
+  })
+
+  it('rejects ambiguous input in strict mode', () => {
+    const ambiguities = (input: string) => {
+      try {
+        parseExpression(input, { strict: true })
+      } catch (err) {
+        if (err instanceof AmbiguousInputError) return err.ambiguities
+      }
+      return []
+    }
+
+    expect(ambiguities('1/2x')).toEqual([
+      expect.objectContaining({
+        code: 'DIVISION_PRODUCT',
+        fragment: '1/2x',
+        readings: ['(1/2)*x', '1/(2*x)'],
+      }),
+    ])
+    expect(ambiguities('6:2(1+2)')[0].readings).toEqual(['(6/2)*(1+2)', '6/(2*(1+2))'])
+    expect(ambiguities('2\\frac{1}{2}')[0]).toMatchObject({ code: 'MIXED_NUMBER', readings: ['2+1/2', '2*1/2'] })
+    expect(ambiguities('2 3/2')[0]).toMatchObject({ code: 'MIXED_NUMBER' })
+    expect(ambiguities('1.234,5 + 1/2a')).toHaveLength(2)
+
+    expect(ambiguities('1/2 x')).toEqual([])
+    expect(ambiguities('\\frac{1}{2}x')).toEqual([])
+    expect(ambiguities('2 1/2')).toEqual([])
+    expect(ambiguities('2\\frac{x}{2}')).toEqual([])
+  })
+
+  it('reports the position of syntax errors', () => {
+    expect(() => parseExpression('2+')).toThrow(MathParseError)
+    expect(() => parseExpression('(x+1')).toThrow(/Expected "\)"/)
+    try {
+      parseExpression('2 # 3')
+    } catch (err) {
+      expect((err as MathParseError).position).toBe(2)
+    }
+  })
+})
@@ -0,0 +1,546 @@
+/**
+ * Expression parser: plain calculator syntax, the LaTeX subset our
+ * generated solutions and the app's math keyboard produce (\frac, \sqrt[3]{},
+ * \cdot, \left( … \right), \ln, e^{…}, \log_{2}) and German school
+ * notation: decimal commas (0,5), ":" for division and mixed numbers (2 1/2).
+ *
+ * Implicit multiplication is supported (2x, 2(x+1), (x+1)(x-1), xy) and a
+ * run of letters that is not a known name splits into single-letter
+ * variables. Function arguments without parentheses extend over the
+ * following implicit product: sin 2x = sin(2x).
+ *
+ * Some inputs have more than one plausible reading (1/2x, 2\frac{1}{2},
+ * 1.234,5). By default the conventional reading is taken; with
+ * `strict: true` — used for student answers — they are rejected with an
+ * AmbiguousInputError listing every ambiguous fragment.
+ */
+
+import {
+  call,
+  decimal,
+  divide,
+  format,
+  mul,
+  negate,
+  num,
+  pow,
+  subtract,
+  add,
+  sym,
+  type Expr,
+} from './ast';
+import { isInteger, rational } from './rational';
+
+export class MathParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'MathParseError';
+  }
+}
+
+export type AmbiguityCode = 'DIVISION_PRODUCT' | 'MIXED_NUMBER' | 'DECIMAL_SEPARATOR' | 'LIST_SEPARATOR';
+
+export interface Ambiguity {
+  code: AmbiguityCode;
+  /** Explanation for the student */
+  message: string;
+  position: number;
+  fragment: string;
+  /** Possible readings in calculator syntax; lenient parsing takes the first */
+  readings: string[];
+}
+
+export class AmbiguousInputError extends Error {
+  constructor(public ambiguities: Ambiguity[]) {
+    super(ambiguities.map((a) => a.message).join(' '));
+    this.name = 'AmbiguousInputError';
+  }
+}
+
+export interface ParseOptions {
+  /** Reject ambiguous notation instead of taking the conventional reading */
+  strict?: boolean;
+}
+
+const EXPLANATIONS: Record<AmbiguityCode, (fragment: string, readings: string[]) => string> = {
+  DIVISION_PRODUCT: (fragment, [first, second]) =>
+    `„${fragment}“ kann als ${first} oder als ${second} gelesen werden. Setze Klammern.`,
+  MIXED_NUMBER: (fragment, [first, second]) =>
+    `„${fragment}“ kann als ${first} oder als ${second} gelesen werden. Schreibe das Rechenzeichen aus.`,
+  DECIMAL_SEPARATOR: (fragment, [reading]) =>
+    `„${fragment}“ enthält mehrere Trennzeichen (gemeint ist vielleicht ${reading}). Verwende nur ein Dezimalkomma und keine Tausenderpunkte.`,
+  LIST_SEPARATOR: (fragment, [first, second]) =>
+    `In „${fragment}“ kann das Komma Dezimalkomma oder Trennzeichen sein (${first} oder ${second}). Trenne mehrere Werte mit „;“.`,
+};
+
+export function describeAmbiguity(
+  code: AmbiguityCode,
+  position: number,
+  fragment: string,
+  readings: string[]
+): Ambiguity {
+  return { code, message: EXPLANATIONS[code](fragment, readings), position, fragment, readings };
+}
+
+interface Token {
+  kind: 'num' | 'ident' | 'cmd' | 'op';
+  text: string;
+  pos: number;
+  /** Preceded by whitespace */
+  spaced: boolean;
+}
+
+/** Function names, canonical spelling last */
+const FUNCTION_ALIASES: Record<string, string> = {
+  sin: 'sin',
+  cos: 'cos',
+  tan: 'tan',
+  cot: 'cot',
+  arcsin: 'arcsin',
+  arccos: 'arccos',
+  arctan: 'arctan',
+  asin: 'arcsin',
+  acos: 'arccos',
+  atan: 'arctan',
+  sinh: 'sinh',
+  cosh: 'cosh',
+  tanh: 'tanh',
+  ln: 'ln',
+  log: 'log',
+  lg: 'log',
+  exp: 'exp',
+  sqrt: 'sqrt',
+  abs: 'abs',
+};
+
+const NAMES = [...Object.keys(FUNCTION_ALIASES), 'pi'].sort((a, b) => b.length - a.length);
+
+const UNICODE: Record<string, string> = {
+  '×': '*',
+  '·': '*',
+  '⋅': '*',
+  '÷': '/',
+  '−': '-',
+  '–': '-',
+  '²': '^2',
+  '³': '^3',
+  'π': 'pi',
+  '√': '\\sqrt',
+};
+
+/** LaTeX commands that are just spacing or sizing */
+const IGNORED_COMMANDS = new Set(['left', 'right', ',', ';', '!', ' ', 'quad', 'displaystyle']);
+
+const OPERATOR_COMMANDS: Record<string, string> = {
+  cdot: '*',
+  times: '*',
+  ast: '*',
+  div: '/',
+  colon: '/',
+  vert: '|',
+  lvert: '|',
+  rvert: '|',
+};
+
+/** Commands whose braced argument is plain content: \mathrm{e}, \operatorname{sin} */
+const TRANSPARENT_COMMANDS = /\\(?:mathrm|mathit|operatorname)\{([^{}]*)\}/g;
+
+/** Digits read one at a time after these commands: \frac12 = \frac{1}{2} */
+const SINGLE_DIGIT_ARGUMENTS: Record<string, number> = { frac: 2, dfrac: 2, tfrac: 2, sqrt: 1 };
+
+/**
+ * Rewrites that keep every character at its offset, so error positions
+ * still point into what the student typed.
+ */
+function prepare(input: string): string {
+  return input
+    .replace(/[×·⋅÷−–²³π√]/g, (ch) => UNICODE[ch])
+    .replace(/\$/g, ' ')
+    .replace(/\*\*/g, '^ ')
+    .replace(TRANSPARENT_COMMANDS, (match, inner: string) =>
+      ' '.repeat(match.length - inner.length - 1) + inner + ' '
+    );
+}
+
+/**
+ * Decimal literal with at most one separator. Several separators are read
+ * as digit grouping with the last separator as the decimal point when both
+ * kinds occur (1.234,5 = 1234.5), and as pure grouping otherwise.
+ */
+function numberLiteral(text: string): string {
+  const separators = text.match(/[.,]/g) ?? [];
+  if (separators.length <= 1) return text.replace(',', '.');
+  if (separators.every((s) => s === separators[0])) return text.replace(/[.,]/g, '');
+  const last = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+  return `${text.slice(0, last).replace(/[.,]/g, '')}.${text.slice(last + 1)}`;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let spaced = false;
+  let singleDigits = 0;
+
+  const push = (kind: Token['kind'], text: string, pos: number) => {
+    tokens.push({ kind, text, pos, spaced });
+    spaced = false;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      spaced = true;
+      i++;
+      continue;
+    }
+
+    if (/\d/.test(ch) && singleDigits > 0) {
+      push('num', ch, i);
+      singleDigits--;
+      i++;
+      continue;
+    }
+    singleDigits = 0;
+
+    if (/[\d.,]/.test(ch)) {
+      const match = /^(?:\d+(?:[.,]\d+)*\.?|[.,]\d+)/.exec(source.slice(i));
+      if (!match) throw new MathParseError(`Unexpected "${ch}"`, i);
+      push('num', match[0], i);
+      i += match[0].length;
+    } else if (/[a-z]/i.test(ch)) {
+      const run = /^[a-z]+/i.exec(source.slice(i))![0];
+      let offset = 0;
+      while (offset < run.length) {
+        const rest = run.slice(offset).toLowerCase();
+        const name = NAMES.find((n) => rest.startsWith(n)) ?? run[offset];
+        push('ident', name.length > 1 ? name : run[offset], i + offset);
+        offset += name.length;
+      }
+      i += run.length;
+    } else if (ch === '\\') {
+      const match = /^\\([a-z]+|.)/i.exec(source.slice(i));
+      if (!match) throw new MathParseError('Dangling backslash', i);
+      const name = match[1];
+      if (OPERATOR_COMMANDS[name]) {
+        push('op', OPERATOR_COMMANDS[name], i);
+      } else if (!IGNORED_COMMANDS.has(name)) {
+        push('cmd', name, i);
+        singleDigits = SINGLE_DIGIT_ARGUMENTS[name] ?? 0;
+      }
+      i += match[0].length;
+    } else if (ch === ':') {
+      push('op', '/', i);
+      i++;
+    } else if ('+-*/^_(){}[]|'.includes(ch)) {
+      push('op', ch, i);
+      i++;
+    } else {
+      throw new MathParseError(`Unexpected "${ch}"`, i);
+    }
+  }
+  return tokens;
+}
+
+/** a/b as produced by divide() with integer a and b, e.g. from \frac{1}{2} */
+function isIntegerFraction(e: Expr): boolean {
+  if (e.type !== 'mul' || e.factors.length !== 2) return false;
+  const [numerator, reciprocal] = e.factors;
+  return (
+    numerator.type === 'num' &&
+    isInteger(numerator.value) &&
+    reciprocal.type === 'pow' &&
+    reciprocal.base.type === 'num' &&
+    isInteger(reciprocal.base.value)
+  );
+}
+
+const isDigits = (text: string) => /^\d+$/.test(text);
+
+class Parser {
+  private i = 0;
+  private ambiguities: Ambiguity[] = [];
+
+  constructor(private tokens: Token[], private source: string, private strict: boolean) {}
+
+  private get length(): number {
+    return this.source.length;
+  }
+
+  parse(): Expr {
+    if (this.tokens.length === 0) throw new MathParseError('Empty expression', 0);
+    const expr = this.expression();
+    const extra = this.peek();
+    if (extra) throw new MathParseError(`Unexpected "${extra.text}"`, extra.pos);
+    if (this.strict && this.ambiguities.length > 0) throw new AmbiguousInputError(this.ambiguities);
+    return expr;
+  }
+
+  /** Offset just past the last consumed token */
+  private position(): number {
+    return this.peek()?.pos ?? this.length;
+  }
+
+  private slice(start: number, end: number): string {
+    return this.source.slice(start, end).trim();
+  }
+
+  private ambiguous(code: AmbiguityCode, start: number, end: number, readings: string[]): void {
+    this.ambiguities.push(describeAmbiguity(code, start, this.slice(start, end), readings));
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.i];
+  }
+
+  private isOp(text: string): boolean {
+    const t = this.peek();
+    return t?.kind === 'op' && t.text === text;
+  }
+
+  private expect(text: string): void {
+    if (!this.isOp(text)) {
+      throw new MathParseError(`Expected "${text}"`, this.peek()?.pos ?? this.length);
+    }
+    this.i++;
+  }
+
+  private startsFactor(): boolean {
+    const t = this.peek();
+    if (!t) return false;
+    if (t.kind === 'op') return t.text === '(' || t.text === '{';
+    return true;
+  }
+
+  private expression(): Expr {
+    let result = this.term();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.tokens[this.i++].text;
+      const right = this.term();
+      result = op === '+' ? add(result, right) : subtract(result, right);
+    }
+    return result;
+  }
+
+  private term(): Expr {
+    const start = this.position();
+    let result = this.unary();
+    for (;;) {
+      if (this.isOp('*')) {
+        this.i++;
+        result = mul(result, this.unary());
+      } else if (this.isOp('/')) {
+        const slash = this.tokens[this.i++].pos;
+        const divisorStart = this.position();
+        result = divide(result, this.unary());
+
+        // 1/2x: is x in the numerator or the denominator?
+        const next = this.peek();
+        if (next && !next.spaced && this.startsFactor()) {
+          const productStart = next.pos;
+          let product = this.power();
+          while (this.startsFactor()) product = mul(product, this.power());
+          const end = this.position();
+          const left = this.slice(start, slash);
+          const divisor = this.slice(divisorStart, productStart);
+          const rest = this.slice(productStart, end);
+          this.ambiguous('DIVISION_PRODUCT', start, end, [
+            `(${left}/${divisor})*${rest}`,
+            `${left}/(${divisor}*${rest})`,
+          ]);
+          result = mul(result, product);
+        }
+      } else if (this.startsFactor()) {
+        result = mul(result, this.power());
+      } else {
+        return result;
+      }
+    }
+  }
+
+  private unary(): Expr {
+    if (this.isOp('-')) {
+      this.i++;
+      return negate(this.unary());
+    }
+    if (this.isOp('+')) {
+      this.i++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): Expr {
+    const base = this.atom();
+    if (this.isOp('^')) {
+      this.i++;
+      return pow(base, this.unary());
+    }
+    return base;
+  }
+
+  /** {…} group, or a single atom as in \frac12 */
+  private group(): Expr {
+    if (this.isOp('{')) {
+      this.i++;
+      const inner = this.expression();
+      this.expect('}');
+      return inner;
+    }
+    return this.atom();
+  }
+
+  private atom(): Expr {
+    const t = this.peek();
+    if (!t) throw new MathParseError('Unexpected end of expression', this.length);
+    this.i++;
+
+    if (t.kind === 'num') {
+      if ((t.text.match(/[.,]/g) ?? []).length > 1) {
+        this.ambiguous('DECIMAL_SEPARATOR', t.pos, t.pos + t.text.length, [
+          numberLiteral(t.text),
+        ]);
+      }
+      const value = decimal(numberLiteral(t.text));
+      return isDigits(t.text) ? this.mixedNumber(t, value) : value;
+    }
+
+    if (t.kind === 'ident') {
+      const fn = FUNCTION_ALIASES[t.text.toLowerCase()];
+      if (fn) return this.application(fn);
+      return sym(t.text === 'pi' ? 'pi' : t.text);
+    }
+
+    if (t.kind === 'cmd') {
+      switch (t.text) {
+        case 'frac':
+        case 'dfrac':
+        case 'tfrac': {
+          const numerator = this.group();
+          return divide(numerator, this.group());
+        }
+        case 'sqrt': {
+          let index: Expr | null = null;
+          if (this.isOp('[')) {
+            this.i++;
+            index = this.expression();
+            this.expect(']');
+          }
+          const radicand = this.group();
+          return pow(radicand, index ? divide(num(1), index) : num(rational(1, 2)));
+        }
+        case 'pi':
+          return sym('pi');
+        default: {
+          const fn = FUNCTION_ALIASES[t.text];
+          if (fn) return this.application(fn);
+          throw new MathParseError(`Unsupported command "\\${t.text}"`, t.pos);
+        }
+      }
+    }
+
+    // Operators that open a group
+    if (t.text === '(' || t.text === '{') {
+      const inner = this.expression();
+      this.expect(t.text === '(' ? ')' : '}');
+      return inner;
+    }
+    if (t.text === '|') {
+      const inner = this.expression();
+      this.expect('|');
+      return call('abs', inner);
+    }
+    throw new MathParseError(`Unexpected "${t.text}"`, t.pos);
+  }
+
+  /**
+   * Whole number followed by a fraction. "2 1/2" is a mixed number
+   * (gemischte Zahl) when the fraction is proper; "2\frac{1}{2}" and
+   * "2 3/2" could also be products and are ambiguous.
+   */
+  private mixedNumber(whole: Token, value: Expr): Expr {
+    const before = this.tokens[this.i - 2];
+    if (before?.kind === 'op' && (before.text === '^' || before.text === '/')) return value;
+
+    const [n, slash, d, after] = this.tokens.slice(this.i, this.i + 4);
+    if (
+      n?.kind === 'num' &&
+      isDigits(n.text) &&
+      slash?.kind === 'op' &&
+      slash.text === '/' &&
+      d?.kind === 'num' &&
+      isDigits(d.text) &&
+      !(after && !after.spaced && (after.kind !== 'op' || '^({'.includes(after.text)))
+    ) {
+      this.i += 3;
+      const fraction = divide(decimal(n.text), decimal(d.text));
+      if (BigInt(n.text) < BigInt(d.text)) return add(value, fraction);
+      this.ambiguous('MIXED_NUMBER', whole.pos, this.position(), [
+        `${whole.text}*${n.text}/${d.text}`,
+        `${whole.text}+${n.text}/${d.text}`,
+      ]);
+      return mul(value, fraction);
+    }
+
+    const next = this.peek();
+    if (next?.kind === 'cmd' && ['frac', 'dfrac', 'tfrac'].includes(next.text)) {
+      const saved = this.i;
+      const recorded = this.ambiguities.length;
+      const fraction = this.atom();
+      if (!this.isOp('^') && isIntegerFraction(fraction)) {
+        const [numerator, reciprocal] = (fraction as Extract<Expr, { type: 'mul' }>).factors;
+        const n = format(numerator);
+        const d = format((reciprocal as Extract<Expr, { type: 'pow' }>).base);
+        this.ambiguous('MIXED_NUMBER', whole.pos, this.position(), [
+          `${whole.text}+${n}/${d}`,
+          `${whole.text}*${n}/${d}`,
+        ]);
+        return add(value, fraction);
+      }
+      this.i = saved;
+      this.ambiguities.length = recorded;
+    }
+    return value;
+  }
+
+  /** f(x), f x, f^2(x), f^2 x, \log_{b} x */
+  private application(fn: string): Expr {
+    let base: Expr | null = null;
+    if (fn === 'log' && this.isOp('_')) {
+      this.i++;
+      base = this.group();
+    }
+
+    let exponent: Expr | null = null;
+    if (this.isOp('^')) {
+      this.i++;
+      exponent = this.unary();
+    }
+
+    let arg: Expr;
+    if (this.isOp('(')) {
+      arg = this.atom();
+    } else {
+      arg = this.power();
+      while (this.startsFactor() && !this.isFunctionNext()) arg = mul(arg, this.power());
+    }
+
+    let result: Expr;
+    if (base) result = divide(call('ln', arg), call('ln', base));
+    else if (fn === 'exp') result = pow(sym('e'), arg);
+    else if (fn === 'sqrt') result = pow(arg, num(rational(1, 2)));
+    else result = call(fn, arg);
+
+    return exponent ? pow(result, exponent) : result;
+  }
+
+  private isFunctionNext(): boolean {
+    const t = this.peek();
+    return (t?.kind === 'ident' || t?.kind === 'cmd') && Boolean(FUNCTION_ALIASES[t.text.toLowerCase()]);
+  }
+}
+
+export function parseExpression(input: string, options: ParseOptions = {}): Expr {
+  const source = prepare(input);
+  return new Parser(tokenize(source), source, options.strict ?? false).parse();
+}
@@ -0,0 +1,35 @@
+// src/math/polynomial.test.ts
+import { describe, it, expect } from 'vitest'
+import { parseExpression } from './parse'
+import { canonicalString, symbolicallyEqual, toRationalFunction } from './polynomial'
+
+const equal = (a: string, b: string) => symbolicallyEqual(parseExpression(a), parseExpression(b))
+
+describe('symbolicallyEqual', () => {
+  it('expands products and powers', () => {
+    expect(equal('(x+1)^2', 'x^2+2x+1')).toBe(true)
+    expect(equal('2(x+3)', '2x+6')).toBe(true)
+    expect(equal('(a-b)(a+b)', 'a^2-b^2')).toBe(true)
+    expect(equal('(x+1)^2', 'x^2+1')).toBe(false)
+  })
+
+  it('compares rational functions by cross-multiplication', () => {
+    expect(equal('(x^2-1)/(x-1)', 'x+1')).toBe(true)
+    expect(equal('1/x + 1/y', '(x+y)/(xy)')).toBe(true)
+    expect(equal('0.5x', '\\frac{1}{2}x')).toBe(true)
+  })
+
+  it('treats non-polynomial parts as atoms of their canonical arguments', () => {
+    expect(equal('sin(2x)', 'sin(x+x)')).toBe(true)
+    expect(equal('sqrt(x)*sqrt(x)', 'sqrt(x)^2')).toBe(true)
+    expect(equal('sqrt(9)', '3')).toBe(true)
+  })
+
+  it('gives up on expansions that are too large', () => {
+    expect(equal('(x+y+z+1)^40', 'x')).toBeNull()
+  })
+
+  it('renders a stable canonical form', () => {
+    expect(canonicalString(toRationalFunction(parseExpression('1+x+x')))).toBe('1 + 2*x')
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * Canonical forms for symbolic comparison.
+ * An expression is expanded into a rational function num/den of
+ * multivariate polynomials with exact rational coefficients. Anything that
+ * is not a polynomial operation — sin(x), √x, 2^x — becomes an opaque atom
+ * whose name is the canonical form of its arguments, so sin(2x) and
+ * sin(x+x) are the same atom.
+ *
+ * Two expressions are identical when p1·q2 − p2·q1 expands to zero. This
+ * proves equivalence but cannot refute it: identities between atoms
+ * (sin²x + cos²x = 1) are left to the numeric identity test.
+ */
+
+import type { Expr } from './ast';
+import * as Q from './rational';
+import type { Rational } from './rational';
+
+/** Expansion gave up: too many terms or too high a power */
+export class ComplexityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ComplexityError';
+  }
+}
+
+const MAX_TERMS = 2000;
+const MAX_POWER = 24;
+
+interface Term {
+  /** Symbol exponents, sorted by symbol */
+  powers: Array<[string, number]>;
+  coef: Rational;
+}
+
+export type Poly = Map<string, Term>;
+
+export interface RationalFunction {
+  num: Poly;
+  den: Poly;
+}
+
+const monomialKey = (powers: Array<[string, number]>) =>
+  powers.map(([s, k]) => (k === 1 ? s : `${s}^${k}`)).join('*');
+
+function constant(value: Rational): Poly {
+  return Q.isZero(value) ? new Map() : new Map([['', { powers: [], coef: value }]]);
+}
+
+function symbol(name: string): Poly {
+  return new Map([[name, { powers: [[name, 1]], coef: Q.ONE }]]);
+}
+
+function addTerm(into: Poly, term: Term): void {
+  const key = monomialKey(term.powers);
+  const existing = into.get(key);
+  const coef = existing ? Q.add(existing.coef, term.coef) : term.coef;
+  if (Q.isZero(coef)) into.delete(key);
+  else into.set(key, { powers: term.powers, coef });
+  if (into.size > MAX_TERMS) throw new ComplexityError('Expansion has too many terms');
+}
+
+function polyAdd(a: Poly, b: Poly, sign: 1 | -1 = 1): Poly {
+  const result: Poly = new Map(a);
+  for (const term of b.values()) {
+    addTerm(result, sign === 1 ? term : { powers: term.powers, coef: Q.neg(term.coef) });
+  }
+  return result;
+}
+
+function multiplyPowers(a: Array<[string, number]>, b: Array<[string, number]>): Array<[string, number]> {
+  const merged = new Map(a);
+  for (const [s, k] of b) {
+    const total = (merged.get(s) ?? 0) + k;
+    if (total === 0) merged.delete(s);
+    else merged.set(s, total);
+  }
+  return [...merged].sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0));
+}
+
+function polyMul(a: Poly, b: Poly): Poly {
+  const result: Poly = new Map();
+  for (const ta of a.values()) {
+    for (const tb of b.values()) {
+      addTerm(result, { powers: multiplyPowers(ta.powers, tb.powers), coef: Q.mul(ta.coef, tb.coef) });
+    }
+  }
+  return result;
+}
+
+function constantValue(p: Poly): Rational | null {
+  if (p.size === 0) return Q.ZERO;
+  const term = p.get('');
+  return p.size === 1 && term ? term.coef : null;
+}
+
+function polyEquals(a: Poly, b: Poly): boolean {
+  if (a.size !== b.size) return false;
+  for (const [key, term] of a) {
+    const other = b.get(key);
+    if (!other || !Q.equals(term.coef, other.coef)) return false;
+  }
+  return true;
+}
+
+function polyToString(p: Poly): string {
+  if (p.size === 0) return '0';
+  return [...p.entries()]
+    .sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0))
+    .map(([key, term]) => `${Q.toString(term.coef)}${key ? `*${key}` : ''}`)
+    .join(' + ');
+}
+
+// ── Rational functions ────────────────────────────────────────────────────
+
+const ONE_POLY = constant(Q.ONE);
+
+function fromPoly(num: Poly): RationalFunction {
+  return { num, den: ONE_POLY };
+}
+
+/** Fold a constant denominator into the numerator */
+function tidy(rf: RationalFunction): RationalFunction {
+  const d = constantValue(rf.den);
+  if (d === null || Q.equals(d, Q.ONE)) return rf;
+  return fromPoly(polyMul(rf.num, constant(Q.div(Q.ONE, d))));
+}
+
+function rfAdd(a: RationalFunction, b: RationalFunction): RationalFunction {
+  if (polyEquals(a.den, b.den)) return tidy({ num: polyAdd(a.num, b.num), den: a.den });
+  return tidy({
+    num: polyAdd(polyMul(a.num, b.den), polyMul(b.num, a.den)),
+    den: polyMul(a.den, b.den),
+  });
+}
+
+function rfMul(a: RationalFunction, b: RationalFunction): RationalFunction {
+  return tidy({ num: polyMul(a.num, b.num), den: polyMul(a.den, b.den) });
+}
+
+function rfInvert(a: RationalFunction): RationalFunction {
+  if (a.num.size === 0) throw new RangeError('Division by zero');
+  return tidy({ num: a.den, den: a.num });
+}
+
+function rfPow(base: RationalFunction, k: number): RationalFunction {
+  if (Math.abs(k) > MAX_POWER) throw new ComplexityError('Exponent too large to expand');
+  let result = fromPoly(ONE_POLY);
+  for (let i = 0; i < Math.abs(k); i++) result = rfMul(result, base);
+  return k < 0 ? rfInvert(result) : result;
+}
+
+function rfConstant(rf: RationalFunction): Rational | null {
+  const n = constantValue(rf.num);
+  const d = constantValue(rf.den);
+  return n !== null && d !== null ? Q.div(n, d) : null;
+}
+
+export function canonicalString(rf: RationalFunction): string {
+  const den = polyToString(rf.den);
+  return den === '1' ? polyToString(rf.num) : `(${polyToString(rf.num)})/(${den})`;
+}
+
+function atom(name: string): RationalFunction {
+  return fromPoly(symbol(`@${name}`));
+}
+
+export function toRationalFunction(e: Expr): RationalFunction {
+  switch (e.type) {
+    case 'num':
+      return fromPoly(constant(e.value));
+    case 'sym':
+      return fromPoly(symbol(e.name));
+    case 'add':
+      return e.terms.map(toRationalFunction).reduce(rfAdd);
+    case 'mul':
+      return e.factors.map(toRationalFunction).reduce(rfMul);
+    case 'pow': {
+      const base = toRationalFunction(e.base);
+      const exp = toRationalFunction(e.exp);
+      const k = rfConstant(exp);
+      if (k && Q.isInteger(k)) return rfPow(base, Number(k.n));
+
+      const b = rfConstant(base);
+      if (b && k && Q.equals(k, Q.rational(1, 2))) {
+        const root = Q.sqrtExact(b);
+        if (root) return fromPoly(constant(root));
+      }
+      return atom(`pow(${canonicalString(base)}, ${canonicalString(exp)})`);
+    }
+    case 'call': {
+      const arg = toRationalFunction(e.arg);
+      const c = rfConstant(arg);
+      if (e.fn === 'abs' && c) return fromPoly(constant(c.n < 0n ? Q.neg(c) : c));
+      return atom(`${e.fn}(${canonicalString(arg)})`);
+    }
+  }
+}
+
+/**
+ * true if the expressions expand to the same rational function, false if
+ * not, null if expansion gave up. `false` is not a proof of inequivalence.
+ */
+export function symbolicallyEqual(a: Expr, b: Expr): boolean | null {
+  try {
+    const ra = toRationalFunction(a);
+    const rb = toRationalFunction(b);
+    const difference = polyAdd(polyMul(ra.num, rb.den), polyMul(rb.num, ra.den), -1);
+    return difference.size === 0;
+  } catch (err) {
+    if (err instanceof ComplexityError || err instanceof RangeError) return null;
+    throw err;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Exact rational numbers on bigint.
+ * Always normalized: denominator > 0 and gcd(n, d) = 1, so structural
+ * equality is numeric equality.
+ */
+
+export interface Rational {
+  n: bigint;
+  d: bigint;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = a < 0n ? -a : a;
+  b = b < 0n ? -b : b;
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+}
+
+export function rational(n: bigint | number, d: bigint | number = 1n): Rational {
+  let num = BigInt(n);
+  let den = BigInt(d);
+  if (den === 0n) throw new RangeError('Division by zero');
+  if (den < 0n) {
+    num = -num;
+    den = -den;
+  }
+  const g = gcd(num, den) || 1n;
+  return { n: num / g, d: den / g };
+}
+
+export const ZERO = rational(0);
+export const ONE = rational(1);
+
+/** Parse a decimal literal like "12", "0.125" or ".5" exactly */
+export function fromDecimal(literal: string): Rational {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(literal);
+  if (!match || (!match[1] && !match[2])) throw new SyntaxError(`Invalid number: ${literal}`);
+  const fraction = match[2] ?? '';
+  return rational(BigInt((match[1] || '0') + fraction), 10n ** BigInt(fraction.length));
+}
+
+export const add = (a: Rational, b: Rational) => rational(a.n * b.d + b.n * a.d, a.d * b.d);
+export const sub = (a: Rational, b: Rational) => rational(a.n * b.d - b.n * a.d, a.d * b.d);
+export const mul = (a: Rational, b: Rational) => rational(a.n * b.n, a.d * b.d);
+export const div = (a: Rational, b: Rational) => rational(a.n * b.d, a.d * b.n);
+export const neg = (a: Rational): Rational => ({ n: -a.n, d: a.d });
+
+export const isZero = (a: Rational) => a.n === 0n;
+export const isInteger = (a: Rational) => a.d === 1n;
+export const equals = (a: Rational, b: Rational) => a.n === b.n && a.d === b.d;
+
+export function pow(base: Rational, exponent: number): Rational {
+  if (!Number.isInteger(exponent)) throw new RangeError('Rational powers need an integer exponent');
+  const k = BigInt(Math.abs(exponent));
+  const result = rational(base.n ** k, base.d ** k);
+  return exponent < 0 ? div(ONE, result) : result;
+}
+
+/** Exact square root if both numerator and denominator are perfect squares */
+export function sqrtExact(a: Rational): Rational | null {
+  if (a.n < 0n) return null;
+  const root = (v: bigint) => {
+    const r = BigInt(Math.round(Math.sqrt(Number(v))));
+    return r * r === v ? r : null;
+  };
+  const n = root(a.n);
+  const d = root(a.d);
+  return n !== null && d !== null ? rational(n, d) : null;
+}
+
+export function toNumber(a: Rational): number {
+  return Number(a.n) / Number(a.d);
+}
+
+export function toString(a: Rational): string {
+  return a.d === 1n ? String(a.n) : `${a.n}/${a.d}`;
+}
@@ -0,0 +1,87 @@
+// src/math/units.test.ts
+import { describe, it, expect } from 'vitest'
+import { checkAnswer } from './answers'
+import { AmbiguousInputError } from './parse'
+import { parseQuantity, parseUnit, sameDimension } from './units'
+
+const si = (input: string) => {
+  const q = parseQuantity(input)
+  return q.unit ? q.value * q.unit.factor + (q.unit.offset ?? 0) : q.value
+}
+
+describe('parseQuantity', () => {
+  it('splits value and unit in SI, German and LaTeX notation', () => {
+    expect(parseQuantity('12,5 km/h')).toMatchObject({ value: 12.5, unitText: 'km/h' })
+    expect(si('12,5 km/h')).toBeCloseTo(12.5 / 3.6)
+    expect(si('3 Meter pro Sekunde')).toBe(3)
+    expect(si('250 cm²')).toBeCloseTo(0.025)
+    expect(si('2\\,\\text{m}^3')).toBe(2)
+    expect(si('1,5 kWh')).toBe(5.4e6)
+    expect(si('\\frac{1}{2} h')).toBe(1800)
+    expect(si('20 %')).toBeCloseTo(0.2)
+    expect(si('3,50 €')).toBe(3.5)
+    expect(si('20 °C')).toBeCloseTo(293.15)
+    expect(si('90^\\circ')).toBeCloseTo(Math.PI / 2)
+    expect(si('90 Grad')).toBeCloseTo(Math.PI / 2)
+  })
+
+  it('keeps a unitless value and rejects variables', () => {
+    expect(parseQuantity('2\\pi')).toMatchObject({ unit: null })
+    expect(si('2 pi m')).toBeCloseTo(2 * Math.PI)
+    expect(() => parseQuantity('3x')).toThrow()
+  })
+
+  it('analyses dimensions of compound units', () => {
+    expect(sameDimension(parseUnit('N·m')!, parseUnit('J')!)).toBe(true)
+    expect(sameDimension(parseUnit('kg*m/s^2')!, parseUnit('N')!)).toBe(true)
+    expect(sameDimension(parseUnit('W')!, parseUnit('J/s')!)).toBe(true)
+    expect(sameDimension(parseUnit('m')!, parseUnit('min')!)).toBe(false)
+    expect(parseUnit('Meterx')).toBeNull()
+  })
+})
+
+describe('checkAnswer quantity', () => {
+  it('accepts equivalent quantities', () => {
+    expect(checkAnswer('10 m/s', '36 km/h', 'quantity', { tolerance: 0.01 })).toMatchObject({
+      isEquivalent: true,
+      method: 'quantity',
+    })
+    expect(checkAnswer('v = 0,5 h', '30 min', 'quantity').isEquivalent).toBe(true)
+    expect(checkAnswer('1 ha', '10000 m²', 'quantity').isEquivalent).toBe(true)
+    expect(checkAnswer('0,25', '25 %', 'quantity').isEquivalent).toBe(true)
+  })
+
+  it('gives partial credit for a missing or wrong unit', () => {
+    expect(checkAnswer('36', '36 km/h', 'quantity')).toMatchObject({
+      isEquivalent: false,
+      credit: 0.5,
+      misconception: { id: 'missing_unit' },
+    })
+    expect(checkAnswer('36 km', '36 km/h', 'quantity')).toMatchObject({
+      credit: 0.5,
+      misconception: { id: 'wrong_unit' },
+    })
+    expect(checkAnswer('20 km', '36 km/h', 'quantity')).toMatchObject({
+      misconception: { id: 'wrong_quantity' },
+    })
+  })
+
+  it('names conversion errors precisely', () => {
+    const area = checkAnswer('5 m²', '500 cm²', 'quantity')
+    expect(area.credit).toBeUndefined()
+    expect(area.misconception).toMatchObject({ id: 'unit_conversion' })
+    expect(area.misconception?.hint).toContain('quadriert')
+    expect(checkAnswer('36 m/s', '36 km/h', 'quantity').misconception?.description).toContain(
+      'ohne umzurechnen'
+    )
+  })
+
+  it('reports the factor instead of a conversion when the unit is the expected one', () => {
+    expect(checkAnswer('5 m', '0,05 m', 'quantity').detail).toBe('5 m ist um den Faktor 100 zu groß.')
+    expect(checkAnswer('5 m', '5 cm', 'quantity').detail).toBe('5 m sind 500 cm.')
+  })
+
+  it('rejects an ambiguous value', () => {
+    expect(() => checkAnswer('2 3/2 m', '3,5 m', 'quantity')).toThrow(AmbiguousInputError)
+  })
+})
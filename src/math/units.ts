@@ -0,0 +1,448 @@
+/**
+ * Physical quantities for applied word problems: a value with a unit.
+ * Units are products of base dimensions with a factor to the base unit, so
+ * 12 km/h, 3,33 m/s and 200 Meter pro Minute are the same speed. Aliases
+ * cover SI symbols, German names and plurals, LaTeX (\text{cm}, 30^\circ)
+ * and Unicode (cm², m·s⁻¹).
+ *
+ * "Grad" and ° are angles; temperatures are written °C or K.
+ */
+
+import { freeVariables } from './ast';
+import { evaluate } from './evaluate';
+import { MathParseError, parseExpression, type ParseOptions } from './parse';
+
+const DIMENSIONS = ['m', 'kg', 's', 'A', 'K', '€', 'rad'] as const;
+type Dimension = (typeof DIMENSIONS)[number];
+
+export interface Unit {
+  /** Value in base units = value · factor + offset */
+  factor: number;
+  /** Only °C; ignored inside compound units, where °C is a difference */
+  offset?: number;
+  dims: Partial<Record<Dimension, number>>;
+}
+
+export interface Quantity {
+  value: number;
+  /** null when the answer has no unit */
+  unit: Unit | null;
+  /** Unit as written, for feedback */
+  unitText: string;
+}
+
+export interface QuantityMisconception {
+  id: 'missing_unit' | 'wrong_unit' | 'unit_conversion' | 'wrong_quantity';
+  name: string;
+  description: string;
+  hint: string;
+}
+
+export interface QuantityComparison {
+  isEquivalent: boolean;
+  /** Share of the points earned, 0…1 */
+  credit: number;
+  detail?: string;
+  misconception?: QuantityMisconception;
+}
+
+// ============================================================================
+// UNIT TABLE
+// ============================================================================
+
+const unit = (factor: number, dims: Unit['dims'], offset?: number): Unit => ({
+  factor,
+  dims,
+  ...(offset !== undefined && { offset }),
+});
+
+const LENGTH = { m: 1 };
+const AREA = { m: 2 };
+const VOLUME = { m: 3 };
+const MASS = { kg: 1 };
+const TIME = { s: 1 };
+const FORCE = { kg: 1, m: 1, s: -2 };
+const ENERGY = { kg: 1, m: 2, s: -2 };
+const POWER = { kg: 1, m: 2, s: -3 };
+const PRESSURE = { kg: 1, m: -1, s: -2 };
+
+/** Spellings of each unit; matched longest first, letters on word boundaries */
+const UNIT_TABLE: Array<[string[], Unit]> = [
+  [['m', 'Meter'], unit(1, LENGTH)],
+  [['km', 'Kilometer'], unit(1e3, LENGTH)],
+  [['dm', 'Dezimeter'], unit(0.1, LENGTH)],
+  [['cm', 'Zentimeter'], unit(0.01, LENGTH)],
+  [['mm', 'Millimeter'], unit(1e-3, LENGTH)],
+  [['µm', 'μm', 'Mikrometer'], unit(1e-6, LENGTH)],
+  [['nm', 'Nanometer'], unit(1e-9, LENGTH)],
+
+  [['qm', 'Quadratmeter'], unit(1, AREA)],
+  [['Quadratkilometer'], unit(1e6, AREA)],
+  [['Quadratzentimeter'], unit(1e-4, AREA)],
+  [['Quadratmillimeter'], unit(1e-6, AREA)],
+  [['ha', 'Hektar'], unit(1e4, AREA)],
+
+  [['Kubikmeter'], unit(1, VOLUME)],
+  [['Kubikzentimeter', 'ccm'], unit(1e-6, VOLUME)],
+  [['l', 'L', 'Liter'], unit(1e-3, VOLUME)],
+  [['hl', 'hL', 'Hektoliter'], unit(0.1, VOLUME)],
+  [['dl', 'dL', 'Deziliter'], unit(1e-4, VOLUME)],
+  [['cl', 'cL', 'Zentiliter'], unit(1e-5, VOLUME)],
+  [['ml', 'mL', 'Milliliter'], unit(1e-6, VOLUME)],
+
+  [['kg', 'Kilogramm'], unit(1, MASS)],
+  [['g', 'Gramm'], unit(1e-3, MASS)],
+  [['mg', 'Milligramm'], unit(1e-6, MASS)],
+  [['t', 'Tonne', 'Tonnen'], unit(1e3, MASS)],
+
+  [['s', 'sec', 'Sekunde', 'Sekunden'], unit(1, TIME)],
+  [['ms', 'Millisekunde', 'Millisekunden'], unit(1e-3, TIME)],
+  [['min', 'Minute', 'Minuten'], unit(60, TIME)],
+  [['h', 'Std', 'Stunde', 'Stunden'], unit(3600, TIME)],
+  [['d', 'Tag', 'Tage', 'Tagen'], unit(86400, TIME)],
+  [['Woche', 'Wochen'], unit(604800, TIME)],
+  [['Jahr', 'Jahre', 'Jahren'], unit(31536000, TIME)],
+  [['Hz', 'Hertz'], unit(1, { s: -1 })],
+
+  [['N', 'Newton'], unit(1, FORCE)],
+  [['kN', 'Kilonewton'], unit(1e3, FORCE)],
+  [['J', 'Joule'], unit(1, ENERGY)],
+  [['kJ', 'Kilojoule'], unit(1e3, ENERGY)],
+  [['Wh', 'Wattstunde', 'Wattstunden'], unit(3600, ENERGY)],
+  [['kWh', 'Kilowattstunde', 'Kilowattstunden'], unit(3.6e6, ENERGY)],
+  [['W', 'Watt'], unit(1, POWER)],
+  [['kW', 'Kilowatt'], unit(1e3, POWER)],
+  [['MW', 'Megawatt'], unit(1e6, POWER)],
+  [['Pa', 'Pascal'], unit(1, PRESSURE)],
+  [['hPa', 'Hektopascal'], unit(100, PRESSURE)],
+  [['bar', 'Bar'], unit(1e5, PRESSURE)],
+
+  [['A', 'Ampere'], unit(1, { A: 1 })],
+  [['mA', 'Milliampere'], unit(1e-3, { A: 1 })],
+  [['V', 'Volt'], unit(1, { kg: 1, m: 2, s: -3, A: -1 })],
+  [['Ω', 'Ohm'], unit(1, { kg: 1, m: 2, s: -3, A: -2 })],
+
+  [['K', 'Kelvin'], unit(1, { K: 1 })],
+  [['°C', 'Grad Celsius'], unit(1, { K: 1 }, 273.15)],
+
+  [['€', 'EUR', 'Euro'], unit(1, { '€': 1 })],
+  [['ct', 'Cent'], unit(0.01, { '€': 1 })],
+
+  [['%', 'Prozent'], unit(0.01, {})],
+  [['‰', 'Promille'], unit(1e-3, {})],
+
+  [['°', 'Grad'], unit(Math.PI / 180, { rad: 1 })],
+  [['rad'], unit(1, { rad: 1 })],
+];
+
+const ALIASES: Array<[string, Unit]> = UNIT_TABLE.flatMap(([names, u]) =>
+  names.map((name): [string, Unit] => [name, u])
+).sort(([a], [b]) => b.length - a.length);
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '²': '^2',
+  '³': '^3',
+  '⁻¹': '^-1',
+  '⁻²': '^-2',
+  '⁻³': '^-3',
+};
+
+/** LaTeX and Unicode spellings of units, reduced to plain text */
+function plainUnits(input: string): string {
+  return input
+    .replace(/\$/g, ' ')
+    .replace(/\^\s*\{?\s*\\circ\s*\}?/g, '°')
+    .replace(/\\(?:text|mathrm|textrm|operatorname)\s*\{([^{}]*)\}/g, ' $1 ')
+    .replace(/\\(?:,|;|:|!| |quad)/g, ' ')
+    .replace(/\\%/g, '%')
+    .replace(/\\(?:euro|EUR)\b/g, '€')
+    .replace(/\\Omega\b/g, 'Ω')
+    .replace(/\\(?:cdot|times)\b/g, '·')
+    .replace(/⁻[¹²³]|[²³]/g, (s) => SUPERSCRIPTS[s])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ============================================================================
+// UNIT ARITHMETIC
+// ============================================================================
+
+function combine(a: Unit, b: Unit, sign: 1 | -1): Unit {
+  const dims: Unit['dims'] = { ...a.dims };
+  for (const d of DIMENSIONS) {
+    const exponent = (dims[d] ?? 0) + sign * (b.dims[d] ?? 0);
+    if (exponent === 0) delete dims[d];
+    else dims[d] = exponent;
+  }
+  return { factor: sign === 1 ? a.factor * b.factor : a.factor / b.factor, dims };
+}
+
+function power(u: Unit, k: number): Unit {
+  const dims: Unit['dims'] = {};
+  for (const d of DIMENSIONS) if (u.dims[d]) dims[d] = u.dims[d]! * k;
+  return { factor: Math.pow(u.factor, k), dims };
+}
+
+export function sameDimension(a: Unit, b: Unit): boolean {
+  return DIMENSIONS.every((d) => (a.dims[d] ?? 0) === (b.dims[d] ?? 0));
+}
+
+function toBase(q: Quantity): number {
+  return q.unit ? q.value * q.unit.factor + (q.unit.offset ?? 0) : q.value;
+}
+
+/** A quantity's value expressed in another unit of the same dimension */
+function convert(q: Quantity, target: Unit): number {
+  return (toBase(q) - (target.offset ?? 0)) / target.factor;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Unit expression: factors joined by "*", "·", "/", "pro" or a space, each
+ * optionally raised to an integer power; parentheses group (J/(kg·K)).
+ */
+class UnitParser {
+  private i = 0;
+
+  constructor(private text: string) {}
+
+  /** The unit if the whole text is one, else null */
+  parse(): Unit | null {
+    const u = this.product();
+    this.space();
+    // Only a lone unit keeps its offset (20 °C); combine() drops it
+    return u && this.i === this.text.length ? u : null;
+  }
+
+  private space(): void {
+    while (this.text[this.i] === ' ') this.i++;
+  }
+
+  private product(): Unit | null {
+    let result = this.power();
+    if (!result) return null;
+    for (;;) {
+      const before = this.i;
+      this.space();
+      const ch = this.text[this.i];
+      let sign: 1 | -1 = 1;
+      if (ch === '*' || ch === '·' || ch === '⋅') {
+        this.i++;
+      } else if (ch === '/') {
+        this.i++;
+        sign = -1;
+      } else if (/^pro(?![a-zäöü])/i.test(this.text.slice(this.i))) {
+        this.i += 3;
+        sign = -1;
+      }
+      this.space();
+      const next = this.power();
+      if (!next) {
+        this.i = before;
+        return result;
+      }
+      result = combine(result, next, sign);
+    }
+  }
+
+  private power(): Unit | null {
+    const base = this.atom();
+    if (!base) return null;
+    const exponent = /^\s*\^\s*\{?\s*(-?\d+)\s*\}?/.exec(this.text.slice(this.i));
+    if (!exponent) return base;
+    this.i += exponent[0].length;
+    return power(base, Number(exponent[1]));
+  }
+
+  private atom(): Unit | null {
+    if (this.text[this.i] === '(') {
+      const start = this.i++;
+      const inner = this.product();
+      this.space();
+      if (inner && this.text[this.i] === ')') {
+        this.i++;
+        return inner;
+      }
+      this.i = start;
+      return null;
+    }
+
+    const rest = this.text.slice(this.i);
+    const match = ALIASES.find(([name]) => {
+      if (!rest.startsWith(name)) return false;
+      return !/[a-zäöüß]$/i.test(name) || !/^[a-zäöüß]/i.test(rest.slice(name.length));
+    });
+    if (!match) return null;
+    this.i += match[0].length;
+    return match[1];
+  }
+}
+
+export function parseUnit(text: string): Unit | null {
+  return new UnitParser(plainUnits(text)).parse();
+}
+
+/** Positions where a unit may start: after a space, digit or closing bracket */
+function unitStarts(text: string): number[] {
+  const starts: number[] = [];
+  for (let i = 1; i < text.length; i++) {
+    if (text[i] !== ' ' && /[\s\d.,})]/.test(text[i - 1])) starts.push(i);
+  }
+  return starts;
+}
+
+/**
+ * Split an answer like "12,5 km/h" into value and unit. The leftmost split
+ * whose tail is a unit and whose head is a constant wins; without one the
+ * whole answer is a unitless value. Throws MathParseError if no reading
+ * yields a number, AmbiguousInputError (strict) for an ambiguous value.
+ */
+export function parseQuantity(input: string, options: ParseOptions = {}): Quantity {
+  const text = plainUnits(input);
+
+  for (const start of unitStarts(text)) {
+    const unitText = text.slice(start).trim();
+    const u = new UnitParser(unitText).parse();
+    if (!u) continue;
+    try {
+      return { value: constantValue(text.slice(0, start), options), unit: u, unitText };
+    } catch (err) {
+      if (!(err instanceof MathParseError)) throw err;
+    }
+  }
+
+  return { value: constantValue(text, options), unit: null, unitText: '' };
+}
+
+function constantValue(text: string, options: ParseOptions): number {
+  const expr = parseExpression(text, options);
+  if (freeVariables(expr).size > 0) throw new MathParseError('Expected a number', 0);
+  const value = evaluate(expr);
+  if (!Number.isFinite(value)) throw new MathParseError('Expected a number', 0);
+  return value;
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/** Credit for a correct value with a missing or wrong unit */
+export const UNIT_ERROR_CREDIT = 0.5;
+
+const formatNumber = (value: number) =>
+  Number(value.toPrecision(10)).toString().replace('.', ',');
+
+const written = (q: Quantity) => `${formatNumber(q.value)}${q.unitText ? ` ${q.unitText}` : ''}`;
+
+/** 10, 100, 60, 3600, … when the values differ by a typical conversion factor */
+function conversionFactor(ratio: number): number | null {
+  const factor = ratio >= 1 ? ratio : 1 / ratio;
+  const candidates = [60, 3600, 3.6, 1e3 / 3600];
+  for (let k = 1; k <= 9; k++) candidates.push(10 ** k);
+  const match = candidates.find((c) => Math.abs(factor / c - 1) < 1e-6);
+  return match ?? null;
+}
+
+/**
+ * Grade a quantity against the expected one. The value is compared in the
+ * expected unit with the given absolute tolerance. A correct value with a
+ * missing or wrong unit earns UNIT_ERROR_CREDIT; a value off by a typical
+ * conversion factor is reported as such.
+ */
+export function compareQuantities(
+  user: Quantity,
+  expected: Quantity,
+  tolerance: number
+): QuantityComparison {
+  const close = (a: number, b: number) => Math.abs(a - b) <= tolerance;
+
+  if (!expected.unit) {
+    if (!user.unit || (Object.keys(user.unit.dims).length === 0 && close(toBase(user), expected.value))) {
+      return close(toBase(user), expected.value)
+        ? { isEquivalent: true, credit: 1 }
+        : { isEquivalent: false, credit: 0 };
+    }
+    return { isEquivalent: false, credit: 0, detail: 'Hier ist keine Einheit gefragt.' };
+  }
+
+  if (!user.unit) {
+    if (close(user.value, expected.value)) {
+      return {
+        isEquivalent: false,
+        credit: UNIT_ERROR_CREDIT,
+        detail: `Die Einheit fehlt (${expected.unitText}).`,
+        misconception: {
+          id: 'missing_unit',
+          name: 'Einheit fehlt',
+          description: `Der Zahlenwert stimmt, aber die Einheit ${expected.unitText} fehlt.`,
+          hint: 'Gib bei Größen immer die Einheit an.',
+        },
+      };
+    }
+    if (Object.keys(expected.unit.dims).length === 0 && close(user.value, toBase(expected))) {
+      return { isEquivalent: true, credit: 1 };
+    }
+    return { isEquivalent: false, credit: 0 };
+  }
+
+  if (!sameDimension(user.unit, expected.unit)) {
+    if (close(user.value, expected.value)) {
+      return {
+        isEquivalent: false,
+        credit: UNIT_ERROR_CREDIT,
+        detail: `Gesucht ist eine Angabe in ${expected.unitText}.`,
+        misconception: {
+          id: 'wrong_unit',
+          name: 'Falsche Einheit',
+          description: `Der Zahlenwert stimmt, aber ${user.unitText} ist nicht die Einheit der gesuchten Größe (${expected.unitText}).`,
+          hint: 'Überlege, welche Größe gesucht ist und welche Einheit dazu passt.',
+        },
+      };
+    }
+    return {
+      isEquivalent: false,
+      credit: 0,
+      detail: `${user.unitText} passt nicht zur gesuchten Größe (${expected.unitText}).`,
+      misconception: {
+        id: 'wrong_quantity',
+        name: 'Falsche Größe',
+        description: `Mit ${user.unitText} wurde eine andere Größe berechnet als gesucht (${expected.unitText}).`,
+        hint: 'Prüfe mit den Einheiten, ob deine Rechnung die gesuchte Größe ergibt.',
+      },
+    };
+  }
+
+  const inExpectedUnit = convert(user, expected.unit);
+  if (close(inExpectedUnit, expected.value)) return { isEquivalent: true, credit: 1 };
+
+  const factor = conversionFactor(inExpectedUnit / expected.value);
+  if (factor !== null) {
+    const copied = close(user.value, expected.value);
+    const order = Math.abs(expected.unit.dims.m ?? 0);
+    // Only a different unit has a conversion worth spelling out
+    const sameUnit = user.unit.factor === expected.unit.factor && user.unit.offset === expected.unit.offset;
+    return {
+      isEquivalent: false,
+      credit: 0,
+      detail: sameUnit
+        ? `${written(user)} ist um den Faktor ${formatNumber(factor)} zu ${inExpectedUnit > expected.value ? 'groß' : 'klein'}.`
+        : `${written(user)} sind ${formatNumber(inExpectedUnit)} ${expected.unitText}.`,
+      misconception: {
+        id: 'unit_conversion',
+        name: 'Einheitenfehler',
+        description: copied
+          ? `Der Zahlenwert wurde von ${expected.unitText} nach ${user.unitText} übernommen, ohne umzurechnen.`
+          : `Das Ergebnis weicht um den Faktor ${formatNumber(factor)} ab – ein Umrechnungsfehler.`,
+        hint:
+          order >= 2
+            ? `Bei ${order === 2 ? 'Flächen' : 'Volumen'}einheiten wird der Umrechnungsfaktor ${order === 2 ? 'quadriert' : 'hoch 3 genommen'} (1 m${order === 2 ? '² = 10 000 cm²' : '³ = 1 000 000 cm³'}).`
+            : 'Überprüfe, ob du alle Einheiten korrekt umgerechnet hast.',
+      },
+    };
+  }
+
+  return { isEquivalent: false, credit: 0 };
+}
@@ -171,4 +171,88 @@ describe('GET /api/teacher/class/:classId/feed', () => {
     expect(body.entries[0]).toHaveProperty('questionText')
     expect(body.entries[0]).toHaveProperty('isCorrect')
   })
+
+  it('takes score and rubric from the server-written answer doc, not from questionHistory', async () => {
+    const forged = {
+      document: {
+        name: 'projects/test-proj/databases/(default)/documents/users/student-1/questionHistory/q3',
+        fields: {
+          ...mockQuestionHistory[1].document.fields,
+          sessionId: { stringValue: 'sess-1' },
+          questionId: { stringValue: 'q-7' },
+          score: { doubleValue: 1 },
+          rubric: { mapValue: { fields: { score: { doubleValue: 1 } } } },
+        },
+      },
+    }
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(new Response(JSON.stringify([forged])))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ fields: { displayName: { stringValue: 'Max' } } })))
+      .mockResolvedValueOnce(new Response(JSON.stringify([])))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ fields: {} })))
+      .mockResolvedValueOnce(new Response(JSON.stringify([{
+        found: {
+          name: 'projects/test-proj/databases/(default)/documents/users/student-1/questionSessions/sess-1/answers/q-7',
+          fields: {
+            score: { doubleValue: 0.25 },
+            rubric: { mapValue: { fields: { score: { doubleValue: 0.25 } } } },
+          },
+        },
+      }])))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/feed'), mockEnv)
+
+    const body = await res.json() as any
+    expect(body.entries[0]).toMatchObject({ score: 0.25, rubric: { score: 0.25 } })
+    expect(body.entries[0]).not.toHaveProperty('answerPath')
+    expect(JSON.parse(fetchMock.mock.calls[5][1].body).documents).toEqual([
+      'projects/test-proj/databases/(default)/documents/users/student-1/questionSessions/sess-1/answers/q-7',
+    ])
+  })
+})
+
+describe('GET /api/teacher/class/:classId/misconceptions', () => {
+  beforeEach(async () => {
+    vi.resetModules()
+    vi.doMock('../utils/firebaseAuth', () => ({
+      getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+    }))
+  })
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  const misconceptionDoc = (uid: string, id: string, count: number) => ({
+    document: {
+      name: `projects/test-proj/databases/(default)/documents/users/${uid}/misconceptions/${id}`,
+      fields: {
+        id: { stringValue: id },
+        name: { stringValue: id },
+        count: { integerValue: String(count) },
+        lastSeenAt: { stringValue: '2026-10-01T10:00:00.000Z' },
+      },
+    },
+  })
+
+  it('ranks misconceptions by the number of affected students', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc))) // GET class
+      .mockResolvedValueOnce(new Response(JSON.stringify([ // student-1
+        misconceptionDoc('student-1', 'sign_error', 5),
+        misconceptionDoc('student-1', 'chain_rule_omitted', 2),
+      ])))
+      .mockResolvedValueOnce(new Response(JSON.stringify([ // student-2
+        misconceptionDoc('student-2', 'chain_rule_omitted', 1),
+      ])))
+    )
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/misconceptions'), mockEnv)
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body.misconceptions.map((m: any) => m.id)).toEqual(['chain_rule_omitted', 'sign_error'])
+    expect(body.misconceptions[0]).toMatchObject({ name: 'Kettenregel vergessen', count: 3, studentCount: 2 })
+    expect(body.misconceptions[0].hint).toContain('innere Ableitung')
+  })
 })
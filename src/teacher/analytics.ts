@@ -1,24 +1,28 @@
 // src/teacher/analytics.ts
 import { Hono } from 'hono';
 import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
 import { getFirebaseConfig } from '../utils/firebaseAuth';
-import { fsGet, fsQuery } from '../utils/firestore';
-import type { ClassDoc, TopicAccuracy, AnalyticsSummary, FeedEntry } from './types';
-import { getOwnedClass } from './classUtils';
+import { fsBatchGet, fsGet, fsQuery } from '../utils/firestore';
+import type { RubricBreakdown } from '../types';
+import type { ClassDoc, TopicAccuracy, AnalyticsSummary, FeedEntry, ClassMisconception } from './types';
+import { getOwnedClass, teacherScope } from './classUtils';
+import { misconceptionById } from '../math/misconceptions';
+import { toStudentMisconception } from '../utils/misconceptionTracker';
 
-type AppEnv = { Bindings: Env; Variables: { teacherUid: string } };
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
 
 const router = new Hono<AppEnv>();
 
 // GET /api/teacher/class/:classId/analytics
 router.get('/:classId/analytics', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
 
   let cls: ClassDoc;
   try {
-    cls = await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
   }
@@ -119,14 +123,17 @@ router.get('/:classId/analytics', async (c) => {
 });
 
 // GET /api/teacher/class/:classId/feed
+// questionHistory is written by the app; score and rubric come from the
+// server-written answer doc (questionSessions/{sessionId}/answers/{questionId})
+// that the entry names, so students cannot alter what teachers see.
 router.get('/:classId/feed', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
 
   let cls: ClassDoc;
   try {
-    cls = await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
   }
@@ -145,12 +152,14 @@ router.get('/:classId/feed', async (c) => {
     })
   );
 
-  const entries: FeedEntry[] = [];
+  const entries: Array<FeedEntry & { answerPath: string | null }> = [];
   for (const { uid, displayName, history } of studentData) {
     for (const q of history) {
+      const hasAnswer = typeof q.sessionId === 'string' && typeof q.questionId === 'string';
       entries.push({
         userId: uid,
         displayName,
+        answerPath: hasAnswer ? `users/${uid}/questionSessions/${q.sessionId}/answers/${q.questionId}` : null,
         questionText: (q.questionText as string) ?? '',
         studentAnswer: (q.userAnswer as string) ?? '',
         isCorrect: q.isCorrect === true,
@@ -167,8 +176,73 @@ router.get('/:classId/feed', async (c) => {
 
   // Sort by most recent first, take top 50
   entries.sort((a, b) => b.timestamp - a.timestamp);
+  const latest = entries.slice(0, 50);
+
+  const paths = latest.map((e) => e.answerPath).filter((p): p is string => p !== null);
+  const answers = await fsBatchGet(projectId, accessToken, paths);
+  const answerByPath = new Map(paths.map((path, i) => [path, answers[i]]));
+
+  return c.json({
+    entries: latest.map(({ answerPath, ...entry }): FeedEntry => {
+      const answer = answerPath ? answerByPath.get(answerPath) : null;
+      if (!answer) return entry;
+      return {
+        ...entry,
+        ...(typeof answer.score === 'number' && { score: answer.score }),
+        ...(typeof answer.rubric === 'object' && answer.rubric !== null && { rubric: answer.rubric as RubricBreakdown }),
+      };
+    }),
+  });
+});
+
+// GET /api/teacher/class/:classId/misconceptions?limit=10
+router.get('/:classId/misconceptions', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const limit = Math.min(Math.max(Number(c.req.query('limit')) || 10, 1), 50);
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+
+  let cls: ClassDoc;
+  try {
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const perStudent = await Promise.all(
+    cls.studentIds.map((uid) =>
+      fsQuery(projectId, accessToken, `users/${uid}`, {
+        from: [{ collectionId: 'misconceptions' }],
+      })
+    )
+  );
+
+  const totals = new Map<string, ClassMisconception>();
+  for (const docs of perStudent) {
+    for (const doc of docs) {
+      const m = toStudentMisconception(doc);
+      if (!m.id || m.count <= 0) continue;
+      const entry = totals.get(m.id) ?? {
+        id: m.id,
+        name: misconceptionById(m.id)?.name ?? m.name,
+        hint: misconceptionById(m.id)?.hint ?? null,
+        count: 0,
+        studentCount: 0,
+        lastSeenAt: '',
+      };
+      entry.count += m.count;
+      entry.studentCount++;
+      if (m.lastSeenAt > entry.lastSeenAt) entry.lastSeenAt = m.lastSeenAt;
+      totals.set(m.id, entry);
+    }
+  }
+
+  // Most widespread first, then most frequent
+  const misconceptions = Array.from(totals.values())
+    .sort((a, b) => b.studentCount - a.studentCount || b.count - a.count)
+    .slice(0, limit);
 
-  return c.json({ entries: entries.slice(0, 50) });
+  return c.json({ misconceptions });
 });
 
 export default router;
@@ -1,15 +1,89 @@
 // src/teacher/classUtils.ts
-import { fsGet } from '../utils/firestore';
+import type { Context } from 'hono';
+import { fsGet, fsQuery } from '../utils/firestore';
+import { LEGACY_SCHOOL_ID } from '../utils/schools';
+import type { TeacherEnv, TeacherRole } from '../utils/verifyTeacherToken';
 import type { ClassDoc } from './types';
 
+/** Who is asking: the teacher, their school and role (set by requireTeacher) */
+export interface TeacherScope {
+  uid: string;
+  schoolId: string;
+  role: TeacherRole;
+}
+
+export function teacherScope(c: Context<TeacherEnv>): TeacherScope {
+  return {
+    uid: c.get('teacherUid'),
+    schoolId: c.get('schoolId') ?? LEGACY_SCHOOL_ID,
+    role: c.get('teacherRole') ?? 'teacher',
+  };
+}
+
+/** School of a class; classes created before tenancy have none */
+export function classSchoolId(cls: { schoolId?: unknown }): string {
+  return typeof cls.schoolId === 'string' ? cls.schoolId : LEGACY_SCHOOL_ID;
+}
+
+/**
+ * A class the caller may manage: one of their own, or for a school admin any
+ * class of their school. Classes of other schools are forbidden either way.
+ */
 export async function getOwnedClass(
   projectId: string,
   accessToken: string,
   classId: string,
-  teacherUid: string
+  scope: TeacherScope
 ): Promise<ClassDoc> {
   const doc = await fsGet(projectId, accessToken, `classes/${classId}`);
   if (!doc) throw Object.assign(new Error('Class not found'), { status: 404 });
-  if (doc.teacherId !== teacherUid) throw Object.assign(new Error('Forbidden'), { status: 403 });
+  if (classSchoolId(doc) !== scope.schoolId) throw Object.assign(new Error('Forbidden'), { status: 403 });
+  if (scope.role !== 'school-admin' && doc.teacherId !== scope.uid) {
+    throw Object.assign(new Error('Forbidden'), { status: 403 });
+  }
   return doc as unknown as ClassDoc;
 }
+
+/**
+ * A class the caller may manage that the student belongs to, or null. With
+ * `classId` only that class is checked (see getOwnedClass); otherwise the
+ * teacher's classes (a school admin's: the school's) are searched in one
+ * query.
+ */
+export async function findClassWithStudent(
+  projectId: string,
+  accessToken: string,
+  scope: TeacherScope,
+  studentUid: string,
+  classId?: string
+): Promise<ClassDoc | null> {
+  if (classId) {
+    const cls = await getOwnedClass(projectId, accessToken, classId, scope);
+    return (cls.studentIds ?? []).includes(studentUid) ? cls : null;
+  }
+
+  const equal = (fieldPath: string, value: string) => ({
+    fieldFilter: { field: { fieldPath }, op: 'EQUAL', value: { stringValue: value } },
+  });
+  const [cls] = await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'classes' }],
+    where: {
+      compositeFilter: {
+        op: 'AND',
+        filters: [
+          equal('schoolId', scope.schoolId),
+          ...(scope.role === 'school-admin' ? [] : [equal('teacherId', scope.uid)]),
+          {
+            fieldFilter: {
+              field: { fieldPath: 'studentIds' },
+              op: 'ARRAY_CONTAINS',
+              value: { stringValue: studentUid },
+            },
+          },
+        ],
+      },
+    },
+    limit: 1,
+  });
+  return (cls as unknown as ClassDoc | undefined) ?? null;
+}
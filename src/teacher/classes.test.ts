@@ -89,23 +89,25 @@ describe('PATCH /:classId (update class)', () => {
   })
 
   it('updates class name', async () => {
-    vi.stubGlobal('fetch', vi.fn()
+    const fetchMock = vi.fn()
       .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
-      .mockResolvedValueOnce(new Response(JSON.stringify({
-        ...mockClassDoc,
-        fields: { ...mockClassDoc.fields, name: { stringValue: '11b' } },
-      })))
-    )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}] })))
+    vi.stubGlobal('fetch', fetchMock)
     const app = await makeApp()
     const res = await app.fetch(
       new Request('http://localhost/cls-abc', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: '11b' }),
+        body: JSON.stringify({ name: '11b', maxStudents: null }),
       }),
       mockEnv
     )
     expect(res.status).toBe(200)
+    expect((await res.json() as any).name).toBe('11b')
+    // Only the changed fields, so concurrent joins keep their studentIds
+    const { writes } = JSON.parse(fetchMock.mock.calls[1][1].body)
+    expect(writes[0].updateMask).toEqual({ fieldPaths: ['name', 'updatedAt', 'maxStudents'] })
+    expect(writes[0].update.fields).not.toHaveProperty('studentIds')
   })
 
   it('returns 403 when teacher does not own the class', async () => {
@@ -246,16 +248,10 @@ describe('POST /:classId/students (add students)', () => {
   afterEach(() => { vi.unstubAllGlobals() })
 
   it('adds student UIDs to the class', async () => {
-    vi.stubGlobal('fetch', vi.fn()
+    const fetchMock = vi.fn()
       .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
-      .mockResolvedValueOnce(new Response(JSON.stringify({
-        ...mockClassDoc,
-        fields: {
-          ...mockClassDoc.fields,
-          studentIds: { arrayValue: { values: [{ stringValue: 'new-student-uid' }] } },
-        },
-      })))
-    )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}] })))
+    vi.stubGlobal('fetch', fetchMock)
     const app = await makeApp()
     const res = await app.fetch(
       new Request('http://localhost/cls-abc/students', {
@@ -266,6 +262,11 @@ describe('POST /:classId/students (add students)', () => {
       mockEnv
     )
     expect(res.status).toBe(200)
+    expect((await res.json() as any).studentIds).toEqual(['new-student-uid'])
+    const { writes } = JSON.parse(fetchMock.mock.calls[1][1].body)
+    expect(writes[0].updateTransforms).toEqual([
+      { fieldPath: 'studentIds', appendMissingElements: { values: [{ stringValue: 'new-student-uid' }] } },
+    ])
   })
 
   it('returns 400 when studentIds is missing', async () => {
@@ -302,15 +303,19 @@ describe('DELETE /:classId/students/:userId (remove student)', () => {
         studentIds: { arrayValue: { values: [{ stringValue: 'student-to-remove' }] } },
       },
     }
-    vi.stubGlobal('fetch', vi.fn()
+    const fetchMock = vi.fn()
       .mockResolvedValueOnce(new Response(JSON.stringify(classWithStudent)))
-      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
-    )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}] })))
+    vi.stubGlobal('fetch', fetchMock)
     const app = await makeApp()
     const res = await app.fetch(
       new Request('http://localhost/cls-abc/students/student-to-remove', { method: 'DELETE' }),
       mockEnv
     )
     expect(res.status).toBe(200)
+    const { writes } = JSON.parse(fetchMock.mock.calls[1][1].body)
+    expect(writes[0].updateTransforms).toEqual([
+      { fieldPath: 'studentIds', removeAllFromArray: { values: [{ stringValue: 'student-to-remove' }] } },
+    ])
   })
 })
@@ -1,24 +1,32 @@
 import { Hono } from 'hono';
 import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
 import { getFirebaseConfig } from '../utils/firebaseAuth';
-import { fsGet, fsPatch, fsDelete, fsQuery } from '../utils/firestore';
+import { fsGet, fsPatch, fsDelete, fsQuery, fsCommit } from '../utils/firestore';
 import type { ClassDoc, TeacherDoc } from './types';
-import { getOwnedClass } from './classUtils';
+import { getOwnedClass, teacherScope } from './classUtils';
+import { MAX_CLASS_SIZE_LIMIT } from '../utils/joinCodes';
 
-type AppEnv = { Bindings: Env; Variables: { teacherUid: string } };
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
 const router = new Hono<AppEnv>();
 
 function generateId(): string {
   return crypto.randomUUID().replace(/-/g, '').slice(0, 21);
 }
 
+/** maxStudents may be unset (null: the default applies) or 1…MAX_CLASS_SIZE_LIMIT */
+function isValidMaxStudents(value: unknown): boolean {
+  return value === undefined || value === null ||
+    (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_CLASS_SIZE_LIMIT);
+}
+
 // GET /:classId — fetch a single class
 router.get('/:classId', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
   try {
-    const cls = await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    const cls = await getOwnedClass(projectId, accessToken, classId, scope);
     return c.json(cls);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
@@ -27,9 +35,12 @@ router.get('/:classId', async (c) => {
 
 // POST / — create class
 router.post('/', async (c) => {
-  const teacherUid = c.get('teacherUid');
-  const body = await c.req.json<{ name?: string; gridConfig?: { rows: number; cols: number } }>();
+  const scope = teacherScope(c);
+  const body = await c.req.json<{ name?: string; gridConfig?: { rows: number; cols: number }; maxStudents?: number | null }>();
   if (!body.name?.trim()) return c.json({ success: false, error: 'name is required' }, 400);
+  if (!isValidMaxStudents(body.maxStudents)) {
+    return c.json({ success: false, error: `maxStudents must be an integer from 1 to ${MAX_CLASS_SIZE_LIMIT}` }, 400);
+  }
 
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
   const classId = generateId();
@@ -37,70 +48,83 @@ router.post('/', async (c) => {
   const classDoc: ClassDoc = {
     id: classId,
     name: body.name.trim(),
-    teacherId: teacherUid,
-    schoolId: 'mvl',
+    teacherId: scope.uid,
+    schoolId: scope.schoolId,
     studentIds: [],
     gridConfig: body.gridConfig ?? { rows: 4, cols: 5 },
     deskPositions: {},
+    ...(typeof body.maxStudents === 'number' && { maxStudents: body.maxStudents }),
     createdAt: now,
     updatedAt: now,
   };
   await fsPatch(projectId, accessToken, `classes/${classId}`, classDoc as unknown as Record<string, unknown>);
 
   // Add classId to teacher's classIds array
-  const teacher = await fsGet(projectId, accessToken, `teachers/${teacherUid}`) as unknown as TeacherDoc;
+  const teacher = await fsGet(projectId, accessToken, `teachers/${scope.uid}`) as unknown as TeacherDoc;
   if (teacher) {
     const updatedTeacher = { ...teacher, classIds: [...(teacher.classIds ?? []), classId] };
-    await fsPatch(projectId, accessToken, `teachers/${teacherUid}`, updatedTeacher as unknown as Record<string, unknown>);
+    await fsPatch(projectId, accessToken, `teachers/${scope.uid}`, updatedTeacher as unknown as Record<string, unknown>);
   }
 
   return c.json(classDoc, 201);
 });
 
-// PATCH /:classId — update name, gridConfig, or deskPositions
+// PATCH /:classId — update name, gridConfig, deskPositions or maxStudents (null: default)
 router.patch('/:classId', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const body = await c.req.json<{
     name?: string;
     gridConfig?: { rows: number; cols: number };
     deskPositions?: Record<string, { col: number; row: number }>;
+    maxStudents?: number | null;
   }>();
+  if (!isValidMaxStudents(body.maxStudents)) {
+    return c.json({ success: false, error: `maxStudents must be an integer from 1 to ${MAX_CLASS_SIZE_LIMIT}` }, 400);
+  }
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
   let existing: ClassDoc;
   try {
-    existing = await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    existing = await getOwnedClass(projectId, accessToken, classId, scope);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
   }
-  const updated: ClassDoc = {
-    ...existing,
+  // Only the given fields are written, so students joining meanwhile are kept;
+  // maxStudents: null is in the mask without a value, which deletes it
+  const changes: Partial<ClassDoc> = {
+    ...(typeof body.maxStudents === 'number' && { maxStudents: body.maxStudents }),
     ...(body.name !== undefined && { name: body.name }),
     ...(body.gridConfig !== undefined && { gridConfig: body.gridConfig }),
     ...(body.deskPositions !== undefined && { deskPositions: body.deskPositions }),
     updatedAt: new Date().toISOString(),
   };
-  const result = await fsPatch(projectId, accessToken, `classes/${classId}`, updated as unknown as Record<string, unknown>);
-  return c.json(result);
+  const mask = [...Object.keys(changes), ...(body.maxStudents === null ? ['maxStudents'] : [])];
+  await fsCommit(projectId, accessToken, [
+    { path: `classes/${classId}`, data: changes, updateMask: mask, exists: true },
+  ]);
+  const updated: ClassDoc = { ...existing, ...changes };
+  if (body.maxStudents === null) delete updated.maxStudents;
+  return c.json(updated);
 });
 
 // DELETE /:classId
 router.delete('/:classId', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  let cls: ClassDoc;
   try {
-    await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
   }
   await fsDelete(projectId, accessToken, `classes/${classId}`);
 
-  // Remove classId from teacher's classIds array
-  const teacher = await fsGet(projectId, accessToken, `teachers/${teacherUid}`) as unknown as TeacherDoc;
+  // Remove classId from the owning teacher's classIds array (a school admin may delete others' classes)
+  const teacher = await fsGet(projectId, accessToken, `teachers/${cls.teacherId}`) as unknown as TeacherDoc;
   if (teacher) {
     const updatedTeacher = { ...teacher, classIds: (teacher.classIds ?? []).filter((id) => id !== classId) };
-    await fsPatch(projectId, accessToken, `teachers/${teacherUid}`, updatedTeacher as unknown as Record<string, unknown>);
+    await fsPatch(projectId, accessToken, `teachers/${cls.teacherId}`, updatedTeacher as unknown as Record<string, unknown>);
   }
 
   return new Response(null, { status: 204 });
@@ -108,13 +132,13 @@ router.delete('/:classId', async (c) => {
 
 // GET /:classId/students — roster with live status
 router.get('/:classId/students', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
 
   let cls: ClassDoc;
   try {
-    cls = await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
   }
@@ -194,7 +218,7 @@ router.get('/:classId/students', async (c) => {
 
 // POST /:classId/students — add one or more students
 router.post('/:classId/students', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const body = await c.req.json<{ studentIds?: string[] }>();
 
@@ -206,36 +230,48 @@ router.post('/:classId/students', async (c) => {
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
   let cls: ClassDoc;
   try {
-    cls = await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
   }
 
+  const updatedAt = new Date().toISOString();
+  await fsCommit(projectId, accessToken, [
+    {
+      path: `classes/${classId}`,
+      data: { updatedAt },
+      updateMask: ['updatedAt'],
+      appends: { studentIds: body.studentIds },
+      exists: true,
+    },
+  ]);
   const merged = [...new Set([...cls.studentIds, ...body.studentIds])];
-  const updated: ClassDoc = { ...cls, studentIds: merged, updatedAt: new Date().toISOString() };
-  const result = await fsPatch(projectId, accessToken, `classes/${classId}`, updated as unknown as Record<string, unknown>);
-  return c.json(result);
+  return c.json({ ...cls, studentIds: merged, updatedAt });
 });
 
 // DELETE /:classId/students/:userId — remove a student
 router.delete('/:classId/students/:userId', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const userId = c.req.param('userId');
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
   let cls: ClassDoc;
   try {
-    cls = await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
   }
-  const updated: ClassDoc = {
-    ...cls,
-    studentIds: cls.studentIds.filter((id) => id !== userId),
-    updatedAt: new Date().toISOString(),
-  };
-  const result = await fsPatch(projectId, accessToken, `classes/${classId}`, updated as unknown as Record<string, unknown>);
-  return c.json(result);
+  const updatedAt = new Date().toISOString();
+  await fsCommit(projectId, accessToken, [
+    {
+      path: `classes/${classId}`,
+      data: { updatedAt },
+      updateMask: ['updatedAt'],
+      removes: { studentIds: [userId] },
+      exists: true,
+    },
+  ]);
+  return c.json({ ...cls, studentIds: cls.studentIds.filter((id) => id !== userId), updatedAt });
 });
 
 export default router;
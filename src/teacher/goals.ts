@@ -1,18 +1,19 @@
 // src/teacher/goals.ts
 import { Hono } from 'hono';
 import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
 import { getFirebaseConfig } from '../utils/firebaseAuth';
 import { fsPatch } from '../utils/firestore';
-import { getOwnedClass } from './classUtils';
+import { getOwnedClass, teacherScope } from './classUtils';
 import type { ClassGoalDoc } from './types';
 
-type AppEnv = { Bindings: Env; Variables: { teacherUid: string } };
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
 
 const router = new Hono<AppEnv>();
 
 // POST /api/teacher/class/:classId/goal
 router.post('/:classId/goal', async (c) => {
-  const teacherUid = c.get('teacherUid');
+  const scope = teacherScope(c);
   const classId = c.req.param('classId');
   const body = await c.req.json<{
     topics?: Array<{ leitidee: string; thema: string; unterthema: string }>;
@@ -26,14 +27,14 @@ router.post('/:classId/goal', async (c) => {
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
 
   try {
-    await getOwnedClass(projectId, accessToken, classId, teacherUid);
+    await getOwnedClass(projectId, accessToken, classId, scope);
   } catch (e: any) {
     return c.json({ success: false, error: e.message }, e.status ?? 500);
   }
 
   const goal: ClassGoalDoc = {
     classId,
-    teacherId: teacherUid,
+    teacherId: scope.uid,
     topics: body.topics,
     examDate: body.examDate ?? null,
     setAt: new Date().toISOString(),
@@ -0,0 +1,178 @@
+// src/teacher/joinCodes.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  ENVIRONMENT: 'test',
+} as Env
+
+async function makeApp() {
+  const { default: router } = await import('./joinCodes')
+  const app = new Hono<{ Bindings: Env; Variables: { teacherUid: string } }>()
+  app.use('*', async (c, next) => { c.set('teacherUid', 'teacher-uid-1'); await next() })
+  app.route('/', router)
+  return app
+}
+
+function classDoc(studentIds: string[] = [], maxStudents?: number) {
+  return new Response(JSON.stringify({
+    name: 'projects/test-proj/databases/(default)/documents/classes/cls-abc',
+    updateTime: '2026-03-10T12:00:00.000001Z',
+    fields: {
+      name: { stringValue: '11a' },
+      teacherId: { stringValue: 'teacher-uid-1' },
+      schoolId: { stringValue: 'mvl' },
+      studentIds: { arrayValue: { values: studentIds.map((s) => ({ stringValue: s })) } },
+      ...(maxStudents !== undefined && { maxStudents: { integerValue: String(maxStudents) } }),
+    },
+  }))
+}
+
+function post(path: string, body?: unknown) {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  })
+}
+
+const ok = () => new Response(JSON.stringify({ writeResults: [{}] }))
+
+beforeEach(() => {
+  vi.resetModules()
+  vi.doMock('../utils/firebaseAuth', () => ({
+    getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+  }))
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('POST /:classId/join-codes', () => {
+  it('creates a code with its QR payload, only if the code is unused', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(classDoc()).mockResolvedValueOnce(ok())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/join-codes', { expiresInHours: 24, requiresApproval: true }), mockEnv)
+
+    expect(res.status).toBe(201)
+    const body = await res.json() as any
+    expect(body).toMatchObject({ classId: 'cls-abc', status: 'active', requiresApproval: true, redemptions: 0 })
+    expect(body.qrPayload).toBe(`https://app.learn-smart.app/join?code=${body.code}`)
+    expect(new Date(body.expiresAt).getTime() - new Date(body.createdAt).getTime()).toBe(24 * 60 * 60 * 1000)
+
+    const { writes } = JSON.parse(fetchMock.mock.calls[1][1].body)
+    expect(writes[0].update.name).toMatch(new RegExp(`joinCodes/${body.code}$`))
+    expect(writes[0].currentDocument).toEqual({ exists: false })
+  })
+
+  it('retries with a new code when the code is taken', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(classDoc())
+      .mockResolvedValueOnce(new Response('', { status: 409 }))
+      .mockResolvedValueOnce(ok()))
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/join-codes'), mockEnv)
+    expect(res.status).toBe(201)
+  })
+
+  it('returns 400 for an invalid validity', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/join-codes', { expiresInHours: 24 * 365 }), mockEnv)
+    expect(res.status).toBe(400)
+  })
+})
+
+describe('DELETE /:classId/join-codes/:code', () => {
+  it('revokes the code', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(classDoc())
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        name: 'projects/test-proj/databases/(default)/documents/joinCodes/ABCD2345',
+        fields: {
+          classId: { stringValue: 'cls-abc' },
+          createdAt: { stringValue: '2026-03-09T12:00:00.000Z' },
+          expiresAt: { stringValue: '2099-01-01T00:00:00.000Z' },
+          revokedAt: { nullValue: null },
+          requiresApproval: { booleanValue: false },
+          redemptions: { integerValue: '4' },
+        },
+      })))
+      .mockResolvedValueOnce(ok())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/join-codes/abcd-2345', { method: 'DELETE' }), mockEnv)
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body).toMatchObject({ code: 'ABCD2345', status: 'revoked', redemptions: 4 })
+    const { writes } = JSON.parse(fetchMock.mock.calls[2][1].body)
+    expect(writes[0].updateMask).toEqual({ fieldPaths: ['revokedAt'] })
+  })
+})
+
+describe('POST /:classId/join-requests/:userId/approve', () => {
+  it('returns 409 when the class is full', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(classDoc(['uid-a', 'uid-b'], 2))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        fields: { uid: { stringValue: 'uid-new' }, code: { stringValue: 'ABCD2345' } },
+      })))
+      .mockResolvedValueOnce(classDoc(['uid-a', 'uid-b'], 2))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/join-requests/uid-new/approve'), mockEnv)
+
+    expect(res.status).toBe(409)
+    expect((await res.json() as any).code).toBe('CLASS_FULL')
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('adds the student and removes the request in one commit', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(classDoc(['uid-a']))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        fields: { uid: { stringValue: 'uid-new' }, code: { stringValue: 'ABCD2345' } },
+      })))
+      .mockResolvedValueOnce(classDoc(['uid-a']))
+      .mockResolvedValueOnce(ok())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/join-requests/uid-new/approve'), mockEnv)
+
+    expect(res.status).toBe(200)
+    const { writes } = JSON.parse(fetchMock.mock.calls[3][1].body)
+    expect(writes[0].delete).toMatch(/classes\/cls-abc\/joinRequests\/uid-new$/)
+    expect(writes[1].updateTransforms[0].appendMissingElements.values).toEqual([{ stringValue: 'uid-new' }])
+    expect(writes[1].currentDocument).toEqual({ updateTime: '2026-03-10T12:00:00.000001Z' })
+    expect(writes[2].update.name).toMatch(/joinCodes\/ABCD2345$/)
+  })
+
+  it('re-checks the class size when a join lands before the commit', async () => {
+    const conflict = () => new Response(JSON.stringify({ error: { status: 'FAILED_PRECONDITION' } }), { status: 400 })
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(classDoc(['uid-a'], 2))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        fields: { uid: { stringValue: 'uid-new' }, code: { stringValue: 'ABCD2345' } },
+      })))
+      .mockResolvedValueOnce(classDoc(['uid-a'], 2))
+      .mockResolvedValueOnce(conflict())
+      .mockResolvedValueOnce(classDoc(['uid-a', 'uid-b'], 2))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/join-requests/uid-new/approve'), mockEnv)
+
+    expect(res.status).toBe(409)
+    expect((await res.json() as any).code).toBe('CLASS_FULL')
+    expect(fetchMock).toHaveBeenCalledTimes(5)
+  })
+})
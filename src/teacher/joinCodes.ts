@@ -0,0 +1,207 @@
+// src/teacher/joinCodes.ts
+import { Hono } from 'hono';
+import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { fsCommit, fsGet, fsGetVersioned, fsQuery, retryOnConflict, type FsWrite } from '../utils/firestore';
+import {
+  JOIN_CODE_TTL,
+  addStudentWrite,
+  classCapacity,
+  describeJoinCode,
+  generateJoinCode,
+  normalizeJoinCode,
+  type JoinCodeDoc,
+  type JoinRequestDoc,
+} from '../utils/joinCodes';
+import type { ClassDoc } from './types';
+import { classSchoolId, getOwnedClass, teacherScope } from './classUtils';
+
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
+
+const router = new Hono<AppEnv>();
+
+/** Attempts to find an unused code; a clash is astronomically unlikely */
+const CODE_ATTEMPTS = 3;
+
+// POST /api/teacher/class/:classId/join-codes
+// Body: { expiresInHours?: number, requiresApproval?: boolean }
+// Creates a join code with its QR payload. Default validity is one week.
+router.post('/:classId/join-codes', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  type CreateBody = { expiresInHours?: unknown; requiresApproval?: unknown };
+  const body: CreateBody = await c.req.json<CreateBody>().catch(() => ({}));
+
+  const hours = body.expiresInHours ?? JOIN_CODE_TTL.default;
+  if (typeof hours !== 'number' || !Number.isInteger(hours) || hours < 1 || hours > JOIN_CODE_TTL.max) {
+    return c.json({ success: false, error: `expiresInHours must be an integer from 1 to ${JOIN_CODE_TTL.max}` }, 400);
+  }
+  if (body.requiresApproval !== undefined && typeof body.requiresApproval !== 'boolean') {
+    return c.json({ success: false, error: 'requiresApproval must be a boolean' }, 400);
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  let cls: ClassDoc;
+  try {
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const now = new Date();
+  for (let attempt = 1; ; attempt++) {
+    const doc: JoinCodeDoc = {
+      id: generateJoinCode(),
+      classId,
+      schoolId: classSchoolId(cls),
+      createdBy: scope.uid,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString(),
+      revokedAt: null,
+      requiresApproval: body.requiresApproval === true,
+      redemptions: 0,
+    };
+    try {
+      await fsCommit(projectId, accessToken, [
+        { path: `joinCodes/${doc.id}`, data: doc as unknown as Record<string, unknown>, exists: false },
+      ]);
+      return c.json(describeJoinCode(doc, now), 201);
+    } catch (e: any) {
+      if (e.status !== 409 || attempt === CODE_ATTEMPTS) throw e;
+    }
+  }
+});
+
+// GET /api/teacher/class/:classId/join-codes — all codes of the class, newest first
+router.get('/:classId/join-codes', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  try {
+    await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const docs = (await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'joinCodes' }],
+    where: { fieldFilter: { field: { fieldPath: 'classId' }, op: 'EQUAL', value: { stringValue: classId } } },
+  })) as unknown as JoinCodeDoc[];
+
+  const now = new Date();
+  docs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return c.json(docs.map((doc) => describeJoinCode(doc, now)));
+});
+
+// DELETE /api/teacher/class/:classId/join-codes/:code — revoke a code
+router.delete('/:classId/join-codes/:code', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const code = normalizeJoinCode(c.req.param('code'));
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  try {
+    await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const doc = code ? ((await fsGet(projectId, accessToken, `joinCodes/${code}`)) as JoinCodeDoc | null) : null;
+  if (!doc || doc.classId !== classId) {
+    return c.json({ success: false, error: 'Join code not found' }, 404);
+  }
+
+  const revoked: JoinCodeDoc = { ...doc, revokedAt: doc.revokedAt ?? new Date().toISOString() };
+  await fsCommit(projectId, accessToken, [
+    { path: `joinCodes/${doc.id}`, data: { revokedAt: revoked.revokedAt }, updateMask: ['revokedAt'], exists: true },
+  ]);
+  return c.json(describeJoinCode(revoked));
+});
+
+// GET /api/teacher/class/:classId/join-requests — students waiting for approval
+router.get('/:classId/join-requests', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  try {
+    await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const requests = await fsQuery(projectId, accessToken, `classes/${classId}`, {
+    from: [{ collectionId: 'joinRequests' }],
+    orderBy: [{ field: { fieldPath: 'requestedAt' }, direction: 'ASCENDING' }],
+  });
+  return c.json(requests as unknown as JoinRequestDoc[]);
+});
+
+// POST /api/teacher/class/:classId/join-requests/:userId/approve
+// Adds the student to the class, within the class size limit. The class is
+// re-read when a concurrent join lands between the size check and the commit.
+router.post('/:classId/join-requests/:userId/approve', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const userId = c.req.param('userId');
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  try {
+    await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const request = (await fsGet(
+    projectId,
+    accessToken,
+    `classes/${classId}/joinRequests/${userId}`
+  )) as JoinRequestDoc | null;
+  if (!request) return c.json({ success: false, error: 'Join request not found' }, 404);
+
+  const approved = await retryOnConflict(async () => {
+    const versioned = await fsGetVersioned(projectId, accessToken, `classes/${classId}`);
+    const cls = versioned?.data as unknown as ClassDoc | undefined;
+    const studentIds = cls?.studentIds ?? [];
+    const alreadyMember = studentIds.includes(userId);
+    if (!alreadyMember && studentIds.length >= classCapacity(cls ?? {})) return false;
+
+    const writes: FsWrite[] = [{ path: `classes/${classId}/joinRequests/${userId}`, delete: true }];
+    if (!alreadyMember) {
+      writes.push(addStudentWrite(classId, userId, new Date().toISOString(), versioned?.updateTime));
+      writes.push({
+        path: `joinCodes/${request.code}`,
+        data: {},
+        updateMask: [],
+        increments: { redemptions: 1 },
+        exists: true,
+      });
+    }
+    await fsCommit(projectId, accessToken, writes);
+    return true;
+  });
+  if (!approved) {
+    return c.json({ success: false, error: 'This class is full', code: 'CLASS_FULL' }, 409);
+  }
+  return c.json({ success: true, classId, uid: userId });
+});
+
+// DELETE /api/teacher/class/:classId/join-requests/:userId — reject a request
+router.delete('/:classId/join-requests/:userId', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const userId = c.req.param('userId');
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  try {
+    await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const path = `classes/${classId}/joinRequests/${userId}`;
+  if (!(await fsGet(projectId, accessToken, path))) {
+    return c.json({ success: false, error: 'Join request not found' }, 404);
+  }
+  await fsCommit(projectId, accessToken, [{ path, delete: true }]);
+  return new Response(null, { status: 204 });
+});
+
+export default router;
@@ -1,10 +1,12 @@
 import { Hono } from 'hono';
 import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
 import { getFirebaseConfig } from '../utils/firebaseAuth';
 import { fsGet, fsPatch } from '../utils/firestore';
+import { LEGACY_SCHOOL_ID } from '../utils/schools';
 import type { TeacherDoc } from './types';
 
-type AppEnv = { Bindings: Env; Variables: { teacherUid: string } };
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
 const router = new Hono<AppEnv>();
 
 router.get('/', async (c) => {
@@ -52,7 +54,7 @@ router.post('/', async (c) => {
     uid: teacherUid,
     displayName: body.displayName.trim(),
     email: body.email?.trim() ?? '',
-    schoolId: 'mvl',
+    schoolId: c.get('schoolId') ?? LEGACY_SCHOOL_ID,
     classIds: [],
     theme: body.theme ?? 'dark',
     createdAt: new Date().toISOString(),
@@ -0,0 +1,173 @@
+// src/teacher/reviews.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  ENVIRONMENT: 'test',
+} as Env
+
+const DOCS = 'projects/test-proj/databases/(default)/documents'
+const ANSWER = `${DOCS}/users/student-1/questionSessions/sess-1/answers/q-1`
+
+async function makeApp() {
+  const { default: router } = await import('./reviews')
+  const app = new Hono<{ Bindings: Env; Variables: { teacherUid: string } }>()
+  app.use('*', async (c, next) => { c.set('teacherUid', 'teacher-uid-1'); await next() })
+  app.route('/', router)
+  return app
+}
+
+const classDoc = () => new Response(JSON.stringify({
+  name: `${DOCS}/classes/cls-abc`,
+  fields: {
+    name: { stringValue: '11a' },
+    teacherId: { stringValue: 'teacher-uid-1' },
+    schoolId: { stringValue: 'mvl' },
+    studentIds: { arrayValue: { values: [{ stringValue: 'student-1' }] } },
+  },
+}))
+
+function reviewFields(status: string, suggestedScore: number | null) {
+  return {
+    mapValue: {
+      fields: {
+        status: { stringValue: status },
+        reason: { stringValue: 'low_confidence' },
+        suggestedScore: suggestedScore === null ? { nullValue: null } : { doubleValue: suggestedScore },
+        suggestedRubric: suggestedScore === null
+          ? { nullValue: null }
+          : { mapValue: { fields: { score: { doubleValue: suggestedScore } } } },
+        question: { stringValue: 'Zeige, dass f streng monoton steigt.' },
+        baseXp: { integerValue: '90' },
+        baseCoins: { integerValue: '4' },
+      },
+    },
+  }
+}
+
+const answerDoc = (status = 'pending', suggestedScore: number | null = 0.5) => new Response(JSON.stringify({
+  name: ANSWER,
+  updateTime: '2026-03-10T12:00:00.000001Z',
+  fields: {
+    questionId: { stringValue: 'q-1' },
+    sessionId: { stringValue: 'sess-1' },
+    userAnswer: { stringValue: 'f\'(x) = 2x > 0' },
+    answeredAt: { stringValue: '2026-03-10T12:00:00.000Z' },
+    review: reviewFields(status, suggestedScore),
+  },
+}))
+
+const post = (path: string, body?: unknown) => new Request(`http://localhost${path}`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  ...(body !== undefined && { body: JSON.stringify(body) }),
+})
+
+beforeEach(() => {
+  vi.resetModules()
+  vi.doMock('../utils/firebaseAuth', () => ({
+    getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+  }))
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('GET /:classId/reviews', () => {
+  it('lists the pending answers of the class with the student name', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(classDoc())
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ document: await answerDoc().json() }])))
+      .mockResolvedValueOnce(new Response(JSON.stringify([
+        { found: { name: `${DOCS}/users/student-1`, fields: { displayName: { stringValue: 'Max' } } } },
+      ])))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/reviews'), mockEnv)
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body).toHaveLength(1)
+    expect(body[0]).toMatchObject({
+      userId: 'student-1',
+      displayName: 'Max',
+      sessionId: 'sess-1',
+      questionId: 'q-1',
+      review: { status: 'pending', suggestedScore: 0.5 },
+    })
+    const query = JSON.parse(fetchMock.mock.calls[1][1].body).structuredQuery
+    expect(query.from).toEqual([{ collectionId: 'answers', allDescendants: true }])
+  })
+})
+
+describe('POST /:classId/reviews/.../approve and reject', () => {
+  it('approves with the suggested score and awards the scaled XP and coins', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(classDoc())
+      .mockResolvedValueOnce(answerDoc())
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}, {}] })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/reviews/student-1/sess-1/q-1/approve'), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ status: 'approved', score: 0.5, xpEarned: 45, coinsEarned: 2 })
+    const { writes } = JSON.parse(fetchMock.mock.calls[2][1].body)
+    expect(writes[0].currentDocument).toEqual({ updateTime: '2026-03-10T12:00:00.000001Z' })
+    expect(writes[0].updateMask.fieldPaths).toContain('rubric')
+    expect(writes[1].updateTransforms).toEqual([
+      { fieldPath: 'stats.totalXp', increment: { integerValue: '45' } },
+      { fieldPath: 'stats.coins', increment: { integerValue: '2' } },
+    ])
+  })
+
+  it('rejects without awarding anything', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(classDoc())
+      .mockResolvedValueOnce(answerDoc())
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}] })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/reviews/student-1/sess-1/q-1/reject'), mockEnv)
+
+    expect(await res.json()).toMatchObject({ status: 'rejected', score: 0, xpEarned: 0 })
+    const { writes } = JSON.parse(fetchMock.mock.calls[2][1].body)
+    expect(writes).toHaveLength(1)
+  })
+
+  it('refuses a review that was already resolved', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(classDoc())
+      .mockResolvedValueOnce(answerDoc('approved')))
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/reviews/student-1/sess-1/q-1/approve', { score: 1 }), mockEnv)
+    expect(res.status).toBe(409)
+  })
+
+  it('requires a score when the AI suggested none', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(classDoc())
+      .mockResolvedValueOnce(answerDoc('pending', null)))
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/reviews/student-1/sess-1/q-1/approve'), mockEnv)
+    expect(res.status).toBe(400)
+  })
+
+  it('returns 403 for a student outside the class', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(classDoc())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(post('/cls-abc/reviews/student-9/sess-1/q-1/reject'), mockEnv)
+    expect(res.status).toBe(403)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,179 @@
+// src/teacher/reviews.ts
+/**
+ * Review queue for AI-graded answers (open proofs, see utils/aiGrading.ts).
+ * An uncertain verdict leaves the answer doc with `review.status: 'pending'`
+ * and no XP; the teacher approves it, with the AI's suggested score or their
+ * own, or rejects it. Approval writes the final score and awards the base XP
+ * and coins scaled by it, in one commit guarded by the answer's update time,
+ * so a review cannot be resolved (and paid) twice.
+ */
+
+import { Hono, type Context } from 'hono';
+import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
+import type { RubricBreakdown } from '../types';
+import type { AnswerReview } from '../utils/aiGrading';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { fsBatchGet, fsCommit, fsGetVersioned, fsQuery, retryOnConflict, type FsWrite } from '../utils/firestore';
+import { getOwnedClass, teacherScope } from './classUtils';
+import type { ClassDoc } from './types';
+
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
+
+const router = new Hono<AppEnv>();
+
+const httpError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+// GET /api/teacher/class/:classId/reviews — pending answers of the class's students, oldest first
+router.get('/:classId/reviews', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  let cls: ClassDoc;
+  try {
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const perStudent = await Promise.all(
+    cls.studentIds.map((uid) =>
+      fsQuery(projectId, accessToken, `users/${uid}`, {
+        from: [{ collectionId: 'answers', allDescendants: true }],
+        where: {
+          fieldFilter: { field: { fieldPath: 'review.status' }, op: 'EQUAL', value: { stringValue: 'pending' } },
+        },
+      })
+    )
+  );
+
+  const withPending = cls.studentIds.filter((_, i) => perStudent[i].length > 0);
+  const users = await fsBatchGet(projectId, accessToken, withPending.map((uid) => `users/${uid}`));
+  const names = new Map(withPending.map((uid, i) => [uid, (users[i]?.displayName as string) ?? uid]));
+
+  const reviews = cls.studentIds.flatMap((uid, i) =>
+    perStudent[i]
+      // Answers recorded before sessionId was stored cannot be addressed
+      .filter((answer) => typeof answer.sessionId === 'string')
+      .map((answer) => ({
+        userId: uid,
+        displayName: names.get(uid) ?? uid,
+        sessionId: answer.sessionId as string,
+        questionId: answer.questionId as string,
+        userAnswer: (answer.userAnswer as string) ?? '',
+        answeredAt: (answer.answeredAt as string) ?? '',
+        review: answer.review as AnswerReview,
+      }))
+  );
+  reviews.sort((a, b) => a.answeredAt.localeCompare(b.answeredAt));
+  return c.json(reviews);
+});
+
+/**
+ * Resolve one pending review. Approval without a score takes the AI's
+ * suggested score and rubric.
+ */
+async function resolveReview(
+  projectId: string,
+  accessToken: string,
+  teacherUid: string,
+  target: { userId: string; sessionId: string; questionId: string },
+  decision: { approve: true; score?: number } | { approve: false }
+) {
+  const answerPath = `users/${target.userId}/questionSessions/${target.sessionId}/answers/${target.questionId}`;
+
+  return retryOnConflict(async () => {
+    const answer = await fsGetVersioned(projectId, accessToken, answerPath);
+    const review = answer?.data.review as AnswerReview | undefined;
+    if (!answer || !review) throw httpError('Review not found', 404);
+    if (review.status !== 'pending') throw httpError(`Review already ${review.status}`, 409);
+
+    let score = 0;
+    let rubric: RubricBreakdown | null = null;
+    if (decision.approve) {
+      if (decision.score !== undefined) {
+        score = decision.score;
+      } else if (review.suggestedScore !== null) {
+        score = review.suggestedScore;
+        rubric = review.suggestedRubric;
+      } else {
+        throw httpError('score is required: the AI suggested none', 400);
+      }
+    }
+
+    const xpEarned = Math.round(review.baseXp * score);
+    const coinsEarned = Math.round(review.baseCoins * score);
+    const resolvedAt = new Date().toISOString();
+    const writes: FsWrite[] = [
+      {
+        path: answerPath,
+        data: {
+          isCorrect: score === 1,
+          score,
+          ...(rubric && { rubric }),
+          xpEarned,
+          coinsEarned,
+          review: { status: decision.approve ? 'approved' : 'rejected', resolvedBy: teacherUid, resolvedAt },
+        },
+        updateMask: [
+          'isCorrect',
+          'score',
+          ...(rubric ? ['rubric'] : []),
+          'xpEarned',
+          'coinsEarned',
+          'review.status',
+          'review.resolvedBy',
+          'review.resolvedAt',
+        ],
+        updateTime: answer.updateTime,
+      },
+    ];
+    if (xpEarned > 0 || coinsEarned > 0) {
+      writes.push({
+        path: `users/${target.userId}`,
+        data: {},
+        updateMask: [],
+        increments: { 'stats.totalXp': xpEarned, 'stats.coins': coinsEarned },
+      });
+    }
+    await fsCommit(projectId, accessToken, writes);
+    return { success: true, ...target, status: decision.approve ? 'approved' : 'rejected', score, xpEarned, coinsEarned };
+  });
+}
+
+async function decide(c: Context<AppEnv>, approve: boolean) {
+  const scope = teacherScope(c);
+  const { classId, userId, sessionId, questionId } = c.req.param();
+  const body = approve ? await c.req.json<{ score?: unknown }>().catch(() => ({ score: undefined })) : {};
+  const score = body.score;
+  if (score !== undefined && (typeof score !== 'number' || !(score >= 0 && score <= 1))) {
+    return c.json({ success: false, error: 'score must be a number from 0 to 1' }, 400);
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  try {
+    const cls = await getOwnedClass(projectId, accessToken, classId, scope);
+    if (!cls.studentIds.includes(userId)) {
+      return c.json({ success: false, error: 'Forbidden: student is not in this class' }, 403);
+    }
+    const result = await resolveReview(
+      projectId,
+      accessToken,
+      scope.uid,
+      { userId, sessionId, questionId },
+      approve ? { approve: true, score: score as number | undefined } : { approve: false }
+    );
+    return c.json(result);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+}
+
+// POST /api/teacher/class/:classId/reviews/:userId/:sessionId/:questionId/approve
+// Body: { score?: number } — 0…1; defaults to the AI's suggested score
+router.post('/:classId/reviews/:userId/:sessionId/:questionId/approve', (c) => decide(c, true));
+
+// POST /api/teacher/class/:classId/reviews/:userId/:sessionId/:questionId/reject — the answer earns nothing
+router.post('/:classId/reviews/:userId/:sessionId/:questionId/reject', (c) => decide(c, false));
+
+export default router;
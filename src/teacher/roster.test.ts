@@ -0,0 +1,130 @@
+// src/teacher/roster.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  ENVIRONMENT: 'test',
+} as Env
+
+async function makeApp() {
+  const { default: router } = await import('./roster')
+  const app = new Hono<{ Bindings: Env; Variables: { teacherUid: string } }>()
+  app.use('*', async (c, next) => { c.set('teacherUid', 'teacher-uid-1'); await next() })
+  app.route('/', router)
+  return app
+}
+
+function classRow(id: string, name: string, studentIds: string[] = []) {
+  return {
+    document: {
+      name: `projects/test-proj/databases/(default)/documents/classes/${id}`,
+      fields: {
+        name: { stringValue: name },
+        teacherId: { stringValue: 'teacher-uid-1' },
+        schoolId: { stringValue: 'mvl' },
+        studentIds: { arrayValue: { values: studentIds.map((s) => ({ stringValue: s })) } },
+      },
+    },
+  }
+}
+
+function upload(csv: string, query = '') {
+  return new Request(`http://localhost/${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'text/csv' },
+    body: csv,
+  })
+}
+
+const getUserByEmail = vi.fn()
+const createFirebaseUser = vi.fn()
+const sendPasswordResetEmail = vi.fn()
+
+describe('POST /api/teacher/roster', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    getUserByEmail.mockReset().mockImplementation(async (_env: Env, email: string) => {
+      if (email === 'ben@schule.de') return 'uid-ben'
+      throw new Error(`User not found for email: ${email}`)
+    })
+    createFirebaseUser.mockReset().mockImplementation(async (_env: Env, email: string) => {
+      if (email === 'cara@schule.de') throw new Error('QUOTA_EXCEEDED')
+      return `uid-${email.split('@')[0]}`
+    })
+    sendPasswordResetEmail.mockReset().mockResolvedValue(undefined)
+    vi.doMock('../utils/firebaseAuth', () => ({
+      getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+    }))
+    vi.doMock('../utils/firebaseAdmin', () => ({ getUserByEmail, createFirebaseUser, sendPasswordResetEmail }))
+  })
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('creates, reuses and reports every row, then adds everyone to their class in one commit', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify([classRow('cls-a', '11a', ['uid-old']), classRow('cls-b', '11b')])))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}, {}] })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const csv = [
+      'Name;E-Mail;Klasse',
+      'Anna;anna@schule.de;',
+      'Ben;ben@schule.de;11B',
+      'Cara;cara@schule.de;',
+      'Dora;dora@schule.de;12c',
+      'Emil;kein-mail;',
+    ].join('\n')
+    const app = await makeApp()
+    const res = await app.fetch(upload(csv, '?classId=cls-a'), mockEnv)
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body.summary).toEqual({ total: 5, created: 1, existing: 1, failed: 3, invited: 1 })
+    expect(body.rows.map((r: any) => [r.line, r.status, r.reason])).toEqual([
+      [2, 'created', undefined],
+      [3, 'existing', undefined],
+      [4, 'failed', 'QUOTA_EXCEEDED'],
+      [5, 'failed', 'class "12c" not found'],
+      [6, 'failed', 'email is not valid'],
+    ])
+    expect(sendPasswordResetEmail).toHaveBeenCalledTimes(1)
+    expect(sendPasswordResetEmail).toHaveBeenCalledWith(mockEnv, 'anna@schule.de')
+
+    const { writes } = JSON.parse(fetchMock.mock.calls[1][1].body)
+    const ids = (w: any) => w.updateTransforms[0].appendMissingElements.values.map((v: any) => v.stringValue)
+    expect(writes.map((w: any) => w.update.name.split('/').pop())).toEqual(['cls-a', 'cls-b'])
+    // Appended, not rewritten from the list read before the accounts were created
+    expect(writes[0].updateMask).toEqual({ fieldPaths: ['updatedAt'] })
+    expect(ids(writes[0])).toEqual(['uid-anna'])
+    expect(ids(writes[1])).toEqual(['uid-ben'])
+  })
+
+  it('keeps created accounts when the invite email fails', async () => {
+    sendPasswordResetEmail.mockRejectedValueOnce(new Error('RESET_PASSWORD_EXCEED_LIMIT'))
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify([classRow('cls-a', '11a')])))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}] }))))
+
+    const app = await makeApp()
+    const res = await app.fetch(upload('name,email,class\nAnna,anna@schule.de,11a'), mockEnv)
+
+    const body = await res.json() as any
+    expect(body.rows[0]).toMatchObject({ status: 'created', uid: 'uid-anna', invited: false })
+  })
+
+  it('returns 404 for a default class the teacher does not own', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(JSON.stringify([classRow('cls-a', '11a')]))))
+
+    const app = await makeApp()
+    const res = await app.fetch(upload('name,email\nAnna,anna@schule.de', '?classId=cls-z'), mockEnv)
+    expect(res.status).toBe(404)
+    expect(createFirebaseUser).not.toHaveBeenCalled()
+  })
+
+  it('returns 400 for a file without the required columns', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(upload('vorname,nachname\nAnna,Muster'), mockEnv)
+    expect(res.status).toBe(400)
+  })
+})
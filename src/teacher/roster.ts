@@ -0,0 +1,211 @@
+// src/teacher/roster.ts
+/**
+ * Roster import: creates or reuses the accounts of a CSV class list and adds
+ * the students to their classes (see utils/roster.ts for the file format).
+ * New accounts get an invite (password reset) email; existing accounts are
+ * only added to the class. Invites go out in batches with a pause between
+ * them to stay below the Identity Toolkit's email rate limits.
+ */
+
+import { Hono } from 'hono';
+import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { fsCommit, fsQuery, type FsWrite } from '../utils/firestore';
+import { createFirebaseUser, getUserByEmail, sendPasswordResetEmail } from '../utils/firebaseAdmin';
+import { parseRoster, type ParsedRoster, type RosterRow } from '../utils/roster';
+import { teacherScope, type TeacherScope } from './classUtils';
+import type { ClassDoc } from './types';
+
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
+
+const router = new Hono<AppEnv>();
+
+const MAX_ROSTER_BYTES = 256 * 1024;
+/** Account lookups and creations running at once */
+const ACCOUNT_CONCURRENCY = 10;
+const INVITE_BATCH = { size: 10, delayMs: 1000 };
+
+export interface RosterResult {
+  line: number;
+  email: string | null;
+  name?: string;
+  classId?: string;
+  status: 'created' | 'existing' | 'failed';
+  uid?: string;
+  /** Whether the invite email went out; only for created accounts */
+  invited?: boolean;
+  reason?: string;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function inBatches<T>(items: T[], size: number, run: (item: T) => Promise<void>, pauseMs = 0) {
+  for (let i = 0; i < items.length; i += size) {
+    if (i > 0 && pauseMs > 0) await sleep(pauseMs);
+    await Promise.all(items.slice(i, i + size).map(run));
+  }
+}
+
+/** Classes the caller may add students to: their own, or the school's for a school admin */
+async function manageableClasses(projectId: string, accessToken: string, scope: TeacherScope): Promise<ClassDoc[]> {
+  const equal = (fieldPath: string, value: string) => ({
+    fieldFilter: { field: { fieldPath }, op: 'EQUAL', value: { stringValue: value } },
+  });
+  const filters = [
+    equal('schoolId', scope.schoolId),
+    ...(scope.role === 'school-admin' ? [] : [equal('teacherId', scope.uid)]),
+  ];
+  const classes = await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'classes' }],
+    where: filters.length === 1 ? filters[0] : { compositeFilter: { op: 'AND', filters } },
+  });
+  return classes as unknown as ClassDoc[];
+}
+
+/** The class a row belongs to: its class column (id or name), else the default */
+function resolveClass(row: RosterRow, classes: ClassDoc[], fallback: ClassDoc | null): ClassDoc | string {
+  if (!row.className) return fallback ?? 'no class given';
+  const byId = classes.find((cls) => cls.id === row.className);
+  if (byId) return byId;
+  const byName = classes.filter((cls) => cls.name.trim().toLowerCase() === row.className!.toLowerCase());
+  if (byName.length === 1) return byName[0];
+  return byName.length > 1 ? `class "${row.className}" is ambiguous` : `class "${row.className}" not found`;
+}
+
+/** Existing account for the email, or a new one */
+async function ensureAccount(env: Env, row: RosterRow): Promise<{ uid: string; created: boolean }> {
+  try {
+    return { uid: await getUserByEmail(env, row.email), created: false };
+  } catch (err) {
+    if (!(err as Error).message?.startsWith('User not found')) throw err;
+  }
+  try {
+    return { uid: await createFirebaseUser(env, row.email, row.name), created: true };
+  } catch (err) {
+    // Created by someone else since the lookup
+    if ((err as Error).message?.includes('EMAIL_EXISTS')) {
+      return { uid: await getUserByEmail(env, row.email), created: false };
+    }
+    throw err;
+  }
+}
+
+// POST /api/teacher/roster?classId=…
+// Body: the CSV file (Content-Type text/csv), or JSON { csv, classId? }.
+// classId is the class for rows without a class column. Answers with one
+// result per row: created, existing or failed with a reason.
+router.post('/', async (c) => {
+  const scope = teacherScope(c);
+  let csv: string;
+  let defaultClassId = c.req.query('classId') ?? null;
+  if (c.req.header('Content-Type')?.includes('application/json')) {
+    const body = await c.req.json<{ csv?: string; classId?: string }>();
+    csv = typeof body.csv === 'string' ? body.csv : '';
+    defaultClassId = body.classId ?? defaultClassId;
+  } else {
+    csv = await c.req.text();
+  }
+  if (csv.length > MAX_ROSTER_BYTES) {
+    return c.json({ success: false, error: 'The roster file is too large' }, 413);
+  }
+
+  let roster: ParsedRoster;
+  try {
+    roster = parseRoster(csv);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 400);
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const classes = await manageableClasses(projectId, accessToken, scope);
+  const fallback = defaultClassId ? classes.find((cls) => cls.id === defaultClassId) : null;
+  if (defaultClassId && !fallback) {
+    return c.json({ success: false, error: 'Class not found' }, 404);
+  }
+
+  const results: RosterResult[] = roster.errors.map((e) => ({ ...e, status: 'failed' }));
+  const accepted: Array<{ row: RosterRow; cls: ClassDoc; result: RosterResult }> = [];
+  for (const row of roster.rows) {
+    const cls = resolveClass(row, classes, fallback ?? null);
+    if (typeof cls === 'string') {
+      results.push({ line: row.line, email: row.email, name: row.name, status: 'failed', reason: cls });
+      continue;
+    }
+    const result: RosterResult = { line: row.line, email: row.email, name: row.name, classId: cls.id, status: 'failed' };
+    results.push(result);
+    accepted.push({ row, cls, result });
+  }
+
+  await inBatches(accepted, ACCOUNT_CONCURRENCY, async ({ row, result }) => {
+    try {
+      const { uid, created } = await ensureAccount(c.env, row);
+      Object.assign(result, { uid, status: created ? 'created' : 'existing' });
+    } catch (err) {
+      result.reason = (err as Error).message || 'Failed to create the account';
+    }
+  });
+
+  const created = accepted.filter(({ result }) => result.status === 'created');
+  await inBatches(
+    created,
+    INVITE_BATCH.size,
+    async ({ row, result }) => {
+      try {
+        await sendPasswordResetEmail(c.env, row.email);
+        result.invited = true;
+      } catch (err) {
+        // Non-fatal: the account exists, the teacher can resend the invite
+        console.error(`[roster] Failed to send invite for line ${row.line}:`, (err as Error).message);
+        result.invited = false;
+      }
+    },
+    INVITE_BATCH.delayMs
+  );
+
+  // One commit adds everyone to their classes; the array union keeps
+  // students who joined since the classes were read
+  const added = new Map<string, string[]>();
+  for (const { cls, result } of accepted) {
+    if (result.status === 'failed') continue;
+    added.set(cls.id, [...(added.get(cls.id) ?? []), result.uid!]);
+  }
+  const now = new Date().toISOString();
+  const writes: FsWrite[] = [...added].map(([classId, uids]) => ({
+    path: `classes/${classId}`,
+    data: { updatedAt: now },
+    updateMask: ['updatedAt'],
+    appends: { studentIds: uids },
+    exists: true,
+  }));
+  if (writes.length > 0) {
+    try {
+      await fsCommit(projectId, accessToken, writes);
+    } catch (err) {
+      console.error('[roster] Failed to add students to their classes:', (err as Error).message);
+      for (const { result } of accepted) {
+        if (result.status !== 'failed') {
+          result.reason = 'The account is ready but could not be added to the class; please retry';
+          result.status = 'failed';
+        }
+      }
+    }
+  }
+
+  results.sort((a, b) => a.line - b.line);
+  const count = (status: RosterResult['status']) => results.filter((r) => r.status === status).length;
+  return c.json({
+    summary: {
+      total: results.length,
+      created: count('created'),
+      existing: count('existing'),
+      failed: count('failed'),
+      invited: results.filter((r) => r.invited).length,
+    },
+    rows: results,
+  });
+});
+
+export default router;
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+import type { TeacherRole } from '../utils/verifyTeacherToken'
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  FIREBASE_API_KEY: 'key',
+  ANTHROPIC_API_KEY: 'key',
+  GEMINI_API_KEY: 'key',
+  ENVIRONMENT: 'test',
+} as Env
+
+const mockSchoolDoc = {
+  name: 'projects/test-proj/databases/(default)/documents/schools/gym-nord',
+  fields: {
+    id: { stringValue: 'gym-nord' },
+    name: { stringValue: 'Gymnasium Nord' },
+    curriculum: { stringValue: 'bw-gymnasium-2016' },
+    allowedProviders: { arrayValue: { values: [{ stringValue: 'gemini' }] } },
+  },
+}
+
+function classDoc(teacherId: string, schoolId: string) {
+  return {
+    name: 'projects/test-proj/databases/(default)/documents/classes/cls-abc',
+    fields: {
+      id: { stringValue: 'cls-abc' },
+      name: { stringValue: '11a' },
+      teacherId: { stringValue: teacherId },
+      schoolId: { stringValue: schoolId },
+      studentIds: { arrayValue: { values: [] } },
+    },
+  }
+}
+
+async function makeApp(role: TeacherRole = 'school-admin') {
+  const { default: router } = await import('./school')
+  const app = new Hono<{ Bindings: Env; Variables: { teacherUid: string; schoolId: string; teacherRole: TeacherRole } }>()
+  app.use('*', async (c, next) => {
+    c.set('teacherUid', 'admin-uid-1')
+    c.set('schoolId', 'gym-nord')
+    c.set('teacherRole', role)
+    await next()
+  })
+  app.route('/', router)
+  return app
+}
+
+function putJson(path: string, body: unknown) {
+  return new Request(`http://localhost${path}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  vi.resetModules()
+  vi.doMock('../utils/firebaseAuth', () => ({
+    getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+  }))
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('GET / (school settings)', () => {
+  it('returns the defaults when the school has no document', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response('', { status: 404 })))
+    const app = await makeApp('teacher')
+    const res = await app.fetch(new Request('http://localhost/'), mockEnv)
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body.id).toBe('gym-nord')
+    expect(body.curriculum).toBe('bw-gymnasium-2016')
+    expect(body.allowedProviders).toBeNull()
+    expect(body.branding.displayName).toBe('gym-nord')
+  })
+})
+
+describe('PUT / (update school settings)', () => {
+  it('returns 403 for teachers who are not school admins', async () => {
+    const app = await makeApp('teacher')
+    const res = await app.fetch(putJson('/', { name: 'Gymnasium Nord' }), mockEnv)
+    expect(res.status).toBe(403)
+  })
+
+  it('returns 400 for unknown AI providers', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(putJson('/', { allowedProviders: ['skynet'] }), mockEnv)
+    expect(res.status).toBe(400)
+  })
+
+  it('caps school quotas at the class override factor', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(putJson('/', {
+      aiQuotas: { generateQuestions: { user: { daily: { requests: 201 } } } },
+    }), mockEnv)
+    expect(res.status).toBe(400)
+    expect((await res.json() as any).error).toBe('aiQuotas.generateQuestions.user.daily.requests must be at most 200')
+  })
+
+  it('writes only the given settings', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockSchoolDoc)))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ writeResults: [{}] })))
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockSchoolDoc)))
+    vi.stubGlobal('fetch', fetchMock)
+    const app = await makeApp()
+    const res = await app.fetch(putJson('/', { allowedProviders: ['gemini'] }), mockEnv)
+    expect(res.status).toBe(200)
+    const commit = JSON.parse(fetchMock.mock.calls[1][1].body)
+    expect(commit.writes[0].updateMask.fieldPaths).toEqual(['id', 'updatedAt', 'allowedProviders'])
+    expect((await res.json() as any).allowedProviders).toEqual(['gemini'])
+  })
+})
+
+describe('PUT /teachers/:uid/role', () => {
+  it('returns 404 for a teacher of another school', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(JSON.stringify({
+      name: 'projects/test-proj/databases/(default)/documents/teachers/teacher-uid-2',
+      fields: { uid: { stringValue: 'teacher-uid-2' }, schoolId: { stringValue: 'mvl' } },
+    }))))
+    const app = await makeApp()
+    const res = await app.fetch(putJson('/teachers/teacher-uid-2/role', { role: 'school-admin' }), mockEnv)
+    expect(res.status).toBe(404)
+  })
+
+  it('refuses a revoked teacher', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify({
+      name: 'projects/test-proj/databases/(default)/documents/teachers/teacher-uid-2',
+      fields: {
+        uid: { stringValue: 'teacher-uid-2' },
+        schoolId: { stringValue: 'gym-nord' },
+        status: { stringValue: 'revoked' },
+      },
+    })))
+    vi.stubGlobal('fetch', fetchMock)
+    const app = await makeApp()
+    const res = await app.fetch(putJson('/teachers/teacher-uid-2/role', { role: 'school-admin' }), mockEnv)
+    expect(res.status).toBe(409)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses to change the caller\'s own role', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(putJson('/teachers/admin-uid-1/role', { role: 'teacher' }), mockEnv)
+    expect(res.status).toBe(400)
+  })
+})
+
+describe('getOwnedClass (school scope)', () => {
+  it('lets a school admin open another teacher\'s class in the school', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(JSON.stringify(classDoc('teacher-uid-2', 'gym-nord')))))
+    const { getOwnedClass } = await import('./classUtils')
+    const cls = await getOwnedClass('test-proj', 'test-token', 'cls-abc', {
+      uid: 'admin-uid-1',
+      schoolId: 'gym-nord',
+      role: 'school-admin',
+    })
+    expect(cls.teacherId).toBe('teacher-uid-2')
+  })
+
+  it('refuses classes of another school, even to school admins', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(JSON.stringify(classDoc('admin-uid-1', 'mvl')))))
+    const { getOwnedClass } = await import('./classUtils')
+    await expect(
+      getOwnedClass('test-proj', 'test-token', 'cls-abc', { uid: 'admin-uid-1', schoolId: 'gym-nord', role: 'school-admin' })
+    ).rejects.toMatchObject({ status: 403 })
+  })
+})
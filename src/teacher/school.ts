@@ -0,0 +1,108 @@
+// src/teacher/school.ts
+import { Hono, type MiddlewareHandler } from 'hono';
+import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { fsCommit, fsGet, fsQuery } from '../utils/firestore';
+import { updateCustomClaims } from '../utils/firebaseAdmin';
+import { loadModelConfig } from '../utils/callAI';
+import { getSchool, schoolFilter, validateSchoolSettings } from '../utils/schools';
+import { teacherScope } from './classUtils';
+import type { ClassDoc, TeacherDoc } from './types';
+
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
+
+const router = new Hono<AppEnv>();
+
+const SETTINGS_FIELDS = ['name', 'curriculum', 'allowedProviders', 'branding', 'aiQuotas'] as const;
+
+const requireSchoolAdmin: MiddlewareHandler<AppEnv> = async (c, next) => {
+  if (teacherScope(c).role !== 'school-admin') {
+    return c.json({ success: false, error: 'Forbidden: school-admin role required' }, 403);
+  }
+  await next();
+};
+
+// GET /api/teacher/school — settings of the caller's school
+router.get('/', async (c) => {
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const school = await getSchool(projectId, accessToken, teacherScope(c).schoolId);
+  return c.json(school);
+});
+
+// PUT /api/teacher/school — update settings (school admins)
+// Body: any of { name, curriculum, allowedProviders, branding, aiQuotas }
+router.put('/', requireSchoolAdmin, async (c) => {
+  const { schoolId } = teacherScope(c);
+  const body = await c.req.json<Record<string, unknown>>();
+
+  const fields = SETTINGS_FIELDS.filter((f) => body[f] !== undefined);
+  if (fields.length === 0) {
+    return c.json({ success: false, error: `Provide at least one of ${SETTINGS_FIELDS.join(', ')}` }, 400);
+  }
+  const config = await loadModelConfig();
+  const error = validateSchoolSettings(body, config.tasks, config.features.quotaOverrideMaxFactor);
+  if (error) return c.json({ success: false, error }, 400);
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const existing = await fsGet(projectId, accessToken, `schools/${schoolId}`);
+  const now = new Date().toISOString();
+  const data: Record<string, unknown> = { id: schoolId, updatedAt: now, ...(!existing && { createdAt: now }) };
+  for (const f of fields) data[f] = body[f];
+
+  await fsCommit(projectId, accessToken, [{ path: `schools/${schoolId}`, data, updateMask: Object.keys(data) }]);
+
+  return c.json(await getSchool(projectId, accessToken, schoolId));
+});
+
+// GET /api/teacher/school/teachers — all teachers of the school (school admins)
+router.get('/teachers', requireSchoolAdmin, async (c) => {
+  const { schoolId } = teacherScope(c);
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const teachers = await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'teachers' }],
+    where: schoolFilter(schoolId),
+    orderBy: [{ field: { fieldPath: 'displayName' }, direction: 'ASCENDING' }],
+  });
+  return c.json(teachers as unknown as TeacherDoc[]);
+});
+
+// PUT /api/teacher/school/teachers/:uid/role — promote or demote a teacher (school admins)
+// Body: { role: 'teacher' | 'school-admin' }. Takes effect at the teacher's next sign-in.
+router.put('/teachers/:uid/role', requireSchoolAdmin, async (c) => {
+  const scope = teacherScope(c);
+  const uid = c.req.param('uid');
+  const body = await c.req.json<{ role?: string }>();
+  if (body.role !== 'teacher' && body.role !== 'school-admin') {
+    return c.json({ success: false, error: 'role must be "teacher" or "school-admin"' }, 400);
+  }
+  if (uid === scope.uid) {
+    return c.json({ success: false, error: 'You cannot change your own role' }, 400);
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const teacher = (await fsGet(projectId, accessToken, `teachers/${uid}`)) as TeacherDoc | null;
+  if (!teacher || teacher.schoolId !== scope.schoolId) {
+    return c.json({ success: false, error: 'Teacher not found' }, 404);
+  }
+  if (teacher.status === 'revoked') {
+    return c.json({ success: false, error: 'Teacher has been revoked' }, 409);
+  }
+
+  await updateCustomClaims(c.env, uid, { role: body.role, schoolId: scope.schoolId });
+  return c.json({ success: true, uid, role: body.role, schoolId: scope.schoolId });
+});
+
+// GET /api/teacher/school/classes — all classes of the school (school admins)
+router.get('/classes', requireSchoolAdmin, async (c) => {
+  const { schoolId } = teacherScope(c);
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const classes = await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'classes' }],
+    where: schoolFilter(schoolId),
+    orderBy: [{ field: { fieldPath: 'name' }, direction: 'ASCENDING' }],
+  });
+  return c.json(classes as unknown as ClassDoc[]);
+});
+
+export default router;
@@ -0,0 +1,109 @@
+// src/teacher/studentAccess.ts
+/**
+ * Class-membership guard for the per-student teacher routes
+ * (/api/teacher/student/*). A teacher may only act on students in one of
+ * their own classes. The student is named by the `:userId` route parameter
+ * or, for invite and reset-password, by the `email` in the body. An optional
+ * `classId` (query or body) restricts the check to that class.
+ *
+ * Invites for addresses without an account pass, since they create a new
+ * student. Every denial is written to the audit log (utils/auditLog.ts).
+ * Unknown emails are denied like foreign students, so the routes cannot be
+ * used to probe which addresses have accounts.
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { getUserByEmail } from '../utils/firebaseAdmin';
+import { recordAuditEvent } from '../utils/auditLog';
+import { findClassWithStudent, teacherScope } from './classUtils';
+
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
+
+interface StudentTarget {
+  uid: string | null;
+  email: string | null;
+  classId: string | null;
+}
+
+/** Uid for an email, or null if there is no such account */
+async function lookupUid(env: Env, email: string): Promise<string | null> {
+  try {
+    return await getUserByEmail(env, email);
+  } catch (err) {
+    if ((err as Error).message?.startsWith('User not found')) return null;
+    throw err;
+  }
+}
+
+async function resolveTarget(c: Context<AppEnv>): Promise<StudentTarget> {
+  const userId = c.req.param('userId');
+  const body =
+    c.req.method === 'POST'
+      ? await c.req.json<{ email?: string; classId?: string }>().catch(() => null)
+      : null;
+  const classId = c.req.query('classId') ?? body?.classId ?? null;
+
+  if (userId) return { uid: userId, email: null, classId };
+
+  const email = body?.email?.trim() || null;
+  return { uid: email ? await lookupUid(c.env, email) : null, email, classId };
+}
+
+export const requireStudentInTeacherClass: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const scope = teacherScope(c);
+
+  let target: StudentTarget;
+  try {
+    target = await resolveTarget(c);
+  } catch (err) {
+    console.error('[student-access] Failed to resolve student:', (err as Error).message);
+    return c.json({ success: false, error: 'Failed to look up student' }, 502);
+  }
+
+  if (target.classId && !/^[A-Za-z0-9_-]+$/.test(target.classId)) {
+    return c.json({ success: false, error: 'Invalid classId' }, 400);
+  }
+
+  // Missing email: the route handler answers with 400
+  if (!target.uid && !target.email) return next();
+  // Invites create the account, so there is no membership to check yet
+  if (!target.uid && c.req.path.endsWith('/invite')) return next();
+
+  const deny = async (reason: string) => {
+    await recordAuditEvent(c.env, {
+      type: 'access_denied',
+      actorUid: scope.uid,
+      actorRole: scope.role,
+      method: c.req.method,
+      path: c.req.path,
+      targetUid: target.uid,
+      targetEmail: target.email,
+      classId: target.classId,
+      reason,
+      ip: c.req.header('cf-connecting-ip') ?? c.req.header('x-forwarded-for') ?? 'unknown',
+    });
+    return c.json({ success: false, error: 'Forbidden: student is not in one of your classes' }, 403);
+  };
+
+  if (!target.uid) return deny('unknown_email');
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  try {
+    const cls = await findClassWithStudent(
+      projectId,
+      accessToken,
+      scope,
+      target.uid,
+      target.classId ?? undefined
+    );
+    if (!cls) return deny('not_in_class');
+  } catch (e: any) {
+    if (e.status === 403) return deny('class_not_owned');
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  await next();
+};
@@ -10,6 +10,21 @@ const mockEnv = {
   ENVIRONMENT: 'test',
 } as Env
 
+// Firestore runQuery result: a class of the calling teacher containing student-1
+const classWithStudent = () => new Response(JSON.stringify([
+  {
+    document: {
+      name: 'projects/test-proj/databases/(default)/documents/classes/class-1',
+      fields: {
+        id: { stringValue: 'class-1' },
+        teacherId: { stringValue: 'teacher-uid-1' },
+        studentIds: { arrayValue: { values: [{ stringValue: 'student-1' }] } },
+      },
+    },
+  },
+]))
+const noClass = () => new Response(JSON.stringify([{ readTime: '2026-01-01T00:00:00Z' }]))
+
 async function makeApp() {
   const { default: router } = await import('./students')
   const app = new Hono<{ Bindings: Env; Variables: { teacherUid: string } }>()
@@ -19,16 +34,22 @@ async function makeApp() {
 }
 
 describe('POST /api/teacher/student/:userId/ai-assessment', () => {
+  const recordAuditEvent = vi.fn()
+
   beforeEach(async () => {
     vi.resetModules()
+    recordAuditEvent.mockReset()
     vi.doMock('../utils/firebaseAuth', () => ({
       getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
     }))
+    vi.doMock('../utils/auditLog', () => ({ recordAuditEvent }))
   })
   afterEach(() => { vi.unstubAllGlobals() })
 
   it('returns AI assessment prose for a student', async () => {
     vi.stubGlobal('fetch', vi.fn()
+      // Firestore: class membership check
+      .mockResolvedValueOnce(classWithStudent())
       // Firestore: query last 50 questionHistory entries
       .mockResolvedValueOnce(new Response(JSON.stringify([
         {
@@ -46,6 +67,8 @@ describe('POST /api/teacher/student/:userId/ai-assessment', () => {
           },
         },
       ])))
+      // Firestore: school settings (none stored, defaults apply)
+      .mockResolvedValueOnce(new Response('', { status: 404 }))
       // Anthropic API call
       .mockResolvedValueOnce(new Response(JSON.stringify({
         content: [{ type: 'text', text: 'Der Schüler zeigt solide Grundkenntnisse...' }],
@@ -65,7 +88,9 @@ describe('POST /api/teacher/student/:userId/ai-assessment', () => {
 
   it('returns empty assessment when student has no history', async () => {
     vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(classWithStudent())
       .mockResolvedValueOnce(new Response(JSON.stringify([]))) // empty history
+      .mockResolvedValueOnce(new Response('', { status: 404 })) // no school settings
       .mockResolvedValueOnce(new Response(JSON.stringify({
         content: [{ type: 'text', text: 'Keine Lernhistorie vorhanden.' }],
       })))
@@ -78,6 +103,44 @@ describe('POST /api/teacher/student/:userId/ai-assessment', () => {
     )
     expect(res.status).toBe(200)
   })
+
+  it('returns 403 and audits the attempt when the student is in none of the teacher\'s classes', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(noClass())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(
+      new Request('http://localhost/student-2/ai-assessment', { method: 'POST' }),
+      mockEnv
+    )
+    expect(res.status).toBe(403)
+    // No history read, no AI call
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(recordAuditEvent).toHaveBeenCalledWith(mockEnv, expect.objectContaining({
+      type: 'access_denied',
+      actorUid: 'teacher-uid-1',
+      targetUid: 'student-2',
+      reason: 'not_in_class',
+    }))
+  })
+
+  it('checks only the given class when classId is passed', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(JSON.stringify({
+      name: 'projects/test-proj/databases/(default)/documents/classes/class-9',
+      fields: { teacherId: { stringValue: 'other-teacher' }, studentIds: { arrayValue: { values: [] } } },
+    }))))
+
+    const app = await makeApp()
+    const res = await app.fetch(
+      new Request('http://localhost/student-1/ai-assessment?classId=class-9', { method: 'POST' }),
+      mockEnv
+    )
+    expect(res.status).toBe(403)
+    expect(recordAuditEvent).toHaveBeenCalledWith(mockEnv, expect.objectContaining({
+      classId: 'class-9',
+      reason: 'class_not_owned',
+    }))
+  })
 })
 
 describe('POST /api/teacher/student/invite', () => {
@@ -89,7 +152,9 @@ describe('POST /api/teacher/student/invite', () => {
     vi.doMock('../utils/firebaseAdmin', () => ({
       createFirebaseUser: vi.fn().mockResolvedValue('new-uid-123'),
       sendPasswordResetEmail: vi.fn().mockResolvedValue(undefined),
+      getUserByEmail: vi.fn().mockRejectedValue(new Error('User not found for email: new@mvl-gym.de')),
     }))
+    vi.doMock('../utils/auditLog', () => ({ recordAuditEvent: vi.fn() }))
   })
   afterEach(() => { vi.unstubAllGlobals() })
 
@@ -124,19 +189,25 @@ describe('POST /api/teacher/student/invite', () => {
 })
 
 describe('POST /api/teacher/student/reset-password', () => {
+  const sendPasswordResetEmail = vi.fn()
+
   beforeEach(async () => {
     vi.resetModules()
+    sendPasswordResetEmail.mockReset().mockResolvedValue(undefined)
     vi.doMock('../utils/firebaseAuth', () => ({
       getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
     }))
     vi.doMock('../utils/firebaseAdmin', () => ({
       createFirebaseUser: vi.fn().mockResolvedValue('new-uid-123'),
-      sendPasswordResetEmail: vi.fn().mockResolvedValue(undefined),
+      sendPasswordResetEmail,
+      getUserByEmail: vi.fn().mockResolvedValue('student-1'),
     }))
+    vi.doMock('../utils/auditLog', () => ({ recordAuditEvent: vi.fn() }))
   })
   afterEach(() => { vi.unstubAllGlobals() })
 
   it('sends password reset email and returns 200', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(classWithStudent()))
     const app = await makeApp()
     const res = await app.fetch(
       new Request('http://localhost/reset-password', {
@@ -161,4 +232,19 @@ describe('POST /api/teacher/student/reset-password', () => {
     )
     expect(res.status).toBe(400)
   })
+
+  it('refuses to reset the password of a student outside the teacher\'s classes', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(noClass()))
+    const app = await makeApp()
+    const res = await app.fetch(
+      new Request('http://localhost/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: 'other@mvl-gym.de' }),
+      }),
+      mockEnv
+    )
+    expect(res.status).toBe(403)
+    expect(sendPasswordResetEmail).not.toHaveBeenCalled()
+  })
 })
@@ -1,20 +1,25 @@
 // src/teacher/students.ts
 import { Hono } from 'hono';
 import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
 import { getFirebaseConfig } from '../utils/firebaseAuth';
 import { fsQuery } from '../utils/firestore';
-import { callAI } from '../utils/callAI';
+import { callAIForTask } from '../utils/callAI';
 import { parseJsonWithRepair } from '../utils/repairJson';
 import { createFirebaseUser, sendPasswordResetEmail, getUserByEmail } from '../utils/firebaseAdmin';
-import modelsConfig from '../config/models.json';
+import { getSchool } from '../utils/schools';
+import { requireStudentInTeacherClass } from './studentAccess';
+import { teacherScope } from './classUtils';
 
-type AppEnv = { Bindings: Env; Variables: { teacherUid: string } };
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
 
 const router = new Hono<AppEnv>();
 
+// Every route acts on one student and must pass requireStudentInTeacherClass
+
 // POST /api/teacher/student/invite
 // Must be registered before /:userId routes to avoid "invite" matching as userId
-router.post('/invite', async (c) => {
+router.post('/invite', requireStudentInTeacherClass, async (c) => {
   const body = await c.req.json<{ email?: string; displayName?: string }>();
   if (!body.email?.trim()) {
     return c.json({ success: false, error: 'email is required' }, 400);
@@ -47,7 +52,7 @@ router.post('/invite', async (c) => {
 });
 
 // POST /api/teacher/student/reset-password
-router.post('/reset-password', async (c) => {
+router.post('/reset-password', requireStudentInTeacherClass, async (c) => {
   const body = await c.req.json<{ email?: string }>();
   if (!body.email?.trim()) {
     return c.json({ success: false, error: 'email is required' }, 400);
@@ -59,15 +64,19 @@ router.post('/reset-password', async (c) => {
 
 // POST /api/teacher/student/:userId/ai-assessment
 // Returns a structured, explainable assessment with evidence per conclusion (XAI).
-router.post('/:userId/ai-assessment', async (c) => {
+router.post('/:userId/ai-assessment', requireStudentInTeacherClass, async (c) => {
   const userId = c.req.param('userId');
+  const scope = teacherScope(c);
   const { projectId, accessToken } = await getFirebaseConfig(c.env);
 
-  const history = await fsQuery(projectId, accessToken, `users/${userId}`, {
-    from: [{ collectionId: 'questionHistory' }],
-    orderBy: [{ field: { fieldPath: 'timestamp' }, direction: 'DESCENDING' }],
-    limit: 50,
-  });
+  const [history, school] = await Promise.all([
+    fsQuery(projectId, accessToken, `users/${userId}`, {
+      from: [{ collectionId: 'questionHistory' }],
+      orderBy: [{ field: { fieldPath: 'timestamp' }, direction: 'DESCENDING' }],
+      limit: 50,
+    }),
+    getSchool(projectId, accessToken, scope.schoolId),
+  ]);
 
   const totalAnswered = history.length;
   const correctCount = history.filter((q: any) => q.isCorrect).length;
@@ -112,16 +121,9 @@ Antworte NUR mit diesem JSON, kein Markdown:
   "confidenceReason": "Keine Lernhistorie vorhanden"
 }`;
 
-  const taskConfig = (modelsConfig as any).tasks.aiAssessment;
-
-  const rawResponse = await callAI({
-    provider: taskConfig.provider,
-    model: taskConfig.model,
-    prompt,
-    temperature: taskConfig.temperature,
-    maxTokens: taskConfig.maxTokens,
-    systemPrompt: taskConfig.systemPrompt,
-    env: c.env,
+  const { response: rawResponse, model } = await callAIForTask('aiAssessment', prompt, c.env, {
+    uid: scope.uid,
+    allowedProviders: school.allowedProviders ?? undefined,
   });
 
   // Parse structured XAI response; fall back to prose if parsing fails
@@ -147,7 +149,7 @@ Antworte NUR mit diesem JSON, kein Markdown:
     assessment: xaiResult.summary,
     stats: { totalAnswered, correctCount, accuracyPct },
     generatedAt: new Date().toISOString(),
-    modelUsed: taskConfig.model,
+    modelUsed: model,
   });
 });
 
@@ -1,3 +1,6 @@
+import type { TaskQuota } from '../utils/aiQuota';
+import type { RubricBreakdown } from '../types';
+
 export interface ClassDoc {
   id: string;
   name: string;
@@ -6,6 +9,10 @@ export interface ClassDoc {
   studentIds: string[];
   gridConfig: { rows: number; cols: number };
   deskPositions: Record<string, { col: number; row: number }>;
+  /** Most students that may join with a join code, see utils/joinCodes.ts */
+  maxStudents?: number;
+  /** Teacher-raised AI quotas per task, see utils/aiQuota.ts */
+  aiQuotas?: Record<string, TaskQuota>;
   createdAt: string;
   updatedAt: string;
 }
@@ -18,6 +25,10 @@ export interface TeacherDoc {
   classIds: string[];
   theme: 'dark' | 'light';
   createdAt: string;
+  /** Set by the admin API; profiles created before it are active */
+  status?: 'active' | 'revoked';
+  approvedBy?: string;
+  revokedAt?: string;
 }
 
 export interface ClassGoalDoc {
@@ -57,6 +68,9 @@ export interface FeedEntry {
   questionText: string;
   studentAnswer: string;
   isCorrect: boolean;
+  /** Rubric score 0…1 from the server-written answer doc, when the entry names it */
+  score?: number;
+  rubric?: RubricBreakdown;
   feedback: string;
   hintsUsed: number;
   timeSpentSeconds: number;
@@ -66,6 +80,17 @@ export interface FeedEntry {
   unterthema: string;
 }
 
+export interface ClassMisconception {
+  id: string;
+  name: string;
+  hint: string | null;
+  /** Detections across the class */
+  count: number;
+  /** Students with at least one detection */
+  studentCount: number;
+  lastSeenAt: string;
+}
+
 export interface AnalyticsSummary {
   questionsToday: number;
   questionsThisWeek: number;
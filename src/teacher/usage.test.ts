@@ -0,0 +1,180 @@
+// src/teacher/usage.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+async function makeApp() {
+  const { default: router } = await import('./usage')
+  const app = new Hono<{ Bindings: Env; Variables: { teacherUid: string } }>()
+  app.use('*', async (c, next) => { c.set('teacherUid', 'teacher-uid-1'); await next() })
+  app.route('/', router)
+  return app
+}
+
+const mockEnv = {
+  FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }),
+  ENVIRONMENT: 'test',
+} as Env
+
+const mockClassDoc = {
+  name: 'projects/test-proj/databases/(default)/documents/classes/cls-abc',
+  fields: {
+    teacherId: { stringValue: 'teacher-uid-1' },
+    studentIds: {
+      arrayValue: { values: [{ stringValue: 'student-1' }, { stringValue: 'student-2' }] },
+    },
+  },
+}
+
+const counters = (requests: number, input: number, output: number, cost: number) => ({
+  mapValue: {
+    fields: {
+      requests: { integerValue: String(requests) },
+      inputTokens: { integerValue: String(input) },
+      outputTokens: { integerValue: String(output) },
+      costUsd: { doubleValue: cost },
+    },
+  },
+})
+
+const mockUsageDoc = {
+  name: 'projects/test-proj/databases/(default)/documents/users/student-1/aiUsage/2026-10',
+  fields: {
+    ...counters(5, 5000, 9000, 0.5).mapValue.fields,
+    period: { stringValue: 'month' },
+    tasks: {
+      mapValue: {
+        fields: {
+          generateMiniApp: counters(1, 1000, 6000, 0.4),
+          customHint: counters(4, 4000, 3000, 0.1),
+        },
+      },
+    },
+    providers: { mapValue: { fields: { claude: counters(1, 1000, 6000, 0.4), gemini: counters(4, 4000, 3000, 0.1) } } },
+  },
+}
+
+describe('GET /api/teacher/class/:classId/ai-usage', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.doMock('../utils/firebaseAuth', () => ({
+      getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+    }))
+  })
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('aggregates the students\' monthly usage by task and provider', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockUsageDoc)))
+      .mockResolvedValueOnce(new Response('{}', { status: 404 })) // student-2 has no usage
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/ai-usage?month=2026-10'), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect(fetchMock.mock.calls[1][0]).toContain('users/student-1/aiUsage/2026-10')
+    const body = await res.json() as any
+    expect(body.totals).toEqual({ requests: 5, inputTokens: 5000, outputTokens: 9000, costUsd: 0.5 })
+    expect(body.byTask.generateMiniApp.costSharePct).toBe(80)
+    expect(body.byProvider.gemini.tokenSharePct).toBe(50)
+    expect(body.students).toHaveLength(1)
+  })
+
+  it('rejects a malformed month', async () => {
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/ai-usage?month=10-2026'), mockEnv)
+    expect(res.status).toBe(400)
+  })
+
+  it('returns 403 for a class owned by another teacher', async () => {
+    const foreignClassDoc = {
+      ...mockClassDoc,
+      fields: { ...mockClassDoc.fields, teacherId: { stringValue: 'other-teacher' } },
+    }
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response(JSON.stringify(foreignClassDoc))))
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/ai-usage'), mockEnv)
+    expect(res.status).toBe(403)
+  })
+})
+
+describe('/api/teacher/class/:classId/ai-quota', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    vi.doMock('../utils/firebaseAuth', () => ({
+      getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'test-proj', accessToken: 'test-token' }),
+    }))
+  })
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  const put = (body: unknown) =>
+    new Request('http://localhost/cls-abc/ai-quota', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+  // No schools/{schoolId} document: the models.json defaults apply
+  const noSchool = () => new Response('', { status: 404 })
+
+  it('lists defaults and effective limits for tasks with a quota', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(noSchool()))
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/ai-quota'), mockEnv)
+
+    expect(res.status).toBe(200)
+    const body = await res.json() as any
+    expect(body.tasks.generateQuestions.override).toBeNull()
+    expect(body.tasks.generateQuestions.effective.user.daily.requests).toBe(20)
+    expect(body.tasks.customHint).toBeUndefined()
+  })
+
+  it('writes a raised override to the class document', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(noSchool())
+      .mockResolvedValueOnce(new Response('{}'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const app = await makeApp()
+    const res = await app.fetch(put({ taskName: 'generateQuestions', user: { daily: { requests: 40 } } }), mockEnv)
+
+    expect(res.status).toBe(200)
+    const commit = JSON.parse(fetchMock.mock.calls[2][1].body)
+    expect(commit.writes[0].updateMask.fieldPaths).toEqual(['aiQuotas.generateQuestions', 'updatedAt'])
+  })
+
+  it('rejects an override below the default', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(noSchool()))
+    const app = await makeApp()
+    const res = await app.fetch(put({ taskName: 'generateQuestions', user: { daily: { requests: 5 } } }), mockEnv)
+    expect(res.status).toBe(400)
+  })
+  it('takes the school\'s quotas as the defaults', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify(mockClassDoc)))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        name: 'projects/test-proj/databases/(default)/documents/schools/mvl',
+        fields: {
+          aiQuotas: { mapValue: { fields: { customHint: { mapValue: { fields: {
+            user: { mapValue: { fields: { daily: { mapValue: { fields: { requests: { integerValue: '15' } } } } } } },
+          } } } } } },
+        },
+      }))))
+
+    const app = await makeApp()
+    const res = await app.fetch(new Request('http://localhost/cls-abc/ai-quota'), mockEnv)
+
+    const body = await res.json() as any
+    expect(body.tasks.customHint.defaults.user.daily.requests).toBe(15)
+    expect(body.tasks.generateQuestions.effective.user.daily.requests).toBe(20)
+  })
+})
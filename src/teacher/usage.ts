@@ -0,0 +1,172 @@
+// src/teacher/usage.ts
+import { Hono } from 'hono';
+import type { Env } from '../index';
+import type { TeacherVariables } from '../utils/verifyTeacherToken';
+import { getFirebaseConfig } from '../utils/firebaseAuth';
+import { fsCommit, fsGet } from '../utils/firestore';
+import {
+  addCounters,
+  addGroups,
+  emptyCounters,
+  usagePeriodKeys,
+  withShares,
+  USAGE_MONTH_PATTERN,
+  type AIUsageDoc,
+  type UsageCounters,
+} from '../utils/aiUsage';
+import { effectiveLimits, validateQuotaOverride, type TaskQuota } from '../utils/aiQuota';
+import { loadModelConfig } from '../utils/callAI';
+import type { ClassDoc } from './types';
+import { getSchool } from '../utils/schools';
+import { classSchoolId, getOwnedClass, teacherScope } from './classUtils';
+
+type AppEnv = { Bindings: Env; Variables: TeacherVariables };
+
+const router = new Hono<AppEnv>();
+
+// GET /api/teacher/class/:classId/ai-usage?month=YYYY-MM
+// Aggregated AI token usage and estimated cost of the class's students for one month.
+router.get('/:classId/ai-usage', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const month = c.req.query('month') ?? usagePeriodKeys().month;
+  if (!USAGE_MONTH_PATTERN.test(month)) {
+    return c.json({ success: false, error: 'month must be YYYY-MM' }, 400);
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+
+  let cls: ClassDoc;
+  try {
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const docs = await Promise.all(
+    cls.studentIds.map(async (uid) => ({
+      uid,
+      doc: (await fsGet(projectId, accessToken, `users/${uid}/aiUsage/${month}`)) as
+        | AIUsageDoc
+        | null,
+    }))
+  );
+
+  const totals = emptyCounters();
+  const byTask = new Map<string, UsageCounters>();
+  const byProvider = new Map<string, UsageCounters>();
+  const students: Array<UsageCounters & { uid: string }> = [];
+
+  for (const { uid, doc } of docs) {
+    if (!doc) continue;
+    const student = { uid, ...emptyCounters() };
+    addCounters(student, doc);
+    addCounters(totals, doc);
+    addGroups(byTask, doc.tasks);
+    addGroups(byProvider, doc.providers);
+    students.push(student);
+  }
+
+  students.sort((a, b) => b.costUsd - a.costUsd || b.outputTokens - a.outputTokens);
+
+  return c.json({
+    classId,
+    month,
+    totals,
+    byTask: withShares(byTask, totals),
+    byProvider: withShares(byProvider, totals),
+    students,
+  });
+});
+
+// GET /api/teacher/class/:classId/ai-quota
+// Default, overridden and effective AI quotas for every task that has one.
+router.get('/:classId/ai-quota', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+
+  let cls: ClassDoc;
+  try {
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const [config, school] = await Promise.all([
+    loadModelConfig(),
+    getSchool(projectId, accessToken, classSchoolId(cls)),
+  ]);
+  const tasks: Record<string, { defaults: TaskQuota; override: TaskQuota | null; effective: TaskQuota }> = {};
+  for (const [taskName, taskConfig] of Object.entries(config.tasks)) {
+    // The school's quotas replace the models.json defaults
+    const defaults = school.aiQuotas?.[taskName] ?? taskConfig.quota;
+    if (!defaults) continue;
+    const override = cls.aiQuotas?.[taskName] ?? null;
+    tasks[taskName] = {
+      defaults,
+      override,
+      effective: {
+        user: effectiveLimits(defaults.user, [override?.user]),
+        class: effectiveLimits(defaults.class, [override?.class]),
+      },
+    };
+  }
+
+  return c.json({ classId, maxOverrideFactor: config.features.quotaOverrideMaxFactor, tasks });
+});
+
+// PUT /api/teacher/class/:classId/ai-quota
+// Body: { taskName, user?, class? } — replaces the class's override for one
+// task. Limits can only be raised; omitting both user and class removes it.
+router.put('/:classId/ai-quota', async (c) => {
+  const scope = teacherScope(c);
+  const classId = c.req.param('classId');
+  const body = await c.req.json<{ taskName?: string; user?: unknown; class?: unknown }>();
+
+  const config = await loadModelConfig();
+  if (!body.taskName || !config.tasks[body.taskName]) {
+    return c.json({ success: false, error: 'taskName must name a task with a quota' }, 400);
+  }
+
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  let cls: ClassDoc;
+  try {
+    cls = await getOwnedClass(projectId, accessToken, classId, scope);
+  } catch (e: any) {
+    return c.json({ success: false, error: e.message }, e.status ?? 500);
+  }
+
+  const school = await getSchool(projectId, accessToken, classSchoolId(cls));
+  const defaults = school.aiQuotas?.[body.taskName] ?? config.tasks[body.taskName].quota;
+  if (!defaults) {
+    return c.json({ success: false, error: 'taskName must name a task with a quota' }, 400);
+  }
+  const factor = config.features.quotaOverrideMaxFactor;
+  const error =
+    validateQuotaOverride(defaults.user, body.user, factor) ??
+    validateQuotaOverride(defaults.class, body.class, factor);
+  if (error) return c.json({ success: false, error }, 400);
+
+  const override: TaskQuota = {};
+  if (body.user !== undefined) override.user = body.user as TaskQuota['user'];
+  if (body.class !== undefined) override.class = body.class as TaskQuota['class'];
+  const field = `aiQuotas.${body.taskName}`;
+  const cleared = Object.keys(override).length === 0;
+
+  await fsCommit(projectId, accessToken, [
+    {
+      path: `classes/${classId}`,
+      data: {
+        updatedAt: new Date().toISOString(),
+        ...(!cleared && { aiQuotas: { [body.taskName!]: override } }),
+      },
+      updateMask: [field, 'updatedAt'],
+      exists: true,
+    },
+  ]);
+
+  return c.json({ success: true, classId, taskName: body.taskName, override: cleared ? null : override });
+});
+
+export default router;
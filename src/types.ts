@@ -3,6 +3,8 @@
  * Used across all API endpoints
  */
 
+import type { AnswerType } from './math/answers';
+
 // ============================================================================
 // TOPIC & USER CONTEXT
 // ============================================================================
@@ -34,7 +36,7 @@ export interface UserContext {
 // QUESTION TYPES
 // ============================================================================
 
-export type QuestionType = 'multiple-choice' | 'step-by-step';
+export type QuestionType = 'multiple-choice' | 'step-by-step' | 'free-form';
 export type StepByStepType = 'next-action' | 'sort-steps';
 
 export interface QuestionHint {
@@ -51,6 +53,8 @@ export interface QuestionOption {
 export interface StepByStepStep {
   id: string;
   text: string;
+  /** Relative weight of this step in the rubric (default 1) */
+  weight?: number;
 }
 
 export interface StepByStepData {
@@ -73,7 +77,15 @@ export interface Question {
   hints: QuestionHint[];
   options?: QuestionOption[];
   stepByStepData?: StepByStepData;
+  /** free-form: how expectedAnswer is read and compared */
+  answerType?: AnswerType;
+  expectedAnswer?: string;
+  tolerance?: number;
   afbLevel?: 'I' | 'II' | 'III';
+  /** Content hash of the question bank entry this question was served from */
+  bankId?: string;
+  /** Memory item a review question was served for; evaluate-answer reviews it */
+  memoryId?: string;
 }
 
 export interface QuestionSession {
@@ -83,12 +95,30 @@ export interface QuestionSession {
   userContext: UserContext;
   questions: Question[];
   totalQuestions: number;
+  /** True when every question came from the question bank */
   fromCache: boolean;
-  cacheKey?: string;
+  fromBank: number;
+  generated: number;
+  /** Spaced-repetition review questions (manage-memories build-session) */
+  reviews?: number;
   modelUsed?: string;
   providerUsed?: string;
 }
 
+/**
+ * Server-side copy of a question session, stored under
+ * users/{uid}/questionSessions/{sessionId}. evaluate-answer grades against
+ * these questions so the client never supplies the answer key.
+ */
+export interface StoredQuestionSession {
+  sessionId: string;
+  userId: string;
+  learningPlanItemId: number | null;
+  topics: Topic[];
+  questions: Question[];
+  createdAt: string;
+}
+
 // ============================================================================
 // AI CONFIGURATION
 // ============================================================================
@@ -100,8 +130,30 @@ export type ModelTier = 'light' | 'standard' | 'heavy';
 // EVALUATION TYPES
 // ============================================================================
 
+export type RubricCriterion = 'approach' | 'calculation' | 'result' | 'notation';
+
+/** One assessed criterion; criteria that cannot be judged are left out */
+export interface RubricCriterionScore {
+  criterion: RubricCriterion;
+  /** Weight after normalizing over the assessed criteria */
+  weight: number;
+  /** 0…1 */
+  score: number;
+  comment?: string;
+}
+
+export interface RubricBreakdown {
+  criteria: RubricCriterionScore[];
+  /** Weighted score 0…1; XP and coins scale by it */
+  score: number;
+  steps?: Array<{ stepNumber: number; weight: number; correct: boolean }>;
+}
+
 export interface AnswerEvaluation {
   isCorrect: boolean;
+  /** Fractional score 0…1 (1 = fully correct) */
+  score: number;
+  rubric: RubricBreakdown;
   feedback: string;
   correctAnswer: string | string[] | null;
   xpEarned: number;
@@ -113,6 +165,8 @@ export interface AnswerEvaluation {
     timeBonus?: number;
     streakBonus?: number;
     equivalenceBonus?: number;
+    /** Base XP share earned, score < 1 */
+    partialCredit?: number;
     total: number;
   };
   coinBreakdown: {
@@ -129,6 +183,15 @@ export interface AnswerEvaluation {
   }>;
   equivalenceResult?: any;
   streakFrozen?: boolean;
+  /** The AI grader was not confident; a teacher reviews the answer, no XP yet */
+  pendingReview?: boolean;
+  /** Present when an open answer was graded by the AI */
+  aiGrading?: {
+    confidence: number;
+    /** Quotes from the student's answer supporting the verdict */
+    evidence: string[];
+    model: string;
+  };
 }
 
 // ============================================================================
@@ -137,11 +200,14 @@ export interface AnswerEvaluation {
 
 export class APIError extends Error {
   statusCode: number;
+  /** Machine-readable error code for clients, e.g. 'AI_TIMEOUT' */
+  code?: string;
 
-  constructor(message: string, statusCode: number = 500) {
+  constructor(message: string, statusCode: number = 500, code?: string) {
     super(message);
     this.name = 'APIError';
     this.statusCode = statusCode;
+    this.code = code;
   }
 }
 
@@ -171,6 +237,13 @@ export interface Memory {
   lastReviewed: string;
   nextReview: string;
   repetitions: number;
-  easeFactor: number;
+  lapses: number;
+  /** Days between lastReviewed and nextReview */
   interval: number;
+  /** FSRS state, null until the first review (see utils/fsrs.ts) */
+  fsrs: { stability: number; difficulty: number } | null;
+  /** 1 again, 2 hard, 3 good, 4 easy */
+  lastRating: 1 | 2 | 3 | 4 | null;
+  /** Suspended items are never due (manage-memories suspend-topic) */
+  suspended: boolean;
 }
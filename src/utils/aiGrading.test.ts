@@ -0,0 +1,90 @@
+// src/utils/aiGrading.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Env } from '../index'
+import { GradingResponseError, gradeWithAI, parseGradingResponse } from './aiGrading'
+import { callAIForTask } from './callAI'
+
+vi.mock('./callAI', () => ({
+  callAIForTask: vi.fn(),
+  loadModelConfig: vi.fn(async () => ({ features: { aiGrading: { minConfidence: 0.75 } } })),
+}))
+
+const mockEnv = {} as Env
+const ANSWER = 'Die Ableitung ist f\'(x) = 3x^2 + 1. Das ist immer größer als 0, also steigt f streng monoton.'
+
+const verdict = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    isCorrect: true,
+    criteria: {
+      approach: { score: 1, comment: 'Ableitung als Ansatz' },
+      calculation: { score: 1 },
+      result: { score: 1 },
+      notation: { score: null },
+    },
+    confidence: 0.9,
+    evidence: ['immer größer als 0'],
+    feedback: 'Saubere Begründung.',
+    ...overrides,
+  })
+
+describe('parseGradingResponse', () => {
+  it('reads a valid verdict and skips unscored criteria', () => {
+    const result = parseGradingResponse(`\`\`\`json\n${verdict()}\n\`\`\``, ANSWER)
+    expect(result.isCorrect).toBe(true)
+    expect(result.criteria.map((c) => c.criterion)).toEqual(['approach', 'calculation', 'result'])
+    expect(result.confidence).toBe(0.9)
+    expect(result.evidence).toEqual(['immer größer als 0'])
+  })
+
+  it('lowers the confidence for quotes not found in the answer', () => {
+    const result = parseGradingResponse(
+      verdict({ evidence: ['immer  größer als 0', 'f ist eine Parabel'] }),
+      ANSWER
+    )
+    expect(result.confidence).toBe(0.45)
+    expect(result.evidence).toHaveLength(1)
+    expect(parseGradingResponse(verdict({ evidence: [] }), ANSWER).confidence).toBe(0)
+  })
+
+  it('rejects responses that do not match the schema', () => {
+    expect(() => parseGradingResponse('Die Antwort ist richtig.', ANSWER)).toThrow(GradingResponseError)
+    expect(() => parseGradingResponse(verdict({ confidence: 'hoch' }), ANSWER)).toThrow(GradingResponseError)
+    expect(() => parseGradingResponse(verdict({ criteria: { result: { score: 2 } } }), ANSWER)).toThrow(
+      GradingResponseError
+    )
+  })
+})
+
+describe('gradeWithAI', () => {
+  const input = { question: 'Zeige, dass f streng monoton steigt.', expectedAnswer: 'f\'(x) > 0', userAnswer: ANSWER }
+  const respond = (response: string) =>
+    vi.mocked(callAIForTask).mockResolvedValueOnce({
+      response,
+      provider: 'gemini',
+      model: 'gemini-flash-latest',
+      usage: { inputTokens: 1, outputTokens: 1 },
+    } as any)
+
+  beforeEach(() => {
+    vi.mocked(callAIForTask).mockReset()
+  })
+
+  it('returns a rubric for a confident verdict', async () => {
+    respond(verdict())
+    const result = await gradeWithAI(input, mockEnv, { uid: 'u1' })
+    expect(result.needsReview).toBe(false)
+    if (!result.needsReview) expect(result.rubric.score).toBe(1)
+    expect(vi.mocked(callAIForTask).mock.calls[0][0]).toBe('evaluateAnswer')
+  })
+
+  it('flags low confidence, invalid responses and AI failures for review', async () => {
+    respond(verdict({ confidence: 0.5 }))
+    expect(await gradeWithAI(input, mockEnv)).toMatchObject({ needsReview: true, reason: 'low_confidence' })
+
+    respond('kein JSON')
+    expect(await gradeWithAI(input, mockEnv)).toMatchObject({ needsReview: true, reason: 'invalid_response' })
+
+    vi.mocked(callAIForTask).mockRejectedValueOnce(new Error('timeout'))
+    expect(await gradeWithAI(input, mockEnv)).toMatchObject({ needsReview: true, reason: 'ai_error' })
+  })
+})
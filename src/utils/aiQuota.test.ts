@@ -0,0 +1,324 @@
+// src/utils/aiQuota.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+import type { StudentEnv } from './verifyStudentToken'
+import {
+  aiQuota,
+  aiScope,
+  aiUsageScope,
+  effectiveLimits,
+  evaluateQuota,
+  periodResetAt,
+  schoolTaskQuota,
+  validateQuotaOverride,
+  type QuotaWindowUsage,
+} from './aiQuota'
+
+vi.mock('./firebaseAuth', () => ({
+  getFirebaseConfig: vi.fn(async () => ({ projectId: 'test-proj', accessToken: 'test-token' })),
+}))
+
+const mockEnv = { FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: 'test-proj' }) } as Env
+const NOW = new Date('2026-10-18T09:00:00.000Z')
+
+const window = (overrides: Partial<QuotaWindowUsage>): QuotaWindowUsage => ({
+  scope: 'user',
+  period: 'daily',
+  limits: { requests: 10, tokens: 1000 },
+  used: { requests: 0, tokens: 0 },
+  ...overrides,
+})
+
+describe('periodResetAt', () => {
+  it('resets at the next UTC midnight and month start', () => {
+    expect(periodResetAt('daily', NOW).toISOString()).toBe('2026-10-19T00:00:00.000Z')
+    expect(periodResetAt('monthly', new Date('2026-12-31T23:00:00.000Z')).toISOString()).toBe(
+      '2027-01-01T00:00:00.000Z'
+    )
+  })
+})
+
+describe('effectiveLimits', () => {
+  it('takes the most generous override but never lowers or adds limits', () => {
+    const limits = effectiveLimits({ daily: { requests: 5 } }, [
+      { daily: { requests: 3, tokens: 999 } },
+      { daily: { requests: 8 }, monthly: { requests: 100 } },
+      undefined,
+    ])
+    expect(limits).toEqual({ daily: { requests: 8 } })
+  })
+})
+
+describe('evaluateQuota', () => {
+  it('reports the tightest remaining budget', () => {
+    const decision = evaluateQuota(
+      [
+        window({ used: { requests: 7, tokens: 100 } }),
+        window({ period: 'monthly', limits: { requests: 100, tokens: 5000 }, used: { requests: 7, tokens: 4500 } }),
+      ],
+      NOW
+    )
+    expect(decision).toMatchObject({ allowed: true, remainingRequests: 2, remainingTokens: 500 })
+    expect(decision.resetAt?.toISOString()).toBe('2026-10-19T00:00:00.000Z')
+  })
+
+  it('blocks on the exhausted window that resets last', () => {
+    const decision = evaluateQuota(
+      [
+        window({ used: { requests: 10, tokens: 0 } }),
+        window({ scope: 'class', classId: 'cls-1', period: 'monthly', used: { requests: 0, tokens: 1000 } }),
+      ],
+      NOW
+    )
+    expect(decision.allowed).toBe(false)
+    expect(decision.exceeded).toMatchObject({ scope: 'class', period: 'monthly' })
+    expect(decision.resetAt?.toISOString()).toBe('2026-11-01T00:00:00.000Z')
+  })
+
+  it('allows everything when no windows apply', () => {
+    expect(evaluateQuota([], NOW)).toEqual({
+      allowed: true,
+      remainingRequests: null,
+      remainingTokens: null,
+      resetAt: null,
+    })
+  })
+})
+
+describe('schoolTaskQuota', () => {
+  const defaults = {
+    user: { daily: { requests: 20, tokens: 400000 }, monthly: { requests: 300 } },
+    class: { daily: { requests: 400 } },
+  }
+
+  it('keeps every default the school leaves out', () => {
+    expect(schoolTaskQuota(defaults, [{}])).toEqual(defaults)
+    expect(schoolTaskQuota(defaults, [{ user: { daily: { requests: 5 } } }])).toEqual({
+      ...defaults,
+      user: { daily: { requests: 5, tokens: 400000 }, monthly: { requests: 300 } },
+    })
+    expect(schoolTaskQuota(defaults, [])).toEqual(defaults)
+  })
+
+  it('takes the strictest limit across several schools', () => {
+    const quota = schoolTaskQuota(defaults, [
+      { user: { daily: { requests: 50 } } },
+      { user: { daily: { requests: 10, tokens: 800000 } } },
+    ])
+    expect(quota?.user?.daily).toEqual({ requests: 10, tokens: 400000 })
+  })
+})
+
+describe('validateQuotaOverride', () => {
+  const defaults = { daily: { requests: 20 } }
+
+  it('accepts raises up to the factor', () => {
+    expect(validateQuotaOverride(defaults, { daily: { requests: 200 } }, 10)).toBeNull()
+    expect(validateQuotaOverride(defaults, undefined, 10)).toBeNull()
+  })
+
+  it('rejects lowering, exceeding the factor and limits without a default', () => {
+    expect(validateQuotaOverride(defaults, { daily: { requests: 10 } }, 10)).toMatch(/between 20 and 200/)
+    expect(validateQuotaOverride(defaults, { daily: { requests: 201 } }, 10)).toMatch(/between 20 and 200/)
+    expect(validateQuotaOverride(defaults, { daily: { tokens: 500 } }, 10)).toMatch(/No daily tokens/)
+    expect(validateQuotaOverride(defaults, { monthly: { requests: 50 } }, 10)).toMatch(/No monthly/)
+  })
+})
+
+describe('aiQuota middleware', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  function makeApp() {
+    const app = new Hono<StudentEnv>()
+    app.use('*', async (c, next) => { c.set('studentUid', 'student-1'); await next() })
+    app.post('/', aiQuota('generateQuestions'), (c) => c.json({ classIds: c.get('aiClassIds') }))
+    return app
+  }
+
+  const usageDoc = (requests: number) => ({
+    fields: {
+      tasks: {
+        mapValue: {
+          fields: {
+            generateQuestions: { mapValue: { fields: { requests: { integerValue: String(requests) } } } },
+          },
+        },
+      },
+    },
+  })
+
+  /** Route Firestore REST calls by URL: one class, and the given user day count */
+  function stubFirestore(userDailyRequests: number, classOverride?: number, schoolFields?: Record<string, unknown>) {
+    const classFields: Record<string, unknown> = {}
+    if (classOverride) {
+      classFields.aiQuotas = {
+        mapValue: {
+          fields: {
+            generateQuestions: {
+              mapValue: {
+                fields: {
+                  user: {
+                    mapValue: {
+                      fields: {
+                        daily: { mapValue: { fields: { requests: { integerValue: String(classOverride) } } } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }
+    }
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.endsWith(':runQuery')) {
+        return new Response(
+          JSON.stringify([{ document: { name: 'projects/p/databases/(default)/documents/classes/cls-1', fields: classFields } }])
+        )
+      }
+      if (url.includes('users/student-1/aiUsage/2026-10-18')) {
+        return new Response(JSON.stringify(usageDoc(userDailyRequests)))
+      }
+      if (schoolFields && url.endsWith('schools/mvl')) {
+        return new Response(JSON.stringify({ fields: schoolFields }))
+      }
+      return new Response('{}', { status: 404 })
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    return fetchMock
+  }
+
+  it('passes with remaining-quota headers and exposes the class ids', async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] })
+    stubFirestore(5)
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('X-Quota-Remaining-Requests')).toBe('14') // 20 - 5 - this one
+    expect(res.headers.get('X-Quota-Reset')).toBe(String(Date.parse('2026-10-19T00:00:00.000Z')))
+    expect(await res.json()).toEqual({ classIds: ['cls-1'] })
+  })
+
+  it('returns 429 with Retry-After once the daily user quota is spent', async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] })
+    stubFirestore(20)
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(res.status).toBe(429)
+    expect(res.headers.get('Retry-After')).toBe(String(15 * 3600))
+    expect(await res.json()).toMatchObject({ code: 'AI_QUOTA_EXCEEDED', scope: 'user', period: 'daily' })
+  })
+
+  it('honours a teacher override raising the user limit', async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] })
+    stubFirestore(20, 40)
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('X-Quota-Remaining-Requests')).toBe('19')
+  })
+
+  it('keeps the default limit a school quota leaves out', async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] })
+    // The school admin tried to unset the user limits of the task
+    stubFirestore(20, undefined, {
+      aiQuotas: { mapValue: { fields: { generateQuestions: { mapValue: { fields: { user: { mapValue: { fields: {} } } } } } } } },
+    })
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(res.status).toBe(429)
+  })
+
+  it('fails open when the counters cannot be read', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.endsWith(':runQuery')) {
+        return new Response(JSON.stringify([{ document: { name: 'projects/p/databases/(default)/documents/classes/cls-1', fields: {} } }]))
+      }
+      if (url.includes('/aiUsage/')) return new Response('boom', { status: 500 })
+      return new Response('{}', { status: 404 })
+    }))
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(res.status).toBe(200)
+  })
+
+  it('refuses the request when the classes cannot be looked up', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('boom', { status: 500 })))
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(res.status).toBe(503)
+    expect(await res.json()).toMatchObject({ code: 'AI_SCOPE_UNAVAILABLE' })
+  })
+})
+
+describe('aiScope middleware', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  function makeApp() {
+    const app = new Hono<StudentEnv>()
+    app.use('*', async (c, next) => { c.set('studentUid', 'student-1'); await next() })
+    app.post('/', aiScope(), (c) => c.json(aiUsageScope(c)))
+    return app
+  }
+
+  const classRow = (id: string, schoolId: string) => ({
+    document: {
+      name: `projects/p/databases/(default)/documents/classes/${id}`,
+      fields: { schoolId: { stringValue: schoolId } },
+    },
+  })
+  const providers = (...names: string[]) => ({
+    fields: { allowedProviders: { arrayValue: { values: names.map((stringValue) => ({ stringValue })) } } },
+  })
+
+  it('resolves the classes and the school\'s allowed providers for routes without a quota', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.endsWith(':runQuery')) return new Response(JSON.stringify([classRow('cls-1', 'gym-nord')]))
+      if (url.endsWith('schools/gym-nord')) return new Response(JSON.stringify(providers('gemini')))
+      return new Response('{}', { status: 404 })
+    }))
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(await res.json()).toEqual({ uid: 'student-1', classIds: ['cls-1'], allowedProviders: ['gemini'] })
+  })
+
+  it('allows only the providers every school of the student permits', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.endsWith(':runQuery')) {
+        return new Response(JSON.stringify([classRow('cls-1', 'gym-nord'), classRow('cls-2', 'gym-sued'), classRow('cls-3', 'mvl')]))
+      }
+      if (url.endsWith('schools/gym-nord')) return new Response(JSON.stringify(providers('claude', 'gemini')))
+      if (url.endsWith('schools/gym-sued')) return new Response(JSON.stringify(providers('gemini', 'mistral')))
+      return new Response('{}', { status: 404 })
+    }))
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(await res.json()).toMatchObject({ classIds: ['cls-1', 'cls-2', 'cls-3'], allowedProviders: ['gemini'] })
+  })
+
+  it('refuses the request when the school cannot be looked up', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.endsWith(':runQuery')) return new Response(JSON.stringify([classRow('cls-1', 'gym-nord')]))
+      return new Response('boom', { status: 500 })
+    }))
+
+    const res = await makeApp().fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+
+    expect(res.status).toBe(503)
+  })
+})
@@ -0,0 +1,418 @@
+/**
+ * Per-user and per-class AI quotas.
+ * Limits are configured per task in models.json (`quota.user` / `quota.class`,
+ * each with optional `daily` and `monthly` request and token caps) and checked
+ * against the counters written by aiUsage.ts. Teachers can raise the limits
+ * for their class (ClassDoc.aiQuotas); a student in several classes gets the
+ * most generous user limits among them.
+ *
+ * A school can change the models.json defaults per limit (SchoolDoc.aiQuotas)
+ * and restrict the providers its students' calls may use
+ * (SchoolDoc.allowedProviders); the student's schools are those of their
+ * classes. Without the classes and schools the restriction cannot be applied,
+ * so a failed lookup refuses the request with 503.
+ *
+ * The check runs before the AI call and tokens are only known afterwards, so
+ * concurrent requests can overshoot a limit by a few calls.
+ */
+
+import type { Context, MiddlewareHandler } from 'hono';
+import type { StudentEnv } from './verifyStudentToken';
+import type { AIProviderType, TaskCallOptions } from './callAI';
+import { getTaskModelConfig } from './callAI';
+import { usagePeriodKeys, type AIUsageDoc } from './aiUsage';
+import { getFirebaseConfig } from './firebaseAuth';
+import { fsGet, fsQuery } from './firestore';
+import { getSchool, LEGACY_SCHOOL_ID, type SchoolDoc } from './schools';
+
+export interface QuotaLimits {
+  requests?: number;
+  tokens?: number;
+}
+
+export interface QuotaWindows {
+  daily?: QuotaLimits;
+  monthly?: QuotaLimits;
+}
+
+export interface TaskQuota {
+  user?: QuotaWindows;
+  class?: QuotaWindows;
+}
+
+export type QuotaScope = 'user' | 'class';
+export type QuotaPeriod = keyof QuotaWindows;
+
+const SCOPES: QuotaScope[] = ['user', 'class'];
+const PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+const DIMENSIONS: Array<keyof QuotaLimits> = ['requests', 'tokens'];
+
+/** One limit window together with what has been spent in it */
+export interface QuotaWindowUsage {
+  scope: QuotaScope;
+  period: QuotaPeriod;
+  classId?: string;
+  limits: QuotaLimits;
+  used: { requests: number; tokens: number };
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  /** Requests left after this one in the tightest window; null if unlimited */
+  remainingRequests: number | null;
+  remainingTokens: number | null;
+  /** Reset of the tightest (or, when blocked, the blocking) window */
+  resetAt: Date | null;
+  exceeded?: QuotaWindowUsage;
+}
+
+/** Start of the next UTC day or month */
+export function periodResetAt(period: QuotaPeriod, now: Date = new Date()): Date {
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  return period === 'daily'
+    ? new Date(Date.UTC(y, m, now.getUTCDate() + 1))
+    : new Date(Date.UTC(y, m + 1, 1));
+}
+
+/**
+ * Defaults raised by class overrides. Overrides can only raise a limit, and
+ * only where a default exists — a dimension without a default stays unlimited.
+ */
+export function effectiveLimits(
+  defaults: QuotaWindows | undefined,
+  overrides: Array<QuotaWindows | undefined>
+): QuotaWindows {
+  const result: QuotaWindows = {};
+  for (const period of PERIODS) {
+    const base = defaults?.[period];
+    if (!base) continue;
+    const limits: QuotaLimits = {};
+    for (const dim of DIMENSIONS) {
+      if (base[dim] === undefined) continue;
+      limits[dim] = Math.max(base[dim]!, ...overrides.map((o) => o?.[period]?.[dim] ?? 0));
+    }
+    result[period] = limits;
+  }
+  return result;
+}
+
+/**
+ * The task's quota under the schools' settings. Each limit is the school's
+ * value where it sets one and the models.json default otherwise, so a school
+ * can change limits but never remove them. A student whose classes belong to
+ * several schools gets the strictest value among them.
+ */
+export function schoolTaskQuota(
+  defaults: TaskQuota | undefined,
+  schoolQuotas: Array<TaskQuota | undefined>
+): TaskQuota | undefined {
+  const result: TaskQuota = {};
+  for (const scope of SCOPES) {
+    for (const period of PERIODS) {
+      for (const dim of DIMENSIONS) {
+        const base = defaults?.[scope]?.[period]?.[dim];
+        const values = (schoolQuotas.length > 0 ? schoolQuotas : [undefined])
+          .map((q) => q?.[scope]?.[period]?.[dim] ?? base)
+          .filter((v): v is number => v !== undefined);
+        if (values.length === 0) continue;
+        ((result[scope] ??= {})[period] ??= {})[dim] = Math.min(...values);
+      }
+    }
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Check a teacher's override against the task defaults. Every limit must be
+ * an integer between the default and `maxFactor` times the default, and can
+ * only be set where a default exists. Returns an error message or null.
+ */
+export function validateQuotaOverride(
+  defaults: QuotaWindows | undefined,
+  override: unknown,
+  maxFactor: number
+): string | null {
+  if (override === undefined) return null;
+  if (typeof override !== 'object' || override === null) return 'Quota override must be an object';
+
+  for (const [period, limits] of Object.entries(override)) {
+    const base = defaults?.[period as QuotaPeriod];
+    if (!PERIODS.includes(period as QuotaPeriod) || !base) {
+      return `No ${period} quota to override`;
+    }
+    if (typeof limits !== 'object' || limits === null) return `${period} limits must be an object`;
+
+    for (const [dim, value] of Object.entries(limits)) {
+      const min = base[dim as keyof QuotaLimits];
+      if (!DIMENSIONS.includes(dim as keyof QuotaLimits) || min === undefined) {
+        return `No ${period} ${dim} quota to override`;
+      }
+      const max = min * maxFactor;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        return `${period} ${dim} must be an integer between ${min} and ${max}`;
+      }
+    }
+  }
+  return null;
+}
+
+function isExceeded({ limits, used }: QuotaWindowUsage): boolean {
+  return (
+    (limits.requests !== undefined && used.requests >= limits.requests) ||
+    (limits.tokens !== undefined && used.tokens >= limits.tokens)
+  );
+}
+
+export function evaluateQuota(windows: QuotaWindowUsage[], now: Date = new Date()): QuotaDecision {
+  const exceeded = windows
+    .filter(isExceeded)
+    .sort((a, b) => periodResetAt(b.period, now).getTime() - periodResetAt(a.period, now).getTime());
+
+  if (exceeded.length > 0) {
+    return {
+      allowed: false,
+      remainingRequests: 0,
+      remainingTokens: 0,
+      resetAt: periodResetAt(exceeded[0].period, now),
+      exceeded: exceeded[0],
+    };
+  }
+
+  let remainingRequests: number | null = null;
+  let remainingTokens: number | null = null;
+  let resetAt: Date | null = null;
+
+  for (const w of windows) {
+    if (w.limits.requests !== undefined) {
+      const left = Math.max(0, w.limits.requests - w.used.requests - 1);
+      if (remainingRequests === null || left < remainingRequests) {
+        remainingRequests = left;
+        resetAt = periodResetAt(w.period, now);
+      }
+    }
+    if (w.limits.tokens !== undefined) {
+      const left = Math.max(0, w.limits.tokens - w.used.tokens);
+      remainingTokens = remainingTokens === null ? left : Math.min(remainingTokens, left);
+    }
+  }
+
+  return { allowed: true, remainingRequests, remainingTokens, resetAt };
+}
+
+function taskUsage(doc: Record<string, unknown> | null, taskName: string) {
+  const counters = (doc as AIUsageDoc | null)?.tasks?.[taskName];
+  return {
+    requests: Number(counters?.requests ?? 0),
+    tokens: Number(counters?.inputTokens ?? 0) + Number(counters?.outputTokens ?? 0),
+  };
+}
+
+interface QuotaClass {
+  id: string;
+  schoolId?: string;
+  aiQuotas?: Record<string, TaskQuota>;
+}
+
+/** Classes the student is enrolled in */
+async function findStudentClasses(
+  projectId: string,
+  accessToken: string,
+  uid: string
+): Promise<QuotaClass[]> {
+  const rows = await fsQuery(projectId, accessToken, '', {
+    from: [{ collectionId: 'classes' }],
+    where: {
+      fieldFilter: {
+        field: { fieldPath: 'studentIds' },
+        op: 'ARRAY_CONTAINS',
+        value: { stringValue: uid },
+      },
+    },
+    select: { fields: [{ fieldPath: 'aiQuotas' }, { fieldPath: 'schoolId' }] },
+    limit: 20,
+  });
+  return rows as unknown as QuotaClass[];
+}
+
+/** The schools of the student's classes */
+function findStudentSchools(
+  projectId: string,
+  accessToken: string,
+  classes: QuotaClass[]
+): Promise<SchoolDoc[]> {
+  const schoolIds = [...new Set(classes.map((cls) => cls.schoolId ?? LEGACY_SCHOOL_ID))];
+  return Promise.all(schoolIds.map((id) => getSchool(projectId, accessToken, id)));
+}
+
+/** Providers every one of the schools permits; undefined when none restricts them */
+function intersectAllowedProviders(schools: SchoolDoc[]): AIProviderType[] | undefined {
+  const lists = schools
+    .map((school) => school.allowedProviders)
+    .filter((list): list is AIProviderType[] => list !== null);
+  if (lists.length === 0) return undefined;
+  return lists.reduce((allowed, list) => allowed.filter((p) => list.includes(p)));
+}
+
+interface StudentScope {
+  projectId: string;
+  accessToken: string;
+  classes: QuotaClass[];
+  schools: SchoolDoc[];
+}
+
+/**
+ * Look up the student's classes and schools and set `aiClassIds` so the
+ * handler can bill usage to the classes, and `aiAllowedProviders` when a
+ * school restricts providers (see aiUsageScope). A student in classes of
+ * several schools may only use the providers all of them allow.
+ */
+async function resolveStudentScope(c: Context<StudentEnv>): Promise<StudentScope> {
+  const { projectId, accessToken } = await getFirebaseConfig(c.env);
+  const classes = await findStudentClasses(projectId, accessToken, c.get('studentUid'));
+  const schools = await findStudentSchools(projectId, accessToken, classes);
+  c.set('aiClassIds', classes.map((cls) => cls.id));
+  const allowedProviders = intersectAllowedProviders(schools);
+  if (allowedProviders) c.set('aiAllowedProviders', allowedProviders);
+  return { projectId, accessToken, classes, schools };
+}
+
+function scopeUnavailable(c: Context<StudentEnv>, error: unknown): Response {
+  console.error('[aiQuota] Scope lookup failed, refusing request:', error);
+  return c.json(
+    { success: false, error: 'AI is temporarily unavailable', code: 'AI_SCOPE_UNAVAILABLE' },
+    503
+  );
+}
+
+/**
+ * For AI routes without a quota: resolves the usage scope like aiQuota, so
+ * the school's provider restriction applies to every student AI call.
+ */
+export function aiScope(): MiddlewareHandler<StudentEnv> {
+  return async (c, next) => {
+    try {
+      await resolveStudentScope(c);
+    } catch (error) {
+      return scopeUnavailable(c, error);
+    }
+    await next();
+  };
+}
+
+/**
+ * Enforce the task's quota before the handler runs, after resolving the
+ * usage scope (see resolveStudentScope).
+ * Accounting outages fail open: a learner is never blocked because the
+ * counters could not be read. A failed scope lookup does not (see aiScope).
+ */
+export function aiQuota(
+  task: string | ((c: Context<StudentEnv>) => Promise<string>)
+): MiddlewareHandler<StudentEnv> {
+  return async (c, next) => {
+    const taskName = typeof task === 'string' ? task : await task(c);
+    const uid = c.get('studentUid');
+    const now = new Date();
+
+    let scope: StudentScope;
+    try {
+      scope = await resolveStudentScope(c);
+    } catch (error) {
+      return scopeUnavailable(c, error);
+    }
+    const { projectId, accessToken, classes, schools } = scope;
+
+    let decision: QuotaDecision;
+    try {
+      const { quota: taskQuota } = await getTaskModelConfig(taskName);
+      const quota = schoolTaskQuota(
+        taskQuota,
+        schools.map((school) => school.aiQuotas?.[taskName])
+      );
+      if (!quota) return next();
+
+      const keys = usagePeriodKeys(now);
+      const usageDocs = (parent: string) =>
+        Promise.all([
+          fsGet(projectId, accessToken, `${parent}/aiUsage/${keys.day}`),
+          fsGet(projectId, accessToken, `${parent}/aiUsage/${keys.month}`),
+        ]);
+
+      const [userDocs, classDocs] = await Promise.all([
+        usageDocs(`users/${uid}`),
+        Promise.all(classes.map((cls) => usageDocs(`classes/${cls.id}`))),
+      ]);
+
+      const userLimits = effectiveLimits(
+        quota.user,
+        classes.map((cls) => cls.aiQuotas?.[taskName]?.user)
+      );
+      const windows: QuotaWindowUsage[] = [];
+      PERIODS.forEach((period, i) => {
+        const limits = userLimits[period];
+        if (limits) windows.push({ scope: 'user', period, limits, used: taskUsage(userDocs[i], taskName) });
+      });
+      classes.forEach((cls, ci) => {
+        const classLimits = effectiveLimits(quota.class, [cls.aiQuotas?.[taskName]?.class]);
+        PERIODS.forEach((period, i) => {
+          const limits = classLimits[period];
+          if (limits) {
+            windows.push({
+              scope: 'class',
+              period,
+              classId: cls.id,
+              limits,
+              used: taskUsage(classDocs[ci][i], taskName),
+            });
+          }
+        });
+      });
+
+      decision = evaluateQuota(windows, now);
+    } catch (error) {
+      console.error(`[aiQuota] Quota check failed for ${taskName}, allowing request:`, error);
+      return next();
+    }
+
+    if (decision.remainingRequests !== null) {
+      c.header('X-Quota-Remaining-Requests', String(decision.remainingRequests));
+    }
+    if (decision.remainingTokens !== null) {
+      c.header('X-Quota-Remaining-Tokens', String(decision.remainingTokens));
+    }
+    if (decision.resetAt) {
+      c.header('X-Quota-Reset', String(decision.resetAt.getTime()));
+    }
+
+    if (!decision.allowed) {
+      const { scope, period } = decision.exceeded!;
+      const retryAfter = Math.ceil((decision.resetAt!.getTime() - now.getTime()) / 1000);
+      console.warn(`[aiQuota] ${taskName} ${scope} ${period} quota exceeded for uid=${uid}`);
+      return c.json(
+        {
+          success: false,
+          error: 'AI quota exceeded',
+          code: 'AI_QUOTA_EXCEEDED',
+          scope,
+          period,
+          retryAfter,
+        },
+        429,
+        { 'Retry-After': String(retryAfter) }
+      );
+    }
+
+    await next();
+  };
+}
+
+/** Usage attribution and the school's provider restriction for task calls behind aiQuota or aiScope */
+export function aiUsageScope(
+  c: Context<StudentEnv>
+): Pick<TaskCallOptions, 'uid' | 'classIds' | 'allowedProviders'> {
+  return {
+    uid: c.get('studentUid'),
+    classIds: c.get('aiClassIds'),
+    allowedProviders: c.get('aiAllowedProviders'),
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { buildUsageWrites, usagePeriodKeys } from './aiUsage'
+
+const record = {
+  taskName: 'generateMiniApp',
+  provider: 'claude' as const,
+  model: 'claude-sonnet-4-6',
+  usage: { inputTokens: 1200, outputTokens: 800 },
+  costUsd: 0.0156,
+}
+
+describe('usagePeriodKeys', () => {
+  it('uses UTC day and month keys', () => {
+    expect(usagePeriodKeys(new Date('2026-03-31T23:30:00.000Z'))).toEqual({
+      day: '2026-03-31',
+      month: '2026-03',
+    })
+  })
+})
+
+describe('buildUsageWrites', () => {
+  it('increments totals, task and provider counters on the day and month docs', () => {
+    const now = new Date('2026-10-18T09:00:00.000Z')
+    const writes = buildUsageWrites('users/u1', record, now)
+
+    expect(writes.map((w) => w.path)).toEqual(['users/u1/aiUsage/2026-10-18', 'users/u1/aiUsage/2026-10'])
+    expect(writes[1].data).toEqual({ period: 'month', periodKey: '2026-10', updatedAt: now })
+    expect(writes[1].updateMask).toEqual(['period', 'periodKey', 'updatedAt'])
+    expect(writes[0].increments).toMatchObject({
+      requests: 1,
+      inputTokens: 1200,
+      outputTokens: 800,
+      costUsd: 0.0156,
+      'tasks.generateMiniApp.requests': 1,
+      'tasks.generateMiniApp.outputTokens': 800,
+      'providers.claude.costUsd': 0.0156,
+    })
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * AI usage accounting.
+ * Every task call made on behalf of a user increments two counter documents:
+ *   users/{uid}/aiUsage/{YYYY-MM-DD}   (day, UTC)
+ *   users/{uid}/aiUsage/{YYYY-MM}      (month, UTC)
+ * and the same pair under classes/{classId}/aiUsage for each class the call
+ * is billed to (see aiQuota.ts). Each holds totals plus `tasks.{taskName}`
+ * and `providers.{provider}` breakdowns. Counters use server-side
+ * increments, so concurrent calls never lose updates.
+ */
+
+import type { Env } from '../index';
+import type { AIProviderType, AIUsage } from './callAI';
+import { getFirebaseConfig } from './firebaseAuth';
+import { fsCommit, type FsWrite } from './firestore';
+import { scopedPath } from './userRepository';
+
+export interface UsageCounters {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface AIUsageDoc extends UsageCounters {
+  period: 'day' | 'month';
+  periodKey: string;
+  tasks: Record<string, UsageCounters>;
+  providers: Record<string, UsageCounters>;
+  updatedAt: string;
+}
+
+export interface AIUsageRecord {
+  taskName: string;
+  provider: AIProviderType;
+  model: string;
+  usage: AIUsage;
+  costUsd: number;
+}
+
+export const USAGE_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/** UTC day and month document IDs for a point in time */
+export function usagePeriodKeys(now: Date = new Date()): { day: string; month: string } {
+  const day = now.toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+}
+
+function counterIncrements(prefix: string, record: AIUsageRecord): Record<string, number> {
+  return {
+    [`${prefix}requests`]: 1,
+    [`${prefix}inputTokens`]: record.usage.inputTokens,
+    [`${prefix}outputTokens`]: record.usage.outputTokens,
+    [`${prefix}costUsd`]: record.costUsd,
+  };
+}
+
+/** Writes that add one call to the day and month counters under `parent` */
+export function buildUsageWrites(
+  parent: string,
+  record: AIUsageRecord,
+  now: Date = new Date()
+): FsWrite[] {
+  const keys = usagePeriodKeys(now);
+  const increments = {
+    ...counterIncrements('', record),
+    ...counterIncrements(`tasks.${record.taskName}.`, record),
+    ...counterIncrements(`providers.${record.provider}.`, record),
+  };
+
+  return (['day', 'month'] as const).map((period) => ({
+    path: `${parent}/aiUsage/${keys[period]}`,
+    data: { period, periodKey: keys[period], updatedAt: now },
+    updateMask: ['period', 'periodKey', 'updatedAt'],
+    increments,
+  }));
+}
+
+export async function recordAIUsage(
+  env: Env,
+  uid: string,
+  record: AIUsageRecord,
+  classIds: string[] = [],
+  now: Date = new Date()
+): Promise<void> {
+  const { projectId, accessToken } = await getFirebaseConfig(env);
+  await fsCommit(projectId, accessToken, [
+    ...buildUsageWrites(scopedPath(uid, ''), record, now),
+    ...classIds.flatMap((classId) => buildUsageWrites(`classes/${classId}`, record, now)),
+  ]);
+}
+
+export function emptyCounters(): UsageCounters {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+/** Add `source` counters onto `target` in place */
+export function addCounters(target: UsageCounters, source: Partial<UsageCounters> | undefined): void {
+  if (!source) return;
+  target.requests += Number(source.requests ?? 0);
+  target.inputTokens += Number(source.inputTokens ?? 0);
+  target.outputTokens += Number(source.outputTokens ?? 0);
+  target.costUsd += Number(source.costUsd ?? 0);
+}
+
+export type UsageBreakdown = UsageCounters & { costSharePct: number; tokenSharePct: number };
+
+/** Add per-key counters (e.g. a doc's `tasks`) onto the groups in `target` */
+export function addGroups(target: Map<string, UsageCounters>, source: Record<string, UsageCounters> | undefined): void {
+  for (const [key, counters] of Object.entries(source ?? {})) {
+    if (!target.has(key)) target.set(key, emptyCounters());
+    addCounters(target.get(key)!, counters);
+  }
+}
+
+/** Groups with their share of the total cost and tokens, in percent */
+export function withShares(
+  groups: Map<string, UsageCounters>,
+  totals: UsageCounters
+): Record<string, UsageBreakdown> {
+  const totalTokens = totals.inputTokens + totals.outputTokens;
+  const pct = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+  const result: Record<string, UsageBreakdown> = {};
+  for (const [key, counters] of groups) {
+    result[key] = {
+      ...counters,
+      costSharePct: pct(counters.costUsd, totals.costUsd),
+      tokenSharePct: pct(counters.inputTokens + counters.outputTokens, totalTokens),
+    };
+  }
+  return result;
+}
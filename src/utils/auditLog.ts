@@ -0,0 +1,52 @@
+// src/utils/auditLog.ts
+/**
+ * Audit log for access decisions and staff changes (admin API) that schools
+ * may have to account for under data-protection law. Events go to auditLog/{eventId}, one document
+ * each, readable only through the Firebase console (no client rules grant
+ * access). Writing is best-effort: a failed write is logged and never turns
+ * a denied request into a 500.
+ */
+
+import type { Env } from '../index';
+import { getFirebaseConfig } from './firebaseAuth';
+import { fsPatch } from './firestore';
+import type { TeacherRole } from './verifyTeacherToken';
+
+export interface AuditEvent {
+  type:
+    | 'access_denied'
+    | 'teacher_approved'
+    | 'teacher_revoked'
+    | 'class_transferred'
+    | 'bank_question_approved'
+    | 'bank_question_rejected';
+  actorUid: string;
+  actorRole: TeacherRole | 'admin';
+  method: string;
+  path: string;
+  /** The student whose data was requested, or the teacher an admin changed */
+  targetUid: string | null;
+  /** The email the request named, for email-based routes */
+  targetEmail: string | null;
+  classId: string | null;
+  /** Why access was denied, or what an admin changed */
+  reason: string;
+  ip: string;
+}
+
+export async function recordAuditEvent(env: Env, event: AuditEvent): Promise<void> {
+  console.warn(
+    `[audit] ${event.type} — actor=${event.actorUid.substring(0, 8)}… ${event.method} ${event.path} reason=${event.reason}`
+  );
+  try {
+    const { projectId, accessToken } = await getFirebaseConfig(env);
+    const id = crypto.randomUUID();
+    await fsPatch(projectId, accessToken, `auditLog/${id}`, {
+      id,
+      ...event,
+      at: new Date(),
+    });
+  } catch (err) {
+    console.error('[audit] Failed to write audit event:', (err as Error).message);
+  }
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest'
+import {
+  AITimeoutError,
+  callAI,
+  callAIForTask,
+  streamAI,
+  streamAIForTask,
+  type AIStreamEvent,
+} from './callAI'
+import { resetCircuits } from './circuitBreaker'
+import { recordAIUsage } from './aiUsage'
+
+vi.mock('./aiUsage', () => ({ recordAIUsage: vi.fn(async () => {}) }))
+import type { Env } from '../index'
+
+const mockEnv = { ANTHROPIC_API_KEY: 'k', GEMINI_API_KEY: 'k', OPENAI_API_KEY: 'k' } as Env
+
+function sseResponse(lines: string[]): Response {
+  const encoder = new TextEncoder()
+  // Split mid-line to exercise buffering across chunks
+  const text = lines.join('\n') + '\n'
+  const half = Math.floor(text.length / 2)
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(text.slice(0, half)))
+      controller.enqueue(encoder.encode(text.slice(half)))
+      controller.close()
+    },
+  })
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })
+}
+
+async function collect(gen: AsyncGenerator<AIStreamEvent>): Promise<AIStreamEvent[]> {
+  const events: AIStreamEvent[] = []
+  for await (const e of gen) events.push(e)
+  return events
+}
+
+describe('streamAI', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('normalizes Claude text deltas', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(sseResponse([
+      'event: message_start',
+      'data: {"type":"message_start","message":{"usage":{"input_tokens":12,"output_tokens":1}}}',
+      'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hal"}}',
+      'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"lo"}}',
+      'data: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":5}}',
+    ])))
+
+    const events = await collect(streamAI({ provider: 'claude', model: 'm', prompt: 'p', env: mockEnv }))
+
+    expect(events).toEqual([
+      { type: 'token', text: 'Hal' },
+      { type: 'token', text: 'lo' },
+      {
+        type: 'done',
+        text: 'Hallo',
+        finishReason: 'end_turn',
+        usage: { inputTokens: 12, outputTokens: 5 },
+      },
+    ])
+  })
+
+  it('normalizes OpenAI-compatible deltas and stops at [DONE]', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(sseResponse([
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}',
+      'data: {"choices":[{"delta":{"content":"x = 2"}}]}',
+      'data: {"choices":[{"delta":{},"finish_reason":"stop"}]}',
+      'data: {"choices":[],"usage":{"prompt_tokens":7,"completion_tokens":3}}',
+      'data: [DONE]',
+    ]))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const events = await collect(streamAI({ provider: 'openai', model: 'm', prompt: 'p', env: mockEnv }))
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.stream).toBe(true)
+    expect(body.stream_options).toEqual({ include_usage: true })
+    expect(events).toEqual([
+      { type: 'token', text: 'x = 2' },
+      { type: 'done', text: 'x = 2', finishReason: 'stop', usage: { inputTokens: 7, outputTokens: 3 } },
+    ])
+  })
+
+  it('uses the Gemini SSE endpoint', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(sseResponse([
+      'data: {"candidates":[{"content":{"parts":[{"text":"a"},{"text":"b"}]}}]}',
+      'data: {"candidates":[{"content":{"parts":[{"text":"c"}]},"finishReason":"STOP"}],"usageMetadata":{"promptTokenCount":4,"candidatesTokenCount":2}}',
+    ]))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const events = await collect(streamAI({ provider: 'gemini', model: 'g', prompt: 'p', env: mockEnv }))
+
+    expect(fetchMock.mock.calls[0][0]).toContain('g:streamGenerateContent?alt=sse')
+    expect(events.at(-1)).toEqual({
+      type: 'done',
+      text: 'abc',
+      finishReason: 'STOP',
+      usage: { inputTokens: 4, outputTokens: 2 },
+    })
+  })
+
+  it('throws on a non-OK response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(
+      new Response(JSON.stringify({ error: { message: 'overloaded' } }), { status: 529 })
+    ))
+
+    await expect(
+      collect(streamAI({ provider: 'claude', model: 'm', prompt: 'p', env: mockEnv }))
+    ).rejects.toThrow('Claude API error (529): overloaded')
+  })
+})
+
+const geminiOk = () =>
+  new Response(JSON.stringify({
+    candidates: [{ content: { parts: [{ text: 'gemini' }] } }],
+    usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 200 },
+  }))
+const claudeOk = () => new Response(JSON.stringify({ content: [{ text: 'claude' }] }))
+const unavailable = () =>
+  new Response(JSON.stringify({ error: { message: 'unavailable' } }), { status: 503 })
+const hangUntilAborted = (_url: string, init: RequestInit) =>
+  new Promise<Response>((_, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')))
+  })
+
+describe('callAIForTask', () => {
+  beforeEach(() => {
+    resetCircuits()
+    vi.spyOn(Math, 'random').mockReturnValue(0) // no backoff delay
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('retries transient errors on the primary model', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(unavailable())
+      .mockResolvedValueOnce(geminiOk())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await callAIForTask('customHint', 'p', mockEnv)
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(result).toEqual({
+      response: 'gemini',
+      provider: 'gemini',
+      model: 'gemini-flash-latest',
+      usage: { inputTokens: 1000, outputTokens: 200 },
+    })
+  })
+
+  it('records usage and estimated cost for the calling uid and classes', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(geminiOk()))
+
+    await callAIForTask('customHint', 'p', mockEnv, { uid: 'student-1', classIds: ['cls-1'] })
+
+    expect(recordAIUsage).toHaveBeenCalledWith(
+      mockEnv,
+      'student-1',
+      {
+        taskName: 'customHint',
+        provider: 'gemini',
+        model: 'gemini-flash-latest',
+        usage: { inputTokens: 1000, outputTokens: 200 },
+        costUsd: 0.0008, // 1000 * $0.30/M + 200 * $2.50/M
+      },
+      ['cls-1']
+    )
+  })
+
+  it('moves on to the next fallback without retrying client errors', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: { message: 'bad' } }), { status: 400 }))
+      .mockResolvedValueOnce(geminiOk())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await callAIForTask('customHint', 'p', mockEnv)
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock.mock.calls[1][0]).toContain('gemini-flash-lite-latest:generateContent')
+    expect(result.model).toBe('gemini-flash-lite-latest')
+  })
+
+  it('trips the circuit and skips the provider on later calls', async () => {
+    const fetchMock = vi.fn()
+    for (let i = 0; i < 5; i++) fetchMock.mockResolvedValueOnce(unavailable())
+    fetchMock.mockResolvedValueOnce(claudeOk()).mockResolvedValueOnce(claudeOk())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const first = await callAIForTask('customHint', 'p', mockEnv)
+    expect(first.provider).toBe('claude')
+    expect(fetchMock).toHaveBeenCalledTimes(6)
+
+    const second = await callAIForTask('customHint', 'p', mockEnv)
+    expect(second.provider).toBe('claude')
+    expect(fetchMock).toHaveBeenCalledTimes(7)
+  })
+
+  it('falls back when a stream fails before the first token', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('{}', { status: 401 }))
+      .mockResolvedValueOnce(sseResponse([
+        'data: {"candidates":[{"content":{"parts":[{"text":"ok"}]},"finishReason":"STOP"}]}',
+      ]))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const stream = await streamAIForTask('customHint', 'p', mockEnv)
+    const events = await collect(stream.events)
+
+    expect(stream.model).toBe('gemini-flash-lite-latest')
+    expect(events.at(-1)).toMatchObject({ type: 'done', text: 'ok', finishReason: 'STOP' })
+  })
+})
+
+describe('timeouts', () => {
+  beforeEach(() => {
+    resetCircuits()
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('aborts the request and raises AITimeoutError', async () => {
+    const fetchMock = vi.fn(hangUntilAborted)
+    vi.stubGlobal('fetch', fetchMock)
+
+    const error = await callAI({ provider: 'claude', model: 'm', prompt: 'p', timeoutMs: 10, env: mockEnv })
+      .catch((e) => e)
+
+    expect(fetchMock.mock.calls[0][1].signal?.aborted).toBe(true)
+    expect(error).toBeInstanceOf(AITimeoutError)
+    expect(error).toMatchObject({ statusCode: 504, code: 'AI_TIMEOUT', provider: 'claude' })
+  })
+
+  it('falls back after the task timeout without retrying the same model', async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi.fn()
+      .mockImplementationOnce(hangUntilAborted)
+      .mockResolvedValueOnce(geminiOk())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const pending = callAIForTask('customHint', 'p', mockEnv)
+    await vi.advanceTimersByTimeAsync(20000) // customHint timeout in models.json
+
+    const result = await pending
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(result.model).toBe('gemini-flash-lite-latest')
+  })
+})
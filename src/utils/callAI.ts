@@ -10,7 +10,16 @@
  */
 
 import type { Env } from '../index';
+import { APIError } from '../types';
 import modelsJsonConfig from '../config/models.json';
+import {
+  isCircuitOpen,
+  recordFailure,
+  recordSuccess,
+  type CircuitBreakerOptions,
+} from './circuitBreaker';
+import { recordAIUsage } from './aiUsage';
+import type { TaskQuota } from './aiQuota';
 
 const AI_ENDPOINTS = {
   claude: 'https://api.anthropic.com/v1/messages',
@@ -32,9 +41,47 @@ export interface CallAIOptions {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  /** Abort the request after this many milliseconds (task `timeout` in models.json) */
+  timeoutMs?: number;
   env: Env;
 }
 
+/** Token counts normalized across providers */
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AICompletion {
+  text: string;
+  usage: AIUsage;
+  provider: AIProviderType;
+  model: string;
+}
+
+/**
+ * Read the usage block of a completion response: `usage` (Claude),
+ * `usageMetadata` (Gemini) or the OpenAI-style `usage` object.
+ */
+function readUsage(provider: AIProviderType, data: any): AIUsage {
+  if (provider === 'claude') {
+    return {
+      inputTokens: data?.usage?.input_tokens ?? 0,
+      outputTokens: data?.usage?.output_tokens ?? 0,
+    };
+  }
+  if (provider === 'gemini') {
+    return {
+      inputTokens: data?.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: data?.usageMetadata?.candidatesTokenCount ?? 0,
+    };
+  }
+  return {
+    inputTokens: data?.usage?.prompt_tokens ?? 0,
+    outputTokens: data?.usage?.completion_tokens ?? 0,
+  };
+}
+
 /**
  * Get API key for a provider from environment variables
  */
@@ -80,15 +127,142 @@ function getOpenAICompatHeaders(provider: AIProviderType, apiKey: string): Recor
   }
 }
 
-export async function callAI({
-  provider,
-  model,
-  prompt,
-  temperature = 0.7,
-  maxTokens = 8000,
-  systemPrompt,
-  env,
-}: CallAIOptions): Promise<string> {
+/**
+ * A provider request that failed. `status` is the upstream HTTP status and is
+ * undefined when the request never got a response (network failure).
+ */
+export class AIProviderError extends Error {
+  provider: AIProviderType;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, provider: AIProviderType, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The provider did not answer within the task's configured timeout.
+ * Surfaces as 504 with code 'AI_TIMEOUT' once no fallback is left.
+ */
+export class AITimeoutError extends APIError {
+  provider: AIProviderType;
+  timeoutMs: number;
+
+  constructor(provider: AIProviderType, timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs}ms`, 504, 'AI_TIMEOUT');
+    this.name = 'AITimeoutError';
+    this.provider = provider;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+interface Deadline {
+  signal?: AbortSignal;
+  clear(): void;
+  /** Map an error raised after the deadline fired to AITimeoutError */
+  translate(error: unknown): unknown;
+}
+
+/**
+ * Start an AbortController-backed deadline; without a timeout it is a no-op.
+ */
+function startDeadline(provider: AIProviderType, timeoutMs?: number): Deadline {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return { clear: () => {}, translate: (error) => error };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  return {
+    signal: controller.signal,
+    clear: () => clearTimeout(timer),
+    translate: (error) =>
+      controller.signal.aborted ? new AITimeoutError(provider, timeoutMs) : error,
+  };
+}
+
+async function withDeadline<T>(
+  provider: AIProviderType,
+  timeoutMs: number | undefined,
+  run: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  const deadline = startDeadline(provider, timeoutMs);
+  try {
+    return await run(deadline.signal);
+  } catch (error) {
+    throw deadline.translate(error);
+  } finally {
+    deadline.clear();
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * fetch() a provider endpoint; network failures and non-OK responses are
+ * raised as AIProviderError so the task router can decide whether to retry.
+ */
+async function providerFetch(
+  provider: AIProviderType,
+  label: string,
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new AIProviderError(`${label} request failed: ${reason}`, provider);
+  }
+
+  if (!response.ok) {
+    const errorBody: any = await response.json().catch(() => null);
+    const safeMessage = errorBody?.error?.message || response.statusText;
+    throw new AIProviderError(
+      `${label} error (${response.status}): ${safeMessage}`,
+      provider,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+
+  return response;
+}
+
+export async function callAI(options: CallAIOptions): Promise<AICompletion> {
+  return withDeadline(options.provider, options.timeoutMs, (signal) =>
+    requestCompletion(options, signal)
+  );
+}
+
+async function requestCompletion(
+  {
+    provider,
+    model,
+    prompt,
+    temperature = 0.7,
+    maxTokens = 8000,
+    systemPrompt,
+    env,
+  }: CallAIOptions,
+  signal?: AbortSignal
+): Promise<AICompletion> {
   const apiKey = getApiKey(provider, env);
 
   // ── Anthropic Claude (Messages API) ──────────────────────────────────
@@ -102,7 +276,7 @@ export async function callAI({
     };
     if (systemPrompt) body.system = systemPrompt;
 
-    const response = await fetch(AI_ENDPOINTS.claude, {
+    const response = await providerFetch(provider, 'Claude API', AI_ENDPOINTS.claude, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -112,16 +286,11 @@ export async function callAI({
         'anthropic-beta': 'output-128k-2025-02-19',
       },
       body: JSON.stringify(body),
+      signal,
     });
 
-    if (!response.ok) {
-      const errorBody: any = await response.json().catch(() => null);
-      const safeMessage = errorBody?.error?.message || response.statusText;
-      throw new Error(`Claude API error (${response.status}): ${safeMessage}`);
-    }
-
     const data: any = await response.json();
-    return data.content[0].text;
+    return { text: data.content[0].text, usage: readUsage(provider, data), provider, model };
   }
 
   // ── Google Gemini (GenerateContent API) ───────────────────────────────
@@ -134,30 +303,27 @@ export async function callAI({
       contents.push({ parts: [{ text: prompt }] });
     }
 
-    const response = await fetch(endpoint, {
+    const response = await providerFetch(provider, 'Gemini API', endpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         contents,
         generationConfig: { temperature, maxOutputTokens: maxTokens },
       }),
+      signal,
     });
 
-    if (!response.ok) {
-      let errorMessage = `Gemini API error (${response.status})`;
-      try {
-        const errorJson: any = await response.json();
-        errorMessage = errorJson?.error?.message || errorMessage;
-      } catch { /* use default message */ }
-      throw new Error(errorMessage);
-    }
-
     const data: any = await response.json();
     if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
       const blockReason = data.candidates?.[0]?.finishReason || data.promptFeedback?.blockReason;
       throw new Error(`Gemini returned no content. Block reason: ${blockReason || 'unknown'}`);
     }
-    return data.candidates[0].content.parts[0].text;
+    return {
+      text: data.candidates[0].content.parts[0].text,
+      usage: readUsage(provider, data),
+      provider,
+      model,
+    };
   }
 
   // ── OpenAI-Compatible Providers (OpenAI, Mistral, OpenRouter) ──────────
@@ -169,7 +335,7 @@ export async function callAI({
     }
     messages.push({ role: 'user', content: prompt });
 
-    const response = await fetch(AI_ENDPOINTS[provider], {
+    const response = await providerFetch(provider, `${provider} API`, AI_ENDPOINTS[provider], {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -181,26 +347,223 @@ export async function callAI({
         temperature,
         max_tokens: maxTokens,
       }),
+      signal,
     });
 
-    if (!response.ok) {
-      const errorBody: any = await response.json().catch(() => null);
-      const safeMessage = errorBody?.error?.message || response.statusText;
-      throw new Error(`${provider} API error (${response.status}): ${safeMessage}`);
-    }
-
     const data: any = await response.json();
     const content = data.choices?.[0]?.message?.content;
     if (!content) {
       const finishReason = data.choices?.[0]?.finish_reason || 'unknown';
       throw new Error(`${provider} returned no content. Finish reason: ${finishReason}`);
     }
-    return content;
+    return { text: content, usage: readUsage(provider, data), provider, model };
   }
 
   throw new Error(`Unknown provider: ${provider}`);
 }
 
+/**
+ * Provider-independent stream event. `token` carries the next text delta,
+ * `done` the full completion once the provider closes the stream.
+ */
+export type AIStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done'; text: string; finishReason: string | null; usage: AIUsage };
+
+interface StreamChunk {
+  text?: string;
+  finishReason?: string;
+  usage?: Partial<AIUsage>;
+}
+
+/**
+ * Yield the `data:` payloads of a Server-Sent Events body, one per event line.
+ */
+async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith('data:')) yield line.slice(5).trimStart();
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.startsWith('data:')) yield buffer.slice(5).trimStart();
+}
+
+/**
+ * Streaming counterpart of callAI. Requests a streamed completion and
+ * normalizes Claude, Gemini and OpenAI-compatible deltas into AIStreamEvents.
+ */
+export async function* streamAI({
+  provider,
+  model,
+  prompt,
+  temperature = 0.7,
+  maxTokens = 8000,
+  systemPrompt,
+  timeoutMs,
+  env,
+}: CallAIOptions): AsyncGenerator<AIStreamEvent> {
+  const apiKey = getApiKey(provider, env);
+
+  let url: string;
+  let init: RequestInit;
+  let extract: (data: any) => StreamChunk;
+  let label: string;
+
+  // ── Anthropic Claude (Messages API, stream: true) ─────────────────────
+  if (provider === 'claude') {
+    const body: any = {
+      model,
+      max_tokens: maxTokens,
+      temperature,
+      messages: [{ role: 'user', content: prompt }],
+      stream: true,
+    };
+    if (systemPrompt) body.system = systemPrompt;
+
+    label = 'Claude API';
+    url = AI_ENDPOINTS.claude;
+    init = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-beta': 'output-128k-2025-02-19',
+      },
+      body: JSON.stringify(body),
+    };
+    extract = (data) => {
+      if (data.type === 'error') {
+        throw new Error(`Claude API error (stream): ${data.error?.message || 'unknown'}`);
+      }
+      if (data.type === 'message_start' && data.message?.usage) {
+        return { usage: { inputTokens: data.message.usage.input_tokens } };
+      }
+      if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+        return { text: data.delta.text };
+      }
+      if (data.type === 'message_delta') {
+        return {
+          finishReason: data.delta?.stop_reason ?? undefined,
+          usage: data.usage ? { outputTokens: data.usage.output_tokens } : undefined,
+        };
+      }
+      return {};
+    };
+
+  // ── Google Gemini (streamGenerateContent, alt=sse) ─────────────────────
+  } else if (provider === 'gemini') {
+    const text = systemPrompt ? `System: ${systemPrompt}\n\n${prompt}` : prompt;
+
+    label = 'Gemini API';
+    url = `${AI_ENDPOINTS.gemini}/${model}:streamGenerateContent?alt=sse&key=${apiKey}`;
+    init = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text }] }],
+        generationConfig: { temperature, maxOutputTokens: maxTokens },
+      }),
+    };
+    extract = (data) => {
+      const candidate = data.candidates?.[0];
+      const parts: Array<{ text?: string }> = candidate?.content?.parts ?? [];
+      // usageMetadata is cumulative; the last chunk carries the totals
+      return {
+        text: parts.map((p) => p.text ?? '').join(''),
+        finishReason: candidate?.finishReason,
+        usage: data.usageMetadata ? readUsage('gemini', data) : undefined,
+      };
+    };
+
+  // ── OpenAI-Compatible Providers (stream: true) ─────────────────────────
+  } else if (OPENAI_COMPAT_PROVIDERS.has(provider)) {
+    const messages: any[] = [];
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+    messages.push({ role: 'user', content: prompt });
+
+    label = `${provider} API`;
+    url = AI_ENDPOINTS[provider as 'openai' | 'mistral' | 'openrouter'];
+    init = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getOpenAICompatHeaders(provider, apiKey),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+        // OpenAI only reports usage on a final chunk when asked to
+        ...(provider === 'openai' && { stream_options: { include_usage: true } }),
+      }),
+    };
+    extract = (data) => ({
+      text: data.choices?.[0]?.delta?.content ?? undefined,
+      finishReason: data.choices?.[0]?.finish_reason ?? undefined,
+      usage: data.usage ? readUsage(provider, data) : undefined,
+    });
+  } else {
+    throw new Error(`Unknown provider: ${provider}`);
+  }
+
+  // The deadline covers the whole stream, not just the first byte
+  const deadline = startDeadline(provider, timeoutMs);
+  let fullText = '';
+  let finishReason: string | null = null;
+  const usage: AIUsage = { inputTokens: 0, outputTokens: 0 };
+
+  try {
+    const response = await providerFetch(provider, label, url, { ...init, signal: deadline.signal });
+    if (!response.body) {
+      throw new AIProviderError(`${label} returned an empty stream`, provider, response.status);
+    }
+
+    for await (const payload of readSSEData(response.body)) {
+      if (payload === '[DONE]') break;
+
+      let data: any;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        continue; // keep-alive comments or partial provider noise
+      }
+
+      const chunk = extract(data);
+      if (chunk.finishReason) finishReason = chunk.finishReason;
+      if (chunk.usage?.inputTokens !== undefined) usage.inputTokens = chunk.usage.inputTokens;
+      if (chunk.usage?.outputTokens !== undefined) usage.outputTokens = chunk.usage.outputTokens;
+      if (chunk.text) {
+        fullText += chunk.text;
+        yield { type: 'token', text: chunk.text };
+      }
+    }
+  } catch (error) {
+    throw deadline.translate(error);
+  } finally {
+    deadline.clear();
+  }
+
+  yield { type: 'done', text: fullText, finishReason, usage };
+}
+
 /**
  * Task-specific model configuration
  */
@@ -212,6 +575,21 @@ export interface TaskModelConfig {
   timeout: number;
   maxTokens: number;
   systemPrompt?: string;
+  /** Tried in order when the primary provider/model fails */
+  fallbacks?: ModelTarget[];
+  /** Per-user and per-class daily/monthly limits (see aiQuota.ts) */
+  quota?: TaskQuota;
+}
+
+export interface ModelTarget {
+  provider: AIProviderType;
+  model: string;
+}
+
+/** USD per million tokens */
+export interface ModelPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
 }
 
 export interface ModelConfig {
@@ -226,11 +604,27 @@ export interface ModelConfig {
   tasks: {
     [key: string]: TaskModelConfig;
   };
+  /** Keyed by model ID; models without an entry are accounted at zero cost */
+  pricing: {
+    [model: string]: ModelPricing;
+  };
   features: {
     logModelUsage: boolean;
     allowFallbackOnError: boolean;
-    fallbackProvider: AIProviderType;
-    fallbackModel: string;
+    retry: {
+      /** Attempts per provider/model, including the first */
+      maxAttempts: number;
+      baseDelayMs: number;
+      maxDelayMs: number;
+    };
+    circuitBreaker: CircuitBreakerOptions;
+    /** Teachers may raise a class's quotas up to this multiple of the default */
+    quotaOverrideMaxFactor: number;
+    /** AI grading of free-text answers (evaluateAnswer task) */
+    aiGrading: {
+      /** Verdicts below this confidence go to teacher review instead of awarding XP */
+      minConfidence: number;
+    };
   };
 }
 
@@ -274,27 +668,37 @@ export interface CallVisionAIOptions {
   temperature?: number;
   maxTokens?: number;
   mimeType?: string;
+  timeoutMs?: number;
   env: Env;
 }
 
 /**
  * Call AI with vision capabilities (for image analysis)
  */
-export async function callVisionAI({
-  provider,
-  model,
-  imageBase64,
-  prompt,
-  temperature = 0.4,
-  maxTokens = 4000,
-  mimeType = 'image/png',
-  env,
-}: CallVisionAIOptions): Promise<string> {
+export async function callVisionAI(options: CallVisionAIOptions): Promise<AICompletion> {
+  return withDeadline(options.provider, options.timeoutMs, (signal) =>
+    requestVisionCompletion(options, signal)
+  );
+}
+
+async function requestVisionCompletion(
+  {
+    provider,
+    model,
+    imageBase64,
+    prompt,
+    temperature = 0.4,
+    maxTokens = 4000,
+    mimeType = 'image/png',
+    env,
+  }: CallVisionAIOptions,
+  signal?: AbortSignal
+): Promise<AICompletion> {
   const apiKey = getApiKey(provider, env);
 
   // ── Claude Vision ──────────────────────────────────────────────────────
   if (provider === 'claude') {
-    const response = await fetch(AI_ENDPOINTS.claude, {
+    const response = await providerFetch(provider, 'Claude Vision API', AI_ENDPOINTS.claude, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -323,22 +727,17 @@ export async function callVisionAI({
           ],
         }],
       }),
+      signal,
     });
 
-    if (!response.ok) {
-      const errorBody: any = await response.json().catch(() => null);
-      const safeMessage = errorBody?.error?.message || response.statusText;
-      throw new Error(`Claude Vision API error (${response.status}): ${safeMessage}`);
-    }
-
     const data: any = await response.json();
-    return data.content[0].text;
+    return { text: data.content[0].text, usage: readUsage(provider, data), provider, model };
   }
 
   // ── Gemini Vision ──────────────────────────────────────────────────────
   if (provider === 'gemini') {
     const endpoint = `${AI_ENDPOINTS.gemini}/${model}:generateContent?key=${apiKey}`;
-    const response = await fetch(endpoint, {
+    const response = await providerFetch(provider, 'Gemini Vision API', endpoint, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -355,23 +754,20 @@ export async function callVisionAI({
         }],
         generationConfig: { temperature, maxOutputTokens: maxTokens },
       }),
+      signal,
     });
 
-    if (!response.ok) {
-      let errorMessage = `Gemini Vision API error (${response.status})`;
-      try {
-        const errorJson: any = await response.json();
-        errorMessage = errorJson?.error?.message || errorMessage;
-      } catch { /* use default message */ }
-      throw new Error(errorMessage);
-    }
-
     const data: any = await response.json();
     if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
       const blockReason = data.candidates?.[0]?.finishReason || data.promptFeedback?.blockReason;
       throw new Error(`Gemini returned no content. Block reason: ${blockReason || 'unknown'}`);
     }
-    return data.candidates[0].content.parts[0].text;
+    return {
+      text: data.candidates[0].content.parts[0].text,
+      usage: readUsage(provider, data),
+      provider,
+      model,
+    };
   }
 
   // ── OpenAI-Compatible Vision (OpenAI, Mistral, OpenRouter) ─────────────
@@ -392,7 +788,7 @@ export async function callVisionAI({
       ],
     }];
 
-    const response = await fetch(AI_ENDPOINTS[provider], {
+    const response = await providerFetch(provider, `${provider} Vision API`, AI_ENDPOINTS[provider], {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -404,84 +800,295 @@ export async function callVisionAI({
         temperature,
         max_tokens: maxTokens,
       }),
+      signal,
     });
 
-    if (!response.ok) {
-      const errorBody: any = await response.json().catch(() => null);
-      const safeMessage = errorBody?.error?.message || response.statusText;
-      throw new Error(`${provider} Vision API error (${response.status}): ${safeMessage}`);
-    }
-
     const data: any = await response.json();
     const content = data.choices?.[0]?.message?.content;
     if (!content) {
       const finishReason = data.choices?.[0]?.finish_reason || 'unknown';
       throw new Error(`${provider} returned no content. Finish reason: ${finishReason}`);
     }
-    return content;
+    return { text: content, usage: readUsage(provider, data), provider, model };
   }
 
   throw new Error(`Vision not supported for provider: ${provider}`);
 }
 
+// ── Task routing: retries, fallback chains and circuit breaking ─────────
+
+export interface TaskAIResult {
+  response: string;
+  provider: AIProviderType;
+  model: string;
+  usage: AIUsage;
+}
+
+export interface TaskAIStream {
+  events: AsyncGenerator<AIStreamEvent>;
+  provider: AIProviderType;
+  model: string;
+}
+
+export interface TaskCallOptions {
+  /** Override for the system prompt from config */
+  systemPrompt?: string;
+  /** Attribute token usage to this uid (users/{uid}/aiUsage) */
+  uid?: string;
+  /** Also count usage against these classes (classes/{classId}/aiUsage) */
+  classIds?: string[];
+  /** Only use models of these providers (the school's setting, see schools.ts) */
+  allowedProviders?: AIProviderType[];
+}
+
+/**
+ * Estimated cost of a completion in USD from the `pricing` table in models.json
+ */
+export function estimateCostUsd(
+  pricing: ModelConfig['pricing'],
+  model: string,
+  usage: AIUsage
+): number {
+  const price = pricing[model];
+  if (!price) return 0;
+  const cost = (usage.inputTokens * price.inputPerMTok + usage.outputTokens * price.outputPerMTok) / 1e6;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+/**
+ * Log a completed task call and, when it was made for a user, record its
+ * usage. Accounting failures are logged and never fail the request.
+ */
+async function trackUsage(
+  env: Env,
+  taskName: string,
+  completion: Omit<AICompletion, 'text'>,
+  { uid, classIds }: Pick<TaskCallOptions, 'uid' | 'classIds'>
+): Promise<void> {
+  const { features, pricing } = await loadModelConfig();
+  const { provider, model, usage } = completion;
+  const costUsd = estimateCostUsd(pricing, model, usage);
+
+  if (features.logModelUsage) {
+    console.log(
+      `[callAIForTask] ${taskName} via ${provider}/${model}: ` +
+      `${usage.inputTokens} in / ${usage.outputTokens} out tokens, $${costUsd}`
+    );
+  }
+  if (!uid) return;
+
+  const record = { taskName, provider, model, usage, costUsd };
+  await recordAIUsage(env, uid, record, classIds).catch((error) => {
+    console.error(`[callAIForTask] Failed to record usage for ${taskName}:`, error);
+  });
+}
+
+/**
+ * Transient failures worth retrying: rate limits, server errors and requests
+ * that never got a response. Client errors (bad request, auth) are not.
+ */
+export function isTransientAIError(error: unknown): boolean {
+  if (!(error instanceof AIProviderError)) return false;
+  const { status } = error;
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter, never shorter than a provider's
+ * Retry-After and never longer than maxDelayMs.
+ */
+function backoffDelay(
+  attempt: number,
+  retry: ModelConfig['features']['retry'],
+  error: unknown
+): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+  const retryAfter = error instanceof AIProviderError ? error.retryAfterMs ?? 0 : 0;
+  return Math.min(retry.maxDelayMs, Math.max(Math.random() * ceiling, retryAfter));
+}
+
 /**
- * Call AI for a specific task using its configured model and system prompt
+ * Run `attempt` against the task's primary model, then each of its
+ * `fallbacks` in order. Transient errors are retried on the same target;
+ * a timeout moves straight on to the next target, since retrying would
+ * multiply the wait. Providers whose circuit is open are skipped, as are
+ * providers outside `allowedProviders`. Rethrows the last error once every
+ * target has failed.
+ */
+async function runWithFallbacks<T>(
+  taskName: string,
+  attempt: (target: ModelTarget, config: TaskModelConfig) => Promise<T>,
+  allowedProviders?: AIProviderType[]
+): Promise<{ result: T; target: ModelTarget }> {
+  const config = await getTaskModelConfig(taskName);
+  const { features } = await loadModelConfig();
+
+  const configured: ModelTarget[] = [
+    { provider: config.provider, model: config.model },
+    ...(config.fallbacks ?? []),
+  ];
+  // A fallback also stands in for a primary model whose provider is not allowed
+  const allowed = allowedProviders
+    ? configured.filter((t) => allowedProviders.includes(t.provider))
+    : configured;
+  if (allowed.length === 0) {
+    throw new APIError(`No model for ${taskName} uses a provider your school allows`, 403, 'AI_PROVIDER_NOT_ALLOWED');
+  }
+  const targets = features.allowFallbackOnError ? allowed : allowed.slice(0, 1);
+
+  let lastError: unknown;
+
+  for (const target of targets) {
+    if (isCircuitOpen(target.provider)) {
+      console.warn(`[callAIForTask] Skipping ${target.provider} for ${taskName}: circuit open`);
+      lastError = lastError ??
+        new AIProviderError(`${target.provider} is temporarily unavailable`, target.provider, 503);
+      continue;
+    }
+
+    for (let i = 0; i < features.retry.maxAttempts; i++) {
+      try {
+        const result = await attempt(target, config);
+        recordSuccess(target.provider);
+        return { result, target };
+      } catch (error) {
+        lastError = error;
+        if (error instanceof AITimeoutError) {
+          recordFailure(target.provider, features.circuitBreaker);
+          break;
+        }
+        if (!isTransientAIError(error)) break;
+
+        recordFailure(target.provider, features.circuitBreaker);
+        if (i + 1 >= features.retry.maxAttempts || isCircuitOpen(target.provider)) break;
+
+        const delay = backoffDelay(i, features.retry, error);
+        console.warn(
+          `[callAIForTask] ${target.provider}/${target.model} failed for ${taskName}, ` +
+          `retrying in ${Math.round(delay)}ms:`,
+          (error as Error).message
+        );
+        await sleep(delay);
+      }
+    }
+
+    console.warn(`[callAIForTask] ${target.provider}/${target.model} gave up for ${taskName}`);
+  }
+
+  throw lastError;
+}
+
+/**
+ * Call AI for a specific task using its configured model and system prompt,
+ * with retries and the task's fallback chain
  *
  * @param taskName - The name of the task (must exist in models.json)
  * @param prompt - The user prompt
  * @param env - Environment variables for API keys
- * @param systemPromptOverride - Optional override for the system prompt from config
+ * @param options - System prompt override and the uid to bill usage to
  */
 export async function callAIForTask(
   taskName: string,
   prompt: string,
   env: Env,
-  systemPromptOverride?: string
-): Promise<{ response: string; provider: string; model: string }> {
-  const config = await getTaskModelConfig(taskName);
+  { systemPrompt, allowedProviders, ...scope }: TaskCallOptions = {}
+): Promise<TaskAIResult> {
+  const { result } = await runWithFallbacks(
+    taskName,
+    (target, config) =>
+      callAI({
+        provider: target.provider,
+        model: target.model,
+        prompt,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        systemPrompt: systemPrompt ?? config.systemPrompt,
+        timeoutMs: config.timeout,
+        env,
+      }),
+    allowedProviders
+  );
 
-  // Use override if provided, otherwise use config's system prompt
-  const systemPrompt = systemPromptOverride ?? config.systemPrompt;
+  await trackUsage(env, taskName, result, scope);
+  return { response: result.text, provider: result.provider, model: result.model, usage: result.usage };
+}
 
-  try {
-    const response = await callAI({
-      provider: config.provider,
-      model: config.model,
-      prompt,
-      temperature: config.temperature,
-      maxTokens: config.maxTokens,
-      systemPrompt,
-      env,
-    });
+/**
+ * Vision counterpart of callAIForTask
+ */
+export async function callVisionAIForTask(
+  taskName: string,
+  input: { imageBase64: string; prompt: string; mimeType?: string },
+  env: Env,
+  { allowedProviders, ...scope }: Pick<TaskCallOptions, 'uid' | 'classIds' | 'allowedProviders'> = {}
+): Promise<TaskAIResult> {
+  const { result } = await runWithFallbacks(
+    taskName,
+    (target, config) =>
+      callVisionAI({
+        provider: target.provider,
+        model: target.model,
+        ...input,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+        timeoutMs: config.timeout,
+        env,
+      }),
+    allowedProviders
+  );
 
-    return {
-      response,
-      provider: config.provider,
-      model: config.model,
-    };
-  } catch (error) {
-    // Try fallback if enabled
-    const modelConfig = await loadModelConfig();
-    if (modelConfig.features.allowFallbackOnError && config.provider !== modelConfig.features.fallbackProvider) {
-      console.warn(`[callAIForTask] Primary model failed for ${taskName}, trying fallback`);
-
-      const fallbackResponse = await callAI({
-        provider: modelConfig.features.fallbackProvider,
-        model: modelConfig.features.fallbackModel,
+  await trackUsage(env, taskName, result, scope);
+  return { response: result.text, provider: result.provider, model: result.model, usage: result.usage };
+}
+
+/**
+ * Streaming counterpart of callAIForTask. Retries and fallbacks apply until
+ * the first event arrives; once tokens have been sent to the client a
+ * failure is surfaced to the caller instead of switching models mid-answer.
+ */
+export async function streamAIForTask(
+  taskName: string,
+  prompt: string,
+  env: Env,
+  { systemPrompt, allowedProviders, ...scope }: TaskCallOptions = {}
+): Promise<TaskAIStream> {
+  const { result, target } = await runWithFallbacks(
+    taskName,
+    async (target, config) => {
+      const events = streamAI({
+        provider: target.provider,
+        model: target.model,
         prompt,
         temperature: config.temperature,
         maxTokens: config.maxTokens,
-        systemPrompt,
+        systemPrompt: systemPrompt ?? config.systemPrompt,
+        timeoutMs: config.timeout,
         env,
       });
+      return { events, first: await events.next() };
+    },
+    allowedProviders
+  );
 
-      return {
-        response: fallbackResponse,
-        provider: modelConfig.features.fallbackProvider,
-        model: modelConfig.features.fallbackModel,
-      };
-    }
+  // Usage is only known once the provider closes the stream
+  const track = async (event: AIStreamEvent) => {
+    if (event.type === 'done') await trackUsage(env, taskName, { ...target, usage: event.usage }, scope);
+  };
 
-    throw error;
+  async function* replay(): AsyncGenerator<AIStreamEvent> {
+    if (!result.first.done) {
+      await track(result.first.value);
+      yield result.first.value;
+    }
+    for await (const event of result.events) {
+      await track(event);
+      yield event;
+    }
   }
+
+  return { events: replay(), provider: target.provider, model: target.model };
 }
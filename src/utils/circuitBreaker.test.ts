@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { isCircuitOpen, recordFailure, recordSuccess, resetCircuits } from './circuitBreaker'
+
+const options = { failureThreshold: 3, cooldownMs: 1000 }
+
+describe('circuitBreaker', () => {
+  beforeEach(() => {
+    resetCircuits()
+  })
+
+  it('opens after the failure threshold and closes after the cooldown', () => {
+    recordFailure('claude', options, 0)
+    recordFailure('claude', options, 0)
+    expect(isCircuitOpen('claude', 0)).toBe(false)
+
+    recordFailure('claude', options, 0)
+    expect(isCircuitOpen('claude', 500)).toBe(true)
+    expect(isCircuitOpen('gemini', 500)).toBe(false)
+    expect(isCircuitOpen('claude', 1000)).toBe(false)
+  })
+
+  it('re-opens immediately when the trial call fails', () => {
+    for (let i = 0; i < 3; i++) recordFailure('claude', options, 0)
+    recordFailure('claude', options, 1000)
+    expect(isCircuitOpen('claude', 1500)).toBe(true)
+  })
+
+  it('resets the failure count on success', () => {
+    recordFailure('claude', options, 0)
+    recordFailure('claude', options, 0)
+    recordSuccess('claude')
+    recordFailure('claude', options, 0)
+    expect(isCircuitOpen('claude', 0)).toBe(false)
+  })
+})
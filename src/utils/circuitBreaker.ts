@@ -0,0 +1,50 @@
+/**
+ * Per-key circuit breaker (keyed by AI provider).
+ * After `failureThreshold` consecutive transient failures the circuit opens
+ * and callers skip that key until `cooldownMs` has passed. The first call
+ * after the cooldown is a trial: success closes the circuit, another failure
+ * re-opens it for a full cooldown.
+ *
+ * State lives in module memory, so it is per Worker isolate — good enough to
+ * stop one isolate from hammering a provider that is down.
+ */
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+export function isCircuitOpen(key: string, now: number = Date.now()): boolean {
+  const state = circuits.get(key);
+  return !!state && state.openUntil > now;
+}
+
+export function recordSuccess(key: string): void {
+  circuits.delete(key);
+}
+
+export function recordFailure(
+  key: string,
+  { failureThreshold, cooldownMs }: CircuitBreakerOptions,
+  now: number = Date.now()
+): void {
+  const state = circuits.get(key) ?? { failures: 0, openUntil: 0 };
+  state.failures += 1;
+  if (state.failures >= failureThreshold) {
+    state.openUntil = now + cooldownMs;
+    console.warn(`[circuitBreaker] ${key} opened for ${cooldownMs}ms after ${state.failures} failures`);
+  }
+  circuits.set(key, state);
+}
+
+/** Clear all circuits (tests). */
+export function resetCircuits(): void {
+  circuits.clear();
+}
@@ -137,6 +137,70 @@ export async function setCustomClaim(env: Env, uid: string, claims: Record<strin
   }
 }
 
+export interface UserRecord {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  customClaims: Record<string, unknown>;
+}
+
+/**
+ * Look up a Firebase Auth user by UID, including their custom claims.
+ * Returns null if there is no such user.
+ */
+export async function getUserRecord(env: Env, uid: string): Promise<UserRecord | null> {
+  const sa: ServiceAccount = JSON.parse(env.FIREBASE_SERVICE_ACCOUNT);
+  const adminToken = await getAdminToken(sa);
+
+  const res = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/projects/${sa.project_id}/accounts:lookup`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${adminToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ localId: [uid] }),
+    }
+  );
+  if (!res.ok) {
+    const err = await res.json() as any;
+    throw new Error(err?.error?.message ?? `Failed to look up user: ${res.status}`);
+  }
+  const data = await res.json() as {
+    users?: Array<{ localId: string; email?: string; displayName?: string; customAttributes?: string }>;
+  };
+  const user = data.users?.[0];
+  if (!user) return null;
+  return {
+    uid: user.localId,
+    email: user.email ?? null,
+    displayName: user.displayName ?? null,
+    customClaims: user.customAttributes ? JSON.parse(user.customAttributes) : {},
+  };
+}
+
+/**
+ * Change some custom claims of a user and keep the others (setCustomClaim
+ * replaces all of them). A null value removes the claim. Returns the new claims.
+ */
+export async function updateCustomClaims(
+  env: Env,
+  uid: string,
+  changes: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const user = await getUserRecord(env, uid);
+  if (!user) throw new Error(`User not found: ${uid}`);
+
+  const claims = { ...user.customClaims };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) delete claims[key];
+    else claims[key] = value;
+  }
+  await setCustomClaim(env, uid, claims);
+  return claims;
+}
+
 /**
  * Look up an existing Firebase Auth user by email.
  * Returns the user's UID.
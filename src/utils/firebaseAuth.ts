@@ -12,7 +12,7 @@ interface ServiceAccount {
   client_email: string;
 }
 
-interface FirebaseConfig {
+export interface FirebaseConfig {
   projectId: string;
   accessToken: string;
 }
@@ -136,26 +136,12 @@ async function getAccessToken(serviceAccount: ServiceAccount): Promise<string> {
 }
 
 /**
- * Get Firebase config from either the request body or server-side credentials.
- * Prefers request-provided config, falls back to FIREBASE_SERVICE_ACCOUNT env var.
+ * Get Firebase config from the server-side service account (FIREBASE_SERVICE_ACCOUNT).
+ * Requests can never supply their own project or token.
  */
-export async function getFirebaseConfig(
-  env: Env,
-  requestConfig?: { projectId?: string; accessToken?: string }
-): Promise<FirebaseConfig> {
-  // Use request-provided config if complete
-  if (requestConfig?.projectId && requestConfig?.accessToken) {
-    return {
-      projectId: requestConfig.projectId,
-      accessToken: requestConfig.accessToken,
-    };
-  }
-
-  // Fall back to server-side service account
+export async function getFirebaseConfig(env: Env): Promise<FirebaseConfig> {
   if (!env.FIREBASE_SERVICE_ACCOUNT) {
-    throw new Error(
-      'Firebase authentication required: provide firebaseConfig in request or set FIREBASE_SERVICE_ACCOUNT secret'
-    );
+    throw new Error('Firebase authentication required: set FIREBASE_SERVICE_ACCOUNT secret');
   }
 
   let serviceAccount: ServiceAccount;
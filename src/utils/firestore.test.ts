@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest'
-import { toFsFields, fromFsDoc, fromFsValue } from './firestore'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { toFsFields, fromFsDoc, fromFsValue, fsAggregate, fsBatchGet, fsCommit, retryOnConflict } from './firestore'
 
 describe('toFsFields', () => {
   it('converts string values', () => {
@@ -36,6 +36,12 @@ describe('toFsFields', () => {
     })
   })
 
+  it('converts Date values to timestamps', () => {
+    expect(toFsFields({ at: new Date('2025-01-02T03:04:05.000Z') })).toEqual({
+      at: { timestampValue: '2025-01-02T03:04:05.000Z' },
+    })
+  })
+
   it('converts nested objects', () => {
     expect(toFsFields({ grid: { rows: 4, cols: 5 } })).toEqual({
       grid: {
@@ -100,3 +106,152 @@ describe('fromFsValue', () => {
     expect(fromFsValue({ arrayValue: {} })).toEqual([])
   })
 })
+
+describe('fsCommit', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('sends masked updates, increments and preconditions in one commit', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify({})))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await fsCommit('p', 'tok', [
+      { path: 'users/u1/answers/q1', data: { isCorrect: true }, exists: false },
+      { path: 'users/u1', data: { stats: { correctStreak: 3 } }, updateMask: ['stats.correctStreak'], increments: { 'stats.coins': 2 } },
+    ])
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://firestore.googleapis.com/v1/projects/p/databases/(default)/documents:commit')
+    const body = JSON.parse(init.body)
+    expect(body.writes[0].currentDocument).toEqual({ exists: false })
+    expect(body.writes[0].updateMask).toBeUndefined()
+    expect(body.writes[1].updateMask).toEqual({ fieldPaths: ['stats.correctStreak'] })
+    expect(body.writes[1].updateTransforms).toEqual([
+      { fieldPath: 'stats.coins', increment: { integerValue: '2' } },
+    ])
+  })
+
+  it('sends array unions as appendMissingElements transforms', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify({})))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await fsCommit('p', 'tok', [
+      { path: 'classes/c1', data: {}, updateMask: [], appends: { studentIds: ['u1'] }, increments: { size: 1 } },
+    ])
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.writes[0].updateTransforms).toEqual([
+      { fieldPath: 'size', increment: { integerValue: '1' } },
+      { fieldPath: 'studentIds', appendMissingElements: { values: [{ stringValue: 'u1' }] } },
+    ])
+  })
+
+  it('sends array removals as removeAllFromArray transforms', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify({})))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await fsCommit('p', 'tok', [{ path: 'classes/c1', data: {}, updateMask: [], removes: { studentIds: ['u1'] } }])
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.writes[0].updateTransforms).toEqual([
+      { fieldPath: 'studentIds', removeAllFromArray: { values: [{ stringValue: 'u1' }] } },
+    ])
+  })
+
+  it('exposes the HTTP status when a precondition fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(new Response('{}', { status: 409 })))
+    await expect(fsCommit('p', 'tok', [{ path: 'a/b', data: {}, exists: false }]))
+      .rejects.toMatchObject({ status: 409 })
+  })
+
+  it('sends an updateTime precondition and reports a stale one as FAILED_PRECONDITION', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(
+      JSON.stringify({ error: { code: 400, status: 'FAILED_PRECONDITION' } }),
+      { status: 400 }
+    ))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(fsCommit('p', 'tok', [{ path: 'a/b', data: {}, updateMask: [], updateTime: '2026-01-01T00:00:00.000001Z' }]))
+      .rejects.toMatchObject({ status: 400, code: 'FAILED_PRECONDITION' })
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.writes[0].currentDocument).toEqual({ updateTime: '2026-01-01T00:00:00.000001Z' })
+  })
+})
+
+describe('retryOnConflict', () => {
+  it('retries conflicts and rethrows other errors', async () => {
+    const conflict = Object.assign(new Error('stale'), { code: 'FAILED_PRECONDITION' })
+    const run = vi.fn().mockRejectedValueOnce(conflict).mockResolvedValueOnce('done')
+    await expect(retryOnConflict(run)).resolves.toBe('done')
+    expect(run).toHaveBeenCalledTimes(2)
+
+    const failing = vi.fn().mockRejectedValue(new Error('boom'))
+    await expect(retryOnConflict(failing)).rejects.toThrow('boom')
+    expect(failing).toHaveBeenCalledTimes(1)
+  })
+
+  it('gives up after the last attempt', async () => {
+    const run = vi.fn().mockRejectedValue(Object.assign(new Error('stale'), { code: 'ABORTED' }))
+    await expect(retryOnConflict(run, 3)).rejects.toThrow('stale')
+    expect(run).toHaveBeenCalledTimes(3)
+  })
+})
+
+describe('fsCommit deletes', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('sends delete writes with their precondition', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify({})))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await fsCommit('p', 'tok', [{ path: 'users/u1/memories/m1', delete: true, exists: true }])
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.writes[0]).toEqual({
+      delete: 'projects/p/databases/(default)/documents/users/u1/memories/m1',
+      currentDocument: { exists: true },
+    })
+  })
+})
+
+describe('fsAggregate', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('returns aggregate fields by alias', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify([
+      { result: { aggregateFields: { total: { integerValue: '1200' }, stability: { nullValue: null } } } },
+    ])))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await fsAggregate('p', 'tok', 'users/u1', { from: [{ collectionId: 'memories' }] }, [
+      { alias: 'total', count: {} },
+      { alias: 'stability', avg: { field: { fieldPath: 'fsrs.stability' } } },
+    ])
+
+    expect(result).toEqual({ total: 1200, stability: null })
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'https://firestore.googleapis.com/v1/projects/p/databases/(default)/documents/users/u1:runAggregationQuery'
+    )
+  })
+})
+
+describe('fsBatchGet', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('reads in chunks and returns the documents in request order', async () => {
+    const doc = (id: string) => ({
+      found: { name: `projects/p/databases/(default)/documents/users/${id}`, fields: { n: { stringValue: id } } },
+    })
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify([doc('b'), doc('a')])))
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ missing: 'projects/p/databases/(default)/documents/users/c' }])))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const docs = await fsBatchGet('p', 'tok', ['users/a', 'users/b', 'users/c'], 2)
+
+    expect(docs).toEqual([{ id: 'a', n: 'a' }, { id: 'b', n: 'b' }, null])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).documents).toEqual([
+      'projects/p/databases/(default)/documents/users/c',
+    ])
+  })
+})
@@ -32,6 +32,55 @@ export async function fsGet(
   return fromFsDoc(await res.json() as { fields?: FsFields; name?: string });
 }
 
+/**
+ * Read many documents with batchGet, in chunks of `chunkSize` per request.
+ * Results follow the order of `paths`; missing documents are null.
+ */
+export async function fsBatchGet(
+  projectId: string,
+  token: string,
+  paths: string[],
+  chunkSize = 100
+): Promise<Array<Record<string, unknown> | null>> {
+  const docName = (path: string) => `projects/${projectId}/databases/(default)/documents/${path}`;
+  const found = new Map<string, Record<string, unknown>>();
+
+  for (let i = 0; i < paths.length; i += chunkSize) {
+    const res = await fetch(`${fsBase(projectId)}:batchGet`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ documents: paths.slice(i, i + chunkSize).map(docName) }),
+    });
+    if (!res.ok) throw new Error(`Firestore batchGet failed: ${res.status}`);
+    const rows = await res.json() as Array<{ found?: { fields?: FsFields; name: string } }>;
+    for (const row of rows) {
+      if (row.found) found.set(row.found.name, fromFsDoc(row.found));
+    }
+  }
+  return paths.map((path) => found.get(docName(path)) ?? null);
+}
+
+/**
+ * Read a document together with its update time, for writes that must not
+ * overwrite concurrent changes (FsWrite.updateTime). Returns null on 404.
+ */
+export async function fsGetVersioned(
+  projectId: string,
+  token: string,
+  path: string
+): Promise<{ data: Record<string, unknown>; updateTime: string } | null> {
+  const res = await fetch(`${fsBase(projectId)}/${path}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Firestore GET ${path} failed: ${res.status}`);
+  const doc = await res.json() as { fields?: FsFields; name?: string; updateTime: string };
+  return { data: fromFsDoc(doc), updateTime: doc.updateTime };
+}
+
 /** Write (full replace) a document at the given path. */
 export async function fsPatch(
   projectId: string,
@@ -79,7 +128,7 @@ export async function fsQuery(
     ? `projects/${projectId}/databases/(default)/documents/${parent}`
     : `projects/${projectId}/databases/(default)/documents`;
 
-  const res = await fetch(`${parentPath}:runQuery`, {
+  const res = await fetch(`https://firestore.googleapis.com/v1/${parentPath}:runQuery`, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${token}`,
@@ -92,6 +141,148 @@ export async function fsQuery(
   return rows.filter((r) => r.document).map((r) => fromFsDoc(r.document!));
 }
 
+export type FsAggregation =
+  | { alias: string; count: Record<string, never> }
+  | { alias: string; sum: { field: { fieldPath: string } } }
+  | { alias: string; avg: { field: { fieldPath: string } } };
+
+/**
+ * Run an aggregation (count, sum, avg) over a structured query without
+ * reading the documents. Results are keyed by alias; avg over no documents
+ * is null.
+ */
+export async function fsAggregate(
+  projectId: string,
+  token: string,
+  parent: string,
+  query: Record<string, unknown>,
+  aggregations: FsAggregation[]
+): Promise<Record<string, number | null>> {
+  const parentPath = parent
+    ? `projects/${projectId}/databases/(default)/documents/${parent}`
+    : `projects/${projectId}/databases/(default)/documents`;
+
+  const res = await fetch(`https://firestore.googleapis.com/v1/${parentPath}:runAggregationQuery`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ structuredAggregationQuery: { structuredQuery: query, aggregations } }),
+  });
+  if (!res.ok) throw new Error(`Firestore aggregation failed: ${res.status}`);
+  const rows = await res.json() as Array<{ result?: { aggregateFields?: FsFields } }>;
+  const fields = rows.find((r) => r.result)?.result?.aggregateFields ?? {};
+
+  const out: Record<string, number | null> = {};
+  for (const { alias } of aggregations) {
+    const value = fields[alias] ? fromFsValue(fields[alias]) : null;
+    out[alias] = typeof value === 'number' ? value : null;
+  }
+  return out;
+}
+
+/** One write inside an atomic fsCommit. */
+export interface FsWrite {
+  path: string;
+  /** Fields to write. Without `updateMask` the document is fully replaced. */
+  data?: Record<string, unknown>;
+  /** Dotted field paths to touch, e.g. ['stats.correctStreak'] */
+  updateMask?: string[];
+  /** Server-side numeric increments keyed by dotted field path */
+  increments?: Record<string, number>;
+  /** Server-side array unions keyed by dotted field path: elements already present are skipped */
+  appends?: Record<string, unknown[]>;
+  /** Server-side array removals keyed by dotted field path: every occurrence is removed */
+  removes?: Record<string, unknown[]>;
+  /** Precondition: the document must (true) or must not (false) exist */
+  exists?: boolean;
+  /** Precondition: the document is unchanged since this update time (see fsGetVersioned) */
+  updateTime?: string;
+  /** Delete the document instead of writing it; data, mask and transforms are ignored */
+  delete?: boolean;
+}
+
+/**
+ * Apply several writes atomically — either all succeed or none do.
+ * Failed preconditions surface as an Error with `status` (409 for exists: false)
+ * and the Firestore error `code` (FAILED_PRECONDITION for a stale updateTime).
+ */
+export async function fsCommit(
+  projectId: string,
+  token: string,
+  writes: FsWrite[]
+): Promise<void> {
+  const docName = (path: string) => `projects/${projectId}/databases/(default)/documents/${path}`;
+
+  const precondition = (w: FsWrite) =>
+    w.updateTime !== undefined
+      ? { currentDocument: { updateTime: w.updateTime } }
+      : w.exists !== undefined && { currentDocument: { exists: w.exists } };
+
+  const body = {
+    writes: writes.map((w) => w.delete
+      ? { delete: docName(w.path), ...precondition(w) }
+      : {
+          update: { name: docName(w.path), fields: toFsFields(w.data ?? {}) },
+          ...((w.updateMask || !w.data) && { updateMask: { fieldPaths: w.updateMask ?? [] } }),
+          ...((w.increments || w.appends || w.removes) && {
+            updateTransforms: [
+              ...Object.entries(w.increments ?? {}).map(([fieldPath, by]) => ({
+                fieldPath,
+                increment: toFsValue(by),
+              })),
+              ...Object.entries(w.appends ?? {}).map(([fieldPath, values]) => ({
+                fieldPath,
+                appendMissingElements: { values: values.map(toFsValue) },
+              })),
+              ...Object.entries(w.removes ?? {}).map(([fieldPath, values]) => ({
+                fieldPath,
+                removeAllFromArray: { values: values.map(toFsValue) },
+              })),
+            ],
+          }),
+          ...precondition(w),
+        }),
+  };
+
+  const res = await fetch(`${fsBase(projectId)}:commit`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const detail = await res.json().catch(() => null) as { error?: { status?: string } } | null;
+    throw Object.assign(new Error(`Firestore commit failed: ${res.status}`), {
+      status: res.status,
+      code: detail?.error?.status,
+    });
+  }
+}
+
+/** Whether a commit lost against a concurrent write (stale updateTime or aborted transaction) */
+export function isWriteConflict(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+  return code === 'FAILED_PRECONDITION' || code === 'ABORTED';
+}
+
+/**
+ * Run a read-check-commit cycle until its commit does not conflict with a
+ * concurrent write. `run` must re-read on every attempt.
+ */
+export async function retryOnConflict<T>(run: () => Promise<T>, attempts = 5): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (err) {
+      if (!isWriteConflict(err) || attempt >= attempts) throw err;
+    }
+  }
+}
+
 // --- Serialization ---
 
 export function toFsFields(obj: Record<string, unknown>): FsFields {
@@ -106,6 +297,7 @@ export function toFsValue(v: unknown): FsRawValue {
   if (v === null || v === undefined) return { nullValue: null };
   if (typeof v === 'string') return { stringValue: v };
   if (typeof v === 'boolean') return { booleanValue: v };
+  if (v instanceof Date) return { timestampValue: v.toISOString() };
   if (typeof v === 'number') {
     return Number.isInteger(v) ? { integerValue: String(v) } : { doubleValue: v };
   }
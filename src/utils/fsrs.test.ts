@@ -0,0 +1,109 @@
+// src/utils/fsrs.test.ts
+import { describe, it, expect } from 'vitest'
+import {
+  FSRS_DEFAULTS,
+  RATING,
+  dueDate,
+  fromSM2,
+  initialState,
+  nextInterval,
+  nextState,
+  ratingFromOutcome,
+  retrievability,
+} from './fsrs'
+import { autoMemoryId, documentToMemory, newMemory, reviewMemory, shouldRemember } from './memories'
+
+describe('FSRS', () => {
+  it('predicts 90 % recall after one stability', () => {
+    expect(retrievability(10, 10)).toBeCloseTo(0.9, 6)
+    expect(nextInterval(10)).toBe(10)
+    expect(nextInterval(10, { ...FSRS_DEFAULTS, desiredRetention: 0.8 })).toBeGreaterThan(10)
+  })
+
+  it('grows stability on recall and shrinks it on a lapse', () => {
+    const state = initialState(RATING.good)
+    const recalled = nextState(state, 3, RATING.good)
+    const forgotten = nextState(state, 3, RATING.again)
+    expect(recalled.stability).toBeGreaterThan(state.stability)
+    expect(forgotten.stability).toBeLessThan(state.stability)
+    expect(forgotten.difficulty).toBeGreaterThan(state.difficulty)
+    expect(nextState(state, 3, RATING.easy).stability).toBeGreaterThan(recalled.stability)
+  })
+})
+
+describe('ratingFromOutcome', () => {
+  it('derives the rating from correctness, hints and time', () => {
+    expect(ratingFromOutcome({ isCorrect: false, score: 0 })).toBe(RATING.again)
+    expect(ratingFromOutcome({ isCorrect: false, score: 0.6 })).toBe(RATING.hard)
+    expect(ratingFromOutcome({ isCorrect: true, hintsUsed: 1 })).toBe(RATING.hard)
+    expect(ratingFromOutcome({ isCorrect: true, hintsUsed: 3 })).toBe(RATING.again)
+    expect(ratingFromOutcome({ isCorrect: true, timeSpent: 100, expectedTime: 300 })).toBe(RATING.easy)
+    expect(ratingFromOutcome({ isCorrect: true, timeSpent: 250, expectedTime: 300 })).toBe(RATING.good)
+  })
+})
+
+describe('dueDate', () => {
+  it('is due at local midnight in the time zone', () => {
+    // 00:30 on 31 March in Berlin, still 30 March in UTC and in New York
+    const from = new Date('2026-03-30T22:30:00Z')
+    expect(dueDate(from, 1, 'Europe/Berlin').toISOString()).toBe('2026-03-31T22:00:00.000Z')
+    expect(dueDate(from, 1, 'America/New_York').toISOString()).toBe('2026-03-31T04:00:00.000Z')
+    // Across the switch from CET (UTC+1) to CEST (UTC+2)
+    expect(dueDate(new Date('2026-03-27T12:00:00Z'), 3, 'Europe/Berlin').toISOString()).toBe(
+      '2026-03-29T22:00:00.000Z'
+    )
+  })
+})
+
+describe('SM-2 migration', () => {
+  const legacy = {
+    id: 'mem_1',
+    questionId: 'q1',
+    createdAt: '2026-09-01T08:00:00.000Z',
+    lastReviewed: '2026-10-01T08:00:00.000Z',
+    nextReview: '2026-10-16T08:00:00.000Z',
+    repetitions: 3,
+    easeFactor: 2.5,
+    interval: 15,
+  }
+
+  it('keeps the due date and takes the interval as stability', () => {
+    const memory = documentToMemory(legacy)
+    expect(memory.nextReview).toBe(legacy.nextReview)
+    expect(memory.fsrs).toEqual({ stability: 15, difficulty: 5 })
+    expect(fromSM2({ easeFactor: 1.3, interval: 1, repetitions: 1 })?.difficulty).toBe(10)
+    expect(documentToMemory({ ...legacy, repetitions: 0 }).fsrs).toBeNull()
+  })
+
+  it('schedules a migrated item from its SM-2 history', () => {
+    const memory = documentToMemory(legacy)
+    const reviewed = reviewMemory(memory, RATING.good, {
+      now: new Date('2026-10-16T09:00:00Z'),
+      timeZone: 'Europe/Berlin',
+    })
+    expect(reviewed.interval).toBeGreaterThan(15)
+    expect(reviewed.repetitions).toBe(4)
+    expect(reviewed.lastRating).toBe(RATING.good)
+    expect(new Date(reviewed.nextReview).getTime()).toBeGreaterThan(new Date('2026-10-31T00:00:00Z').getTime())
+  })
+})
+
+describe('automatic memories', () => {
+  it('remembers wrong, skipped and heavily hinted answers', () => {
+    expect(shouldRemember({ isCorrect: false })).toBe(true)
+    expect(shouldRemember({ isCorrect: true, hintsUsed: 2 })).toBe(true)
+    expect(shouldRemember({ isCorrect: true, hintsUsed: 1 })).toBe(false)
+    expect(autoMemoryId('session_1', 'q3', 'abc')).toBe('auto_abc')
+    expect(autoMemoryId('session_1', 'q3')).toBe('auto_session_1_q3')
+  })
+
+  it('makes a new item due the next local day after a wrong answer', () => {
+    const memory = newMemory('auto_abc', 'u1', { questionId: 'q3' }, '2026-10-16T09:00:00.000Z')
+    const reviewed = reviewMemory(memory, RATING.again, {
+      now: new Date('2026-10-16T09:00:00Z'),
+      timeZone: 'Europe/Berlin',
+    })
+    expect(reviewed.nextReview).toBe('2026-10-16T22:00:00.000Z')
+    expect(reviewed.lapses).toBe(0)
+  })
+})
@@ -0,0 +1,237 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler, v4.5) for memory items.
+ * Every item has a stability S — the number of days after which the
+ * probability of recalling it has dropped to 90 % — and a difficulty D
+ * (1…10). A review rated 1–4 (again, hard, good, easy) updates both, and
+ * the next review is due when the predicted recall probability falls to the
+ * desired retention.
+ *
+ * Ratings are not asked from the student: ratingFromOutcome derives them
+ * from the evaluation (correctness, rubric score, hints used, time spent).
+ * Due dates fall on the start of a day in the student's time zone, so a
+ * review scheduled "in 3 days" is due from local midnight, not from the
+ * UTC time of the last answer.
+ */
+
+export type Rating = 1 | 2 | 3 | 4;
+
+export const RATING = { again: 1, hard: 2, good: 3, easy: 4 } as const;
+
+export interface FsrsState {
+  /** Days until the recall probability drops to 90 % */
+  stability: number;
+  /** 1 (easy) … 10 (hard) */
+  difficulty: number;
+}
+
+export interface FsrsOptions {
+  /** Recall probability at which a review is due, 0.7…0.97 */
+  desiredRetention: number;
+  /** Upper bound for intervals, in days */
+  maximumInterval: number;
+  /** The 17 FSRS-4.5 model weights */
+  weights: readonly number[];
+}
+
+export const FSRS_DEFAULTS: FsrsOptions = {
+  desiredRetention: 0.9,
+  maximumInterval: 365,
+  weights: [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461,
+    2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+  ],
+};
+
+export const RETENTION_RANGE = { min: 0.7, max: 0.97 };
+
+// Power forgetting curve R(t) = (1 + FACTOR · t / S)^DECAY, with R(S) = 0.9
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+const MIN_STABILITY = 0.1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clampDifficulty = (d: number) => Math.min(Math.max(d, 1), 10);
+
+/** Predicted recall probability after `elapsedDays` */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * Math.max(elapsedDays, 0)) / stability, DECAY);
+}
+
+/** Whole days until the recall probability reaches the desired retention */
+export function nextInterval(stability: number, options: FsrsOptions = FSRS_DEFAULTS): number {
+  const days = (stability / FACTOR) * (Math.pow(options.desiredRetention, 1 / DECAY) - 1);
+  return Math.min(Math.max(Math.round(days), 1), options.maximumInterval);
+}
+
+function initialDifficulty(rating: Rating, w: readonly number[]): number {
+  return clampDifficulty(w[4] - (rating - 3) * w[5]);
+}
+
+/** State after the first review of a new item */
+export function initialState(rating: Rating, options: FsrsOptions = FSRS_DEFAULTS): FsrsState {
+  const w = options.weights;
+  return {
+    stability: Math.max(w[rating - 1], MIN_STABILITY),
+    difficulty: initialDifficulty(rating, w),
+  };
+}
+
+/** State after reviewing an item `elapsedDays` after its last review */
+export function nextState(
+  state: FsrsState,
+  elapsedDays: number,
+  rating: Rating,
+  options: FsrsOptions = FSRS_DEFAULTS
+): FsrsState {
+  const w = options.weights;
+  const { stability: s, difficulty: d } = state;
+  const r = retrievability(elapsedDays, s);
+
+  // Difficulty moves with the rating and reverts towards the default
+  const shifted = d - w[6] * (rating - 3);
+  const difficulty = clampDifficulty(w[7] * initialDifficulty(RATING.good, w) + (1 - w[7]) * shifted);
+
+  let stability: number;
+  if (rating === RATING.again) {
+    const forgotten =
+      w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r));
+    stability = Math.min(forgotten, s);
+  } else {
+    const hardPenalty = rating === RATING.hard ? w[15] : 1;
+    const easyBonus = rating === RATING.easy ? w[16] : 1;
+    stability =
+      s *
+      (1 +
+        Math.exp(w[8]) *
+          (11 - d) *
+          Math.pow(s, -w[9]) *
+          (Math.exp(w[10] * (1 - r)) - 1) *
+          hardPenalty *
+          easyBonus);
+  }
+
+  return { stability: Math.max(stability, MIN_STABILITY), difficulty };
+}
+
+// ============================================================================
+// RATINGS FROM EVALUATIONS
+// ============================================================================
+
+export interface ReviewOutcome {
+  isCorrect: boolean;
+  /** Rubric score 0…1 */
+  score?: number;
+  skipped?: boolean;
+  hintsUsed?: number;
+  /** Seconds */
+  timeSpent?: number;
+  /** Seconds a typical student needs for the question */
+  expectedTime?: number;
+}
+
+/**
+ * Wrong, skipped or fully hinted answers are "again"; partly correct or
+ * hinted answers "hard"; fast answers without hints "easy".
+ */
+export function ratingFromOutcome(outcome: ReviewOutcome): Rating {
+  const hints = outcome.hintsUsed ?? 0;
+  if (outcome.skipped || hints >= 3) return RATING.again;
+  if (!outcome.isCorrect) {
+    return (outcome.score ?? 0) >= 0.5 ? RATING.hard : RATING.again;
+  }
+  if (hints > 0) return RATING.hard;
+  if (outcome.timeSpent && outcome.expectedTime && outcome.timeSpent < outcome.expectedTime * 0.5) {
+    return RATING.easy;
+  }
+  return RATING.good;
+}
+
+/** Legacy SM-2 quality (0–5) as a rating */
+export function ratingFromQuality(quality: number): Rating {
+  if (quality < 3) return RATING.again;
+  if (quality === 3) return RATING.hard;
+  return quality === 4 ? RATING.good : RATING.easy;
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * FSRS state for an SM-2 item. The SM-2 interval was chosen so the item is
+ * still remembered at its end, which is what stability measures; the ease
+ * factor (1.3…2.5+) maps onto difficulty (10…5 and below).
+ */
+export function fromSM2(sm2: { easeFactor: number; interval: number; repetitions: number }): FsrsState | null {
+  if (sm2.repetitions <= 0) return null;
+  return {
+    stability: Math.max(sm2.interval, MIN_STABILITY),
+    difficulty: clampDifficulty(5 + ((2.5 - sm2.easeFactor) * 5) / 1.2),
+  };
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+export const DEFAULT_TIME_ZONE = 'Europe/Berlin';
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function elapsedDays(from: string | Date, to: Date): number {
+  const start = new Date(from).getTime();
+  return Number.isFinite(start) ? Math.max(to.getTime() - start, 0) / DAY_MS : 0;
+}
+
+/** Calendar date of an instant in a time zone */
+function localDate(at: Date, timeZone: string): { year: number; month: number; day: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/** Calendar date of an instant in a time zone, as YYYY-MM-DD */
+export function localDay(at: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const { year, month, day } = localDate(at, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Offset of the time zone from UTC at an instant, in ms */
+function zoneOffset(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(at);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/** Local midnight `days` calendar days after `from`, as a UTC instant */
+export function dueDate(from: Date, days: number, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  const { year, month, day } = localDate(from, timeZone);
+  const midnightUtc = Date.UTC(year, month - 1, day + days);
+  // The offset at the target day, so DST changes in between do not shift the time
+  let due = midnightUtc - zoneOffset(new Date(midnightUtc), timeZone);
+  due = midnightUtc - zoneOffset(new Date(due), timeZone);
+  return new Date(due);
+}
@@ -0,0 +1,184 @@
+// src/utils/joinCodes.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  classCapacity,
+  describeJoinCode,
+  formatJoinCode,
+  generateJoinCode,
+  joinCodeStatus,
+  normalizeJoinCode,
+  redeemJoinCode,
+  DEFAULT_MAX_CLASS_SIZE,
+  type JoinCodeDoc,
+} from './joinCodes'
+
+const NOW = new Date('2026-03-10T12:00:00Z')
+
+function codeDoc(overrides: Partial<Record<string, unknown>> = {}) {
+  const fields: Record<string, unknown> = {
+    classId: { stringValue: 'cls-abc' },
+    schoolId: { stringValue: 'mvl' },
+    createdBy: { stringValue: 'teacher-uid-1' },
+    createdAt: { stringValue: '2026-03-09T12:00:00.000Z' },
+    expiresAt: { stringValue: '2026-03-16T12:00:00.000Z' },
+    revokedAt: { nullValue: null },
+    requiresApproval: { booleanValue: false },
+    redemptions: { integerValue: '0' },
+    ...overrides,
+  }
+  return new Response(JSON.stringify({
+    name: 'projects/test-proj/databases/(default)/documents/joinCodes/ABCD2345',
+    fields,
+  }))
+}
+
+function classDoc(studentIds: string[], maxStudents?: number) {
+  return new Response(JSON.stringify({
+    name: 'projects/test-proj/databases/(default)/documents/classes/cls-abc',
+    updateTime: '2026-03-10T12:00:00.000001Z',
+    fields: {
+      name: { stringValue: '11a' },
+      studentIds: { arrayValue: { values: studentIds.map((s) => ({ stringValue: s })) } },
+      ...(maxStudents !== undefined && { maxStudents: { integerValue: String(maxStudents) } }),
+    },
+  }))
+}
+
+const ok = () => new Response(JSON.stringify({ writeResults: [{}] }))
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('join code format', () => {
+  it('generates codes that survive normalization', () => {
+    const code = generateJoinCode()
+    expect(code).toHaveLength(8)
+    expect(normalizeJoinCode(formatJoinCode(code))).toBe(code)
+  })
+
+  it('accepts lower case, spaces and the hyphen, and rejects look-alikes', () => {
+    expect(normalizeJoinCode(' abcd-2345 ')).toBe('ABCD2345')
+    expect(normalizeJoinCode('abcd 2345')).toBe('ABCD2345')
+    expect(normalizeJoinCode('ABCD0145')).toBeNull()
+    expect(normalizeJoinCode('ABCD234')).toBeNull()
+  })
+})
+
+describe('joinCodeStatus / describeJoinCode', () => {
+  const doc: JoinCodeDoc = {
+    id: 'ABCD2345',
+    classId: 'cls-abc',
+    schoolId: 'mvl',
+    createdBy: 'teacher-uid-1',
+    createdAt: '2026-03-09T12:00:00.000Z',
+    expiresAt: '2026-03-16T12:00:00.000Z',
+    revokedAt: null,
+    requiresApproval: false,
+    redemptions: 3,
+  }
+
+  it('reports active, expired and revoked codes', () => {
+    expect(joinCodeStatus(doc, NOW)).toBe('active')
+    expect(joinCodeStatus(doc, new Date('2026-03-16T12:00:00Z'))).toBe('expired')
+    expect(joinCodeStatus({ ...doc, revokedAt: '2026-03-10T00:00:00.000Z' }, NOW)).toBe('revoked')
+  })
+
+  it('includes the display code and the QR payload', () => {
+    expect(describeJoinCode(doc, NOW)).toMatchObject({
+      code: 'ABCD2345',
+      displayCode: 'ABCD-2345',
+      status: 'active',
+      qrPayload: 'https://app.learn-smart.app/join?code=ABCD2345',
+    })
+  })
+
+  it('falls back to the default class size', () => {
+    expect(classCapacity({})).toBe(DEFAULT_MAX_CLASS_SIZE)
+    expect(classCapacity({ maxStudents: 25 })).toBe(25)
+  })
+})
+
+describe('redeemJoinCode', () => {
+  it('adds the student with an array union and counts the redemption', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(codeDoc())
+      .mockResolvedValueOnce(classDoc(['uid-a']))
+      .mockResolvedValueOnce(ok())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await redeemJoinCode('test-proj', 'token', 'uid-new', 'abcd-2345', NOW)
+
+    expect(result).toEqual({ status: 'joined', classId: 'cls-abc', className: '11a' })
+    const { writes } = JSON.parse(fetchMock.mock.calls[2][1].body)
+    expect(writes[0].updateTransforms).toEqual([
+      { fieldPath: 'studentIds', appendMissingElements: { values: [{ stringValue: 'uid-new' }] } },
+    ])
+    expect(writes[0].currentDocument).toEqual({ updateTime: '2026-03-10T12:00:00.000001Z' })
+    expect(writes[1].updateTransforms[0]).toMatchObject({ fieldPath: 'redemptions' })
+  })
+
+  it('leaves a join request when the code requires approval', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(codeDoc({ requiresApproval: { booleanValue: true } }))
+      .mockResolvedValueOnce(classDoc([]))
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        fields: { displayName: { stringValue: 'Anna' }, email: { stringValue: 'anna@schule.de' } },
+      })))
+      .mockResolvedValueOnce(ok())
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await redeemJoinCode('test-proj', 'token', 'uid-new', 'ABCD2345', NOW)
+
+    expect(result.status).toBe('pending')
+    const { writes } = JSON.parse(fetchMock.mock.calls[3][1].body)
+    expect(writes[0].update.name).toMatch(/classes\/cls-abc\/joinRequests\/uid-new$/)
+    expect(writes[0].update.fields.displayName).toEqual({ stringValue: 'Anna' })
+  })
+
+  it('does nothing for a student already in the class', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(codeDoc())
+      .mockResolvedValueOnce(classDoc(['uid-new']))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await redeemJoinCode('test-proj', 'token', 'uid-new', 'ABCD2345', NOW)
+    expect(result.status).toBe('already-member')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects expired and revoked codes', async () => {
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(codeDoc({ expiresAt: { stringValue: '2026-03-10T11:00:00.000Z' } }))
+      .mockResolvedValueOnce(codeDoc({ revokedAt: { stringValue: '2026-03-10T11:00:00.000Z' } })))
+
+    await expect(redeemJoinCode('test-proj', 'token', 'uid-new', 'ABCD2345', NOW))
+      .rejects.toMatchObject({ statusCode: 410, code: 'JOIN_CODE_EXPIRED' })
+    await expect(redeemJoinCode('test-proj', 'token', 'uid-new', 'ABCD2345', NOW))
+      .rejects.toMatchObject({ statusCode: 404, code: 'JOIN_CODE_INVALID' })
+  })
+
+  it('refuses to join a full class', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(codeDoc())
+      .mockResolvedValueOnce(classDoc(['uid-a', 'uid-b'], 2))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(redeemJoinCode('test-proj', 'token', 'uid-new', 'ABCD2345', NOW))
+      .rejects.toMatchObject({ statusCode: 409, code: 'CLASS_FULL' })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('re-reads the class when a concurrent join takes the last place', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(codeDoc())
+      .mockResolvedValueOnce(classDoc(['uid-a'], 2))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ error: { status: 'FAILED_PRECONDITION' } }), { status: 400 }))
+      .mockResolvedValueOnce(classDoc(['uid-a', 'uid-b'], 2))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(redeemJoinCode('test-proj', 'token', 'uid-new', 'ABCD2345', NOW))
+      .rejects.toMatchObject({ statusCode: 409, code: 'CLASS_FULL' })
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+})
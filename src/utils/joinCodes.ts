@@ -0,0 +1,174 @@
+// src/utils/joinCodes.ts
+/**
+ * Class join codes. A teacher creates a code for a class (joinCodes/{code});
+ * students redeem it through POST /api/join-class and are added to the
+ * class's studentIds, or, for codes that require approval, leave a join
+ * request (classes/{classId}/joinRequests/{uid}) for the teacher to accept.
+ *
+ * Codes are 8 characters from an alphabet without look-alikes (0/O, 1/I/L),
+ * shown as XXXX-XXXX; input is accepted in any case, with or without the
+ * hyphen or spaces. They expire and can be revoked. The QR payload is the
+ * app's join link with the code, so scanning opens the redeem screen.
+ *
+ * Joining is refused once a class has maxStudents students (default
+ * DEFAULT_MAX_CLASS_SIZE). Teachers adding students themselves are not bound
+ * by the limit.
+ */
+
+import { APIError } from '../types';
+import { fsCommit, fsGet, fsGetVersioned, retryOnConflict, type FsWrite } from './firestore';
+
+export const JOIN_URL = 'https://app.learn-smart.app/join';
+
+export const DEFAULT_MAX_CLASS_SIZE = 40;
+export const MAX_CLASS_SIZE_LIMIT = 200;
+
+/** Validity of a new code in hours */
+export const JOIN_CODE_TTL = { default: 7 * 24, max: 30 * 24 };
+
+const ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 8;
+const CODE_PATTERN = new RegExp(`^[${ALPHABET}]{${CODE_LENGTH}}$`);
+
+export interface JoinCodeDoc {
+  id: string;
+  classId: string;
+  schoolId: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  requiresApproval: boolean;
+  redemptions: number;
+}
+
+export interface JoinRequestDoc {
+  uid: string;
+  displayName: string;
+  email: string;
+  code: string;
+  requestedAt: string;
+}
+
+export type JoinCodeStatus = 'active' | 'expired' | 'revoked';
+
+export function generateJoinCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  // 256 % 31 leaves a bias of under 1 % between characters, harmless here
+  return Array.from(bytes, (b) => ALPHABET[b % ALPHABET.length]).join('');
+}
+
+/** The stored form of user input, or null if it cannot be a code */
+export function normalizeJoinCode(input: string): string | null {
+  const code = input.replace(/[\s-]/g, '').toUpperCase();
+  return CODE_PATTERN.test(code) ? code : null;
+}
+
+export function formatJoinCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+export function joinQrPayload(code: string): string {
+  return `${JOIN_URL}?code=${code}`;
+}
+
+export function joinCodeStatus(doc: Pick<JoinCodeDoc, 'expiresAt' | 'revokedAt'>, now: Date = new Date()): JoinCodeStatus {
+  if (doc.revokedAt) return 'revoked';
+  return new Date(doc.expiresAt).getTime() <= now.getTime() ? 'expired' : 'active';
+}
+
+/** A code as the dashboard shows it */
+export function describeJoinCode(doc: JoinCodeDoc, now: Date = new Date()) {
+  return {
+    code: doc.id,
+    displayCode: formatJoinCode(doc.id),
+    classId: doc.classId,
+    status: joinCodeStatus(doc, now),
+    requiresApproval: doc.requiresApproval,
+    createdAt: doc.createdAt,
+    expiresAt: doc.expiresAt,
+    revokedAt: doc.revokedAt,
+    redemptions: doc.redemptions,
+    qrPayload: joinQrPayload(doc.id),
+  };
+}
+
+export function classCapacity(cls: { maxStudents?: unknown }): number {
+  return typeof cls.maxStudents === 'number' ? cls.maxStudents : DEFAULT_MAX_CLASS_SIZE;
+}
+
+/**
+ * The write that adds a student to a class; the array union keeps concurrent
+ * joins. With the `updateTime` of the class read for a size check, the write
+ * fails instead if the class changed since (see retryOnConflict).
+ */
+export function addStudentWrite(classId: string, uid: string, now: string, updateTime?: string): FsWrite {
+  return {
+    path: `classes/${classId}`,
+    data: { updatedAt: now },
+    updateMask: ['updatedAt'],
+    appends: { studentIds: [uid] },
+    ...(updateTime ? { updateTime } : { exists: true }),
+  };
+}
+
+export interface RedeemResult {
+  status: 'joined' | 'pending' | 'already-member';
+  classId: string;
+  className: string;
+}
+
+/**
+ * Redeem a code for a student. Unknown and revoked codes answer the same
+ * 404, so revoked codes reveal nothing about the class. The class is re-read
+ * when a concurrent join lands between its size check and the commit.
+ */
+export async function redeemJoinCode(
+  projectId: string,
+  accessToken: string,
+  uid: string,
+  input: string,
+  now: Date = new Date()
+): Promise<RedeemResult> {
+  const code = normalizeJoinCode(input);
+  if (!code) throw new APIError('Invalid join code', 400, 'JOIN_CODE_INVALID');
+
+  const doc = (await fsGet(projectId, accessToken, `joinCodes/${code}`)) as JoinCodeDoc | null;
+  const status = doc && joinCodeStatus(doc, now);
+  if (!doc || status === 'revoked') throw new APIError('Invalid join code', 404, 'JOIN_CODE_INVALID');
+  if (status === 'expired') throw new APIError('This join code has expired', 410, 'JOIN_CODE_EXPIRED');
+
+  return retryOnConflict(async () => {
+    const versioned = await fsGetVersioned(projectId, accessToken, `classes/${doc.classId}`);
+    if (!versioned) throw new APIError('Invalid join code', 404, 'JOIN_CODE_INVALID');
+    const cls = versioned.data;
+    const result = { classId: doc.classId, className: (cls.name as string) ?? '' };
+    const studentIds = (cls.studentIds as string[] | undefined) ?? [];
+    if (studentIds.includes(uid)) return { ...result, status: 'already-member' };
+
+    const at = now.toISOString();
+    if (doc.requiresApproval) {
+      const user = await fsGet(projectId, accessToken, `users/${uid}`);
+      const request: JoinRequestDoc = {
+        uid,
+        displayName: (user?.displayName as string) ?? '',
+        email: (user?.email as string) ?? '',
+        code,
+        requestedAt: at,
+      };
+      await fsCommit(projectId, accessToken, [
+        { path: `classes/${doc.classId}/joinRequests/${uid}`, data: request as unknown as Record<string, unknown> },
+      ]);
+      return { ...result, status: 'pending' };
+    }
+
+    if (studentIds.length >= classCapacity(cls)) {
+      throw new APIError('This class is full', 409, 'CLASS_FULL');
+    }
+    await fsCommit(projectId, accessToken, [
+      addStudentWrite(doc.classId, uid, at, versioned.updateTime),
+      { path: `joinCodes/${code}`, data: {}, updateMask: [], increments: { redemptions: 1 }, exists: true },
+    ]);
+    return { ...result, status: 'joined' };
+  });
+}
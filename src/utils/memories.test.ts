@@ -0,0 +1,93 @@
+// src/utils/memories.test.ts
+import { describe, it, expect } from 'vitest'
+import {
+  decodeCursor,
+  documentToMemory,
+  encodeCursor,
+  memoryPageQuery,
+  needsMigration,
+  parseMemoryFilters,
+  SCHEDULER,
+} from './memories'
+
+const reference = (path: string) => `projects/p/databases/(default)/documents/users/u1/${path}`
+
+describe('memory queries', () => {
+  it('combines filters and pages by nextReview and document name', () => {
+    const query = memoryPageQuery(
+      { topic: 'Analysis', difficulty: { min: 3, max: 5 }, dueTo: '2026-05-01T00:00:00.000Z', suspended: false },
+      20,
+      { nextReview: '2026-04-01T00:00:00.000Z', id: 'mem_1' },
+      reference
+    )
+
+    expect(query.where).toEqual({
+      compositeFilter: {
+        op: 'AND',
+        filters: [
+          { fieldFilter: { field: { fieldPath: 'suspended' }, op: 'EQUAL', value: { booleanValue: false } } },
+          { fieldFilter: { field: { fieldPath: 'topic' }, op: 'EQUAL', value: { stringValue: 'Analysis' } } },
+          {
+            fieldFilter: {
+              field: { fieldPath: 'difficulty' },
+              op: 'IN',
+              value: {
+                arrayValue: { values: [{ integerValue: '3' }, { integerValue: '4' }, { integerValue: '5' }] },
+              },
+            },
+          },
+          {
+            fieldFilter: {
+              field: { fieldPath: 'nextReview' },
+              op: 'LESS_THAN_OR_EQUAL',
+              value: { timestampValue: '2026-05-01T00:00:00.000Z' },
+            },
+          },
+        ],
+      },
+    })
+    expect(query.orderBy).toEqual([
+      { field: { fieldPath: 'nextReview' }, direction: 'ASCENDING' },
+      { field: { fieldPath: '__name__' }, direction: 'ASCENDING' },
+    ])
+    expect(query.startAt).toEqual({
+      values: [
+        { timestampValue: '2026-04-01T00:00:00.000Z' },
+        { referenceValue: reference('memories/mem_1') },
+      ],
+      before: false,
+    })
+    expect(query.limit).toBe(21)
+  })
+
+  it('omits where and startAt without filters or cursor', () => {
+    const query = memoryPageQuery({}, 50, null, reference)
+    expect(query).not.toHaveProperty('where')
+    expect(query).not.toHaveProperty('startAt')
+  })
+
+  it('round-trips cursors and rejects tampered ones', () => {
+    const cursor = encodeCursor({ id: 'auto_q-1', nextReview: '2026-04-01T00:00:00.000Z' })
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeCursor(cursor)).toEqual({ id: 'auto_q-1', nextReview: '2026-04-01T00:00:00.000Z' })
+
+    expect(() => decodeCursor('not a cursor')).toThrow('Invalid cursor')
+    const badId = btoa(JSON.stringify({ n: '2026-04-01T00:00:00.000Z', i: '../x/y' }))
+    expect(() => decodeCursor(badId)).toThrow('Invalid cursor')
+  })
+
+  it('validates filters from requests', () => {
+    expect(parseMemoryFilters(undefined)).toEqual({})
+    expect(parseMemoryFilters({ difficulty: { min: 4 } })).toEqual({ difficulty: { min: 4, max: 10 } })
+    expect(() => parseMemoryFilters({ difficulty: { min: 6, max: 2 } })).toThrow('filters.difficulty')
+    expect(() => parseMemoryFilters({ dueTo: 'tomorrow' })).toThrow('filters.dueTo')
+    expect(() => parseMemoryFilters({ suspended: 'yes' })).toThrow('filters.suspended')
+  })
+
+  it('migrates items without the suspended field', () => {
+    expect(needsMigration({ scheduler: SCHEDULER, suspended: false })).toBe(false)
+    expect(needsMigration({ scheduler: SCHEDULER })).toBe(true)
+    expect(needsMigration({ easeFactor: 2.5, suspended: false })).toBe(true)
+    expect(documentToMemory({ id: 'm1', scheduler: SCHEDULER }).suspended).toBe(false)
+  })
+})
@@ -0,0 +1,370 @@
+/**
+ * Memory items (users/{uid}/memories/{memoryId}) and their FSRS schedule.
+ * Shared by manage-memories and evaluate-answer, which reviews the item a
+ * question was asked for with a rating derived from the evaluation.
+ *
+ * Items written before the FSRS scheduler carry SM-2 fields (easeFactor,
+ * interval, repetitions) and no `scheduler` field. They are converted on
+ * read with their nextReview unchanged, so no schedule is lost, and are
+ * rewritten on their next review or by the manage-memories `migrate` action.
+ *
+ * evaluate-answer creates items on its own: a wrong, skipped or heavily
+ * hinted answer creates (or refreshes) the item for that question, with a
+ * snapshot of the question so build-session can serve it again.
+ *
+ * Lists are queried page by page, ordered by nextReview, with an opaque
+ * cursor. The filter combinations are backed by the composite indexes in
+ * firestore.indexes.json: each equality field + nextReview, alone and with
+ * `suspended` (get-due adds it); Firestore merges them for combinations.
+ */
+
+import type { Question } from '../types';
+import { APIError } from '../types';
+import { toFsValue } from './firestore';
+import {
+  FSRS_DEFAULTS,
+  RATING,
+  dueDate,
+  elapsedDays,
+  fromSM2,
+  initialState,
+  nextInterval,
+  nextState,
+  type FsrsOptions,
+  type FsrsState,
+  type Rating,
+} from './fsrs';
+
+export const SCHEDULER = 'fsrs-4.5';
+
+export interface MemoryItem {
+  id: string;
+  userId: string;
+  questionId: string;
+  questionText: string;
+  topic: string;
+  subtopic: string;
+  /** Question difficulty 1–10 */
+  difficulty: number;
+  createdAt: string;
+  lastReviewed: string;
+  nextReview: string;
+  repetitions: number;
+  /** Reviews rated "again" after the first one */
+  lapses: number;
+  /** Days between lastReviewed and nextReview */
+  interval: number;
+  /** null until the first review */
+  fsrs: FsrsState | null;
+  lastRating: Rating | null;
+  /** Suspended items are never due, e.g. a topic set aside before an exam */
+  suspended: boolean;
+  /** The question to ask again; set on items evaluate-answer created */
+  question?: Question;
+}
+
+/** Fields a student may set when creating an item by hand */
+export type MemoryInput = Pick<Partial<MemoryItem>, 'questionId' | 'questionText' | 'topic' | 'subtopic' | 'difficulty'>;
+
+/** Answers with this many hints are remembered even when correct */
+export const MANY_HINTS = 2;
+
+export function shouldRemember(outcome: {
+  isCorrect: boolean;
+  skipped?: boolean;
+  hintsUsed?: number;
+}): boolean {
+  return !outcome.isCorrect || outcome.skipped === true || (outcome.hintsUsed ?? 0) >= MANY_HINTS;
+}
+
+/** One item per question: bank questions by bank id, others per session */
+export function autoMemoryId(sessionId: string, questionId: string, bankId?: string): string {
+  return bankId ? `auto_${bankId}` : `auto_${sessionId}_${questionId}`;
+}
+
+/**
+ * Items evaluate-answer created. Only their question snapshot comes from a
+ * stored session; build-session serves no other snapshot.
+ */
+export function isAutoMemory(memory: Pick<MemoryItem, 'id'>): boolean {
+  return memory.id.startsWith('auto_');
+}
+
+/** A new item, due immediately */
+export function newMemory(
+  id: string,
+  userId: string,
+  data: Partial<MemoryItem>,
+  now: string = new Date().toISOString()
+): MemoryItem {
+  return {
+    id,
+    userId,
+    questionId: data.questionId || '',
+    questionText: data.questionText || '',
+    topic: data.topic || 'Allgemein',
+    subtopic: data.subtopic || 'Allgemein',
+    difficulty: data.difficulty || 5,
+    createdAt: now,
+    lastReviewed: now,
+    nextReview: now,
+    repetitions: 0,
+    lapses: 0,
+    interval: 0,
+    fsrs: null,
+    lastRating: null,
+    suspended: false,
+    ...(data.question && { question: data.question }),
+  };
+}
+
+/** Snapshot for an item, without session-specific ids */
+export function memoryQuestion(question: Question): Question {
+  const { memoryId: _memoryId, ...rest } = question;
+  return rest;
+}
+
+export function isLegacyMemory(doc: Record<string, unknown>): boolean {
+  return doc.scheduler !== SCHEDULER;
+}
+
+/**
+ * Documents the indexed queries cannot see yet: SM-2 items and FSRS items
+ * written before `suspended` existed (equality filters skip missing fields).
+ */
+export function needsMigration(doc: Record<string, unknown>): boolean {
+  return isLegacyMemory(doc) || typeof doc.suspended !== 'boolean';
+}
+
+export function documentToMemory(doc: Record<string, unknown>): MemoryItem {
+  const base = {
+    id: (doc.id as string) || '',
+    userId: (doc.userId as string) || '',
+    questionId: (doc.questionId as string) || '',
+    questionText: (doc.questionText as string) || '',
+    topic: (doc.topic as string) || '',
+    subtopic: (doc.subtopic as string) || '',
+    difficulty: (doc.difficulty as number) || 5,
+    createdAt: (doc.createdAt as string) || '',
+    lastReviewed: (doc.lastReviewed as string) || '',
+    nextReview: (doc.nextReview as string) || '',
+    repetitions: (doc.repetitions as number) || 0,
+    interval: (doc.interval as number) || 1,
+    suspended: doc.suspended === true,
+    ...(typeof doc.question === 'object' && doc.question !== null && { question: doc.question as Question }),
+  };
+
+  if (isLegacyMemory(doc)) {
+    return {
+      ...base,
+      lapses: 0,
+      fsrs: fromSM2({
+        easeFactor: (doc.easeFactor as number) || 2.5,
+        interval: base.interval,
+        repetitions: base.repetitions,
+      }),
+      lastRating: null,
+    };
+  }
+
+  const fsrs = doc.fsrs as Record<string, unknown> | null | undefined;
+  return {
+    ...base,
+    lapses: (doc.lapses as number) || 0,
+    fsrs: fsrs
+      ? { stability: Number(fsrs.stability) || 0.1, difficulty: Number(fsrs.difficulty) || 5 }
+      : null,
+    lastRating: (doc.lastRating as Rating | null | undefined) ?? null,
+  };
+}
+
+/** Timestamps are written as Firestore timestamps so due queries can range over them */
+export function memoryToDocument(memory: MemoryItem): Record<string, unknown> {
+  return {
+    ...memory,
+    scheduler: SCHEDULER,
+    createdAt: new Date(memory.createdAt),
+    lastReviewed: new Date(memory.lastReviewed),
+    nextReview: new Date(memory.nextReview),
+  };
+}
+
+export interface ReviewOptions {
+  now?: Date;
+  timeZone?: string;
+  fsrs?: FsrsOptions;
+}
+
+/** The item after a review with the given rating */
+export function reviewMemory(
+  memory: MemoryItem,
+  rating: Rating,
+  { now = new Date(), timeZone, fsrs = FSRS_DEFAULTS }: ReviewOptions = {}
+): MemoryItem {
+  const state = memory.fsrs
+    ? nextState(memory.fsrs, elapsedDays(memory.lastReviewed, now), rating, fsrs)
+    : initialState(rating, fsrs);
+  const interval = nextInterval(state.stability, fsrs);
+
+  return {
+    ...memory,
+    fsrs: state,
+    repetitions: memory.repetitions + 1,
+    lapses: memory.lapses + (memory.fsrs && rating === RATING.again ? 1 : 0),
+    lastRating: rating,
+    interval,
+    lastReviewed: now.toISOString(),
+    nextReview: dueDate(now, interval, timeZone).toISOString(),
+  };
+}
+
+/** Fields the manage-memories reset action clears: the item starts over as new */
+export function resetFields(now: string = new Date().toISOString()): Record<string, unknown> {
+  return {
+    fsrs: null,
+    repetitions: 0,
+    lapses: 0,
+    interval: 0,
+    lastRating: null,
+    nextReview: new Date(now),
+  };
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export interface MemoryFilters {
+  topic?: string;
+  subtopic?: string;
+  /** Question difficulty range, inclusive */
+  difficulty?: { min?: number; max?: number };
+  /** Due window on nextReview, ISO timestamps, inclusive */
+  dueFrom?: string;
+  dueTo?: string;
+  suspended?: boolean;
+}
+
+/** Position after the last item of a page */
+export interface MemoryCursor {
+  nextReview: string;
+  id: string;
+}
+
+export const PAGE_SIZE = { default: 50, max: 200 };
+
+function fieldFilter(fieldPath: string, op: string, value: unknown) {
+  return { fieldFilter: { field: { fieldPath }, op, value: toFsValue(value) } };
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && Number.isFinite(Date.parse(value));
+}
+
+/** Validate filters from a request body; throws 400 on malformed input */
+export function parseMemoryFilters(raw: unknown): MemoryFilters {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object') throw new APIError('Invalid filters: must be an object', 400);
+  const f = raw as Record<string, unknown>;
+  const filters: MemoryFilters = {};
+
+  for (const key of ['topic', 'subtopic'] as const) {
+    if (f[key] === undefined) continue;
+    if (typeof f[key] !== 'string' || !f[key]) throw new APIError(`Invalid filters.${key}`, 400);
+    filters[key] = f[key] as string;
+  }
+  if (f.difficulty !== undefined) {
+    const { min = 1, max = 10 } = (f.difficulty ?? {}) as { min?: number; max?: number };
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min < 1 || max > 10 || min > max) {
+      throw new APIError('Invalid filters.difficulty: min and max must be integers 1-10', 400);
+    }
+    filters.difficulty = { min, max };
+  }
+  for (const key of ['dueFrom', 'dueTo'] as const) {
+    if (f[key] === undefined) continue;
+    if (!isTimestamp(f[key])) throw new APIError(`Invalid filters.${key}: must be an ISO timestamp`, 400);
+    filters[key] = f[key] as string;
+  }
+  if (f.suspended !== undefined) {
+    if (typeof f.suspended !== 'boolean') throw new APIError('Invalid filters.suspended', 400);
+    filters.suspended = f.suspended;
+  }
+  return filters;
+}
+
+function filterClauses(filters: MemoryFilters): Array<Record<string, unknown>> {
+  const clauses: Array<Record<string, unknown>> = [];
+  if (filters.suspended !== undefined) clauses.push(fieldFilter('suspended', 'EQUAL', filters.suspended));
+  if (filters.topic) clauses.push(fieldFilter('topic', 'EQUAL', filters.topic));
+  if (filters.subtopic) clauses.push(fieldFilter('subtopic', 'EQUAL', filters.subtopic));
+  if (filters.difficulty) {
+    const { min = 1, max = 10 } = filters.difficulty;
+    const levels = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+    clauses.push(fieldFilter('difficulty', 'IN', levels));
+  }
+  if (filters.dueFrom) {
+    clauses.push(fieldFilter('nextReview', 'GREATER_THAN_OR_EQUAL', new Date(filters.dueFrom)));
+  }
+  if (filters.dueTo) {
+    clauses.push(fieldFilter('nextReview', 'LESS_THAN_OR_EQUAL', new Date(filters.dueTo)));
+  }
+  return clauses;
+}
+
+/** `where` clause for the filters, or undefined when there are none */
+export function memoryWhere(filters: MemoryFilters): Record<string, unknown> | undefined {
+  const clauses = filterClauses(filters);
+  if (clauses.length === 0) return undefined;
+  if (clauses.length === 1) return clauses[0];
+  return { compositeFilter: { op: 'AND', filters: clauses } };
+}
+
+/**
+ * One page of items ordered by nextReview (then document name). One extra
+ * item is requested to tell whether another page follows.
+ */
+export function memoryPageQuery(
+  filters: MemoryFilters,
+  pageSize: number,
+  after: MemoryCursor | null,
+  reference: (path: string) => string
+): Record<string, unknown> {
+  const where = memoryWhere(filters);
+  return {
+    ...(where && { where }),
+    orderBy: [
+      { field: { fieldPath: 'nextReview' }, direction: 'ASCENDING' },
+      { field: { fieldPath: '__name__' }, direction: 'ASCENDING' },
+    ],
+    ...(after && {
+      startAt: {
+        values: [
+          { timestampValue: new Date(after.nextReview).toISOString() },
+          { referenceValue: reference(`memories/${after.id}`) },
+        ],
+        before: false,
+      },
+    }),
+    limit: pageSize + 1,
+  };
+}
+
+export function encodeCursor(memory: Pick<MemoryItem, 'id' | 'nextReview'>): string {
+  return btoa(JSON.stringify({ n: memory.nextReview, i: memory.id }))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeCursor(cursor: string): MemoryCursor {
+  try {
+    const json = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const { n, i } = JSON.parse(json);
+    if (isTimestamp(n) && typeof i === 'string' && /^[A-Za-z0-9_\-.]+$/.test(i)) {
+      return { nextReview: n, id: i };
+    }
+  } catch {
+    // fall through
+  }
+  throw new APIError('Invalid cursor', 400);
+}
@@ -0,0 +1,80 @@
+/**
+ * Per-student misconception history.
+ * Every misconception detected by evaluate-answer is counted in
+ * users/{uid}/misconceptions/{misconceptionId}, in the same commit as the
+ * answer. Hints and question generation read the most frequent ones back;
+ * teachers see the class totals (teacher/analytics.ts).
+ */
+
+import type { Topic } from '../types';
+import { misconceptionById } from '../math/misconceptions';
+import type { FsWrite } from './firestore';
+import type { UserRepository } from './userRepository';
+
+export interface StudentMisconception {
+  id: string;
+  name: string;
+  count: number;
+  lastSeenAt: string;
+  leitidee: string | null;
+  thema: string | null;
+}
+
+/** Upserts that count each detected misconception once */
+export function misconceptionWrites(
+  detected: Array<{ id: string; name: string }>,
+  topic: Partial<Topic> | null,
+  seenAt: string
+): FsWrite[] {
+  const unique = [...new Map(detected.map((m) => [m.id, m])).values()];
+  return unique.map((m) => ({
+    path: `misconceptions/${m.id}`,
+    data: {
+      id: m.id,
+      name: m.name,
+      lastSeenAt: seenAt,
+      leitidee: topic?.leitidee ?? null,
+      thema: topic?.thema ?? null,
+    },
+    updateMask: ['id', 'name', 'lastSeenAt', 'leitidee', 'thema'],
+    increments: { count: 1 },
+  }));
+}
+
+export function toStudentMisconception(doc: Record<string, unknown>): StudentMisconception {
+  return {
+    id: String(doc.id ?? ''),
+    name: String(doc.name ?? ''),
+    count: Number(doc.count) || 0,
+    lastSeenAt: String(doc.lastSeenAt ?? ''),
+    leitidee: (doc.leitidee as string | null | undefined) ?? null,
+    thema: (doc.thema as string | null | undefined) ?? null,
+  };
+}
+
+/** The student's most frequent misconceptions, most frequent first */
+export async function loadTopMisconceptions(
+  repo: UserRepository,
+  limit = 3
+): Promise<StudentMisconception[]> {
+  const docs = await repo.query('misconceptions', {
+    orderBy: [{ field: { fieldPath: 'count' }, direction: 'DESCENDING' }],
+    limit,
+  });
+  return docs.map(toStudentMisconception);
+}
+
+/**
+ * Prompt section naming the student's known misconceptions, or '' if there
+ * are none. Used by custom-hint and generate-questions.
+ */
+export function misconceptionPromptSection(misconceptions: StudentMisconception[]): string {
+  const lines = misconceptions
+    .filter((m) => m.count > 0)
+    .map((m) => {
+      const entry = misconceptionById(m.id);
+      return `- ${m.name} (${m.count}×)${entry ? `: ${entry.description}` : ''}`;
+    });
+  if (lines.length === 0) return '';
+  return `BEKANNTE FEHLVORSTELLUNGEN DES SCHÜLERS:\n${lines.join('\n')}`;
+}
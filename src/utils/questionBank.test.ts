@@ -0,0 +1,207 @@
+// src/utils/questionBank.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { Question } from '../types'
+import type { UserRepository } from './userRepository'
+import {
+  assignTopic,
+  contentHash,
+  insertQuestions,
+  normalizeQuestionText,
+  reviewQuestion,
+  sampleUnseenQuestions,
+  similarity,
+  topicKey,
+  NEAR_DUPLICATE_THRESHOLD,
+  QUESTION_BANK_VERSION,
+} from './questionBank'
+
+const fb = { projectId: 'test-proj', accessToken: 'test-token' }
+const topics = [
+  { leitidee: 'Analysis', thema: 'Ableitungen', unterthema: 'Kettenregel' },
+  { leitidee: 'Analysis', thema: 'Integrale', unterthema: 'Stammfunktionen' },
+]
+
+function makeQuestion(question: string, overrides: Partial<Question> = {}): Question {
+  return {
+    id: 'q1',
+    type: 'multiple-choice',
+    difficulty: 5,
+    topic: 'Ableitungen',
+    subtopic: 'Kettenregel',
+    question,
+    solution: "f'(x) = 6x(x^2+1)^2",
+    explanation: '',
+    correctFeedback: '',
+    incorrectFeedback: '',
+    hints: [],
+    options: [
+      { id: 'a', text: '$6x(x^2+1)^2$', isCorrect: true },
+      { id: 'b', text: '$3(x^2+1)^2$', isCorrect: false },
+    ],
+    ...overrides,
+  }
+}
+
+describe('normalization and similarity', () => {
+  it('ignores case, punctuation and option order', async () => {
+    const a = makeQuestion('Leite $f(x) = (x^2+1)^3$ ab!')
+    const b = makeQuestion('leite f(x)=(x^2+1)^3 ab', { options: [...a.options!].reverse() })
+    expect(normalizeQuestionText(a)).toBe(normalizeQuestionText(b))
+    expect(await contentHash(normalizeQuestionText(a))).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('scores rewordings above the threshold, numeric variants and other questions below', () => {
+    const stem = (inner: string, verb = 'mit') =>
+      normalizeQuestionText(makeQuestion(
+        `Bestimme die Ableitung der Funktion f mit f(x) = (${inner})^3 ${verb} der Kettenregel.`,
+        { solution: `f'(x) = 6x(${inner})^2`, options: [] }
+      ))
+    const other = normalizeQuestionText(makeQuestion('Berechne das Integral von 0 bis 1 über x^2.', { solution: '1/3', options: [] }))
+    expect(similarity(stem('x^2+1'), stem('x^2+1', 'mithilfe'))).toBeGreaterThanOrEqual(NEAR_DUPLICATE_THRESHOLD)
+    expect(similarity(stem('x^2+1'), stem('x^2+2'))).toBeLessThan(NEAR_DUPLICATE_THRESHOLD)
+    expect(similarity(stem('x^2+1'), other)).toBeLessThan(0.2)
+  })
+
+  it('assigns a question to the requested topic matching its subtopic', () => {
+    expect(assignTopic(makeQuestion('x', { subtopic: 'stammfunktionen' }), topics)).toBe(topics[1])
+    expect(assignTopic(makeQuestion('x', { topic: '?', subtopic: '?' }), topics)).toBe(topics[0])
+  })
+})
+
+describe('insertQuestions', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('rejects near-duplicates of existing entries and of each other', async () => {
+    const existing = makeQuestion('Bestimme die Ableitung der Funktion f mit f(x) = (x^2+1)^3 mit der Kettenregel.')
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+      if (url.endsWith(':runQuery')) {
+        return new Response(JSON.stringify([{
+          document: {
+            name: 'projects/test-proj/databases/(default)/documents/questionBank/old-hash',
+            fields: {
+              topicKey: { stringValue: topicKey(topics[0]) },
+              normalizedText: { stringValue: normalizeQuestionText(existing) },
+            },
+          },
+        }]))
+      }
+      return new Response('{}')
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    const fresh = makeQuestion('Berechne das Integral von 0 bis 1 über x^2.', {
+      subtopic: 'Stammfunktionen',
+      solution: '1/3',
+      options: [],
+    })
+    const results = await insertQuestions(
+      fb,
+      topics,
+      'II',
+      [
+        makeQuestion('Bestimme die Ableitung der Funktion f mit f(x) = (x^2+1)^3 mithilfe der Kettenregel.'),
+        fresh,
+        { ...fresh, id: 'q3' },
+      ],
+      { model: 'm', provider: 'claude' }
+    )
+
+    expect(results[0]).toMatchObject({ bankId: 'old-hash', duplicateOf: 'old-hash' })
+    expect(results[1].duplicateOf).toBeUndefined()
+    expect(results[1].topicKey).toBe(topicKey(topics[1]))
+    expect(results[2].duplicateOf).toBe(results[1].bankId)
+
+    const commits = fetchMock.mock.calls.filter(([url]) => url.endsWith(':commit'))
+    expect(commits).toHaveLength(1)
+    const write = JSON.parse(commits[0][1]!.body as string).writes[0]
+    expect(write.update.name).toContain(`questionBank/${results[1].bankId}`)
+    expect(write.currentDocument).toEqual({ exists: false })
+    expect(write.update.fields.status).toEqual({ stringValue: 'pending' })
+  })
+
+  it('reads the newest current-version candidates of each topic separately', async () => {
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+      new Response(url.endsWith(':runQuery') ? '[]' : '{}')
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    await insertQuestions(fb, topics, 'II', [makeQuestion('Berechne f(2) für f(x) = x^2.')], { model: 'm', provider: 'claude' })
+
+    const queries = fetchMock.mock.calls
+      .filter(([url]) => url.endsWith(':runQuery'))
+      .map(([, init]) => JSON.parse(init!.body as string).structuredQuery)
+    expect(queries).toHaveLength(2)
+    for (const [i, query] of queries.entries()) {
+      expect(query.where.compositeFilter.filters).toEqual([
+        { fieldFilter: { field: { fieldPath: 'topicKey' }, op: 'EQUAL', value: { stringValue: topicKey(topics[i]) } } },
+        { fieldFilter: { field: { fieldPath: 'version' }, op: 'EQUAL', value: { integerValue: String(QUESTION_BANK_VERSION) } } },
+      ])
+      expect(query.orderBy).toEqual([{ field: { fieldPath: 'createdAt' }, direction: 'DESCENDING' }])
+    }
+  })
+})
+
+describe('sampleUnseenQuestions', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('skips questions the student has seen and spreads picks across topics', async () => {
+    const bankDoc = (id: string, topic: number) => ({
+      document: {
+        name: `projects/test-proj/databases/(default)/documents/questionBank/${id}`,
+        fields: {
+          topicKey: { stringValue: topicKey(topics[topic]) },
+          question: { mapValue: { fields: { question: { stringValue: id } } } },
+        },
+      },
+    })
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+      new Response(JSON.stringify([bankDoc('a1', 0), bankDoc('a2', 0), bankDoc('a3', 0), bankDoc('b1', 1)]))
+    )
+    vi.stubGlobal('fetch', fetchMock)
+    const repo = {
+      query: vi.fn(async () => [{ id: 'a1' }]),
+    } as unknown as UserRepository
+
+    const picked = await sampleUnseenQuestions(fb, repo, topics, 'II', 2)
+
+    expect(picked.map((p) => p.bankId)).not.toContain('a1')
+    expect(picked.map((p) => p.topicKey).sort()).toEqual([topicKey(topics[0]), topicKey(topics[1])])
+    // Entries waiting for review are never sampled
+    const query = JSON.parse(fetchMock.mock.calls[0][1]!.body as string).structuredQuery
+    expect(query.where.compositeFilter.filters).toContainEqual(
+      { fieldFilter: { field: { fieldPath: 'status' }, op: 'EQUAL', value: { stringValue: 'approved' } } }
+    )
+  })
+})
+
+describe('reviewQuestion', () => {
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  const bankDoc = (status: string) => new Response(JSON.stringify({
+    name: 'projects/test-proj/databases/(default)/documents/questionBank/h1',
+    updateTime: '2026-03-01T10:00:00.000000Z',
+    fields: { contentHash: { stringValue: 'h1' }, status: { stringValue: status } },
+  }))
+
+  it('approves a pending entry guarded by its update time', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(bankDoc('pending'))
+      .mockResolvedValueOnce(new Response('{}'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const doc = await reviewQuestion(fb, 'h1', 'approved', 'admin-1')
+
+    expect(doc).toMatchObject({ status: 'approved', reviewedBy: 'admin-1' })
+    const write = JSON.parse(fetchMock.mock.calls[1][1].body).writes[0]
+    expect(write.updateMask.fieldPaths).toEqual(['status', 'reviewedBy', 'reviewedAt'])
+    expect(write.currentDocument).toEqual({ updateTime: '2026-03-01T10:00:00.000000Z' })
+  })
+
+  it('refuses an entry that was already reviewed', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(bankDoc('rejected'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(reviewQuestion(fb, 'h1', 'approved', 'admin-1')).rejects.toMatchObject({ status: 409 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
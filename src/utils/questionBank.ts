@@ -0,0 +1,363 @@
+/**
+ * Persistent question bank.
+ * Every generated question is stored once under questionBank/{contentHash}
+ * with its topic triple, AFB level, difficulty and bank version. Sessions
+ * are assembled from bank questions the student has not seen yet
+ * (users/{uid}/seenQuestions/{contentHash}); the AI only tops up the gap.
+ *
+ * Near-duplicates — same topic, almost the same wording — are rejected on
+ * insert and the existing entry is reused instead.
+ *
+ * The generation prompt carries free text from the client (topic labels,
+ * user context, misconceptions), so new entries start as `pending` and are
+ * only sampled for other students once an admin approved them.
+ */
+
+import type { Question, Topic } from '../types';
+import { fsCommit, fsGetVersioned, fsQuery, isWriteConflict, toFsValue } from './firestore';
+import type { UserRepository } from './userRepository';
+
+/**
+ * Bump when the question format or generation prompt changes in a way that
+ * makes older entries unsuitable; sampling only draws the current version.
+ */
+export const QUESTION_BANK_VERSION = 1;
+
+/**
+ * Jaccard similarity of word bigrams at or above which two questions are
+ * duplicates. Word-level shingles keep numeric variants of a question
+ * ((x^2+1)^3 vs (x^2+2)^3) apart, which character n-grams would merge.
+ */
+export const NEAR_DUPLICATE_THRESHOLD = 0.75;
+
+// Firestore caps IN filters at 30 values
+const MAX_TOPICS = 30;
+const CANDIDATE_LIMIT = 500;
+
+type AfbLevel = 'I' | 'II' | 'III';
+type FirebaseAccess = { projectId: string; accessToken: string };
+
+export type BankQuestionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface BankQuestionDoc {
+  contentHash: string;
+  topicKey: string;
+  leitidee: string;
+  thema: string;
+  unterthema: string;
+  afbLevel: AfbLevel;
+  difficulty: number;
+  version: number;
+  normalizedText: string;
+  question: Question;
+  model: string;
+  provider: string;
+  createdAt: string;
+  status: BankQuestionStatus;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+export interface BankEntry {
+  question: Question;
+  bankId: string;
+  topicKey: string;
+  /** Set when the question was rejected as a duplicate of this entry */
+  duplicateOf?: string;
+}
+
+export function topicKey(topic: Topic): string {
+  return [topic.leitidee, topic.thema, topic.unterthema].map((s) => s.trim().toLowerCase()).join('|');
+}
+
+/**
+ * The requested topic a generated question belongs to, matched on its
+ * subtopic/topic labels; falls back to the first requested topic.
+ */
+export function assignTopic(question: Question, topics: Topic[]): Topic {
+  const label = (s: string) => s.trim().toLowerCase();
+  return (
+    topics.find((t) => label(t.unterthema) === label(question.subtopic)) ??
+    topics.find((t) => label(t.thema) === label(question.topic)) ??
+    topics[0]
+  );
+}
+
+/** Wording that identifies a question: stem, solution and answer choices */
+export function normalizeQuestionText(q: Question): string {
+  const parts = [
+    q.question,
+    q.solution,
+    ...(q.options ?? []).map((o) => o.text).sort(),
+    ...(q.stepByStepData?.steps ?? []).map((s) => s.text).sort(),
+  ];
+  return parts
+    .join(' ')
+    .toLowerCase()
+    .replace(/\\[a-z]+/g, (cmd) => ` ${cmd.slice(1)} `) // \frac → frac
+    .replace(/[^\p{L}\p{N}=+\-*/^<>]+/gu, ' ')
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+export async function contentHash(normalizedText: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizedText));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function shingles(text: string, size = 2): Set<string> {
+  const words = text.split(' ');
+  if (words.length <= size) return new Set([text]);
+  const result = new Set<string>();
+  for (let i = 0; i <= words.length - size; i++) {
+    result.add(words.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+export function similarity(a: string, b: string): number {
+  const sa = shingles(a);
+  const sb = shingles(b);
+  let shared = 0;
+  for (const s of sa) if (sb.has(s)) shared++;
+  return shared / (sa.size + sb.size - shared);
+}
+
+function inFilter(fieldPath: string, values: string[]) {
+  return {
+    fieldFilter: { field: { fieldPath }, op: 'IN', value: toFsValue(values.slice(0, MAX_TOPICS)) },
+  };
+}
+
+function equalFilter(fieldPath: string, value: unknown) {
+  return { fieldFilter: { field: { fieldPath }, op: 'EQUAL', value: toFsValue(value) } };
+}
+
+/**
+ * Draw up to `count` approved current-version bank questions for the topics
+ * and AFB level that the student has not seen, spread evenly across the topics.
+ * `accept` narrows the candidates, e.g. to requested answer types.
+ */
+export async function sampleUnseenQuestions(
+  fb: FirebaseAccess,
+  repo: UserRepository,
+  topics: Topic[],
+  afbLevel: AfbLevel,
+  count: number,
+  accept: (question: Question) => boolean = () => true
+): Promise<BankEntry[]> {
+  const keys = [...new Set(topics.map(topicKey))];
+
+  const [bank, seen] = await Promise.all([
+    fsQuery(fb.projectId, fb.accessToken, '', {
+      from: [{ collectionId: 'questionBank' }],
+      where: {
+        compositeFilter: {
+          op: 'AND',
+          filters: [
+            inFilter('topicKey', keys),
+            equalFilter('afbLevel', afbLevel),
+            equalFilter('version', QUESTION_BANK_VERSION),
+            equalFilter('status', 'approved'),
+          ],
+        },
+      },
+      select: { fields: [{ fieldPath: 'topicKey' }, { fieldPath: 'question' }] },
+      limit: CANDIDATE_LIMIT,
+    }),
+    repo.query('seenQuestions', {
+      where: inFilter('topicKey', keys),
+      select: { fields: [] },
+    }),
+  ]);
+
+  const seenIds = new Set(seen.map((doc) => doc.id as string));
+  const byTopic = new Map<string, BankEntry[]>();
+  for (const doc of bank) {
+    const bankId = doc.id as string;
+    if (seenIds.has(bankId) || !accept(doc.question as Question)) continue;
+    const key = doc.topicKey as string;
+    if (!byTopic.has(key)) byTopic.set(key, []);
+    byTopic.get(key)!.push({ bankId, topicKey: key, question: doc.question as Question });
+  }
+
+  // Shuffle within each topic, then take round-robin so no topic dominates
+  const pools = [...byTopic.values()].map(shuffle);
+  const picked: BankEntry[] = [];
+  while (picked.length < count && pools.some((p) => p.length > 0)) {
+    for (const pool of pools) {
+      const next = pool.pop();
+      if (next && picked.length < count) picked.push(next);
+    }
+  }
+  return picked;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * The newest current-version entries of one topic, whatever their review
+ * status. One query per topic keeps a busy topic from crowding the others
+ * out of the limit, and the order makes the candidate set deterministic.
+ */
+async function duplicateCandidates(fb: FirebaseAccess, key: string) {
+  const docs = await fsQuery(fb.projectId, fb.accessToken, '', {
+    from: [{ collectionId: 'questionBank' }],
+    where: {
+      compositeFilter: {
+        op: 'AND',
+        filters: [equalFilter('topicKey', key), equalFilter('version', QUESTION_BANK_VERSION)],
+      },
+    },
+    orderBy: [{ field: { fieldPath: 'createdAt' }, direction: 'DESCENDING' }],
+    select: { fields: [{ fieldPath: 'topicKey' }, { fieldPath: 'normalizedText' }] },
+    limit: CANDIDATE_LIMIT,
+  });
+  return docs.map((doc) => ({
+    bankId: doc.id as string,
+    topicKey: doc.topicKey as string,
+    normalizedText: doc.normalizedText as string,
+  }));
+}
+
+/**
+ * Store freshly generated questions as `pending`. Exact and near duplicates
+ * of existing entries (or of each other) are not inserted; their result
+ * points at the entry they duplicate.
+ */
+export async function insertQuestions(
+  fb: FirebaseAccess,
+  topics: Topic[],
+  afbLevel: AfbLevel,
+  questions: Question[],
+  modelInfo: { model: string; provider: string }
+): Promise<BankEntry[]> {
+  const keys = [...new Set(topics.map(topicKey))];
+  const candidates = (await Promise.all(keys.map((key) => duplicateCandidates(fb, key)))).flat();
+
+  const now = new Date().toISOString();
+  const results: BankEntry[] = [];
+  const inserts: BankQuestionDoc[] = [];
+
+  for (const question of questions) {
+    const topic = assignTopic(question, topics);
+    const key = topicKey(topic);
+    const normalizedText = normalizeQuestionText(question);
+    const hash = await contentHash(normalizedText);
+
+    const duplicate = candidates.find(
+      (c) =>
+        c.bankId === hash ||
+        (c.topicKey === key && similarity(c.normalizedText, normalizedText) >= NEAR_DUPLICATE_THRESHOLD)
+    );
+    if (duplicate) {
+      console.log(`[questionBank] Rejected duplicate of ${duplicate.bankId.slice(0, 12)} for ${key}`);
+      results.push({
+        question,
+        bankId: duplicate.bankId,
+        topicKey: duplicate.topicKey,
+        duplicateOf: duplicate.bankId,
+      });
+      continue;
+    }
+
+    candidates.push({ bankId: hash, topicKey: key, normalizedText });
+    inserts.push({
+      contentHash: hash,
+      topicKey: key,
+      ...topic,
+      afbLevel,
+      difficulty: question.difficulty,
+      version: QUESTION_BANK_VERSION,
+      normalizedText,
+      question,
+      model: modelInfo.model,
+      provider: modelInfo.provider,
+      createdAt: now,
+      status: 'pending',
+    });
+    results.push({ question, bankId: hash, topicKey: key });
+  }
+
+  // One commit per entry: `exists: false` makes a concurrent insert of the
+  // same hash fail on its own instead of rolling back the whole batch.
+  await Promise.all(
+    inserts.map((doc) =>
+      fsCommit(fb.projectId, fb.accessToken, [
+        { path: `questionBank/${doc.contentHash}`, data: doc as unknown as Record<string, unknown>, exists: false },
+      ]).catch((err) => {
+        if (err.status !== 409) throw err;
+      })
+    )
+  );
+  console.log(`[questionBank] Inserted ${inserts.length}/${questions.length} questions`);
+
+  return results;
+}
+
+/** Bank entries waiting for review, oldest first */
+export async function listPendingQuestions(fb: FirebaseAccess, limit = 100): Promise<BankQuestionDoc[]> {
+  const docs = await fsQuery(fb.projectId, fb.accessToken, '', {
+    from: [{ collectionId: 'questionBank' }],
+    where: equalFilter('status', 'pending'),
+    orderBy: [{ field: { fieldPath: 'createdAt' }, direction: 'ASCENDING' }],
+    limit,
+  });
+  return docs as unknown as BankQuestionDoc[];
+}
+
+/**
+ * Approve or reject a pending entry. Throws with `status` 404 for an unknown
+ * entry and 409 when it was already reviewed, also by a concurrent request.
+ */
+export async function reviewQuestion(
+  fb: FirebaseAccess,
+  bankId: string,
+  status: Exclude<BankQuestionStatus, 'pending'>,
+  reviewerUid: string
+): Promise<BankQuestionDoc> {
+  const current = await fsGetVersioned(fb.projectId, fb.accessToken, `questionBank/${bankId}`);
+  if (!current) throw Object.assign(new Error('Question not found'), { status: 404 });
+  const doc = current.data as unknown as BankQuestionDoc;
+  if (doc.status !== 'pending') {
+    throw Object.assign(new Error(`Question has already been ${doc.status}`), { status: 409 });
+  }
+
+  const review = { status, reviewedBy: reviewerUid, reviewedAt: new Date().toISOString() };
+  try {
+    await fsCommit(fb.projectId, fb.accessToken, [
+      {
+        path: `questionBank/${bankId}`,
+        data: review,
+        updateMask: Object.keys(review),
+        updateTime: current.updateTime,
+      },
+    ]);
+  } catch (err) {
+    if (!isWriteConflict(err)) throw err;
+    throw Object.assign(new Error('Question has already been reviewed'), { status: 409 });
+  }
+  return { ...doc, ...review };
+}
+
+/** Record bank questions as seen so the student is not served them again */
+export async function markQuestionsSeen(
+  repo: UserRepository,
+  entries: Array<Pick<BankEntry, 'bankId' | 'topicKey'>>,
+  sessionId: string
+): Promise<void> {
+  if (entries.length === 0) return;
+  const seenAt = new Date().toISOString();
+  await repo.commit(
+    entries.map(({ bankId, topicKey }) => ({
+      path: `seenQuestions/${bankId}`,
+      data: { topicKey, sessionId, seenAt },
+    }))
+  );
+}
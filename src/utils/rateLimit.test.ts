@@ -0,0 +1,115 @@
+// src/utils/rateLimit.test.ts
+import { describe, it, expect, vi } from 'vitest'
+import { Hono } from 'hono'
+import {
+  KVRateLimitBackend,
+  MemoryRateLimitBackend,
+  RateLimiter,
+  rateLimit,
+  slideWindow,
+  type RateLimitBackend,
+} from './rateLimit'
+
+describe('slideWindow', () => {
+  it('counts only requests inside the trailing window', () => {
+    const { log, result } = slideWindow([1000, 50_000, 70_000], 65_000, 60_000, 3)
+    expect(log).toEqual([50_000, 70_000, 65_000])
+    expect(result).toEqual({ allowed: true, limit: 3, remaining: 0, resetAt: 110_000 })
+  })
+
+  it('rejects at the limit without logging the rejected request', () => {
+    const { log, result } = slideWindow([10_000, 20_000], 30_000, 60_000, 2)
+    expect(log).toEqual([10_000, 20_000])
+    expect(result).toMatchObject({ allowed: false, remaining: 0, resetAt: 70_000 })
+  })
+})
+
+describe('MemoryRateLimitBackend', () => {
+  it('frees a slot as soon as the oldest request slides out, unlike a fixed window', async () => {
+    const backend = new MemoryRateLimitBackend()
+    await backend.hit('k', 60_000, 2, 0)
+    await backend.hit('k', 60_000, 2, 30_000)
+
+    expect((await backend.hit('k', 60_000, 2, 59_000)).allowed).toBe(false)
+    expect((await backend.hit('k', 60_000, 2, 60_001)).allowed).toBe(true)
+    expect((await backend.hit('k', 60_000, 2, 60_002)).allowed).toBe(false)
+  })
+})
+
+describe('KVRateLimitBackend', () => {
+  it('persists the log with a TTL of at least 60s', async () => {
+    const kv = {
+      get: vi.fn(async () => [1000]),
+      put: vi.fn(async () => {}),
+    } as unknown as KVNamespace
+
+    const result = await new KVRateLimitBackend(kv).hit('ai:u1', 10_000, 5, 5000)
+
+    expect(result).toMatchObject({ allowed: true, remaining: 3 })
+    expect(kv.put).toHaveBeenCalledWith('ratelimit:ai:u1', '[1000,5000]', { expirationTtl: 60 })
+  })
+})
+
+describe('RateLimiter durable object', () => {
+  function fakeState() {
+    const data = new Map<string, unknown>()
+    const storage = {
+      alarm: null as number | null,
+      get: async (key: string) => data.get(key),
+      put: async (key: string, value: unknown) => { data.set(key, value) },
+      setAlarm: async (at: number) => { storage.alarm = at },
+      deleteAll: async () => { data.clear() },
+    }
+    return { storage } as unknown as DurableObjectState & { storage: typeof storage }
+  }
+
+  const hit = (limiter: RateLimiter, now: number) =>
+    limiter.fetch(new Request('https://rate-limiter/hit', {
+      method: 'POST',
+      body: JSON.stringify({ windowMs: 60_000, limit: 2, now }),
+    }))
+
+  it('arms the alarm for when the newest entry leaves the window', async () => {
+    const state = fakeState()
+    const limiter = new RateLimiter(state)
+    await hit(limiter, 0)
+    await hit(limiter, 30_000)
+
+    // Clearing at the oldest entry's expiry would forget the request at 30s
+    expect(state.storage.alarm).toBe(90_000)
+    expect(await (await hit(limiter, 60_001)).json()).toMatchObject({ allowed: true })
+    expect(await (await hit(limiter, 60_002)).json()).toMatchObject({ allowed: false })
+  })
+})
+
+describe('rateLimit middleware', () => {
+  function makeApp(backend: RateLimitBackend) {
+    const app = new Hono()
+    app.use('*', rateLimit({ windowMs: 60_000, maxRequests: 2, name: 'test', backend }))
+    app.get('/', (c) => c.text('ok'))
+    return app
+  }
+
+  const request = () => new Request('http://localhost/', { headers: { 'cf-connecting-ip': '1.2.3.4' } })
+
+  it('sets X-RateLimit headers and answers 429 with Retry-After', async () => {
+    const app = makeApp(new MemoryRateLimitBackend())
+
+    const first = await app.fetch(request())
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('2')
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('1')
+
+    await app.fetch(request())
+    const blocked = await app.fetch(request())
+    expect(blocked.status).toBe(429)
+    expect(blocked.headers.get('X-RateLimit-Remaining')).toBe('0')
+    expect(Number(blocked.headers.get('Retry-After'))).toBeGreaterThan(0)
+  })
+
+  it('fails open when the backend is unavailable', async () => {
+    const backend = { hit: vi.fn(async () => { throw new Error('down') }) }
+    const res = await makeApp(backend).fetch(request())
+    expect(res.status).toBe(200)
+    expect(backend.hit).toHaveBeenCalledWith('test:1.2.3.4', 60_000, 2, expect.any(Number))
+  })
+})
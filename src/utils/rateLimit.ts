@@ -1,81 +1,193 @@
 /**
- * In-Memory Rate Limiting for Cloudflare Workers
- * Sliding window algorithm with automatic cleanup
+ * Distributed Rate Limiting for Cloudflare Workers
+ * Sliding log algorithm: a request is allowed if fewer than `maxRequests`
+ * requests were accepted in the last `windowMs`. The log lives in a
+ * RateLimitBackend so that limits hold across isolates and cold starts:
+ *   - DurableObjectRateLimitBackend (RATE_LIMITER binding): one object per
+ *     key, strictly serialized — the preferred backend
+ *   - KVRateLimitBackend (RATE_LIMIT_KV binding): eventually consistent, may
+ *     let a short burst through across locations
+ *   - MemoryRateLimitBackend: per-isolate, used in tests and local dev
  */
 
 import type { Context, MiddlewareHandler } from 'hono';
+import type { Env } from '../index';
 
-interface RateLimitEntry {
-  count: number;
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch ms when the oldest logged request leaves the window */
   resetAt: number;
 }
 
-class RateLimitStore {
-  private store = new Map<string, RateLimitEntry>();
+export interface RateLimitBackend {
+  /** Record a request for `key` if the window allows it */
+  hit(key: string, windowMs: number, limit: number, now: number): Promise<RateLimitResult>;
+}
+
+/**
+ * Apply one request to a sliding log of accepted timestamps.
+ * Rejected requests are not logged, so a client that keeps retrying is
+ * let through again as soon as the oldest request slides out.
+ */
+export function slideWindow(
+  log: number[],
+  now: number,
+  windowMs: number,
+  limit: number
+): { log: number[]; result: RateLimitResult } {
+  const live = log.filter((t) => t > now - windowMs);
+  const allowed = live.length < limit;
+  if (allowed) live.push(now);
+
+  return {
+    log: live,
+    result: {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - live.length),
+      resetAt: (live[0] ?? now) + windowMs,
+    },
+  };
+}
+
+// ── Memory ────────────────────────────────────────────────────────────────
+
+export class MemoryRateLimitBackend implements RateLimitBackend {
+  private store = new Map<string, { log: number[]; expiresAt: number }>();
   private lastCleanup = Date.now();
   private readonly cleanupInterval = 60000; // 60s
 
-  get(key: string): RateLimitEntry | undefined {
-    this.maybeCleanup();
-    return this.store.get(key);
+  async hit(key: string, windowMs: number, limit: number, now: number): Promise<RateLimitResult> {
+    this.maybeCleanup(now);
+    const { log, result } = slideWindow(this.store.get(key)?.log ?? [], now, windowMs, limit);
+    this.store.set(key, { log, expiresAt: now + windowMs });
+    return result;
   }
 
-  set(key: string, entry: RateLimitEntry): void {
-    this.store.set(key, entry);
-  }
-
-  private maybeCleanup(): void {
-    const now = Date.now();
+  private maybeCleanup(now: number): void {
     if (now - this.lastCleanup < this.cleanupInterval) return;
 
     this.lastCleanup = now;
     for (const [key, entry] of this.store.entries()) {
-      if (now > entry.resetAt) {
+      if (now > entry.expiresAt) {
         this.store.delete(key);
       }
     }
   }
 }
 
-const store = new RateLimitStore();
+// ── KV ────────────────────────────────────────────────────────────────────
 
-interface RateLimitOptions {
+const KV_MIN_TTL_SECONDS = 60;
+
+export class KVRateLimitBackend implements RateLimitBackend {
+  constructor(private kv: KVNamespace) {}
+
+  async hit(key: string, windowMs: number, limit: number, now: number): Promise<RateLimitResult> {
+    const stored = await this.kv.get<number[]>(`ratelimit:${key}`, 'json');
+    const { log, result } = slideWindow(stored ?? [], now, windowMs, limit);
+    if (result.allowed) {
+      await this.kv.put(`ratelimit:${key}`, JSON.stringify(log), {
+        expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(windowMs / 1000)),
+      });
+    }
+    return result;
+  }
+}
+
+// ── Durable Object ────────────────────────────────────────────────────────
+
+export class DurableObjectRateLimitBackend implements RateLimitBackend {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async hit(key: string, windowMs: number, limit: number, now: number): Promise<RateLimitResult> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const res = await stub.fetch('https://rate-limiter/hit', {
+      method: 'POST',
+      body: JSON.stringify({ windowMs, limit, now }),
+    });
+    if (!res.ok) throw new Error(`Rate limiter object failed: ${res.status}`);
+    return res.json<RateLimitResult>();
+  }
+}
+
+/**
+ * Durable Object holding the sliding log for one key (bound as RATE_LIMITER,
+ * exported from index.ts). Requests to one object are serialized, so counts
+ * are exact. An alarm clears the log once its newest entry has left the
+ * window; every hit moves the alarm, so it never drops live entries.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { windowMs, limit, now } = await request.json<{ windowMs: number; limit: number; now: number }>();
+    const stored = (await this.state.storage.get<number[]>('log')) ?? [];
+    const { log, result } = slideWindow(stored, now, windowMs, limit);
+
+    await this.state.storage.put('log', log);
+    await this.state.storage.setAlarm((log[log.length - 1] ?? now) + windowMs);
+    return Response.json(result);
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+// ── Middleware ────────────────────────────────────────────────────────────
+
+const memoryBackend = new MemoryRateLimitBackend();
+
+/** Prefer the Durable Object, then KV, then the per-isolate memory store */
+export function resolveRateLimitBackend(env: Env | undefined): RateLimitBackend {
+  if (env?.RATE_LIMITER) return new DurableObjectRateLimitBackend(env.RATE_LIMITER);
+  if (env?.RATE_LIMIT_KV) return new KVRateLimitBackend(env.RATE_LIMIT_KV);
+  return memoryBackend;
+}
+
+export interface RateLimitOptions {
   windowMs: number;
   maxRequests: number;
+  /** Separates the counters of different limiters for the same client */
+  name?: string;
   keyGenerator?: (c: Context) => string;
+  backend?: RateLimitBackend;
 }
 
+/** The verified student uid when authenticated, otherwise the client IP */
 function defaultKeyGenerator(c: Context): string {
-  return c.req.header('cf-connecting-ip') ??
+  return c.get('studentUid') ??
+         c.req.header('cf-connecting-ip') ??
          c.req.header('x-forwarded-for') ??
          'unknown';
 }
 
 export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
-  const { windowMs, maxRequests, keyGenerator = defaultKeyGenerator } = options;
+  const { windowMs, maxRequests, name = 'default', keyGenerator = defaultKeyGenerator } = options;
 
   return async (c: Context, next) => {
-    const key = keyGenerator(c);
+    const key = `${name}:${keyGenerator(c)}`;
     const now = Date.now();
-    const resetAt = now + windowMs;
-
-    let entry = store.get(key);
-
-    if (!entry || now > entry.resetAt) {
-      entry = { count: 0, resetAt };
-      store.set(key, entry);
+    const backend = options.backend ?? resolveRateLimitBackend(c.env);
+
+    let result: RateLimitResult;
+    try {
+      result = await backend.hit(key, windowMs, maxRequests, now);
+    } catch (error) {
+      // Fail open: an unavailable store must not take the API down with it
+      console.error(`[rateLimit] Backend error for ${name}, allowing request:`, error);
+      return next();
     }
 
-    entry.count++;
-
-    const remaining = Math.max(0, maxRequests - entry.count);
+    c.header('X-RateLimit-Limit', String(result.limit));
+    c.header('X-RateLimit-Remaining', String(result.remaining));
+    c.header('X-RateLimit-Reset', String(result.resetAt));
 
-    c.header('X-RateLimit-Limit', String(maxRequests));
-    c.header('X-RateLimit-Remaining', String(remaining));
-    c.header('X-RateLimit-Reset', String(entry.resetAt));
-
-    if (entry.count > maxRequests) {
-      const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
+    if (!result.allowed) {
+      const retryAfter = Math.max(1, Math.ceil((result.resetAt - now) / 1000));
       return c.json({
         success: false,
         error: 'Rate Limit Exceeded',
@@ -90,10 +202,12 @@ export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
   };
 }
 
+type PresetOptions = Partial<Omit<RateLimitOptions, 'windowMs' | 'maxRequests'>>;
+
 export const RateLimitPresets = {
-  strict: () => rateLimit({ windowMs: 60000, maxRequests: 10 }),
-  standard: () => rateLimit({ windowMs: 60000, maxRequests: 60 }),
-  generous: () => rateLimit({ windowMs: 60000, maxRequests: 300 }),
-  ai: () => rateLimit({ windowMs: 60000, maxRequests: 20 }),
-  auth: () => rateLimit({ windowMs: 60000, maxRequests: 5 }),
+  strict: (o?: PresetOptions) => rateLimit({ windowMs: 60000, maxRequests: 10, name: 'strict', ...o }),
+  standard: (o?: PresetOptions) => rateLimit({ windowMs: 60000, maxRequests: 60, name: 'standard', ...o }),
+  generous: (o?: PresetOptions) => rateLimit({ windowMs: 60000, maxRequests: 300, name: 'generous', ...o }),
+  ai: (o?: PresetOptions) => rateLimit({ windowMs: 60000, maxRequests: 20, name: 'ai', ...o }),
+  auth: (o?: PresetOptions) => rateLimit({ windowMs: 60000, maxRequests: 5, name: 'auth', ...o }),
 };
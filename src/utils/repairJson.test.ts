@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { createQuestionStreamParser } from './repairJson'
+
+describe('createQuestionStreamParser', () => {
+  it('emits each question once its object closes', () => {
+    const parser = createQuestionStreamParser()
+
+    expect(parser.push('```json\n{"questions": [{"id": "q1", "question": "Was ist')).toEqual([])
+    expect(parser.push(' 1+1?"}, {"id": "q2"')).toEqual([{ id: 'q1', question: 'Was ist 1+1?' }])
+    expect(parser.push(', "question": "x"}]}')).toEqual([{ id: 'q2', question: 'x' }])
+  })
+
+  it('ignores braces inside strings', () => {
+    const parser = createQuestionStreamParser()
+    const out = parser.push('{"questions":[{"id":"q1","question":"Berechne $\\\\frac{1}{2}$ } ]"}]}')
+    expect(out).toHaveLength(1)
+    expect(out[0].question).toBe('Berechne $\\frac{1}{2}$ } ]')
+  })
+
+  it('returns nested objects intact', () => {
+    const parser = createQuestionStreamParser()
+    const out = parser.push(
+      '{"questions":[{"id":"q1","options":[{"id":"a","isCorrect":true}],"stepByStepData":{"steps":[]}}'
+    )
+    expect(out).toEqual([
+      { id: 'q1', options: [{ id: 'a', isCorrect: true }], stepByStepData: { steps: [] } },
+    ])
+  })
+})
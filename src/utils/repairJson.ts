@@ -128,3 +128,58 @@ export function extractAndParseJson(text: string): any {
     throw firstError;
   }
 }
+
+/**
+ * Incrementally extracts complete question objects from a streamed
+ * {"questions":[...]} response. Feed it raw text deltas via `push`; it returns
+ * every element of the questions array that closed in that chunk, parsed with
+ * the full repair pipeline. Tracks string literals so braces inside LaTeX or
+ * prose don't disturb the depth count.
+ */
+export function createQuestionStreamParser(): { push(chunk: string): any[] } {
+  let buffer = '';
+  let scanned = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+
+  return {
+    push(chunk: string): any[] {
+      buffer += chunk;
+      const complete: any[] = [];
+
+      for (; scanned < buffer.length; scanned++) {
+        const ch = buffer[scanned];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') inString = false;
+          continue;
+        }
+
+        if (ch === '"') {
+          inString = true;
+        } else if (ch === '{' || ch === '[') {
+          depth++;
+          // root object = 1, questions array = 2, question object = 3
+          if (ch === '{' && depth === 3) elementStart = scanned;
+        } else if (ch === '}' || ch === ']') {
+          depth--;
+          if (ch === '}' && depth === 2 && elementStart !== -1) {
+            const raw = buffer.substring(elementStart, scanned + 1);
+            elementStart = -1;
+            try {
+              complete.push(parseJsonWithRepair(raw));
+            } catch (err) {
+              console.warn('[repairJson] Skipping unparseable streamed question:', err);
+            }
+          }
+        }
+      }
+
+      return complete;
+    },
+  };
+}
@@ -0,0 +1,42 @@
+// src/utils/roster.test.ts
+import { describe, it, expect } from 'vitest'
+import { parseCsv, parseRoster, MAX_ROSTER_ROWS } from './roster'
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF line ends', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\nd,e,f', ',')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['d', 'e', 'f'],
+    ])
+  })
+})
+
+describe('parseRoster', () => {
+  it('reads German headers with semicolons and an optional class column', () => {
+    const { rows, errors } = parseRoster('\uFEFFName;E-Mail;Klasse\n"Müller; Anna";Anna@Schule.de;11a\nBen Kurz;ben@schule.de;\n')
+    expect(errors).toEqual([])
+    expect(rows).toEqual([
+      { line: 2, name: 'Müller; Anna', email: 'anna@schule.de', className: '11a' },
+      { line: 3, name: 'Ben Kurz', email: 'ben@schule.de', className: null },
+    ])
+  })
+
+  it('reports invalid and duplicate rows with their line and keeps the rest', () => {
+    const { rows, errors } = parseRoster('name,email\nAnna,anna@schule.de\nBen,not-an-email\n\nCara,ANNA@schule.de\n,dora@schule.de')
+    expect(rows.map((r) => r.email)).toEqual(['anna@schule.de'])
+    expect(errors).toEqual([
+      { line: 3, email: 'not-an-email', reason: 'email is not valid' },
+      { line: 5, email: 'anna@schule.de', reason: 'email is listed twice' },
+      { line: 6, email: 'dora@schule.de', reason: 'name is missing' },
+    ])
+  })
+
+  it('rejects files without name and email columns', () => {
+    expect(() => parseRoster('vorname,nachname\nAnna,Muster')).toThrow('name and an email column')
+  })
+
+  it(`rejects rosters with more than ${MAX_ROSTER_ROWS} students`, () => {
+    const lines = Array.from({ length: MAX_ROSTER_ROWS + 1 }, (_, i) => `S${i},s${i}@schule.de`)
+    expect(() => parseRoster(['name,email', ...lines].join('\n'))).toThrow(`at most ${MAX_ROSTER_ROWS}`)
+  })
+})
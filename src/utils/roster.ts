@@ -0,0 +1,144 @@
+// src/utils/roster.ts
+/**
+ * Class rosters uploaded as CSV (POST /api/teacher/roster). The first line
+ * is a header naming the columns; name and email are required, class is
+ * optional. German headers (Name, E-Mail, Klasse) are accepted, and the
+ * delimiter may be a comma or, as spreadsheet programs write it in German
+ * locales, a semicolon. Fields may be quoted ("Müller, Anna").
+ *
+ * Rows are validated one by one: an invalid row is reported and skipped,
+ * the rest are imported.
+ */
+
+import { APIError } from '../types';
+
+export const MAX_ROSTER_ROWS = 200;
+
+const HEADER_ALIASES: Record<'name' | 'email' | 'class', string[]> = {
+  name: ['name', 'displayname', 'schüler', 'schueler', 'schülerin'],
+  email: ['email', 'e-mail', 'mail'],
+  class: ['class', 'classid', 'klasse', 'kurs'],
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NAME_LENGTH = 100;
+
+export interface RosterRow {
+  /** Record number in the file; the header is 1 */
+  line: number;
+  name: string;
+  email: string;
+  /** Value of the class column, if the file has one and it is not empty */
+  className: string | null;
+}
+
+export interface RosterRowError {
+  line: number;
+  email: string | null;
+  reason: string;
+}
+
+export interface ParsedRoster {
+  rows: RosterRow[];
+  errors: RosterRowError[];
+}
+
+/** Split CSV text into records of fields (RFC 4180 quoting) */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function detectDelimiter(headerLine: string): string {
+  return headerLine.includes(';') && !headerLine.includes(',') ? ';' : ',';
+}
+
+/**
+ * Parse and validate a roster. Throws a 400 APIError when the file as a
+ * whole is unusable (no header, missing columns, too many rows); problems
+ * with single rows end up in `errors`.
+ */
+export function parseRoster(csv: string): ParsedRoster {
+  const text = csv.replace(/^\uFEFF/, '');
+  const records = parseCsv(text, detectDelimiter(text.split(/\r?\n/, 1)[0] ?? ''));
+  if (records.length === 0) throw new APIError('The roster is empty', 400);
+
+  const header = records[0].map((h) => h.trim().toLowerCase());
+  const column = (key: keyof typeof HEADER_ALIASES) =>
+    header.findIndex((h) => HEADER_ALIASES[key].includes(h));
+  const nameCol = column('name');
+  const emailCol = column('email');
+  const classCol = column('class');
+  if (nameCol < 0 || emailCol < 0) {
+    throw new APIError('The header must name a name and an email column', 400);
+  }
+
+  const body = records
+    .slice(1)
+    .map((fields, i) => ({ fields, line: i + 2 }))
+    .filter(({ fields }) => fields.some((f) => f.trim() !== ''));
+  if (body.length === 0) throw new APIError('The roster has no students', 400);
+  if (body.length > MAX_ROSTER_ROWS) {
+    throw new APIError(`A roster may list at most ${MAX_ROSTER_ROWS} students`, 400);
+  }
+
+  const rows: RosterRow[] = [];
+  const errors: RosterRowError[] = [];
+  const seen = new Set<string>();
+
+  for (const { fields, line } of body) {
+    const name = (fields[nameCol] ?? '').trim();
+    const email = (fields[emailCol] ?? '').trim().toLowerCase();
+    const className = classCol >= 0 ? (fields[classCol] ?? '').trim() || null : null;
+
+    let reason: string | null = null;
+    if (!email) reason = 'email is missing';
+    else if (!EMAIL_PATTERN.test(email)) reason = 'email is not valid';
+    else if (seen.has(email)) reason = 'email is listed twice';
+    else if (!name) reason = 'name is missing';
+    else if (name.length > MAX_NAME_LENGTH) reason = `name is longer than ${MAX_NAME_LENGTH} characters`;
+
+    if (reason) {
+      errors.push({ line, email: email || null, reason });
+      continue;
+    }
+    seen.add(email);
+    rows.push({ line, name, email, className });
+  }
+
+  return { rows, errors };
+}
@@ -0,0 +1,170 @@
+// src/utils/schools.ts
+/**
+ * Schools (tenants). Each school has a schools/{schoolId} document with its
+ * settings; teachers are bound to one through the `schoolId` custom claim
+ * (see verifyTeacherToken.ts) and classes carry the schoolId they belong to.
+ *
+ * Settings:
+ * - curriculum: curriculum variant the dashboard and prompts target
+ * - allowedProviders: AI providers the school permits (null = all);
+ *   task calls skip configured models of other providers
+ * - aiQuotas: per-task limits overriding the models.json defaults; limits
+ *   the school leaves out keep their default (see schoolTaskQuota)
+ * - branding: display name, colour and logo for the dashboard
+ *
+ * A school without a document gets the defaults, so existing single-school
+ * data keeps working. Data written before tenancy belongs to LEGACY_SCHOOL_ID.
+ */
+
+import type { AIProviderType } from './callAI';
+import type { QuotaWindows, TaskQuota } from './aiQuota';
+import { fsGet } from './firestore';
+
+export const LEGACY_SCHOOL_ID = 'mvl';
+
+export const DEFAULT_CURRICULUM = 'bw-gymnasium-2016';
+
+const PROVIDERS: AIProviderType[] = ['claude', 'gemini', 'openai', 'mistral', 'openrouter'];
+
+export interface SchoolBranding {
+  displayName: string;
+  /** CSS hex colour, e.g. #1e40af */
+  primaryColor: string | null;
+  logoUrl: string | null;
+}
+
+export interface SchoolDoc {
+  id: string;
+  name: string;
+  curriculum: string;
+  allowedProviders: AIProviderType[] | null;
+  aiQuotas?: Record<string, TaskQuota>;
+  branding: SchoolBranding;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export function withSchoolDefaults(schoolId: string, doc: Record<string, unknown> | null): SchoolDoc {
+  const branding = (doc?.branding ?? {}) as Partial<SchoolBranding>;
+  const name = typeof doc?.name === 'string' ? doc.name : schoolId;
+  return {
+    id: schoolId,
+    name,
+    curriculum: typeof doc?.curriculum === 'string' ? doc.curriculum : DEFAULT_CURRICULUM,
+    allowedProviders: Array.isArray(doc?.allowedProviders)
+      ? (doc.allowedProviders as AIProviderType[])
+      : null,
+    ...(doc?.aiQuotas !== undefined && { aiQuotas: doc.aiQuotas as Record<string, TaskQuota> }),
+    branding: {
+      displayName: branding.displayName ?? name,
+      primaryColor: branding.primaryColor ?? null,
+      logoUrl: branding.logoUrl ?? null,
+    },
+    createdAt: (doc?.createdAt as string | undefined) ?? null,
+    updatedAt: (doc?.updatedAt as string | undefined) ?? null,
+  };
+}
+
+export async function getSchool(projectId: string, accessToken: string, schoolId: string): Promise<SchoolDoc> {
+  const doc = await fsGet(projectId, accessToken, `schools/${schoolId}`);
+  return withSchoolDefaults(schoolId, doc);
+}
+
+/** Query filter for documents of one school (teachers, classes) */
+export function schoolFilter(schoolId: string) {
+  return { fieldFilter: { field: { fieldPath: 'schoolId' }, op: 'EQUAL', value: { stringValue: schoolId } } };
+}
+
+export const SCHOOL_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+function validateWindows(
+  label: string,
+  windows: unknown,
+  defaults: QuotaWindows | undefined,
+  maxFactor: number
+): string | null {
+  if (windows === undefined) return null;
+  if (typeof windows !== 'object' || windows === null) return `${label} must be an object`;
+  for (const [period, limits] of Object.entries(windows)) {
+    if (period !== 'daily' && period !== 'monthly') return `${label}.${period} is not a quota period`;
+    if (typeof limits !== 'object' || limits === null) return `${label}.${period} must be an object`;
+    for (const [dim, value] of Object.entries(limits)) {
+      if (dim !== 'requests' && dim !== 'tokens') return `${label}.${period}.${dim} is not a quota limit`;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+        return `${label}.${period}.${dim} must be a positive integer`;
+      }
+      const base = defaults?.[period]?.[dim];
+      if (base !== undefined && value > base * maxFactor) {
+        return `${label}.${period}.${dim} must be at most ${base * maxFactor}`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a settings update from a school admin. School quotas override the
+ * models.json defaults of `tasks` limit by limit, so unlike class overrides
+ * they may also lower them; raising is capped at `maxFactor` times the
+ * default, as for class overrides. Returns an error message or null.
+ */
+export function validateSchoolSettings(
+  body: Record<string, unknown>,
+  tasks: Record<string, { quota?: TaskQuota }>,
+  maxFactor: number
+): string | null {
+  if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+    return 'name must be a non-empty string';
+  }
+  if (body.curriculum !== undefined && (typeof body.curriculum !== 'string' || !body.curriculum.trim())) {
+    return 'curriculum must be a non-empty string';
+  }
+  if (body.allowedProviders !== undefined && body.allowedProviders !== null) {
+    const providers = body.allowedProviders;
+    if (
+      !Array.isArray(providers) ||
+      providers.length === 0 ||
+      !providers.every((p) => PROVIDERS.includes(p as AIProviderType))
+    ) {
+      return `allowedProviders must be null or a non-empty list of ${PROVIDERS.join(', ')}`;
+    }
+  }
+  if (body.branding !== undefined) {
+    const branding = body.branding as Partial<Record<keyof SchoolBranding, unknown>> | null;
+    if (typeof branding !== 'object' || branding === null) return 'branding must be an object';
+    if (branding.displayName !== undefined && typeof branding.displayName !== 'string') {
+      return 'branding.displayName must be a string';
+    }
+    if (
+      branding.primaryColor !== undefined &&
+      branding.primaryColor !== null &&
+      !(typeof branding.primaryColor === 'string' && HEX_COLOR.test(branding.primaryColor))
+    ) {
+      return 'branding.primaryColor must be a hex colour like #1e40af';
+    }
+    if (
+      branding.logoUrl !== undefined &&
+      branding.logoUrl !== null &&
+      !(typeof branding.logoUrl === 'string' && branding.logoUrl.startsWith('https://'))
+    ) {
+      return 'branding.logoUrl must be an https URL';
+    }
+  }
+  if (body.aiQuotas !== undefined) {
+    if (typeof body.aiQuotas !== 'object' || body.aiQuotas === null) return 'aiQuotas must be an object';
+    for (const [taskName, quota] of Object.entries(body.aiQuotas)) {
+      if (!Object.hasOwn(tasks, taskName)) return `aiQuotas.${taskName} is not a task`;
+      if (typeof quota !== 'object' || quota === null) return `aiQuotas.${taskName} must be an object`;
+      const { user, class: cls, ...rest } = quota as TaskQuota;
+      if (Object.keys(rest).length > 0) return `aiQuotas.${taskName} may only set user and class`;
+      const defaults = tasks[taskName].quota;
+      const error =
+        validateWindows(`aiQuotas.${taskName}.user`, user, defaults?.user, maxFactor) ??
+        validateWindows(`aiQuotas.${taskName}.class`, cls, defaults?.class, maxFactor);
+      if (error) return error;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,54 @@
+// src/utils/scoring.test.ts
+import { describe, it, expect } from 'vitest'
+import { choiceRubric, freeFormRubric, scoreRubric, stepRubric } from './scoring'
+
+describe('scoreRubric', () => {
+  it('renormalizes the weights of the assessed criteria', () => {
+    const rubric = scoreRubric([
+      { criterion: 'result', score: 1 },
+      { criterion: 'notation', score: 0 },
+    ])
+    expect(rubric.score).toBe(0.5)
+    expect(rubric.criteria.map((c) => c.weight)).toEqual([0.5, 0.5])
+    expect(choiceRubric(true).score).toBe(1)
+    expect(choiceRubric(false).score).toBe(0)
+  })
+})
+
+describe('stepRubric', () => {
+  const steps = (correct: boolean[]) => correct.map((c, i) => ({ stepNumber: i + 1, correct: c }))
+
+  it('scores 4 of 5 correct steps as partly correct', () => {
+    const rubric = stepRubric(steps([true, true, true, true, false]))
+    expect(rubric.score).toBeCloseTo(0.667, 3)
+    expect(rubric.criteria.find((c) => c.criterion === 'result')?.score).toBe(0)
+    expect(rubric.steps).toHaveLength(5)
+  })
+
+  it('weights intermediate steps', () => {
+    const rubric = stepRubric([
+      { stepNumber: 1, correct: true, weight: 3 },
+      { stepNumber: 2, correct: false, weight: 1 },
+      { stepNumber: 3, correct: true },
+    ])
+    expect(rubric.criteria.find((c) => c.criterion === 'calculation')?.score).toBe(0.75)
+  })
+
+  it('gives nothing for all wrong steps and everything for all correct ones', () => {
+    expect(stepRubric(steps([false, false, false])).score).toBe(0)
+    expect(stepRubric(steps([true, true])).score).toBe(1)
+    expect(stepRubric([]).score).toBe(0)
+  })
+})
+
+describe('freeFormRubric', () => {
+  it('keeps the result points for a quantity with a missing unit', () => {
+    const rubric = freeFormRubric(
+      { isEquivalent: false, misconception: { id: 'missing_unit' } },
+      'quantity'
+    )
+    expect(rubric.score).toBe(0.5)
+    expect(freeFormRubric({ isEquivalent: false }, 'quantity').score).toBe(0)
+    expect(freeFormRubric({ isEquivalent: true }, 'equation').score).toBe(1)
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * Rubric scoring for evaluate-answer.
+ * An answer is judged on up to four criteria — approach (Ansatz),
+ * calculation (Rechenweg), result (Ergebnis) and notation (Einheiten und
+ * Schreibweise). Only criteria a question type lets us judge are assessed;
+ * their weights are renormalized, so a multiple-choice answer is scored on
+ * its result alone. The weighted score (0…1) scales XP and coins.
+ *
+ * Step-by-step answers: the first step is the approach, every step but the
+ * last is calculation (weighted by StepByStepStep.weight), the last step is
+ * the result.
+ */
+
+import type { AnswerType } from '../math/answers';
+import type { QuantityMisconception } from '../math/units';
+import type { RubricBreakdown, RubricCriterion } from '../types';
+
+export const RUBRIC_WEIGHTS: Record<RubricCriterion, number> = {
+  approach: 0.2,
+  calculation: 0.3,
+  result: 0.25,
+  notation: 0.25,
+};
+
+export interface CriterionAssessment {
+  criterion: RubricCriterion;
+  score: number;
+  comment?: string;
+}
+
+export interface GradedStep {
+  stepNumber: number;
+  correct: boolean;
+  /** Relative weight, default 1 */
+  weight?: number;
+}
+
+/** Unit errors leave the value correct and cost the notation criterion */
+const NOTATION_ERRORS: ReadonlyArray<QuantityMisconception['id']> = ['missing_unit', 'wrong_unit'];
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export function scoreRubric(
+  assessments: CriterionAssessment[],
+  steps?: RubricBreakdown['steps']
+): RubricBreakdown {
+  const totalWeight = assessments.reduce((sum, a) => sum + RUBRIC_WEIGHTS[a.criterion], 0);
+  const criteria = assessments.map((a) => ({
+    criterion: a.criterion,
+    weight: totalWeight > 0 ? round(RUBRIC_WEIGHTS[a.criterion] / totalWeight) : 0,
+    score: round(Math.min(Math.max(a.score, 0), 1)),
+    ...(a.comment && { comment: a.comment }),
+  }));
+  const score =
+    totalWeight > 0
+      ? assessments.reduce(
+          (sum, a) => sum + RUBRIC_WEIGHTS[a.criterion] * Math.min(Math.max(a.score, 0), 1),
+          0
+        ) / totalWeight
+      : 0;
+
+  return { criteria, score: round(score), ...(steps && { steps }) };
+}
+
+/** Multiple choice: right or wrong, nothing else to judge */
+export function choiceRubric(isCorrect: boolean): RubricBreakdown {
+  return scoreRubric([{ criterion: 'result', score: isCorrect ? 1 : 0 }]);
+}
+
+export function stepRubric(graded: GradedStep[]): RubricBreakdown {
+  if (graded.length === 0) return scoreRubric([{ criterion: 'result', score: 0 }], []);
+
+  const steps = graded.map((s) => ({
+    stepNumber: s.stepNumber,
+    weight: s.weight !== undefined && s.weight >= 0 ? s.weight : 1,
+    correct: s.correct,
+  }));
+  const first = steps[0];
+  const last = steps[steps.length - 1];
+
+  const assessments: CriterionAssessment[] = [
+    { criterion: 'approach', score: first.correct ? 1 : 0 },
+  ];
+
+  const intermediate = steps.length > 1 ? steps.slice(0, -1) : [];
+  const intermediateWeight = intermediate.reduce((sum, s) => sum + s.weight, 0);
+  if (intermediateWeight > 0) {
+    const correctWeight = intermediate.filter((s) => s.correct).reduce((sum, s) => sum + s.weight, 0);
+    assessments.push({ criterion: 'calculation', score: correctWeight / intermediateWeight });
+  }
+
+  assessments.push({ criterion: 'result', score: last.correct ? 1 : 0 });
+  return scoreRubric(assessments, steps);
+}
+
+/**
+ * Free-form answers are judged on their result; quantities also on
+ * notation, so a correct value with a missing unit keeps the result points.
+ */
+export function freeFormRubric(
+  result: { isEquivalent: boolean; misconception?: { id: string } },
+  answerType: AnswerType
+): RubricBreakdown {
+  if (answerType !== 'quantity') {
+    return scoreRubric([{ criterion: 'result', score: result.isEquivalent ? 1 : 0 }]);
+  }
+
+  const unitError = NOTATION_ERRORS.some((id) => id === result.misconception?.id);
+  return scoreRubric([
+    { criterion: 'result', score: result.isEquivalent || unitError ? 1 : 0 },
+    {
+      criterion: 'notation',
+      score: result.isEquivalent ? 1 : 0,
+      ...(unitError && { comment: 'Einheit fehlt oder ist falsch' }),
+    },
+  ]);
+}
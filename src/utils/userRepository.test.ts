@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { Env } from '../index'
+
+const UID = 'student-uid-000000000001'
+const mockEnv = {} as Env
+
+async function makeRepo() {
+  vi.resetModules()
+  vi.doMock('./firebaseAuth', () => ({
+    getFirebaseConfig: vi.fn().mockResolvedValue({ projectId: 'p', accessToken: 't' }),
+  }))
+  const { createUserRepository } = await import('./userRepository')
+  return createUserRepository(mockEnv, UID)
+}
+
+describe('scopedPath', () => {
+  it('resolves paths under the user document', async () => {
+    const { scopedPath } = await import('./userRepository')
+    expect(scopedPath(UID, '')).toBe(`users/${UID}`)
+    expect(scopedPath(UID, 'memories/mem_1')).toBe(`users/${UID}/memories/mem_1`)
+  })
+
+  it('rejects traversal and empty segments', async () => {
+    const { scopedPath } = await import('./userRepository')
+    expect(() => scopedPath(UID, '../other-uid')).toThrow('Invalid document path')
+    expect(() => scopedPath(UID, 'memories//x')).toThrow('Invalid document path')
+    expect(() => scopedPath('a/b', 'memories')).toThrow('Invalid document path')
+  })
+})
+
+describe('createUserRepository', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reads documents inside the user subtree', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(
+      new Response(JSON.stringify({ name: `x/users/${UID}/memories/m1`, fields: {} }))
+    )
+    vi.stubGlobal('fetch', fetchMock)
+
+    const repo = await makeRepo()
+    const doc = await repo.get('memories/m1')
+
+    expect(doc).toEqual({ id: 'm1' })
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      `https://firestore.googleapis.com/v1/projects/p/databases/(default)/documents/users/${UID}/memories/m1`
+    )
+  })
+
+  it('queries subcollections with the user document as parent', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response(JSON.stringify([{ readTime: 'x' }])))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const repo = await makeRepo()
+    const rows = await repo.query('memories', { limit: 5 })
+
+    expect(rows).toEqual([])
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe(
+      `https://firestore.googleapis.com/v1/projects/p/databases/(default)/documents/users/${UID}:runQuery`
+    )
+    expect(JSON.parse(init.body).structuredQuery).toEqual({
+      limit: 5,
+      from: [{ collectionId: 'memories' }],
+    })
+  })
+
+  it('scopes commit write paths', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(new Response('{}'))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const repo = await makeRepo()
+    await repo.commit([{ path: '', increments: { 'stats.coins': -5 } }])
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body)
+    expect(body.writes[0].update.name).toBe(
+      `projects/p/databases/(default)/documents/users/${UID}`
+    )
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * User-scoped Firestore repository.
+ * Every read and write goes through the service account and is confined to
+ * users/{uid}/... — handlers get a repository for the authenticated uid and
+ * can no longer address other users' data or another project.
+ */
+
+import type { Env } from '../index';
+import { APIError } from '../types';
+import { getFirebaseConfig } from './firebaseAuth';
+import {
+  fsAggregate,
+  fsCommit,
+  fsDelete,
+  fsGet,
+  fsGetVersioned,
+  fsPatch,
+  fsQuery,
+  type FsAggregation,
+  type FsWrite,
+} from './firestore';
+
+export interface UserRepository {
+  readonly uid: string;
+  /** Read a document; '' is the user document itself. Returns null if missing. */
+  get(path: string): Promise<Record<string, unknown> | null>;
+  /** Read a document with its update time, for commits with an updateTime precondition. */
+  getVersioned(path: string): Promise<{ data: Record<string, unknown>; updateTime: string } | null>;
+  /** Full replace of a document. */
+  set(path: string, data: Record<string, unknown>): Promise<Record<string, unknown>>;
+  /** Partial update touching only the given dotted field paths. */
+  update(path: string, data: Record<string, unknown>, fieldPaths: string[]): Promise<void>;
+  delete(path: string): Promise<void>;
+  /** Structured query over a direct subcollection of the user document. */
+  query(
+    collectionId: string,
+    query?: Record<string, unknown>
+  ): Promise<Array<Record<string, unknown>>>;
+  /** Count/sum/avg over a direct subcollection without reading its documents. */
+  aggregate(
+    collectionId: string,
+    query: Record<string, unknown>,
+    aggregations: FsAggregation[]
+  ): Promise<Record<string, number | null>>;
+  /** Atomic batch; write paths are relative to the user document. */
+  commit(writes: FsWrite[]): Promise<void>;
+  /** Full resource name of a document, for referenceValue cursors and filters. */
+  reference(path: string): string;
+}
+
+// Firestore IDs we accept from callers: no slashes, no '.'/'..' segments
+const SEGMENT_PATTERN = /^[A-Za-z0-9_\-][A-Za-z0-9_\-.]*$/;
+
+function assertSegment(segment: string): void {
+  if (!SEGMENT_PATTERN.test(segment) || segment === '..') {
+    throw new APIError(`Invalid document path segment: ${segment}`, 400);
+  }
+}
+
+/** Resolve a user-relative path to an absolute document path. */
+export function scopedPath(uid: string, path: string): string {
+  assertSegment(uid);
+  if (!path) return `users/${uid}`;
+
+  const segments = path.split('/');
+  segments.forEach(assertSegment);
+  return `users/${uid}/${segments.join('/')}`;
+}
+
+export async function createUserRepository(env: Env, uid: string): Promise<UserRepository> {
+  const root = scopedPath(uid, '');
+  const { projectId, accessToken } = await getFirebaseConfig(env);
+
+  return {
+    uid,
+
+    get: (path) => fsGet(projectId, accessToken, scopedPath(uid, path)),
+
+    getVersioned: (path) => fsGetVersioned(projectId, accessToken, scopedPath(uid, path)),
+
+    set: (path, data) => fsPatch(projectId, accessToken, scopedPath(uid, path), data),
+
+    update: (path, data, fieldPaths) =>
+      fsCommit(projectId, accessToken, [
+        { path: scopedPath(uid, path), data, updateMask: fieldPaths },
+      ]),
+
+    delete: (path) => fsDelete(projectId, accessToken, scopedPath(uid, path)),
+
+    query: (collectionId, query = {}) => {
+      assertSegment(collectionId);
+      return fsQuery(projectId, accessToken, root, {
+        ...query,
+        from: [{ collectionId }],
+      });
+    },
+
+    aggregate: (collectionId, query, aggregations) => {
+      assertSegment(collectionId);
+      return fsAggregate(projectId, accessToken, root, { ...query, from: [{ collectionId }] }, aggregations);
+    },
+
+    commit: (writes) =>
+      fsCommit(
+        projectId,
+        accessToken,
+        writes.map((w) => ({ ...w, path: scopedPath(uid, w.path) }))
+      ),
+
+    reference: (path) =>
+      `projects/${projectId}/databases/(default)/documents/${scopedPath(uid, path)}`,
+  };
+}
@@ -0,0 +1,80 @@
+// src/utils/verifyStudentToken.test.ts
+import { describe, it, expect, vi } from 'vitest'
+import { requireStudent, type StudentEnv } from './verifyStudentToken'
+import { _verifyRef } from './verifyTeacherToken'
+import { Hono } from 'hono'
+import type { Env } from '../index'
+
+const PROJECT_ID = 'test-project'
+const mockEnv = { FIREBASE_SERVICE_ACCOUNT: JSON.stringify({ project_id: PROJECT_ID }) } as Env
+
+describe('requireStudent middleware', () => {
+  function makeApp() {
+    const app = new Hono<StudentEnv>()
+    app.use('*', requireStudent)
+    app.post('/', (c) => c.json({ uid: c.get('studentUid') }))
+    return app
+  }
+
+  it('returns 401 with no Authorization header', async () => {
+    const app = makeApp()
+    const res = await app.fetch(new Request('http://localhost/', { method: 'POST' }), mockEnv)
+    expect(res.status).toBe(401)
+  })
+
+  it('returns 401 when verification fails', async () => {
+    const spy = vi.spyOn(_verifyRef, 'fn').mockRejectedValueOnce(new Error('Invalid signature'))
+
+    const app = makeApp()
+    const res = await app.fetch(
+      new Request('http://localhost/', { method: 'POST', headers: { Authorization: 'Bearer aaa.bbb.ccc' } }),
+      mockEnv
+    )
+    expect(res.status).toBe(401)
+
+    spy.mockRestore()
+  })
+
+  it('returns 401 for a token with an implausible sub, like teacher routes', async () => {
+    const spy = vi.spyOn(_verifyRef, 'fn').mockResolvedValueOnce({
+      sub: 'short',
+      iss: `https://securetoken.google.com/${PROJECT_ID}`,
+      aud: PROJECT_ID,
+      exp: 9999999999,
+      iat: 0,
+    })
+
+    const app = makeApp()
+    const res = await app.fetch(
+      new Request('http://localhost/', { method: 'POST', headers: { Authorization: 'Bearer aaa.bbb.ccc' } }),
+      mockEnv
+    )
+    expect(res.status).toBe(401)
+
+    spy.mockRestore()
+  })
+
+  it('exposes the verified uid, ignoring any userId in the body', async () => {
+    const spy = vi.spyOn(_verifyRef, 'fn').mockResolvedValueOnce({
+      sub: 'verified-student-uid',
+      iss: `https://securetoken.google.com/${PROJECT_ID}`,
+      aud: PROJECT_ID,
+      exp: 9999999999,
+      iat: 0,
+    })
+
+    const app = makeApp()
+    const res = await app.fetch(
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer aaa.bbb.ccc', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: 'someone-else' }),
+      }),
+      mockEnv
+    )
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ uid: 'verified-student-uid' })
+
+    spy.mockRestore()
+  })
+})
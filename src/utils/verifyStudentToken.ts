@@ -0,0 +1,27 @@
+// src/utils/verifyStudentToken.ts
+/**
+ * Firebase ID Token authentication for learner routes.
+ * Any signed-in Firebase user passes; the verified uid is exposed as
+ * `studentUid` so handlers never trust a userId from the request body.
+ */
+
+import type { Env } from '../index';
+import type { MiddlewareHandler } from 'hono';
+import type { AIProviderType } from './callAI';
+import { verifyBearer } from './verifyTeacherToken';
+
+/** Hono environment for handlers mounted behind requireStudent */
+export type StudentEnv = {
+  Bindings: Env;
+  /** aiClassIds and aiAllowedProviders are set by the aiQuota middleware */
+  Variables: { studentUid: string; aiClassIds?: string[]; aiAllowedProviders?: AIProviderType[] };
+};
+
+export const requireStudent: MiddlewareHandler<StudentEnv> = async (c, next) => {
+  const ip = c.req.header('cf-connecting-ip') ?? c.req.header('x-forwarded-for') ?? 'unknown';
+  const payload = await verifyBearer(c, ip);
+  if (payload instanceof Response) return payload;
+
+  c.set('studentUid', payload.sub);
+  await next();
+};
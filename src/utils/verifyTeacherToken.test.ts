@@ -1,6 +1,6 @@
 // src/utils/verifyTeacherToken.test.ts
 import { describe, it, expect, vi } from 'vitest'
-import { verifyFirebaseIdToken, requireTeacher, _verifyRef } from './verifyTeacherToken'
+import { verifyFirebaseIdToken, requireTeacher, requireAdmin, _verifyRef, type TeacherVariables } from './verifyTeacherToken'
 import { Hono } from 'hono'
 import type { Env } from '../index'
 
@@ -131,4 +131,92 @@ describe('requireTeacher middleware', () => {
 
     spy.mockRestore()
   })
+  function claims(extra: object) {
+    return {
+      sub: 'teacher-uid-0123456789',
+      iss: `https://securetoken.google.com/${PROJECT_ID}`,
+      aud: PROJECT_ID,
+      exp: 9999999999,
+      iat: 0,
+      ...extra,
+    }
+  }
+
+  it('sets the school from the schoolId claim', async () => {
+    const spy = vi.spyOn(_verifyRef, 'fn').mockResolvedValueOnce(claims({ role: 'school-admin', schoolId: 'gym-nord' }))
+
+    const app = new Hono<{ Bindings: Env; Variables: TeacherVariables }>()
+    app.use('*', requireTeacher)
+    app.get('/', (c) => c.json({ schoolId: c.get('schoolId'), role: c.get('teacherRole') }))
+    const res = await app.fetch(
+      new Request('http://localhost/', { headers: { Authorization: 'Bearer aaa.bbb.ccc' } }),
+      mockEnv
+    )
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ schoolId: 'gym-nord', role: 'school-admin' })
+
+    spy.mockRestore()
+  })
+
+  it('returns 403 for a school admin without a schoolId claim', async () => {
+    const spy = vi.spyOn(_verifyRef, 'fn').mockResolvedValueOnce(claims({ role: 'school-admin' }))
+
+    const app = makeApp()
+    const res = await app.fetch(
+      new Request('http://localhost/', { headers: { Authorization: 'Bearer aaa.bbb.ccc' } }),
+      mockEnv
+    )
+    expect(res.status).toBe(403)
+
+    spy.mockRestore()
+  })
+})
+
+describe('requireAdmin middleware', () => {
+  function makeApp() {
+    const app = new Hono<{ Bindings: Env; Variables: { adminUid: string; schoolId: string } }>()
+    app.use('*', requireAdmin)
+    app.get('/', (c) => c.json({ uid: c.get('adminUid'), schoolId: c.get('schoolId') }))
+    return app
+  }
+
+  function withClaims(extra: object) {
+    return vi.spyOn(_verifyRef, 'fn').mockResolvedValueOnce({
+      sub: 'admin-uid-0123456789',
+      iss: `https://securetoken.google.com/${PROJECT_ID}`,
+      aud: PROJECT_ID,
+      exp: 9999999999,
+      iat: 0,
+      ...extra,
+    })
+  }
+
+  const request = () => new Request('http://localhost/', { headers: { Authorization: 'Bearer aaa.bbb.ccc' } })
+
+  it('returns 401 with no Authorization header', async () => {
+    const res = await makeApp().fetch(new Request('http://localhost/'), mockEnv)
+    expect(res.status).toBe(401)
+  })
+
+  it('returns 403 for a teacher without the admin claim', async () => {
+    const spy = withClaims({ role: 'school-admin', schoolId: 'gym-nord' })
+    const res = await makeApp().fetch(request(), mockEnv)
+    expect(res.status).toBe(403)
+    spy.mockRestore()
+  })
+
+  it('returns 403 for an admin without a schoolId claim', async () => {
+    const spy = withClaims({ admin: true })
+    const res = await makeApp().fetch(request(), mockEnv)
+    expect(res.status).toBe(403)
+    spy.mockRestore()
+  })
+
+  it('sets the admin and school from the claims', async () => {
+    const spy = withClaims({ admin: true, schoolId: 'gym-nord' })
+    const res = await makeApp().fetch(request(), mockEnv)
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ uid: 'admin-uid-0123456789', schoolId: 'gym-nord' })
+    spy.mockRestore()
+  })
 })
@@ -6,7 +6,8 @@
  */
 
 import type { Env } from '../index';
-import type { MiddlewareHandler } from 'hono';
+import type { Context, MiddlewareHandler } from 'hono';
+import { LEGACY_SCHOOL_ID, SCHOOL_ID_PATTERN } from './schools';
 
 interface JWTPayload {
   iss: string;
@@ -16,8 +17,27 @@ interface JWTPayload {
   iat: number;
   email?: string;
   role?: string;
+  /** School the teacher belongs to (custom claim next to `role`) */
+  schoolId?: string;
+  /** Administrator of the school in `schoolId`, see requireAdmin */
+  admin?: boolean;
 }
 
+/** `school-admin` manages the teachers and classes of its school */
+export type TeacherRole = 'teacher' | 'school-admin';
+
+const TEACHER_ROLES: TeacherRole[] = ['teacher', 'school-admin'];
+
+/** Variables set by requireTeacher */
+export type TeacherVariables = { teacherUid: string; schoolId: string; teacherRole: TeacherRole };
+
+export type TeacherEnv = { Bindings: Env; Variables: TeacherVariables };
+
+/** Variables set by requireAdmin */
+export type AdminVariables = { adminUid: string; schoolId: string };
+
+export type AdminEnv = { Bindings: Env; Variables: AdminVariables };
+
 interface CachedKeys {
   keys: Record<string, CryptoKey>;
   expiresAt: number;
@@ -91,15 +111,16 @@ export async function verifyFirebaseIdToken(
 // Indirection object so tests can spy on verifyFirebaseIdToken via _verifyRef.fn
 export const _verifyRef = { fn: verifyFirebaseIdToken };
 
-export const requireTeacher: MiddlewareHandler<{
-  Bindings: Env;
-  Variables: { teacherUid: string };
-}> = async (c, next) => {
-  const ip = c.req.header('cf-connecting-ip') ?? c.req.header('x-forwarded-for') ?? 'unknown';
+/**
+ * Verify the Bearer token of a request. Returns the payload, or the 401
+ * response to send when the token is missing or invalid. Shared by the
+ * learner, teacher and admin middlewares.
+ */
+export async function verifyBearer(c: Context, ip: string): Promise<JWTPayload | Response> {
   const authHeader = c.req.header('Authorization');
 
   if (!authHeader?.startsWith('Bearer ')) {
-    console.warn(`[auth] Teacher route accessed without Bearer token — ip=${ip} path=${c.req.path}`);
+    console.warn(`[auth] Protected route accessed without Bearer token — ip=${ip} path=${c.req.path}`);
     return c.json({ success: false, error: 'Unauthorized' }, 401);
   }
 
@@ -119,17 +140,62 @@ export const requireTeacher: MiddlewareHandler<{
       console.warn(`[auth] Token with invalid sub — ip=${ip}`);
       return c.json({ success: false, error: 'Unauthorized' }, 401);
     }
-
-    if (payload.role !== 'teacher') {
-      console.warn(`[auth] Forbidden — uid=${payload.sub.substring(0, 8)}… has role="${payload.role}" ip=${ip}`);
-      return c.json({ success: false, error: 'Forbidden: teacher role required' }, 403);
-    }
-
-    c.set('teacherUid', payload.sub);
-    await next();
+    return payload;
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     console.warn(`[auth] Token verification failed — ${msg} ip=${ip} path=${c.req.path}`);
     return c.json({ success: false, error: 'Unauthorized' }, 401);
   }
+}
+
+/**
+ * Teacher routes: the token must carry `role: "teacher"` or
+ * `role: "school-admin"`. The `schoolId` claim scopes every query to one
+ * school; teacher tokens issued before tenancy have none and belong to
+ * LEGACY_SCHOOL_ID, while school admins must always have one.
+ */
+export const requireTeacher: MiddlewareHandler<TeacherEnv> = async (c, next) => {
+  const ip = c.req.header('cf-connecting-ip') ?? c.req.header('x-forwarded-for') ?? 'unknown';
+  const payload = await verifyBearer(c, ip);
+  if (payload instanceof Response) return payload;
+
+  if (!TEACHER_ROLES.includes(payload.role as TeacherRole)) {
+    console.warn(`[auth] Forbidden — uid=${payload.sub.substring(0, 8)}… has role="${payload.role}" ip=${ip}`);
+    return c.json({ success: false, error: 'Forbidden: teacher role required' }, 403);
+  }
+
+  const role = payload.role as TeacherRole;
+  if (payload.schoolId !== undefined ? !SCHOOL_ID_PATTERN.test(payload.schoolId) : role === 'school-admin') {
+    console.warn(`[auth] Forbidden — uid=${payload.sub.substring(0, 8)}… has invalid schoolId claim ip=${ip}`);
+    return c.json({ success: false, error: 'Forbidden: school assignment required' }, 403);
+  }
+
+  c.set('teacherUid', payload.sub);
+  c.set('schoolId', payload.schoolId ?? LEGACY_SCHOOL_ID);
+  c.set('teacherRole', role);
+  await next();
+};
+
+/**
+ * Admin routes (/api/admin/*): the token must carry `admin: true` and a
+ * `schoolId` claim. The claim is independent of `role`, so an admin need not
+ * be a teacher; the admin API only reaches the school in `schoolId`.
+ */
+export const requireAdmin: MiddlewareHandler<AdminEnv> = async (c, next) => {
+  const ip = c.req.header('cf-connecting-ip') ?? c.req.header('x-forwarded-for') ?? 'unknown';
+  const payload = await verifyBearer(c, ip);
+  if (payload instanceof Response) return payload;
+
+  if (payload.admin !== true) {
+    console.warn(`[auth] Forbidden — uid=${payload.sub.substring(0, 8)}… has no admin claim ip=${ip} path=${c.req.path}`);
+    return c.json({ success: false, error: 'Forbidden: admin claim required' }, 403);
+  }
+  if (!payload.schoolId || !SCHOOL_ID_PATTERN.test(payload.schoolId)) {
+    console.warn(`[auth] Forbidden — admin uid=${payload.sub.substring(0, 8)}… has invalid schoolId claim ip=${ip}`);
+    return c.json({ success: false, error: 'Forbidden: school assignment required' }, 403);
+  }
+
+  c.set('adminUid', payload.sub);
+  c.set('schoolId', payload.schoolId);
+  await next();
 };